@@ -1,13 +1,20 @@
 /**
  * Admin: Batch Embedding Generation
  * POST /api/admin/generate-embeddings
- * 모든 FAQ에 대해 임베딩을 생성하고 DB에 저장
+ * Body: { workspaceId: string }
+ * 워크스페이스의 모든 FAQ에 대해 임베딩을 생성하고 DB에 저장 (editor 이상)
  */
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { getSupabaseAdmin } from "../gemini/_lib/supabaseAdmin.js";
 import { generateEmbedding } from "../gemini/_lib/geminiClient.js";
-import { extractToken, validateToken } from "../gemini/_lib/validateRequest.js";
+import {
+  extractToken,
+  validateToken,
+  parseRequestBody,
+  validateRequiredFields,
+} from "../gemini/_lib/validateRequest.js";
+import { hasWorkspacePermission } from "../gemini/_lib/workspace.js";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader("Access-Control-Allow-Origin", "*");
@@ -30,18 +37,39 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     const validation = await validateToken(token);
-    if (!validation.valid) {
+    if (!validation.valid || !validation.userId) {
       return res
         .status(401)
         .json({ error: validation.error || "Invalid token" });
     }
 
+    const body = await parseRequestBody<{ workspaceId: string }>(req);
+    const fieldsValidation = validateRequiredFields(body, ["workspaceId"]);
+    if (!fieldsValidation.valid) {
+      return res.status(400).json({
+        error: "Missing required fields",
+        missingFields: fieldsValidation.missingFields,
+      });
+    }
+
+    // RLS를 우회하므로 워크스페이스 역할 직접 확인
+    if (
+      !(await hasWorkspacePermission(
+        body.workspaceId,
+        validation.userId,
+        "editContent",
+      ))
+    ) {
+      return res.status(403).json({ error: "Permission denied" });
+    }
+
     const supabaseAdmin = getSupabaseAdmin();
 
     // 임베딩이 없는 FAQ 조회 (service role key로 RLS 우회)
     const { data: faqs, error: fetchError } = await supabaseAdmin
       .from("faqs")
       .select("id, question, answer")
+      .eq("workspace_id", body.workspaceId)
       .or("question_embedding.is.null,answer_embedding.is.null")
       .eq("is_active", true)
       .order("id", { ascending: true });
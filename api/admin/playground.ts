@@ -0,0 +1,201 @@
+/**
+ * Admin: Chat Playground
+ * POST /api/admin/playground
+ * Body: {
+ *   workspaceId: string,
+ *   message: string,
+ *   history?: Array<{role: "user" | "assistant", content: string}>,
+ *   settings?: { limit, minSimilarity, includeFaqs, includeChunks, instructions? }
+ * }
+ * Response: PlaygroundResponse (src/types.ts)
+ * /api/chat과 같은 파이프라인을 실행하되 chat_sessions / chat_messages에 기록하지 않음 (editor 이상)
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type {
+  ConversationTurn,
+  PlaygroundResponse,
+  PlaygroundSettings,
+} from "../../src/types.js";
+import { buildConversationWindow } from "../../src/services/conversationMemory.js";
+import {
+  extractToken,
+  validateToken,
+  parseRequestBody,
+  validateRequiredFields,
+} from "../gemini/_lib/validateRequest.js";
+import { hasWorkspacePermission } from "../gemini/_lib/workspace.js";
+import { runChatPipeline } from "../gemini/_lib/chatPipeline.js";
+import { rewriteFollowUpQuery } from "../gemini/_lib/queryRewriter.js";
+import { RAG_INSTRUCTIONS } from "../gemini/_lib/ragPrompt.js";
+import { setWidgetCorsHeaders } from "../gemini/_lib/widgetSettings.js";
+import { loadFallbackMessage } from "../gemini/_lib/workspaceSettings.js";
+
+interface PlaygroundBody {
+  workspaceId: string;
+  message: string;
+  history?: ConversationTurn[];
+  settings?: Partial<PlaygroundSettings>;
+}
+
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_LIMIT = 20;
+const MAX_INSTRUCTIONS_LENGTH = 8000;
+
+/**
+ * 조건 값 검증 (범위 밖이면 오류 메시지)
+ */
+function validateSettings(
+  settings: Partial<PlaygroundSettings>,
+): string | null {
+  const { limit, minSimilarity, instructions } = settings;
+  if (
+    limit !== undefined &&
+    (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT)
+  ) {
+    return `limit must be an integer between 1 and ${MAX_LIMIT}`;
+  }
+  if (
+    minSimilarity !== undefined &&
+    (typeof minSimilarity !== "number" ||
+      minSimilarity < 0 ||
+      minSimilarity > 1)
+  ) {
+    return "minSimilarity must be between 0 and 1";
+  }
+  if (
+    instructions !== undefined &&
+    (typeof instructions !== "string" ||
+      instructions.length > MAX_INSTRUCTIONS_LENGTH)
+  ) {
+    return `instructions must be at most ${MAX_INSTRUCTIONS_LENGTH} characters`;
+  }
+  if (settings.includeFaqs === false && settings.includeChunks === false) {
+    return "At least one of includeFaqs / includeChunks is required";
+  }
+  return null;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  await setWidgetCorsHeaders(req, res, "POST, OPTIONS");
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end();
+  }
+
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 25000);
+
+  try {
+    const token = extractToken(req);
+    if (!token) {
+      return res.status(401).json({ error: "Authorization token required" });
+    }
+
+    const validation = await validateToken(token);
+    if (!validation.valid || !validation.userId) {
+      return res
+        .status(401)
+        .json({ error: validation.error || "Invalid token" });
+    }
+
+    const body = await parseRequestBody<PlaygroundBody>(req);
+    const fieldsValidation = validateRequiredFields(body, [
+      "workspaceId",
+      "message",
+    ]);
+    if (!fieldsValidation.valid) {
+      return res.status(400).json({
+        error: "Missing required fields",
+        missingFields: fieldsValidation.missingFields,
+      });
+    }
+
+    const message = String(body.message).trim();
+    if (!message || message.length > MAX_MESSAGE_LENGTH) {
+      return res.status(400).json({
+        error: `message must be 1-${MAX_MESSAGE_LENGTH} characters`,
+      });
+    }
+
+    const settings = body.settings || {};
+    const settingsError = validateSettings(settings);
+    if (settingsError) {
+      return res.status(400).json({ error: settingsError });
+    }
+
+    // 지식베이스 전체를 조회하므로 워크스페이스 역할 직접 확인
+    if (
+      !(await hasWorkspacePermission(
+        body.workspaceId,
+        validation.userId,
+        "editContent",
+      ))
+    ) {
+      return res.status(403).json({ error: "Permission denied" });
+    }
+
+    const startedAt = Date.now();
+    const history = buildConversationWindow(
+      Array.isArray(body.history) ? body.history : [],
+    );
+    const query = await rewriteFollowUpQuery(
+      message,
+      history,
+      controller.signal,
+    );
+    const instructions = settings.instructions?.trim() || undefined;
+
+    // /api/chat과 달리 세션/메시지 기록 없음
+    const result = await runChatPipeline(query, {
+      fallbackMessage: await loadFallbackMessage(body.workspaceId),
+      history,
+      workspaceId: body.workspaceId,
+      search: {
+        limit: settings.limit,
+        minSimilarity: settings.minSimilarity,
+        includeFaqs: settings.includeFaqs,
+        includeChunks: settings.includeChunks,
+      },
+      instructions,
+      signal: controller.signal,
+    });
+
+    const response: PlaygroundResponse = {
+      answer: result.answer,
+      answerType: result.answerType,
+      confidence: result.confidence,
+      faq: result.faq,
+      relatedChunks: result.relatedChunks,
+      relatedDocuments: result.relatedDocuments,
+      citations: result.citations,
+      category: result.category,
+      responseTime: Date.now() - startedAt,
+      rewrittenQuery: query !== message ? query : undefined,
+      retrievalTrace: result.retrievalTrace,
+      instructions: instructions ?? RAG_INSTRUCTIONS,
+    };
+
+    return res.status(200).json(response);
+  } catch (error) {
+    console.error("Playground error:", error);
+
+    if (error instanceof Error && error.name === "AbortError") {
+      return res.status(504).json({ error: "Request timeout" });
+    }
+
+    return res
+      .status(500)
+      .json({
+        error:
+          (error instanceof Error && error.message) ||
+          "Failed to run playground",
+      });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
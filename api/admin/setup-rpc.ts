@@ -1,6 +1,7 @@
 /**
  * Admin: Setup RPC Functions
  * POST /api/admin/setup-rpc
+ * Body: { workspaceId: string } (워크스페이스 owner만)
  * pgvector RPC 함수를 Supabase에 생성
  * supabase-js는 DDL을 지원하지 않으므로, @supabase/supabase-js의 rpc를 통해
  * 이미 존재하는 함수를 확인하고, 없으면 안내 메시지를 반환합니다.
@@ -8,7 +9,13 @@
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { getSupabaseAdmin } from "../gemini/_lib/supabaseAdmin.js";
-import { extractToken, validateToken } from "../gemini/_lib/validateRequest.js";
+import {
+  extractToken,
+  validateToken,
+  parseRequestBody,
+  validateRequiredFields,
+} from "../gemini/_lib/validateRequest.js";
+import { hasWorkspacePermission } from "../gemini/_lib/workspace.js";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader("Access-Control-Allow-Origin", "*");
@@ -30,12 +37,31 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     const validation = await validateToken(token);
-    if (!validation.valid) {
+    if (!validation.valid || !validation.userId) {
       return res
         .status(401)
         .json({ error: validation.error || "Invalid token" });
     }
 
+    const body = await parseRequestBody<{ workspaceId: string }>(req);
+    const fieldsValidation = validateRequiredFields(body, ["workspaceId"]);
+    if (!fieldsValidation.valid) {
+      return res.status(400).json({
+        error: "Missing required fields",
+        missingFields: fieldsValidation.missingFields,
+      });
+    }
+
+    if (
+      !(await hasWorkspacePermission(
+        body.workspaceId,
+        validation.userId,
+        "manageSettings",
+      ))
+    ) {
+      return res.status(403).json({ error: "Permission denied" });
+    }
+
     const supabaseAdmin = getSupabaseAdmin();
 
     // RPC 함수 존재 여부 확인
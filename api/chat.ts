@@ -0,0 +1,232 @@
+/**
+ * Chat Endpoint (서버사이드 RAG 파이프라인)
+ * POST /api/chat
+ * Body: {
+ *   sessionId: string,
+ *   message: string,
+ *   stream?: boolean,
+ *   history?: Array<{role: "user" | "assistant", content: string}>,
+ *   workspaceId?: string (미지정 시 기본 워크스페이스)
+ * }
+ * 답변 불가 안내 문구는 워크스페이스 설정(settings)으로 서버에서 조합
+ * CORS는 위젯 허용 Origin만 (같은 Origin 요청은 CORS 불필요)
+ * Response: ChatResponse (src/types.ts)
+ *   stream=true면 text/event-stream
+ *   data: {"type":"delta","text":"..."}
+ *   data: {"type":"done","response":ChatResponse}
+ *   data: {"type":"error","error":"..."}
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { ChatResponse, ConversationTurn } from "../src/types.js";
+import { buildConversationWindow } from "../src/services/conversationMemory.js";
+import {
+  extractToken,
+  validateToken,
+  parseRequestBody,
+  validateRequiredFields,
+} from "./gemini/_lib/validateRequest.js";
+import { runChatPipeline } from "./gemini/_lib/chatPipeline.js";
+import {
+  ensureChatSession,
+  logChatMessage,
+  updateChatSessionResolution,
+} from "./gemini/_lib/chatLogger.js";
+import { startEventStream, sendEvent } from "./gemini/_lib/sse.js";
+import { rewriteFollowUpQuery } from "./gemini/_lib/queryRewriter.js";
+import { resolveAccessibleWorkspace } from "./gemini/_lib/workspace.js";
+import { setWidgetCorsHeaders } from "./gemini/_lib/widgetSettings.js";
+import { loadFallbackMessage } from "./gemini/_lib/workspaceSettings.js";
+
+interface ChatBody {
+  sessionId: string;
+  message: string;
+  stream?: boolean;
+  history?: ConversationTurn[];
+  workspaceId?: string;
+}
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS 헤더 설정 (위젯 허용 Origin만)
+  await setWidgetCorsHeaders(req, res, "POST, OPTIONS");
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end();
+  }
+
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  // 스트림 시작 여부 (시작 후에는 JSON 에러 응답 불가)
+  let streamStarted = false;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 25000);
+
+  try {
+    // JWT 토큰 검증 (선택적: 공개 챗봇)
+    const token = extractToken(req);
+    let userId: string | undefined;
+    if (token) {
+      const validation = await validateToken(token);
+      if (!validation.valid) {
+        return res
+          .status(401)
+          .json({ error: validation.error || "Invalid token" });
+      }
+      userId = validation.userId;
+    }
+
+    // 요청 body 파싱
+    const body = await parseRequestBody<ChatBody>(req);
+
+    // 필수 필드 검증
+    const fieldsValidation = validateRequiredFields(body, [
+      "sessionId",
+      "message",
+    ]);
+    if (!fieldsValidation.valid) {
+      return res.status(400).json({
+        error: "Missing required fields",
+        missingFields: fieldsValidation.missingFields,
+      });
+    }
+
+    const message = String(body.message).trim();
+    if (!message || message.length > MAX_MESSAGE_LENGTH) {
+      return res.status(400).json({
+        error: `message must be 1-${MAX_MESSAGE_LENGTH} characters`,
+      });
+    }
+
+    // 워크스페이스 접근 검증 (비공개 워크스페이스는 멤버만)
+    const workspace = await resolveAccessibleWorkspace(
+      { id: body.workspaceId || undefined },
+      userId,
+    );
+    if (!workspace) {
+      return res.status(404).json({ error: "Workspace not found" });
+    }
+
+    // 다른 워크스페이스 세션 ID로는 기록/응답하지 않음
+    const isOwnSession = await ensureChatSession(
+      body.sessionId,
+      workspace.id,
+      userId,
+    );
+    if (!isOwnSession) {
+      return res
+        .status(403)
+        .json({ error: "Session belongs to another workspace" });
+    }
+
+    // 클라이언트 연결 종료 시 Gemini 요청도 중단
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    if (body.stream) {
+      startEventStream(res);
+      streamStarted = true;
+    }
+
+    const userTimestamp = new Date();
+
+    // 이전 대화 (클라이언트 전달값도 서버에서 예산 재적용)
+    const history = buildConversationWindow(
+      Array.isArray(body.history) ? body.history : [],
+    );
+
+    // 후속 질문 → 독립 검색 질의 재작성
+    const query = await rewriteFollowUpQuery(
+      message,
+      history,
+      controller.signal,
+    );
+    const rewrittenQuery = query !== message ? query : undefined;
+
+    // 사용자 메시지 기록 (재작성 질의 포함)
+    await logChatMessage(body.sessionId, {
+      sender: "user",
+      message,
+      timestamp: userTimestamp,
+      rewrittenQuery,
+    });
+
+    // 검색 → 재순위화 → 생성
+    const result = await runChatPipeline(query, {
+      fallbackMessage: await loadFallbackMessage(workspace.id),
+      history,
+      workspaceId: workspace.id,
+      signal: controller.signal,
+      onDelta: body.stream
+        ? (text) => sendEvent(res, { type: "delta", text })
+        : undefined,
+    });
+
+    // 봇 응답 기록 + 세션 해결 여부 갱신
+    const botTimestamp = new Date();
+    const responseTime = botTimestamp.getTime() - userTimestamp.getTime();
+    const messageId = await logChatMessage(body.sessionId, {
+      sender: "bot",
+      message: result.answer,
+      timestamp: botTimestamp,
+      responseTime,
+      confidence: result.confidence,
+      sourceFaq: result.sourceFaqId,
+      sourceChunks: result.sourceChunkIds,
+      retrievalTrace: result.retrievalTrace,
+    });
+    await updateChatSessionResolution(
+      body.sessionId,
+      result.isResolved,
+      result.category,
+    );
+
+    const response: ChatResponse = {
+      sessionId: body.sessionId,
+      messageId,
+      answer: result.answer,
+      answerType: result.answerType,
+      confidence: result.confidence,
+      faq: result.faq,
+      relatedChunks: result.relatedChunks,
+      relatedDocuments: result.relatedDocuments,
+      citations: result.citations,
+      isResolved: result.isResolved,
+      category: result.category,
+      responseTime,
+      rewrittenQuery,
+    };
+
+    if (streamStarted) {
+      sendEvent(res, { type: "done", response });
+      return res.end();
+    }
+
+    return res.status(200).json(response);
+  } catch (error) {
+    console.error("Chat error:", error);
+
+    const message =
+      error instanceof Error && error.name === "AbortError"
+        ? "Request timeout"
+        : (error instanceof Error && error.message) ||
+          "Failed to process chat message";
+
+    if (streamStarted) {
+      sendEvent(res, { type: "error", error: message });
+      return res.end();
+    }
+
+    if (message === "Request timeout") {
+      return res.status(504).json({ error: "Request timeout" });
+    }
+
+    return res.status(500).json({ error: message });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Chat Logger (Server-side)
+ * chat_sessions / chat_messages / chat_message_traces 기록 (Service Role, 실패해도 응답은 계속 진행)
+ */
+
+import type { RetrievalTrace } from "../../../src/types.js";
+import { getSupabaseAdmin } from "./supabaseAdmin.js";
+
+export interface ChatLogEntry {
+  sender: "user" | "bot";
+  message: string;
+  timestamp: Date;
+  responseTime?: number;
+  confidence?: number;
+  sourceFaq?: number;
+  /** 후속 질문 재작성 결과 (감사용, 사용자 메시지에만 기록) */
+  rewrittenQuery?: string;
+  /** 답변 근거 청크 ID (청크별 피드백 집계용) */
+  sourceChunks?: number[];
+  /** 검색 추적 (봇 메시지에만 chat_message_traces로 기록, 응답에는 포함하지 않음) */
+  retrievalTrace?: RetrievalTrace;
+}
+
+/**
+ * 세션이 없으면 생성 (클라이언트가 먼저 생성한 세션은 그대로 유지)
+ * 기존 세션이 다른 워크스페이스 소속이거나 확인되지 않으면 false (해당 세션에 기록하지 않음)
+ * 생성/조회 실패는 예외 (세션 검증 없이 진행하지 않도록)
+ * 메시지의 workspace_id는 DB 트리거가 세션에서 채움
+ */
+export async function ensureChatSession(
+  sessionId: string,
+  workspaceId: string,
+  userId?: string,
+): Promise<boolean> {
+  const supabase = getSupabaseAdmin();
+
+  const { error } = await supabase.from("chat_sessions").upsert(
+    {
+      session_id: sessionId,
+      user_name: "익명 사용자",
+      start_time: new Date().toISOString(),
+      status: "ongoing",
+      user_id: userId || null,
+      workspace_id: workspaceId,
+    },
+    { onConflict: "session_id", ignoreDuplicates: true },
+  );
+
+  if (error) {
+    throw new Error(`Chat session ensure error: ${error.message}`);
+  }
+
+  const { data, error: selectError } = await supabase
+    .from("chat_sessions")
+    .select("workspace_id")
+    .eq("session_id", sessionId)
+    .maybeSingle();
+
+  if (selectError) {
+    throw new Error(`Chat session lookup error: ${selectError.message}`);
+  }
+
+  // 생성 직후인데 조회되지 않으면 확인 불가로 보고 기록하지 않음
+  return data?.workspace_id === workspaceId;
+}
+
+/**
+ * 메시지 저장 + 세션 메시지 카운트 증가
+ */
+export async function logChatMessage(
+  sessionId: string,
+  entry: ChatLogEntry,
+): Promise<number | undefined> {
+  const supabase = getSupabaseAdmin();
+
+  const { data, error } = await supabase
+    .from("chat_messages")
+    .insert({
+      session_id: sessionId,
+      timestamp: entry.timestamp.toISOString(),
+      sender: entry.sender,
+      message: entry.message,
+      message_type: "text",
+      response_time: entry.responseTime ?? null,
+      confidence: entry.confidence ?? null,
+      source_faq: entry.sourceFaq ?? null,
+      rewritten_query: entry.rewrittenQuery ?? null,
+      source_chunks: entry.sourceChunks?.length ? entry.sourceChunks : null,
+    })
+    .select("id, workspace_id")
+    .single();
+
+  if (error) {
+    console.error("Chat message log error:", error.message);
+    return undefined;
+  }
+
+  // 검색 추적은 멤버 전용 테이블에 별도 기록
+  if (entry.retrievalTrace) {
+    const { error: traceError } = await supabase
+      .from("chat_message_traces")
+      .insert({
+        message_id: data.id,
+        workspace_id: data.workspace_id,
+        trace: entry.retrievalTrace,
+      });
+
+    if (traceError) {
+      console.error("Retrieval trace log error:", traceError.message);
+    }
+  }
+
+  const { data: sessionData } = await supabase
+    .from("chat_sessions")
+    .select("message_count")
+    .eq("session_id", sessionId)
+    .single();
+
+  await supabase
+    .from("chat_sessions")
+    .update({
+      message_count: (sessionData?.message_count ?? 0) + 1,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("session_id", sessionId);
+
+  return data.id;
+}
+
+/**
+ * 세션 해결 여부/카테고리 갱신
+ */
+export async function updateChatSessionResolution(
+  sessionId: string,
+  isResolved: boolean,
+  category?: string,
+): Promise<void> {
+  const { error } = await getSupabaseAdmin()
+    .from("chat_sessions")
+    .update({
+      is_resolved: isResolved,
+      ...(category ? { category } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("session_id", sessionId);
+
+  if (error) {
+    console.error("Chat session update error:", error.message);
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Document Analysis (Server-side)
+ * 문서 요약 / 주요 주제 / FAQ 생성 (analyze-document 엔드포인트와 ingestion 워커 공용)
+ */
+
+import { getGeminiClient, getGeminiModel } from "./geminiClient.js";
+
+// Gemini 문서 분석 타임아웃 (45초)
+const ANALYSIS_TIMEOUT = 45000;
+
+export interface DocumentFaqAnalysis {
+  summary: string;
+  keyTopics: string[];
+  suggestedFAQs: Array<{
+    question: string;
+    answer: string;
+    category: string;
+  }>;
+}
+
+/**
+ * 페이지 마커 텍스트를 Gemini로 분석
+ * 시간 초과 시 "Request timeout", 응답 파싱 실패 시 SyntaxError
+ */
+export async function analyzeDocumentText(
+  documentText: string,
+  documentName: string = "제목 없음",
+): Promise<DocumentFaqAnalysis> {
+  // Gemini API Key 가져오기
+  const apiKey = getGeminiClient();
+  const geminiModel = getGeminiModel();
+  const url = `https://generativelanguage.googleapis.com/v1beta/models/${geminiModel}:generateContent?key=${apiKey}`;
+
+  // 프롬프트 구성 (기존 geminiServiceAccount.cjs의 analyzeDocument 로직 이식)
+  const prompt = `# 엠브레인 전용 FAQ 생성 비서
+
+당신은 엠브레인의 리서치 문서를 기반으로 FAQ를 생성하는 전문가입니다.
+
+## FAQ 생성 원칙 (반드시 준수)
+
+1. **문서 기반**: 문서에 명시된 내용만으로 FAQ 생성
+2. **정확성**: 문서에 없는 정보는 절대 포함하지 않음
+3. **검증 가능성**: 모든 답변은 문서 내 위치 추적 가능
+4. **객관성**: 추측, 의견, 해석 금지
+
+## 금지사항
+- 문서에 없는 질문 생성
+- 문서에 없는 답변 생성
+- 일반 상식 기반 FAQ (문서 내용만)
+- 과장되거나 주관적인 표현
+- "~일 것입니다", "~로 예상됩니다" 등 추측성 표현
+
+---
+
+다음 문서를 분석하여 요약, 주요 주제, FAQ를 생성해주세요.
+
+문서명: ${documentName}
+
+문서 내용 ("=== 페이지 N ===" 표시는 페이지 구분):
+${documentText}
+
+다음 JSON 형식으로 응답해주세요:
+{
+  "summary": "문서 내용을 기반으로 한 객관적 요약 (200자 이내)",
+  "keyTopics": ["주요 주제1", "주요 주제2"],
+  "suggestedFAQs": [
+    {
+      "question": "문서 기반 질문",
+      "answer": "문서의 내용을 정확히 반영한 답변",
+      "category": "카테고리"
+    }
+  ]
+}
+
+FAQ는 최소 5개 이상 생성하고, 반드시 문서에 명시된 정보만 사용하세요.`;
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(
+      () => reject(new Error("Request timeout")),
+      ANALYSIS_TIMEOUT,
+    );
+  });
+
+  // Gemini API 호출
+  let response: Response;
+  try {
+    response = await Promise.race([
+      fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          contents: [{ parts: [{ text: prompt }] }],
+          generationConfig: {
+            temperature: 0.7,
+            maxOutputTokens: 8192,
+            responseMimeType: "application/json",
+          },
+        }),
+      }),
+      timeoutPromise,
+    ]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
+  }
+
+  const data = await response.json();
+  const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+
+  if (!text) {
+    throw new Error("Empty response from Gemini");
+  }
+
+  const result = JSON.parse(text) as Partial<DocumentFaqAnalysis>;
+  return {
+    summary: result.summary || "",
+    keyTopics: Array.isArray(result.keyTopics) ? result.keyTopics : [],
+    suggestedFAQs: Array.isArray(result.suggestedFAQs)
+      ? result.suggestedFAQs.filter((faq) => faq?.question && faq?.answer)
+      : [],
+  };
+}
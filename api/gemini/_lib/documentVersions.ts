@@ -0,0 +1,110 @@
+/**
+ * Document Versions (Server-side)
+ * 문서 새 버전 교체: 현재 버전을 document_versions에 보관하고 같은 문서 행을 새 버전으로 갱신
+ * 이전 버전 파일은 Storage에 그대로 남김 (문서 삭제 시 함께 삭제)
+ */
+
+import type { PDFDocument } from "../../../src/types.js";
+import { getSupabaseAdmin } from "./supabaseAdmin.js";
+
+const STORAGE_BUCKET = "documents";
+
+export type DocumentVersionInput = Pick<
+  PDFDocument,
+  "name" | "size" | "uploadMode" | "filePath" | "metadata"
+>;
+
+interface CurrentDocumentRow {
+  id: number;
+  name: string;
+  size: string;
+  upload_date: string;
+  file_path: string | null;
+  version: number;
+  metadata: { pages?: number } | null;
+}
+
+/**
+ * 문서를 새 버전으로 교체 (워크스페이스에 문서가 없으면 null)
+ * 청크/FAQ는 그대로 두고 ingestion 워커(replace 모드)가 비교 후 갱신
+ */
+export async function replaceDocumentVersion(params: {
+  workspaceId: string;
+  documentId: number;
+  document: DocumentVersionInput;
+  userId: string;
+}): Promise<{ previousVersion: number; version: number } | null> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { document } = params;
+
+  const { data, error } = await supabaseAdmin
+    .from("pdf_documents")
+    .select("id, name, size, upload_date, file_path, version, metadata")
+    .eq("id", params.documentId)
+    .eq("workspace_id", params.workspaceId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`문서 조회 실패: ${error.message}`);
+  }
+  if (!data) return null;
+  const current = data as CurrentDocumentRow;
+
+  const { error: versionError } = await supabaseAdmin
+    .from("document_versions")
+    .insert({
+      document_id: current.id,
+      workspace_id: params.workspaceId,
+      version: current.version,
+      name: current.name,
+      size: current.size,
+      upload_date: current.upload_date,
+      file_path: current.file_path,
+      pages: current.metadata?.pages ?? null,
+      replaced_by: params.userId,
+    });
+  if (versionError) {
+    throw new Error(`이전 버전 보관 실패: ${versionError.message}`);
+  }
+
+  const version = current.version + 1;
+  const { error: updateError } = await supabaseAdmin
+    .from("pdf_documents")
+    .update({
+      name: document.name,
+      size: document.size,
+      upload_date: new Date().toISOString().split("T")[0],
+      status: "processing",
+      upload_mode: document.uploadMode || "general",
+      file_path: document.filePath || null,
+      ocr_text: null, // 워커가 metadata.textPath에서 읽어 저장
+      metadata: document.metadata || {},
+      version,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", current.id);
+  if (updateError) {
+    throw new Error(`문서 갱신 실패: ${updateError.message}`);
+  }
+
+  // 이전 파일을 첨부로 가리키던 FAQ는 새 파일로 연결
+  if (current.file_path && document.filePath) {
+    const bucket = supabaseAdmin.storage.from(STORAGE_BUCKET);
+    const { error: faqError } = await supabaseAdmin
+      .from("faqs")
+      .update({
+        attachment_url: bucket.getPublicUrl(document.filePath).data.publicUrl,
+        attachment_name: document.name,
+      })
+      .eq("document_id", current.id)
+      .eq(
+        "attachment_url",
+        bucket.getPublicUrl(current.file_path).data.publicUrl,
+      );
+    if (faqError) {
+      throw new Error(`FAQ 첨부 갱신 실패: ${faqError.message}`);
+    }
+  }
+
+  return { previousVersion: current.version, version };
+}
@@ -3,6 +3,8 @@
  * REST API를 직접 호출하는 클라이언트 (기존 geminiServiceAccount.cjs 로직 이식)
  */
 
+import type { GeminiContent } from "./ragPrompt.js";
+
 const GEMINI_MODEL = "gemini-2.0-flash";
 const EMBEDDING_MODEL = "gemini-embedding-001";
 const EMBEDDING_DIMENSION = 768;
@@ -79,6 +81,106 @@ export async function generateBatchEmbeddings(
   return results;
 }
 
+/**
+ * 텍스트 생성 (generateContent)
+ */
+export async function generateContent(
+  contents: GeminiContent[],
+  generationConfig: Record<string, unknown>,
+  signal?: AbortSignal,
+): Promise<string> {
+  const key = getGeminiClient();
+  const url = `${BASE_URL}/models/${GEMINI_MODEL}:generateContent?key=${key}`;
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ contents, generationConfig }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
+  }
+
+  const data = await response.json();
+  const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+
+  if (!text) {
+    throw new Error("Empty response from Gemini");
+  }
+
+  return text;
+}
+
+/**
+ * 스트리밍 텍스트 생성 (streamGenerateContent, SSE)
+ * 부분 텍스트마다 onDelta 호출 후 전체 텍스트 반환
+ */
+export async function streamGenerateContent(
+  contents: GeminiContent[],
+  generationConfig: Record<string, unknown>,
+  onDelta: (text: string) => void,
+  signal?: AbortSignal,
+): Promise<string> {
+  const key = getGeminiClient();
+  const url = `${BASE_URL}/models/${GEMINI_MODEL}:streamGenerateContent?alt=sse&key=${key}`;
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ contents, generationConfig }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const errorText = await response.text();
+    throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let fullText = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith("data:")) continue;
+
+      const data = trimmed.slice(5).trim();
+      if (!data) continue;
+
+      try {
+        const parsed = JSON.parse(data);
+        const text = parsed.candidates?.[0]?.content?.parts
+          ?.map((part: { text?: string }) => part.text || "")
+          .join("");
+        if (text) {
+          fullText += text;
+          onDelta(text);
+        }
+      } catch {
+        // 불완전한 JSON 라인은 무시
+      }
+    }
+  }
+
+  if (!fullText) {
+    throw new Error("Empty response from Gemini");
+  }
+
+  return fullText;
+}
+
 /**
  * Gemini 모델 이름 가져오기
  */
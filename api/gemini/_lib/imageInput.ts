@@ -0,0 +1,34 @@
+/**
+ * Image Input Validation (Server-side)
+ * Gemini Vision 요청(analyze-image / ocr-page) 공용 이미지 검증
+ */
+
+// Gemini 인라인 이미지 지원 형식
+export const SUPPORTED_IMAGE_MIME_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+];
+
+// Vercel 요청 body 제한(4.5MB) 내 base64 길이
+export const MAX_IMAGE_BASE64_LENGTH = 4_000_000;
+
+/**
+ * 이미지 형식/크기 검증 (문제 없으면 null, 있으면 상태 코드와 메시지)
+ */
+export function validateImageInput(
+  imageBase64: string,
+  mimeType: string,
+): { status: number; error: string } | null {
+  if (!SUPPORTED_IMAGE_MIME_TYPES.includes(mimeType)) {
+    return { status: 400, error: `Unsupported image type: ${mimeType}` };
+  }
+
+  if (imageBase64.length > MAX_IMAGE_BASE64_LENGTH) {
+    return { status: 413, error: "Image is too large" };
+  }
+
+  return null;
+}
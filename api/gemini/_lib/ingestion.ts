@@ -0,0 +1,818 @@
+/**
+ * Document Ingestion Jobs (Server-side)
+ * 업로드된 문서의 서버 처리 작업 큐 (ingestion_jobs)
+ * - 시작 시 클라이언트가 Storage에 올린 추출 텍스트(metadata.textPath)를 읽어 문서에 저장
+ * - analyzing: Gemini FAQ 생성 (useAI, 마지막 시도까지 실패하면 FAQ 없이 진행)
+ *   저장 시 워크스페이스에 같은 질문(정규화 기준)이 있는 FAQ는 제외
+ * - chunking: 페이지 보존 청킹 + 표 청크, 청크/FAQ 저장 (재시도 시 이전 결과 삭제 후 재저장)
+ *   새 버전 교체(replace)는 내용이 같은 청크의 임베딩을 유지하고 사라진 청크를 근거로 하는 FAQ를 검토 필요로 표시
+ * - embedding: 임베딩이 없는 청크/FAQ만 배치 처리 (시간 예산 초과 시 다음 호출에서 이어서)
+ *   완료 시 근거 청크가 없는 FAQ를 가장 가까운 청크에 연결 (다음 버전 비교용)
+ * 단계 실패 시 지수 백오프로 재시도, 최대 시도 초과 시 작업 실패 + 문서 status 'error'
+ */
+
+import type {
+  DocumentTable,
+  DocumentVersionDiff,
+  IngestionJob,
+  IngestionJobStatus,
+  IngestionStage,
+} from "../../../src/types.js";
+import { defaultConfig } from "../../../src/services/config.js";
+import {
+  createTableChunkRecords,
+  createTextChunkRecords,
+  type ChunkRecord,
+} from "../../../src/services/documentChunker.js";
+import { normalizeForComparison } from "../../../src/services/koreanTokenizer.js";
+import { getSupabaseAdmin } from "./supabaseAdmin.js";
+import { generateEmbedding } from "./geminiClient.js";
+import {
+  analyzeDocumentText,
+  type DocumentFaqAnalysis,
+} from "./documentAnalysis.js";
+
+const STORAGE_BUCKET = "documents";
+
+export interface IngestionPayload {
+  useAI?: boolean;
+  mode?: "create" | "replace"; // replace: 기존 문서의 새 버전 (FAQ 생성 없이 청크 비교)
+  previousVersion?: number;
+}
+
+interface IngestionState {
+  faqs?: DocumentFaqAnalysis["suggestedFAQs"];
+  analysisError?: string;
+}
+
+export interface IngestionJobRow {
+  id: string;
+  workspace_id: string;
+  document_id: number;
+  status: IngestionJobStatus;
+  stage: IngestionStage;
+  progress: number;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_until: string | null;
+  payload: IngestionPayload;
+  state: IngestionState;
+  last_error: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+interface DocumentRow {
+  name: string;
+  file_path: string | null;
+  ocr_text: string | null;
+  version: number;
+  metadata: {
+    textContent?: string;
+    textPath?: string;
+    tables?: DocumentTable[];
+    versionDiff?: DocumentVersionDiff;
+  } | null;
+}
+
+interface ExistingChunkRow {
+  id: number;
+  content: string;
+  page_number: number;
+  chunk_index: number;
+}
+
+type StageHandler = (
+  job: IngestionJobRow,
+  deadline: number,
+) => Promise<IngestionJobRow>;
+
+export function toIngestionJob(row: IngestionJobRow): IngestionJob {
+  return {
+    id: row.id,
+    documentId: row.document_id,
+    status: row.status,
+    stage: row.stage,
+    progress: row.progress,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    completedAt: row.completed_at,
+  };
+}
+
+function toVectorString(embedding: number[]): string {
+  return `[${embedding.join(",")}]`;
+}
+
+async function embedText(text: string): Promise<string> {
+  const embedding = await generateEmbedding(text);
+  if (embedding.length === 0) {
+    throw new Error("Empty embedding from Gemini");
+  }
+
+  // Rate limiting
+  await new Promise((resolve) =>
+    setTimeout(resolve, defaultConfig.timeout.rateLimitDelay),
+  );
+  return toVectorString(embedding);
+}
+
+/**
+ * 작업 등록 (문서 행은 호출 측에서 status 'processing'으로 먼저 생성)
+ */
+export async function enqueueIngestionJob(params: {
+  workspaceId: string;
+  documentId: number;
+  createdBy: string;
+  payload: IngestionPayload;
+}): Promise<IngestionJobRow> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("ingestion_jobs")
+    .insert({
+      workspace_id: params.workspaceId,
+      document_id: params.documentId,
+      payload: params.payload,
+      max_attempts: defaultConfig.ingestion.maxAttempts,
+      created_by: params.createdBy,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`작업 등록 실패: ${error.message}`);
+  }
+  return data as IngestionJobRow;
+}
+
+export async function getIngestionJob(
+  jobId: string,
+): Promise<IngestionJobRow | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("ingestion_jobs")
+    .select("*")
+    .eq("id", jobId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data as IngestionJobRow | null;
+}
+
+/**
+ * 처리할 작업 점유 (jobId 미지정 시 가장 오래 대기한 작업, 없으면 null)
+ */
+export async function claimIngestionJob(
+  jobId?: string,
+): Promise<IngestionJobRow | null> {
+  const { data, error } = await getSupabaseAdmin().rpc("claim_ingestion_job", {
+    target_job_id: jobId ?? null,
+    lock_seconds: Math.ceil(defaultConfig.ingestion.lockDuration / 1000),
+  });
+
+  if (error) {
+    throw new Error(`작업 점유 실패: ${error.message}`);
+  }
+  return ((data as IngestionJobRow[] | null) ?? [])[0] ?? null;
+}
+
+async function updateJob(
+  job: IngestionJobRow,
+  patch: Partial<Omit<IngestionJobRow, "id">>,
+): Promise<IngestionJobRow> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("ingestion_jobs")
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("id", job.id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`작업 상태 저장 실패: ${error.message}`);
+  }
+  return data as IngestionJobRow;
+}
+
+async function setDocumentStatus(
+  documentId: number,
+  status: "processing" | "completed" | "error",
+): Promise<void> {
+  const { error } = await getSupabaseAdmin()
+    .from("pdf_documents")
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq("id", documentId);
+
+  if (error) {
+    throw new Error(`문서 상태 저장 실패: ${error.message}`);
+  }
+}
+
+async function loadDocument(documentId: number): Promise<DocumentRow> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("pdf_documents")
+    .select("name, file_path, ocr_text, version, metadata")
+    .eq("id", documentId)
+    .single();
+
+  if (error) {
+    throw new Error(`문서 조회 실패: ${error.message}`);
+  }
+  return data as DocumentRow;
+}
+
+/**
+ * 워크스페이스 폴더 아래의 Storage 객체 경로인지 (다른 워크스페이스 파일 읽기 방지)
+ */
+export function isWorkspaceObjectPath(
+  workspaceId: string,
+  path: unknown,
+): path is string {
+  return (
+    typeof path === "string" &&
+    path.startsWith(`${workspaceId}/`) &&
+    !path.split("/").includes("..")
+  );
+}
+
+/**
+ * Storage의 추출 텍스트를 읽어 문서(ocr_text / metadata.textContent)에 저장
+ * 이미 저장된 문서는 그대로 반환, 저장 후 텍스트 객체는 삭제
+ */
+async function loadDocumentText(job: IngestionJobRow): Promise<DocumentRow> {
+  const document = await loadDocument(job.document_id);
+  const textPath = document.metadata?.textPath;
+  if (document.ocr_text || document.metadata?.textContent || !textPath) {
+    return document;
+  }
+  if (!isWorkspaceObjectPath(job.workspace_id, textPath)) {
+    throw new Error(`잘못된 추출 텍스트 경로: ${textPath}`);
+  }
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const bucket = supabaseAdmin.storage.from(STORAGE_BUCKET);
+  const { data, error } = await bucket.download(textPath);
+  if (error || !data) {
+    throw new Error(`추출 텍스트 조회 실패: ${error?.message ?? textPath}`);
+  }
+
+  const text = await data.text();
+  const metadata = { ...document.metadata, textContent: text };
+  delete metadata.textPath;
+  const { error: updateError } = await supabaseAdmin
+    .from("pdf_documents")
+    .update({ ocr_text: text, metadata })
+    .eq("id", job.document_id);
+  if (updateError) {
+    throw new Error(`추출 텍스트 저장 실패: ${updateError.message}`);
+  }
+
+  const { error: removeError } = await bucket.remove([textPath]);
+  if (removeError) {
+    console.warn(`Ingestion ${job.id}: 추출 텍스트 삭제 실패`, removeError);
+  }
+
+  return { ...document, ocr_text: text, metadata };
+}
+
+/**
+ * 대기/처리 중인 작업이 있는 문서인지 (새 버전 교체 중복 방지)
+ */
+export async function hasPendingIngestionJob(
+  documentId: number,
+): Promise<boolean> {
+  const { count, error } = await getSupabaseAdmin()
+    .from("ingestion_jobs")
+    .select("id", { count: "exact", head: true })
+    .eq("document_id", documentId)
+    .in("status", ["queued", "running", "retrying"]);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (count || 0) > 0;
+}
+
+/**
+ * 근거 청크가 없는 문서 FAQ를 답변과 가장 가까운 임베딩 청크에 연결
+ */
+async function linkFaqSourceChunks(documentId: number): Promise<void> {
+  const { error } = await getSupabaseAdmin().rpc("link_faq_source_chunks", {
+    target_document_id: documentId,
+  });
+
+  if (error) {
+    throw new Error(`FAQ 근거 청크 연결 실패: ${error.message}`);
+  }
+}
+
+/**
+ * 실패한 작업을 처음 시도부터 다시 대기열에 등록
+ */
+export async function retryIngestionJob(
+  job: IngestionJobRow,
+): Promise<IngestionJobRow> {
+  await setDocumentStatus(job.document_id, "processing");
+  return updateJob(job, {
+    status: "queued",
+    attempts: 0,
+    next_attempt_at: new Date().toISOString(),
+    locked_until: null,
+    last_error: null,
+  });
+}
+
+const runAnalyzingStage: StageHandler = async (job) => {
+  const state: IngestionState = { ...job.state, faqs: [] };
+  const document = await loadDocumentText(job);
+
+  if (job.payload.useAI) {
+    const text = document.metadata?.textContent || document.ocr_text || "";
+
+    try {
+      state.faqs = (
+        await analyzeDocumentText(text, document.name)
+      ).suggestedFAQs;
+    } catch (error) {
+      // 마지막 시도까지 실패하면 FAQ 없이 기본 처리로 진행
+      if (job.attempts < job.max_attempts) throw error;
+      console.warn(`Ingestion ${job.id}: FAQ 생성 실패, 기본 처리 진행`, error);
+      state.analysisError =
+        error instanceof Error ? error.message : "FAQ 생성 실패";
+    }
+  }
+
+  return updateJob(job, {
+    stage: "chunking",
+    progress: 40,
+    attempts: 0,
+    state,
+  });
+};
+
+/**
+ * 생성된 FAQ 중 워크스페이스에 같은 질문이 이미 있거나 서로 겹치는 FAQ 제외
+ */
+async function excludeDuplicateFaqs(
+  job: IngestionJobRow,
+  faqs: DocumentFaqAnalysis["suggestedFAQs"],
+): Promise<DocumentFaqAnalysis["suggestedFAQs"]> {
+  if (faqs.length === 0) return faqs;
+
+  const { data, error } = await getSupabaseAdmin()
+    .from("faqs")
+    .select("question")
+    .eq("workspace_id", job.workspace_id);
+  if (error) {
+    throw new Error(`FAQ 조회 실패: ${error.message}`);
+  }
+
+  const seen = new Set(
+    (data as { question: string }[]).map((faq) =>
+      normalizeForComparison(faq.question),
+    ),
+  );
+  return faqs.filter((faq) => {
+    const key = normalizeForComparison(faq.question);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * 새 문서 청크/FAQ 저장 (이전 시도에서 일부 저장된 결과는 삭제 후 다시 저장)
+ */
+async function saveChunks(
+  job: IngestionJobRow,
+  document: DocumentRow,
+  records: ChunkRecord[],
+): Promise<void> {
+  const supabaseAdmin = getSupabaseAdmin();
+
+  // 이전 시도에서 일부 저장된 청크/FAQ 삭제 후 다시 저장 (중복 방지)
+  const { error: deleteChunksError } = await supabaseAdmin
+    .from("pdf_chunks")
+    .delete()
+    .eq("document_id", job.document_id);
+  if (deleteChunksError) {
+    throw new Error(`청크 삭제 실패: ${deleteChunksError.message}`);
+  }
+
+  const { error: deleteFaqsError } = await supabaseAdmin
+    .from("faqs")
+    .delete()
+    .eq("document_id", job.document_id)
+    .eq("generation_source", "semantic_analysis");
+  if (deleteFaqsError) {
+    throw new Error(`FAQ 삭제 실패: ${deleteFaqsError.message}`);
+  }
+
+  if (records.length > 0) {
+    const { error } = await supabaseAdmin.from("pdf_chunks").insert(
+      records.map((record, index) => ({
+        document_id: job.document_id,
+        workspace_id: job.workspace_id,
+        content: record.content,
+        page_number: record.pageNumber,
+        chunk_index: index,
+        metadata: record.metadata || {},
+      })),
+    );
+    if (error) {
+      throw new Error(`청크 저장 실패: ${error.message}`);
+    }
+  }
+
+  const faqs = await excludeDuplicateFaqs(job, job.state.faqs ?? []);
+  if (faqs.length > 0) {
+    const attachmentUrl = document.file_path
+      ? supabaseAdmin.storage
+          .from(STORAGE_BUCKET)
+          .getPublicUrl(document.file_path).data.publicUrl
+      : null;
+
+    const { error } = await supabaseAdmin.from("faqs").insert(
+      faqs.map((faq) => ({
+        question: faq.question,
+        answer: faq.answer,
+        category: faq.category || "일반",
+        is_active: true,
+        attachment_url: attachmentUrl,
+        attachment_name: document.name,
+        document_id: job.document_id,
+        generation_source: "semantic_analysis",
+        user_id: job.created_by,
+        workspace_id: job.workspace_id,
+      })),
+    );
+    if (error) {
+      throw new Error(`FAQ 저장 실패: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * 변경된(사라진) 청크를 근거로 하는 FAQ를 검토 필요로 표시
+ * 사라진 청크 ID는 근거에서 빼고, 모두 사라지면 임베딩 후 새 청크에 다시 연결
+ */
+async function flagFaqsForReview(
+  job: IngestionJobRow,
+  removedChunkIds: Set<number>,
+  toVersion: number,
+): Promise<number> {
+  if (removedChunkIds.size === 0) return 0;
+  const supabaseAdmin = getSupabaseAdmin();
+
+  const { data, error } = await supabaseAdmin
+    .from("faqs")
+    .select("id, source_chunk_ids")
+    .eq("document_id", job.document_id)
+    .not("source_chunk_ids", "is", null);
+  if (error) {
+    throw new Error(`FAQ 조회 실패: ${error.message}`);
+  }
+
+  const affected = (
+    data as { id: number; source_chunk_ids: number[] | null }[]
+  ).filter(
+    (faq) =>
+      Array.isArray(faq.source_chunk_ids) &&
+      faq.source_chunk_ids.some((id) => removedChunkIds.has(id)),
+  );
+
+  for (const faq of affected) {
+    const remaining = (faq.source_chunk_ids ?? []).filter(
+      (id) => !removedChunkIds.has(id),
+    );
+    const { error: updateError } = await supabaseAdmin
+      .from("faqs")
+      .update({
+        needs_review: true,
+        review_reason: `문서 v${toVersion}에서 근거 내용이 변경되었습니다.`,
+        source_chunk_ids: remaining.length > 0 ? remaining : null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", faq.id);
+    if (updateError) {
+      throw new Error(`FAQ 검토 표시 실패: ${updateError.message}`);
+    }
+  }
+
+  return affected.length;
+}
+
+/**
+ * 새 버전 청크 저장 (replace 모드, 기존 FAQ는 삭제하지 않음)
+ * 내용이 같은 기존 청크는 임베딩을 유지한 채 위치만 갱신하고 새 내용만 추가
+ */
+async function replaceChunks(
+  job: IngestionJobRow,
+  document: DocumentRow,
+  records: ChunkRecord[],
+): Promise<void> {
+  const supabaseAdmin = getSupabaseAdmin();
+
+  // 이전 버전에서 근거가 연결되지 않은 FAQ를 먼저 기존 청크에 연결해 비교 대상에 포함
+  await linkFaqSourceChunks(job.document_id);
+
+  const { data, error } = await supabaseAdmin
+    .from("pdf_chunks")
+    .select("id, content, page_number, chunk_index")
+    .eq("document_id", job.document_id)
+    .order("chunk_index", { ascending: true });
+  if (error) {
+    throw new Error(`청크 조회 실패: ${error.message}`);
+  }
+
+  // 같은 내용의 청크가 여러 개일 수 있으므로 내용별 목록으로 매칭
+  const existingByContent = new Map<string, ExistingChunkRow[]>();
+  (data as ExistingChunkRow[]).forEach((chunk) => {
+    const list = existingByContent.get(chunk.content) ?? [];
+    list.push(chunk);
+    existingByContent.set(chunk.content, list);
+  });
+
+  const reused: Record<string, unknown>[] = [];
+  const added: Record<string, unknown>[] = [];
+  records.forEach((record, index) => {
+    const row = {
+      document_id: job.document_id,
+      workspace_id: job.workspace_id,
+      content: record.content,
+      page_number: record.pageNumber,
+      chunk_index: index,
+      metadata: record.metadata || {},
+    };
+    const match = existingByContent.get(record.content)?.shift();
+    if (match) {
+      reused.push({ id: match.id, ...row });
+    } else {
+      added.push(row);
+    }
+  });
+  const removedChunkIds = new Set(
+    Array.from(existingByContent.values())
+      .flat()
+      .map((chunk) => chunk.id),
+  );
+
+  // 청크를 지우기 전에 근거가 사라지는 FAQ 표시
+  const toVersion = document.version;
+  const flaggedFaqs = await flagFaqsForReview(job, removedChunkIds, toVersion);
+
+  // 임베딩 컬럼은 보내지 않으므로 기존 임베딩 유지
+  if (reused.length > 0) {
+    const { error: upsertError } = await supabaseAdmin
+      .from("pdf_chunks")
+      .upsert(reused, { onConflict: "id" });
+    if (upsertError) {
+      throw new Error(`청크 갱신 실패: ${upsertError.message}`);
+    }
+  }
+
+  if (added.length > 0) {
+    const { error: insertError } = await supabaseAdmin
+      .from("pdf_chunks")
+      .insert(added);
+    if (insertError) {
+      throw new Error(`청크 저장 실패: ${insertError.message}`);
+    }
+  }
+
+  if (removedChunkIds.size > 0) {
+    const { error: deleteError } = await supabaseAdmin
+      .from("pdf_chunks")
+      .delete()
+      .in("id", Array.from(removedChunkIds));
+    if (deleteError) {
+      throw new Error(`청크 삭제 실패: ${deleteError.message}`);
+    }
+  }
+
+  const versionDiff: DocumentVersionDiff = {
+    fromVersion: job.payload.previousVersion ?? toVersion - 1,
+    toVersion,
+    unchangedChunks: reused.length,
+    addedChunks: added.length,
+    removedChunks: removedChunkIds.size,
+    flaggedFaqs,
+  };
+  const { error: metadataError } = await supabaseAdmin
+    .from("pdf_documents")
+    .update({ metadata: { ...document.metadata, versionDiff } })
+    .eq("id", job.document_id);
+  if (metadataError) {
+    throw new Error(`문서 메타데이터 저장 실패: ${metadataError.message}`);
+  }
+}
+
+const runChunkingStage: StageHandler = async (job) => {
+  const document = await loadDocument(job.document_id);
+  const text = document.metadata?.textContent || document.ocr_text || "";
+
+  // 표 청크는 텍스트 청크 뒤에 추가
+  const records = [
+    ...createTextChunkRecords(text),
+    ...createTableChunkRecords(document.metadata?.tables ?? []),
+  ];
+
+  if (job.payload.mode === "replace") {
+    await replaceChunks(job, document, records);
+  } else {
+    await saveChunks(job, document, records);
+  }
+
+  return updateJob(job, { stage: "embedding", progress: 50, attempts: 0 });
+};
+
+async function countRows(
+  table: "pdf_chunks" | "faqs",
+  documentId: number,
+  missingColumn?: string,
+): Promise<number> {
+  let query = getSupabaseAdmin()
+    .from(table)
+    .select("id", { count: "exact", head: true })
+    .eq("document_id", documentId);
+  if (missingColumn) {
+    query = query.is(missingColumn, null);
+  }
+
+  const { count, error } = await query;
+  if (error) {
+    throw new Error(error.message);
+  }
+  return count || 0;
+}
+
+const runEmbeddingStage: StageHandler = async (job, deadline) => {
+  const supabaseAdmin = getSupabaseAdmin();
+  const batchSize = defaultConfig.ingestion.embeddingBatchSize;
+  let embedded = 0;
+
+  while (Date.now() < deadline) {
+    const { data: chunks, error: chunksError } = await supabaseAdmin
+      .from("pdf_chunks")
+      .select("id, content")
+      .eq("document_id", job.document_id)
+      .is("embeddings", null)
+      .order("chunk_index", { ascending: true })
+      .limit(batchSize);
+    if (chunksError) {
+      throw new Error(`청크 조회 실패: ${chunksError.message}`);
+    }
+
+    if (chunks.length > 0) {
+      for (const chunk of chunks) {
+        const { error } = await supabaseAdmin
+          .from("pdf_chunks")
+          .update({ embeddings: await embedText(chunk.content) })
+          .eq("id", chunk.id);
+        if (error) {
+          throw new Error(`청크 임베딩 저장 실패: ${error.message}`);
+        }
+      }
+      embedded += chunks.length;
+      continue;
+    }
+
+    const { data: faqs, error: faqsError } = await supabaseAdmin
+      .from("faqs")
+      .select("id, question, answer")
+      .eq("document_id", job.document_id)
+      .or("question_embedding.is.null,answer_embedding.is.null")
+      .limit(batchSize);
+    if (faqsError) {
+      throw new Error(`FAQ 조회 실패: ${faqsError.message}`);
+    }
+
+    if (faqs.length > 0) {
+      for (const faq of faqs) {
+        const { error } = await supabaseAdmin
+          .from("faqs")
+          .update({
+            question_embedding: await embedText(faq.question),
+            answer_embedding: await embedText(faq.answer),
+          })
+          .eq("id", faq.id);
+        if (error) {
+          throw new Error(`FAQ 임베딩 저장 실패: ${error.message}`);
+        }
+      }
+      embedded += faqs.length;
+      continue;
+    }
+
+    await linkFaqSourceChunks(job.document_id);
+    return updateJob(job, { stage: "completed", progress: 95, attempts: 0 });
+  }
+
+  // 시간 예산 초과: 진행률만 저장하고 다음 호출에서 이어서 처리
+  const [total, remaining] = await Promise.all([
+    countRows("pdf_chunks", job.document_id),
+    countRows("pdf_chunks", job.document_id, "embeddings"),
+  ]);
+  return updateJob(job, {
+    progress:
+      total > 0 ? 50 + Math.round(((total - remaining) / total) * 45) : 50,
+    attempts: embedded > 0 ? 0 : job.attempts,
+  });
+};
+
+const STAGE_HANDLERS: Record<
+  Exclude<IngestionStage, "completed">,
+  StageHandler
+> = {
+  analyzing: runAnalyzingStage,
+  chunking: runChunkingStage,
+  embedding: runEmbeddingStage,
+};
+
+async function failJob(
+  job: IngestionJobRow,
+  message: string,
+): Promise<IngestionJobRow> {
+  await setDocumentStatus(job.document_id, "error");
+  return updateJob(job, {
+    status: "failed",
+    locked_until: null,
+    last_error: message,
+  });
+}
+
+/**
+ * 단계 실패 처리 (지수 백오프 재시도, 최대 시도 초과 시 실패)
+ */
+async function scheduleRetry(
+  job: IngestionJobRow,
+  error: unknown,
+): Promise<IngestionJobRow> {
+  const message = error instanceof Error ? error.message : String(error);
+  const attempts = Math.max(job.attempts, 1);
+
+  if (attempts >= job.max_attempts) {
+    return failJob(job, message);
+  }
+
+  const { retryBaseDelay, retryMaxDelay } = defaultConfig.ingestion;
+  const delay = Math.min(retryBaseDelay * 2 ** (attempts - 1), retryMaxDelay);
+
+  return updateJob(job, {
+    status: "retrying",
+    attempts,
+    next_attempt_at: new Date(Date.now() + delay).toISOString(),
+    locked_until: null,
+    last_error: message,
+  });
+}
+
+/**
+ * 점유한 작업을 deadline까지 단계별로 처리
+ * 각 단계 결과는 즉시 저장하므로 중단되어도 마지막 완료 단계부터 재개
+ */
+export async function runIngestionJob(
+  claimed: IngestionJobRow,
+  deadline: number,
+): Promise<IngestionJobRow> {
+  // 워커가 단계 도중 중단되어 점유가 만료된 횟수까지 포함
+  if (claimed.attempts > claimed.max_attempts) {
+    return failJob(
+      claimed,
+      claimed.last_error || "처리 시간 초과로 작업이 중단되었습니다.",
+    );
+  }
+
+  let job = claimed;
+  try {
+    while (job.stage !== "completed") {
+      if (Date.now() >= deadline) {
+        // 다음 워커 호출에서 이어서 처리
+        return updateJob(job, {
+          status: "queued",
+          next_attempt_at: new Date().toISOString(),
+          locked_until: null,
+        });
+      }
+      job = await STAGE_HANDLERS[job.stage](job, deadline);
+    }
+
+    await setDocumentStatus(job.document_id, "completed");
+    return updateJob(job, {
+      status: "completed",
+      progress: 100,
+      locked_until: null,
+      last_error: null,
+      completed_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`Ingestion job ${job.id} failed at ${job.stage}:`, error);
+    return scheduleRetry(job, error);
+  }
+}
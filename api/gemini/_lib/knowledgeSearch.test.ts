@@ -0,0 +1,157 @@
+import { describe, expect, it, vi } from "vitest";
+import type { FAQ } from "../../../src/types.js";
+import { defaultConfig } from "../../../src/services/config.js";
+import {
+  rerankResults,
+  searchKnowledgeWithTrace,
+  type KnowledgeResult,
+} from "./knowledgeSearch.js";
+import { LocalReranker, type Reranker } from "./reranker.js";
+
+/** 검색 RPC별 고정 응답 (없는 RPC는 빈 결과) */
+const rpcData = vi.hoisted(
+  () => ({}) as Record<string, Array<Record<string, unknown>>>,
+);
+
+vi.mock("./geminiClient.js", () => ({
+  generateEmbedding: async () => [0.1, 0.2, 0.3],
+  // Gemini 재순위화는 실패 → 로컬 Reranker로 대체
+  generateContent: async () => {
+    throw new Error("offline");
+  },
+}));
+
+vi.mock("./supabaseAdmin.js", () => ({
+  getSupabaseAdmin: () => ({
+    rpc: async (name: string) => ({ data: rpcData[name] ?? [], error: null }),
+  }),
+}));
+
+const faqRow = (id: number, question: string, answer: string) => ({
+  id,
+  question,
+  answer,
+  category: "일반",
+  is_active: true,
+});
+
+const faqResult = (
+  id: number,
+  question: string,
+  answer: string,
+  score: number,
+): KnowledgeResult => ({
+  item: {
+    id,
+    question,
+    answer,
+    category: "일반",
+    isActive: true,
+  } as FAQ,
+  type: "faq",
+  similarity: 0.6,
+  confidence: 0.6,
+  score,
+});
+
+/** 결합 점수순 후보 (관련 FAQ는 limit 밖 4번째) */
+const FUSED: KnowledgeResult[] = [
+  faqResult(1, "회원 탈퇴 방법", "설정에서 탈퇴할 수 있습니다.", 1.0),
+  faqResult(2, "비밀번호 변경", "내 정보에서 변경합니다.", 0.95),
+  faqResult(3, "포인트 적립 기준", "설문 완료 시 적립됩니다.", 0.9),
+  faqResult(
+    4,
+    "환불 기간",
+    "환불은 결제 후 7일 이내 신청할 수 있습니다.",
+    0.85,
+  ),
+];
+
+describe("rerankResults", () => {
+  it("limit 밖 후보도 재순위화 후 상위로 올라옴", async () => {
+    const { results, reranker } = await rerankResults(
+      "환불 기간은요?",
+      FUSED,
+      3,
+      new LocalReranker(),
+    );
+
+    expect(reranker).toBe("local");
+    expect(results).toHaveLength(3);
+    expect(results[0].item.id).toBe(4);
+  });
+
+  it("rerankTopN 밖 후보는 재순위화하지 않고 뒤에 유지", async () => {
+    const { rerankTopN } = defaultConfig.search;
+    const pool = Array.from({ length: rerankTopN + 2 }, (_, index) =>
+      faqResult(index + 1, `질문 ${index + 1}`, "답변", 1 - index * 0.01),
+    );
+
+    const { results } = await rerankResults(
+      "질문",
+      pool,
+      pool.length,
+      new LocalReranker(),
+    );
+
+    expect(results.slice(rerankTopN).map((result) => result.item.id)).toEqual([
+      rerankTopN + 1,
+      rerankTopN + 2,
+    ]);
+  });
+
+  it("Reranker 실패 시 로컬 Reranker로 대체", async () => {
+    const failing: Reranker = {
+      name: "gemini",
+      rerank: () => Promise.reject(new Error("Rerank timeout")),
+    };
+
+    const { results, reranker } = await rerankResults(
+      "환불 기간은요?",
+      FUSED,
+      3,
+      failing,
+    );
+
+    expect(reranker).toBe("local");
+    expect(results[0].item.id).toBe(4);
+  });
+});
+
+describe("searchKnowledgeWithTrace", () => {
+  it("키워드로만 찾은 후보도 벡터 임계값에 걸리지 않고 답변 후보에 포함", async () => {
+    rpcData.search_faqs_by_question = [
+      {
+        ...faqRow(1, "회원 탈퇴 방법", "설정에서 탈퇴할 수 있습니다."),
+        similarity: 0.3,
+      },
+    ];
+    rpcData.search_faqs_by_keyword = [
+      {
+        ...faqRow(
+          2,
+          "환불 기간",
+          "환불은 결제 후 7일 이내 신청할 수 있습니다.",
+        ),
+        keyword_rank: 0.9,
+      },
+    ];
+
+    const { results, trace } = await searchKnowledgeWithTrace("환불 기간", {
+      minSimilarity: 0.45,
+      includeChunks: false,
+    });
+
+    // 벡터 유사도 미달 후보만 제외
+    expect(results.map((result) => result.item.id)).toEqual([2]);
+    expect(results[0].similarity).toBeUndefined();
+    expect(results[0].keywordScore).toBe(0.9);
+    expect(results[0].confidence).toBeGreaterThan(0.45);
+    expect(trace.vectorCount).toBe(0);
+    expect(trace.candidates[0]).toMatchObject({
+      id: 2,
+      keywordScore: 0.9,
+      selected: true,
+    });
+  });
+});
@@ -0,0 +1,611 @@
+/**
+ * Knowledge Search (Server-side)
+ * FAQ + 문서 청크 하이브리드 검색 (pgvector + pg_trgm RRF) 및 재순위화
+ */
+
+import type {
+  FAQ,
+  PDFChunk,
+  RetrievalTraceCandidate,
+  RetrievalTraceSearch,
+} from "../../../src/types.js";
+import {
+  defaultConfig,
+  FAQ_MIN_SIMILARITY,
+} from "../../../src/services/config.js";
+import {
+  tokenize,
+  containsKeyword,
+} from "../../../src/services/koreanTokenizer.js";
+import { generateEmbedding } from "./geminiClient.js";
+import { getSupabaseAdmin } from "./supabaseAdmin.js";
+import { GeminiReranker, LocalReranker, type Reranker } from "./reranker.js";
+
+export interface KnowledgeSource {
+  id: number;
+  name: string;
+  filePath?: string;
+}
+
+export interface KnowledgeResult {
+  item: FAQ | PDFChunk;
+  type: "faq" | "chunk";
+  /** 벡터 유사도 (키워드로만 찾은 경우 없음, minSimilarity 기준) */
+  similarity?: number;
+  /** 키워드(pg_trgm) 점수 0~1 (키워드 검색에 없으면 없음) */
+  keywordScore?: number;
+  /** 답변 신뢰도 0~1: 벡터 유사도/키워드 점수 중 큰 값, 재순위화 시 재순위 점수와 혼합 */
+  confidence: number;
+  /** 정렬 점수 (가중치 → RRF 결합 → 재순위화) */
+  score: number;
+  sourceDocument?: KnowledgeSource;
+}
+
+export interface KnowledgeSearchOptions {
+  limit?: number;
+  minSimilarity?: number;
+  workspaceId?: string;
+  /** 검색 대상 (기본 모두 포함, 관리자 플레이그라운드에서 조정) */
+  includeFaqs?: boolean;
+  includeChunks?: boolean;
+}
+
+/** FAQ 검색 RPC 결과 행 (search_faqs_by_question / answer / keyword) */
+interface FaqRow {
+  id: number;
+  question: string;
+  answer: string;
+  category: string;
+  is_active: boolean;
+  is_featured?: boolean;
+  semantic_keywords?: string[] | null;
+  confidence?: number | null;
+  generation_source?: FAQ["generationSource"] | null;
+  document_id?: number | null;
+  similarity?: number;
+  keyword_rank?: number;
+}
+
+/** 청크 검색 RPC 결과 행 (search_chunks / search_chunks_by_keyword) */
+interface ChunkRow {
+  id: number;
+  document_id: number;
+  content: string;
+  page_number: number;
+  chunk_index: number;
+  metadata: PDFChunk["metadata"] | null;
+  document_name: string | null;
+  file_path: string | null;
+  similarity?: number;
+  keyword_rank?: number;
+  importance_weight?: number;
+}
+
+// RPC 개별 타임아웃 (초과 시 해당 검색은 빈 결과)
+const SEARCH_TIMEOUT = 5000;
+const EMBEDDING_TIMEOUT = 10000;
+// 재순위화 후보 텍스트 최대 길이
+const MAX_CANDIDATE_TEXT = 1000;
+// 검색 추적에 남길 후보 수 / 후보 라벨 길이
+const MAX_TRACE_CANDIDATES = 10;
+const MAX_TRACE_LABEL = 80;
+
+/**
+ * 지정 시간 내 완료되지 않으면 fallback 값으로 대체 (완료 시 타이머 해제)
+ */
+function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number,
+  fallback: T,
+): Promise<T> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  return Promise.race([
+    promise,
+    new Promise<T>((resolve) => {
+      timeoutId = setTimeout(() => resolve(fallback), ms);
+    }),
+  ]).finally(() => clearTimeout(timeoutId));
+}
+
+function mapFaqRow(row: FaqRow): FAQ {
+  return {
+    id: row.id,
+    question: row.question,
+    answer: row.answer,
+    category: row.category,
+    isActive: row.is_active,
+    isFeatured: row.is_featured,
+    semanticKeywords: row.semantic_keywords || undefined,
+    confidence: row.confidence ?? undefined,
+    generationSource: row.generation_source || undefined,
+    documentId: row.document_id ?? undefined,
+  };
+}
+
+function mapChunkRow(
+  row: ChunkRow,
+): Pick<KnowledgeResult, "item" | "sourceDocument"> {
+  return {
+    item: {
+      id: row.id,
+      documentId: row.document_id,
+      content: row.content,
+      pageNumber: row.page_number,
+      chunkIndex: row.chunk_index,
+      metadata: row.metadata || undefined,
+    } as PDFChunk,
+    sourceDocument: row.document_name
+      ? {
+          id: row.document_id,
+          name: row.document_name,
+          filePath: row.file_path || undefined,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * FAQ 벡터 검색 (질문/답변 임베딩, 비활성 FAQ 제외)
+ */
+async function searchFAQs(
+  embeddingStr: string,
+  queryTokens: string[],
+  threshold: number,
+  maxResults: number,
+  workspaceId?: string,
+): Promise<KnowledgeResult[]> {
+  const supabase = getSupabaseAdmin();
+  const params = {
+    query_embedding: embeddingStr,
+    similarity_threshold: threshold,
+    match_count: maxResults,
+    filter_workspace_id: workspaceId ?? null,
+  };
+
+  const [questionRes, answerRes] = await Promise.all([
+    supabase.rpc("search_faqs_by_question", params),
+    supabase.rpc("search_faqs_by_answer", params),
+  ]);
+
+  if (questionRes.error || answerRes.error) {
+    console.error(
+      "FAQ search RPC error:",
+      (questionRes.error || answerRes.error)?.message,
+    );
+  }
+
+  const results: KnowledgeResult[] = [];
+  const byId = new Map<number, KnowledgeResult>();
+
+  // 질문 매칭 결과 (가중치 높음)
+  for (const row of (questionRes.data || []) as FaqRow[]) {
+    if (!row.is_active) continue;
+
+    const similarity = row.similarity || 0;
+    let score = similarity * 1.2;
+    if (row.semantic_keywords?.some((kw) => containsKeyword(queryTokens, kw))) {
+      score *= 1.15;
+    }
+    if (row.generation_source === "semantic_analysis") score *= 1.1;
+    if (row.confidence && row.confidence > 0) {
+      score *= 0.8 + row.confidence * 0.2;
+    }
+
+    const result: KnowledgeResult = {
+      item: mapFaqRow(row),
+      type: "faq",
+      similarity,
+      confidence: similarity,
+      score,
+    };
+    byId.set(row.id, result);
+    results.push(result);
+  }
+
+  // 답변 매칭 결과 (가중치 낮음, 중복 제거)
+  for (const row of (answerRes.data || []) as FaqRow[]) {
+    if (!row.is_active) continue;
+
+    const similarity = row.similarity || 0;
+    const existing = byId.get(row.id);
+    if (existing) {
+      const answerScore = similarity * 0.8;
+      if (answerScore > existing.score) {
+        existing.score = answerScore;
+        existing.similarity = Math.max(existing.similarity ?? 0, similarity);
+        existing.confidence = existing.similarity;
+      }
+      continue;
+    }
+
+    let score = similarity * 0.8;
+    if (row.generation_source === "semantic_analysis") score *= 1.05;
+
+    results.push({
+      item: mapFaqRow(row),
+      type: "faq",
+      similarity,
+      confidence: similarity,
+      score,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * 문서 청크 벡터 검색
+ */
+async function searchChunks(
+  embeddingStr: string,
+  queryTokens: string[],
+  threshold: number,
+  maxResults: number,
+  workspaceId?: string,
+): Promise<KnowledgeResult[]> {
+  const { data, error } = await getSupabaseAdmin().rpc("search_chunks", {
+    query_embedding: embeddingStr,
+    similarity_threshold: threshold,
+    match_count: maxResults,
+    filter_workspace_id: workspaceId ?? null,
+  });
+
+  if (error) {
+    console.error("Chunk search RPC error:", error.message);
+    return [];
+  }
+
+  return ((data || []) as ChunkRow[]).map((row) => {
+    const similarity = row.similarity || 0;
+    const metadata: NonNullable<PDFChunk["metadata"]> = row.metadata || {};
+    // 중요도 가중치는 RPC에서 계산 (관리자 지정 중요도 포함)
+    let score = similarity * 0.9 * (row.importance_weight ?? 1);
+
+    if (metadata.chunkType === "page") score *= 1.15;
+    else if (metadata.chunkType === "heading") score *= 1.1;
+
+    if (metadata.keywords?.some((kw) => containsKeyword(queryTokens, kw))) {
+      score *= 1.2;
+    }
+
+    return {
+      ...mapChunkRow(row),
+      type: "chunk" as const,
+      similarity,
+      confidence: similarity,
+      score,
+    };
+  });
+}
+
+/**
+ * 키워드(pg_trgm) 검색 - trigram 순위(0~1)를 keywordScore로 사용 (벡터 유사도 없음)
+ */
+async function searchByKeyword(
+  queryText: string,
+  maxResults: number,
+  workspaceId?: string,
+): Promise<KnowledgeResult[]> {
+  const supabase = getSupabaseAdmin();
+  const params = {
+    query_text: queryText,
+    match_count: maxResults,
+    filter_workspace_id: workspaceId ?? null,
+  };
+
+  const [faqRes, chunkRes] = await Promise.all([
+    supabase.rpc("search_faqs_by_keyword", params),
+    supabase.rpc("search_chunks_by_keyword", params),
+  ]);
+
+  if (faqRes.error || chunkRes.error) {
+    console.error(
+      "Keyword search RPC error:",
+      (faqRes.error || chunkRes.error)?.message,
+    );
+  }
+
+  const faqResults: KnowledgeResult[] = ((faqRes.data || []) as FaqRow[]).map(
+    (row) => ({
+      item: mapFaqRow(row),
+      type: "faq",
+      keywordScore: row.keyword_rank || 0,
+      confidence: row.keyword_rank || 0,
+      score: row.keyword_rank || 0,
+    }),
+  );
+
+  const chunkResults: KnowledgeResult[] = (
+    (chunkRes.data || []) as ChunkRow[]
+  ).map((row) => ({
+    ...mapChunkRow(row),
+    type: "chunk",
+    keywordScore: row.keyword_rank || 0,
+    confidence: row.keyword_rank || 0,
+    score: row.keyword_rank || 0,
+  }));
+
+  return [...faqResults, ...chunkResults].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Reciprocal Rank Fusion (벡터 순위 + 키워드 순위 결합)
+ * 두 목록에 모두 있으면 벡터 유사도와 키워드 점수를 함께 유지 (신뢰도는 큰 값)
+ */
+function resultKey(result: KnowledgeResult): string {
+  return `${result.type}:${result.item.id}`;
+}
+
+function fuseWithRRF(
+  vectorResults: KnowledgeResult[],
+  keywordResults: KnowledgeResult[],
+): KnowledgeResult[] {
+  const { vectorWeight, keywordWeight, rrfK } = defaultConfig.search;
+  const fused = new Map<string, KnowledgeResult>();
+
+  vectorResults.forEach((result, index) => {
+    fused.set(resultKey(result), {
+      ...result,
+      score: vectorWeight / (rrfK + index + 1),
+    });
+  });
+
+  keywordResults.forEach((result, index) => {
+    const key = resultKey(result);
+    const keywordScore = keywordWeight / (rrfK + index + 1);
+    const existing = fused.get(key);
+
+    if (existing) {
+      existing.score += keywordScore;
+      existing.keywordScore = result.keywordScore;
+      existing.confidence = Math.max(existing.confidence, result.confidence);
+    } else {
+      fused.set(key, { ...result, score: keywordScore });
+    }
+  });
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+function toCandidateText(result: KnowledgeResult): string {
+  if (result.type === "faq") {
+    const faq = result.item as FAQ;
+    return `Q: ${faq.question}\nA: ${faq.answer}`.substring(
+      0,
+      MAX_CANDIDATE_TEXT,
+    );
+  }
+  return (result.item as PDFChunk).content.substring(0, MAX_CANDIDATE_TEXT);
+}
+
+const localReranker = new LocalReranker();
+
+/** 설정(search.reranker)에 따른 재순위화 구현체 */
+function getConfiguredReranker(): Reranker {
+  return defaultConfig.search.reranker === "gemini"
+    ? new GeminiReranker(defaultConfig.timeout.rerank)
+    : localReranker;
+}
+
+/**
+ * 결합 순위 상위 N개(rerankTopN) 재순위화 후 limit개로 자름 (실패 시 로컬 Reranker로 대체)
+ * score = (1 - w) × 기존 점수(상위 N 내 최대값 기준 정규화) + w × 재순위 점수
+ * confidence = (1 - w) × 기존 신뢰도 + w × 재순위 점수 (답변 임계값 비교용)
+ * 자르기 전에 재순위화하므로 limit 밖의 관련 후보도 답변 후보로 올라올 수 있음
+ */
+export async function rerankResults(
+  query: string,
+  results: KnowledgeResult[],
+  limit: number,
+  reranker: Reranker = getConfiguredReranker(),
+): Promise<{
+  results: KnowledgeResult[];
+  reranker: RetrievalTraceSearch["reranker"];
+}> {
+  const { rerankEnabled, rerankTopN, rerankWeight } = defaultConfig.search;
+  if (!rerankEnabled || results.length < 2) {
+    return { results: results.slice(0, limit), reranker: "off" };
+  }
+
+  const head = results.slice(0, rerankTopN);
+  const tail = results.slice(rerankTopN);
+  const candidates = head.map((result, index) => ({
+    id: String(index),
+    text: toCandidateText(result),
+  }));
+
+  let scores: number[];
+  let method: RetrievalTraceSearch["reranker"] = reranker.name;
+  try {
+    scores = await reranker.rerank(query, candidates);
+  } catch (error) {
+    console.error(
+      `${reranker.name} rerank failed, using local reranker:`,
+      error,
+    );
+    scores = await localReranker.rerank(query, candidates);
+    method = localReranker.name;
+  }
+
+  const maxScore = Math.max(...head.map((result) => result.score)) || 1;
+  const reranked = head
+    .map((result, index) => ({
+      ...result,
+      score:
+        (1 - rerankWeight) * (result.score / maxScore) +
+        rerankWeight * (scores[index] ?? 0),
+      confidence:
+        (1 - rerankWeight) * result.confidence +
+        rerankWeight * (scores[index] ?? 0),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  return { results: [...reranked, ...tail].slice(0, limit), reranker: method };
+}
+
+function toTraceLabel(result: KnowledgeResult): string {
+  const label =
+    result.type === "faq"
+      ? (result.item as FAQ).question
+      : `${result.sourceDocument?.name || "문서"} ${(result.item as PDFChunk).pageNumber}페이지`;
+  return label.substring(0, MAX_TRACE_LABEL);
+}
+
+/**
+ * 결합 순위 상위 후보를 검색 추적 형태로 요약
+ * (임계값 미달로 빠진 후보도 selected=false로 남겨 누락 원인 확인)
+ */
+function buildTraceCandidates(
+  vectorResults: KnowledgeResult[],
+  keywordResults: KnowledgeResult[],
+  fused: KnowledgeResult[],
+  finalResults: KnowledgeResult[],
+): RetrievalTraceCandidate[] {
+  const rankOf = (list: KnowledgeResult[]) =>
+    new Map(list.map((result, index) => [resultKey(result), index + 1]));
+  const vectorRanks = rankOf(vectorResults);
+  const keywordRanks = rankOf(keywordResults);
+  const finalScores = new Map(
+    finalResults.map((result) => [resultKey(result), result.score]),
+  );
+
+  return fused.slice(0, MAX_TRACE_CANDIDATES).map((result) => {
+    const key = resultKey(result);
+    return {
+      type: result.type,
+      id: result.item.id,
+      label: toTraceLabel(result),
+      similarity: result.similarity,
+      keywordScore: result.keywordScore,
+      vectorRank: vectorRanks.get(key),
+      keywordRank: keywordRanks.get(key),
+      fusedScore: result.score,
+      finalScore: finalScores.get(key),
+      selected: finalScores.has(key),
+    };
+  });
+}
+
+/**
+ * FAQ + 청크 하이브리드 검색 후 재순위화
+ * 임베딩 생성 실패 시 키워드 검색 결과만 사용
+ * workspaceId 지정 시 해당 워크스페이스 지식베이스만 검색
+ */
+export async function searchKnowledge(
+  query: string,
+  options: KnowledgeSearchOptions = {},
+): Promise<KnowledgeResult[]> {
+  return (await searchKnowledgeWithTrace(query, options)).results;
+}
+
+/**
+ * searchKnowledge + 검색 추적 (후보별 순위/점수, 임베딩 실패 여부, 재순위 방식)
+ */
+export async function searchKnowledgeWithTrace(
+  query: string,
+  options: KnowledgeSearchOptions = {},
+): Promise<{ results: KnowledgeResult[]; trace: RetrievalTraceSearch }> {
+  const {
+    limit = 5,
+    minSimilarity = FAQ_MIN_SIMILARITY,
+    workspaceId,
+    includeFaqs = true,
+    includeChunks = true,
+  } = options;
+  const { hybridSearchEnabled, keywordMatchCount, rerankEnabled, rerankTopN } =
+    defaultConfig.search;
+  // 재순위화로 limit 밖 후보가 올라올 수 있도록 rerankTopN개까지 검색
+  const matchCount = rerankEnabled ? Math.max(limit, rerankTopN) : limit;
+  const queryTokens = tokenize(query);
+  const isIncluded = (result: KnowledgeResult) =>
+    result.type === "faq" ? includeFaqs : includeChunks;
+
+  let embeddingTimeoutId: ReturnType<typeof setTimeout> | undefined;
+  const embedding = await Promise.race([
+    generateEmbedding(query),
+    new Promise<number[]>((_, reject) => {
+      embeddingTimeoutId = setTimeout(
+        () => reject(new Error("Embedding timeout")),
+        EMBEDDING_TIMEOUT,
+      );
+    }),
+  ])
+    .catch((error) => {
+      console.error("Query embedding failed, using keyword search:", error);
+      return [] as number[];
+    })
+    .finally(() => clearTimeout(embeddingTimeoutId));
+
+  const keywordPromise =
+    hybridSearchEnabled || embedding.length === 0
+      ? withTimeout(
+          searchByKeyword(query, keywordMatchCount, workspaceId),
+          SEARCH_TIMEOUT,
+          [],
+        ).then((results) => results.filter(isIncluded))
+      : Promise.resolve([]);
+
+  let vectorResults: KnowledgeResult[] = [];
+  if (embedding.length > 0) {
+    const embeddingStr = `[${embedding.join(",")}]`;
+    const searchResults = await Promise.all([
+      includeFaqs
+        ? withTimeout(
+            searchFAQs(
+              embeddingStr,
+              queryTokens,
+              minSimilarity,
+              matchCount,
+              workspaceId,
+            ),
+            SEARCH_TIMEOUT,
+            [],
+          )
+        : [],
+      includeChunks
+        ? withTimeout(
+            searchChunks(
+              embeddingStr,
+              queryTokens,
+              minSimilarity,
+              matchCount,
+              workspaceId,
+            ),
+            SEARCH_TIMEOUT,
+            [],
+          )
+        : [],
+    ]);
+    // minSimilarity는 벡터 유사도에만 적용 (키워드 점수는 척도가 달라 별도)
+    vectorResults = searchResults
+      .flat()
+      .filter((result) => (result.similarity ?? 0) >= minSimilarity)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  const keywordResults = await keywordPromise;
+
+  const fused =
+    keywordResults.length > 0
+      ? fuseWithRRF(vectorResults, keywordResults)
+      : vectorResults;
+  const reranked = await rerankResults(query, fused, limit);
+
+  return {
+    results: reranked.results,
+    trace: {
+      query,
+      embeddingFailed: embedding.length === 0,
+      hybrid: hybridSearchEnabled || embedding.length === 0,
+      vectorCount: vectorResults.length,
+      keywordCount: keywordResults.length,
+      reranker: reranked.reranker,
+      candidates: buildTraceCandidates(
+        vectorResults,
+        keywordResults,
+        fused,
+        reranked.results,
+      ),
+    },
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Server-Sent Events 유틸리티 (Server-side)
+ * generate-response-stream / chat 공용
+ */
+
+import type { VercelResponse } from "@vercel/node";
+
+/**
+ * SSE 응답 헤더 전송
+ */
+export function startEventStream(res: VercelResponse): void {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders?.();
+}
+
+/**
+ * SSE 이벤트 전송
+ */
+export function sendEvent(
+  res: VercelResponse,
+  payload: Record<string, unknown>,
+): void {
+  res.write(`data: ${JSON.stringify(payload)}\n\n`);
+}
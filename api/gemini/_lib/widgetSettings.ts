@@ -0,0 +1,108 @@
+/**
+ * Widget Settings (Server-side)
+ * 워크스페이스 임베드 위젯 설정 조회 (/api/widget/config, /api/widget/page 공용)
+ * 위젯에서 호출하는 API(/api/chat 등)의 CORS 허용 Origin도 위젯 허용 목록 기준
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { WidgetConfig } from "../../../src/types.js";
+import {
+  WIDGET_CONFIG_SETTING_KEY,
+  isOriginAllowed,
+  parseWidgetConfig,
+} from "../../../src/services/widgetConfig.js";
+import { getSupabaseAdmin } from "./supabaseAdmin.js";
+import { findWorkspace } from "./workspace.js";
+import { loadWorkspaceSetting } from "./workspaceSettings.js";
+
+/**
+ * 공개 워크스페이스의 위젯 설정 (slug 미지정 시 기본 워크스페이스)
+ * 워크스페이스가 없거나 비공개면 null
+ */
+export async function loadPublicWidgetConfig(
+  slug?: string,
+): Promise<WidgetConfig | null> {
+  const workspace = await findWorkspace({ slug });
+
+  if (!workspace || !workspace.isPublic) {
+    return null;
+  }
+
+  return parseWidgetConfig(
+    await loadWorkspaceSetting(workspace.id, WIDGET_CONFIG_SETTING_KEY),
+  );
+}
+
+/**
+ * 위젯을 켠 공개 워크스페이스 중 하나라도 허용한 Origin인지 확인
+ */
+export async function isWidgetOriginAllowed(origin: string): Promise<boolean> {
+  const supabase = getSupabaseAdmin();
+  const { data: workspaces, error: workspaceError } = await supabase
+    .from("workspaces")
+    .select("id")
+    .eq("is_public", true);
+
+  if (workspaceError) {
+    throw new Error(workspaceError.message);
+  }
+  if (!workspaces || workspaces.length === 0) {
+    return false;
+  }
+
+  const { data, error } = await supabase
+    .from("settings")
+    .select("value")
+    .eq("key", WIDGET_CONFIG_SETTING_KEY)
+    .in(
+      "workspace_id",
+      workspaces.map((workspace) => workspace.id),
+    );
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data || []).some((row) => {
+    const config = parseWidgetConfig(row.value);
+    return config.enabled && isOriginAllowed(config, origin);
+  });
+}
+
+/**
+ * 위젯 허용 Origin에만 CORS 헤더 설정
+ * Origin이 없거나 같은 호스트면 CORS 불필요, 허용 목록 밖이거나 조회 실패 시 Allow-Origin 미설정
+ */
+export async function setWidgetCorsHeaders(
+  req: VercelRequest,
+  res: VercelResponse,
+  methods: string,
+): Promise<void> {
+  res.setHeader("Vary", "Origin");
+
+  const origin = req.headers.origin;
+  if (!origin || isSameHost(origin, req.headers.host)) {
+    return;
+  }
+
+  try {
+    if (!(await isWidgetOriginAllowed(origin))) {
+      return;
+    }
+  } catch (error) {
+    console.error("Widget origin check error:", error);
+    return;
+  }
+
+  res.setHeader("Access-Control-Allow-Origin", origin);
+  res.setHeader("Access-Control-Allow-Methods", methods);
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+}
+
+function isSameHost(origin: string, host: string | undefined): boolean {
+  try {
+    return Boolean(host) && new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
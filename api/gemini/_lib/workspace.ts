@@ -0,0 +1,106 @@
+/**
+ * Workspace Access (Server-side)
+ * Service Role 클라이언트는 RLS를 우회하므로 워크스페이스 접근 권한을 직접 검증
+ */
+
+import type { WorkspaceRole } from "../../../src/types.js";
+import {
+  hasPermission,
+  isWorkspaceRole,
+  type Permission,
+} from "../../../src/services/permissions.js";
+import { getSupabaseAdmin } from "./supabaseAdmin.js";
+
+/** 워크스페이스 미지정 시 사용하는 기본 워크스페이스 slug */
+export const DEFAULT_WORKSPACE_SLUG = "default";
+
+export interface WorkspaceRecord {
+  id: string;
+  slug: string;
+  isPublic: boolean;
+}
+
+/**
+ * ID 또는 slug로 워크스페이스 조회 (둘 다 없으면 기본 워크스페이스)
+ */
+export async function findWorkspace(target: {
+  id?: string;
+  slug?: string;
+}): Promise<WorkspaceRecord | null> {
+  let query = getSupabaseAdmin()
+    .from("workspaces")
+    .select("id, slug, is_public");
+
+  query = target.id
+    ? query.eq("id", target.id)
+    : query.eq("slug", target.slug || DEFAULT_WORKSPACE_SLUG);
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data
+    ? { id: data.id, slug: data.slug, isPublic: data.is_public }
+    : null;
+}
+
+/**
+ * 사용자의 워크스페이스 역할 (멤버가 아니면 null)
+ */
+export async function getWorkspaceRole(
+  workspaceId: string,
+  userId: string,
+): Promise<WorkspaceRole | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("workspace_members")
+    .select("role")
+    .eq("workspace_id", workspaceId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return isWorkspaceRole(data?.role) ? data.role : null;
+}
+
+/**
+ * 사용자의 워크스페이스 멤버 여부
+ */
+export async function isWorkspaceMember(
+  workspaceId: string,
+  userId: string,
+): Promise<boolean> {
+  return (await getWorkspaceRole(workspaceId, userId)) !== null;
+}
+
+/**
+ * 사용자 역할의 권한 보유 여부 (api/admin/* 검증용)
+ */
+export async function hasWorkspacePermission(
+  workspaceId: string,
+  userId: string,
+  permission: Permission,
+): Promise<boolean> {
+  return hasPermission(await getWorkspaceRole(workspaceId, userId), permission);
+}
+
+/**
+ * 요청 워크스페이스 접근 검증 (공개 워크스페이스 또는 멤버만 허용)
+ * 접근 불가 시 null
+ */
+export async function resolveAccessibleWorkspace(
+  target: { id?: string; slug?: string },
+  userId?: string,
+): Promise<WorkspaceRecord | null> {
+  const workspace = await findWorkspace(target);
+  if (!workspace) return null;
+  if (workspace.isPublic) return workspace;
+
+  return userId && (await isWorkspaceMember(workspace.id, userId))
+    ? workspace
+    : null;
+}
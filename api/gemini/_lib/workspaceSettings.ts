@@ -0,0 +1,58 @@
+/**
+ * Workspace Settings (Server-side)
+ * settings 테이블 조회 (조회 RLS는 owner 전용이므로 Service Role로 서버에서만 읽음)
+ */
+
+import {
+  CUSTOMER_SERVICE_SETTING_KEY,
+  FALLBACK_CONFIG_SETTING_KEY,
+  buildFallbackMessage,
+  parseCustomerServiceInfo,
+  parseFallbackConfig,
+} from "../../../src/services/fallbackMessage.js";
+import { getSupabaseAdmin } from "./supabaseAdmin.js";
+
+/**
+ * 워크스페이스 설정 값 (없으면 null)
+ */
+export async function loadWorkspaceSetting(
+  workspaceId: string,
+  key: string,
+): Promise<string | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("settings")
+    .select("value")
+    .eq("workspace_id", workspaceId)
+    .eq("key", key)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data?.value ?? null;
+}
+
+/**
+ * 워크스페이스 답변 불가 안내 메시지 (설정 조회 실패 시 기본 문구)
+ */
+export async function loadFallbackMessage(
+  workspaceId: string,
+): Promise<string> {
+  try {
+    const [config, customerService] = await Promise.all([
+      loadWorkspaceSetting(workspaceId, FALLBACK_CONFIG_SETTING_KEY),
+      loadWorkspaceSetting(workspaceId, CUSTOMER_SERVICE_SETTING_KEY),
+    ]);
+    return buildFallbackMessage(
+      parseFallbackConfig(config),
+      parseCustomerServiceInfo(customerService),
+    );
+  } catch (error) {
+    console.error("Fallback message settings error:", error);
+    return buildFallbackMessage(
+      parseFallbackConfig(null),
+      parseCustomerServiceInfo(null),
+    );
+  }
+}
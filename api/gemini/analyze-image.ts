@@ -0,0 +1,208 @@
+/**
+ * Analyze Image Endpoint (Gemini Vision)
+ * POST /api/gemini/analyze-image
+ * Body: { imageBase64: string, mimeType: string, fileName?: string }
+ * Response: { extractedText, caption, tables, keywords, suggestedFAQs }
+ * 스크린샷/스캔 공지 등 이미지의 텍스트(OCR), 설명, 표를 추출
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { DocumentTable } from "../../src/types.js";
+import { defaultConfig } from "../../src/services/config.js";
+import { generateContent } from "./_lib/geminiClient.js";
+import {
+  extractToken,
+  validateToken,
+  parseRequestBody,
+  validateRequiredFields,
+} from "./_lib/validateRequest.js";
+import { TEXT_EXTRACTION_PERSONA } from "./_lib/personaPrompt.js";
+import { validateImageInput } from "./_lib/imageInput.js";
+
+interface ImageAnalysisResult {
+  extractedText: string;
+  caption: string;
+  tables: DocumentTable[];
+  keywords: string[];
+  suggestedFAQs: Array<{
+    question: string;
+    answer: string;
+    category: string;
+  }>;
+}
+
+const MAX_FAQS = 5;
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+}
+
+/**
+ * Gemini JSON 응답 정규화 (누락/잘못된 필드는 빈 값)
+ */
+function normalizeResult(raw: Record<string, unknown>): ImageAnalysisResult {
+  const tables = Array.isArray(raw.tables)
+    ? raw.tables
+        .map((table: Record<string, unknown>) => ({
+          title: typeof table?.title === "string" ? table.title : undefined,
+          headers: toStringArray(table?.headers),
+          rows: Array.isArray(table?.rows)
+            ? table.rows.map((row: unknown) => toStringArray(row))
+            : [],
+        }))
+        .filter((table) => table.rows.length > 0)
+    : [];
+
+  const suggestedFAQs = Array.isArray(raw.suggestedFAQs)
+    ? raw.suggestedFAQs
+        .filter(
+          (faq: Record<string, unknown>) =>
+            typeof faq?.question === "string" &&
+            typeof faq?.answer === "string" &&
+            faq.question.trim() &&
+            faq.answer.trim(),
+        )
+        .slice(0, MAX_FAQS)
+        .map((faq: Record<string, string>) => ({
+          question: faq.question.trim(),
+          answer: faq.answer.trim(),
+          category: faq.category || "일반",
+        }))
+    : [];
+
+  return {
+    extractedText:
+      typeof raw.extractedText === "string" ? raw.extractedText.trim() : "",
+    caption: typeof raw.caption === "string" ? raw.caption.trim() : "",
+    tables,
+    keywords: toStringArray(raw.keywords),
+    suggestedFAQs,
+  };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS 헤더 설정
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end();
+  }
+
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    // JWT 토큰 검증
+    const token = extractToken(req);
+    if (!token) {
+      return res.status(401).json({ error: "Authorization token required" });
+    }
+
+    const validation = await validateToken(token);
+    if (!validation.valid) {
+      return res
+        .status(401)
+        .json({ error: validation.error || "Invalid token" });
+    }
+
+    // 요청 body 파싱
+    const body = await parseRequestBody<{
+      imageBase64: string;
+      mimeType: string;
+      fileName?: string;
+    }>(req);
+
+    // 필수 필드 검증
+    const fieldsValidation = validateRequiredFields(body, [
+      "imageBase64",
+      "mimeType",
+    ]);
+    if (!fieldsValidation.valid) {
+      return res.status(400).json({
+        error: "Missing required fields",
+        missingFields: fieldsValidation.missingFields,
+      });
+    }
+
+    const imageError = validateImageInput(body.imageBase64, body.mimeType);
+    if (imageError) {
+      return res.status(imageError.status).json({ error: imageError.error });
+    }
+
+    const fileName = body.fileName || "이미지";
+
+    const prompt = `${TEXT_EXTRACTION_PERSONA}
+
+다음 이미지(파일명: ${fileName})를 분석하세요.
+
+1. extractedText: 이미지에 보이는 모든 글자를 읽는 순서대로 그대로 옮겨 적으세요 (줄바꿈 유지, 표 내용 포함). 글자가 없으면 빈 문자열.
+2. caption: 이미지가 무엇을 보여주는지 검색에 도움이 되도록 2~3문장으로 설명하세요.
+3. tables: 이미지 안의 표를 행/열 그대로 추출하세요. 표가 없으면 빈 배열.
+4. keywords: 핵심 키워드 최대 10개.
+5. suggestedFAQs: 이미지에 명시된 정보만으로 답할 수 있는 FAQ 최대 ${MAX_FAQS}개. 근거가 부족하면 빈 배열.
+
+이미지에 없는 내용을 추측하거나 추가하지 마세요.
+
+다음 JSON 형식으로 응답하세요:
+{
+  "extractedText": "이미지 속 텍스트",
+  "caption": "이미지 설명",
+  "tables": [{ "title": "표 제목", "headers": ["열1", "열2"], "rows": [["값1", "값2"]] }],
+  "keywords": ["키워드"],
+  "suggestedFAQs": [{ "question": "질문", "answer": "답변", "category": "카테고리" }]
+}`;
+
+    const text = await Promise.race([
+      generateContent(
+        [
+          {
+            parts: [
+              {
+                inlineData: { mimeType: body.mimeType, data: body.imageBase64 },
+              },
+              { text: prompt },
+            ],
+          },
+        ],
+        {
+          temperature: 0.2,
+          maxOutputTokens: 8192,
+          responseMimeType: "application/json",
+        },
+      ),
+      new Promise<never>((_, reject) =>
+        setTimeout(
+          () => reject(new Error("Request timeout")),
+          defaultConfig.timeout.imageAnalysis,
+        ),
+      ),
+    ]);
+
+    const result = normalizeResult(JSON.parse(text));
+
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error("Analyze image error:", error);
+
+    if (error instanceof Error && error.message === "Request timeout") {
+      return res.status(504).json({ error: "Request timeout" });
+    }
+
+    if (error instanceof SyntaxError) {
+      return res.status(500).json({ error: "Failed to parse Gemini response" });
+    }
+
+    return res
+      .status(500)
+      .json({
+        error:
+          (error instanceof Error && error.message) ||
+          "Failed to analyze image",
+      });
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Generate RAG Response Stream Endpoint (SSE)
+ * POST /api/gemini/generate-response-stream
+ * Body: {
+ *   question: string,
+ *   context: Array<{content: string, source: string, similarity: number,
+ *                   chunkId?: number, documentId?: number, pageNumber?: number}>,
+ *   conversationHistory?: Array<{role: string, content: string}>
+ * }
+ * Response: text/event-stream
+ *   data: {"type":"delta","text":"..."}
+ *   data: {"type":"done","text":"...","sources":[...],"citations":[...]}
+ *   data: {"type":"error","error":"..."}
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { streamGenerateContent } from "./_lib/geminiClient.js";
+import {
+  extractToken,
+  validateToken,
+  parseRequestBody,
+  validateRequiredFields,
+} from "./_lib/validateRequest.js";
+import {
+  buildRagContents,
+  buildSources,
+  buildCitations,
+  RAG_GENERATION_CONFIG,
+  type ContextItem,
+  type ConversationMessage,
+} from "./_lib/ragPrompt.js";
+import { startEventStream, sendEvent } from "./_lib/sse.js";
+
+interface GenerateResponseBody {
+  question: string;
+  context: ContextItem[];
+  conversationHistory?: ConversationMessage[];
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS 헤더 설정
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end();
+  }
+
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  // 스트림 시작 여부 (시작 후에는 JSON 에러 응답 불가)
+  let streamStarted = false;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 30000);
+
+  try {
+    // JWT 토큰 검증 (선택적: 공개 챗봇에서도 응답 생성 가능)
+    const token = extractToken(req);
+    if (token) {
+      const validation = await validateToken(token);
+      if (!validation.valid) {
+        return res
+          .status(401)
+          .json({ error: validation.error || "Invalid token" });
+      }
+    }
+
+    // 요청 body 파싱
+    const body = await parseRequestBody<GenerateResponseBody>(req);
+
+    // 필수 필드 검증
+    const fieldsValidation = validateRequiredFields(body, [
+      "question",
+      "context",
+    ]);
+    if (!fieldsValidation.valid) {
+      return res.status(400).json({
+        error: "Missing required fields",
+        missingFields: fieldsValidation.missingFields,
+      });
+    }
+
+    // context 배열 검증
+    if (!Array.isArray(body.context)) {
+      return res.status(400).json({ error: "context must be an array" });
+    }
+
+    const contents = buildRagContents(
+      body.question,
+      body.context,
+      body.conversationHistory,
+    );
+
+    // 클라이언트 연결 종료 시 Gemini 요청도 중단
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    // Gemini 스트리밍 API 호출 (첫 delta 수신 시 SSE 헤더 전송)
+    const fullText = await streamGenerateContent(
+      contents,
+      RAG_GENERATION_CONFIG,
+      (text) => {
+        if (!streamStarted) {
+          startEventStream(res);
+          streamStarted = true;
+        }
+        sendEvent(res, { type: "delta", text });
+      },
+      controller.signal,
+    );
+
+    sendEvent(res, {
+      type: "done",
+      text: fullText,
+      sources: buildSources(body.context),
+      citations: buildCitations(fullText, body.context),
+    });
+    return res.end();
+  } catch (error: any) {
+    console.error("Generate response stream error:", error);
+
+    const message =
+      error.name === "AbortError"
+        ? "Request timeout"
+        : error.message || "Failed to generate response";
+
+    if (streamStarted) {
+      sendEvent(res, { type: "error", error: message });
+      return res.end();
+    }
+
+    if (message === "Request timeout") {
+      return res.status(504).json({ error: "Request timeout" });
+    }
+
+    return res.status(500).json({ error: message });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
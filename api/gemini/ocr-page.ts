@@ -0,0 +1,142 @@
+/**
+ * OCR Page Endpoint (Gemini Vision)
+ * POST /api/gemini/ocr-page
+ * Body: { imageBase64: string, mimeType: string, pageNumber?: number }
+ * Response: { text: string, confidence: number }
+ * 텍스트 레이어가 없는 스캔 PDF 페이지 이미지의 텍스트 추출
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { defaultConfig } from "../../src/services/config.js";
+import { generateContent } from "./_lib/geminiClient.js";
+import {
+  extractToken,
+  validateToken,
+  parseRequestBody,
+  validateRequiredFields,
+} from "./_lib/validateRequest.js";
+import { TEXT_EXTRACTION_PERSONA } from "./_lib/personaPrompt.js";
+import { validateImageInput } from "./_lib/imageInput.js";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS 헤더 설정
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end();
+  }
+
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    // JWT 토큰 검증
+    const token = extractToken(req);
+    if (!token) {
+      return res.status(401).json({ error: "Authorization token required" });
+    }
+
+    const validation = await validateToken(token);
+    if (!validation.valid) {
+      return res
+        .status(401)
+        .json({ error: validation.error || "Invalid token" });
+    }
+
+    // 요청 body 파싱
+    const body = await parseRequestBody<{
+      imageBase64: string;
+      mimeType: string;
+      pageNumber?: number;
+    }>(req);
+
+    // 필수 필드 검증
+    const fieldsValidation = validateRequiredFields(body, [
+      "imageBase64",
+      "mimeType",
+    ]);
+    if (!fieldsValidation.valid) {
+      return res.status(400).json({
+        error: "Missing required fields",
+        missingFields: fieldsValidation.missingFields,
+      });
+    }
+
+    const imageError = validateImageInput(body.imageBase64, body.mimeType);
+    if (imageError) {
+      return res.status(imageError.status).json({ error: imageError.error });
+    }
+
+    const prompt = `${TEXT_EXTRACTION_PERSONA}
+
+다음은 스캔된 문서의 ${body.pageNumber ? `${body.pageNumber}페이지` : "한 페이지"} 이미지입니다.
+페이지에 보이는 모든 텍스트를 읽는 순서대로 그대로 옮겨 적으세요.
+- 줄바꿈과 문단 구분을 유지하세요.
+- 표는 행 단위로 셀을 " | "로 구분해 적으세요.
+- 읽을 수 없는 글자는 추측하지 말고 생략하세요.
+
+confidence에는 페이지 전체 텍스트를 얼마나 정확하게 읽었는지 0~1 사이 값으로 평가하세요
+(흐림, 기울어짐, 손글씨, 잘린 영역이 많을수록 낮게).
+
+다음 JSON 형식으로 응답하세요:
+{ "text": "추출된 텍스트", "confidence": 0.95 }`;
+
+    const text = await Promise.race([
+      generateContent(
+        [
+          {
+            parts: [
+              {
+                inlineData: { mimeType: body.mimeType, data: body.imageBase64 },
+              },
+              { text: prompt },
+            ],
+          },
+        ],
+        {
+          temperature: 0,
+          maxOutputTokens: 8192,
+          responseMimeType: "application/json",
+        },
+      ),
+      new Promise<never>((_, reject) =>
+        setTimeout(
+          () => reject(new Error("Request timeout")),
+          defaultConfig.timeout.imageAnalysis,
+        ),
+      ),
+    ]);
+
+    const parsed = JSON.parse(text) as { text?: unknown; confidence?: unknown };
+    const pageText = typeof parsed.text === "string" ? parsed.text.trim() : "";
+    const confidence =
+      typeof parsed.confidence === "number" && !Number.isNaN(parsed.confidence)
+        ? Math.min(1, Math.max(0, parsed.confidence))
+        : 0;
+
+    return res
+      .status(200)
+      .json({ text: pageText, confidence: pageText ? confidence : 0 });
+  } catch (error) {
+    console.error("OCR page error:", error);
+
+    if (error instanceof Error && error.message === "Request timeout") {
+      return res.status(504).json({ error: "Request timeout" });
+    }
+
+    if (error instanceof SyntaxError) {
+      return res.status(500).json({ error: "Failed to parse Gemini response" });
+    }
+
+    return res
+      .status(500)
+      .json({
+        error:
+          (error instanceof Error && error.message) ||
+          "Failed to extract page text",
+      });
+  }
+}
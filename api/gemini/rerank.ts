@@ -0,0 +1,109 @@
+/**
+ * Rerank Candidates Endpoint
+ * POST /api/gemini/rerank
+ * Body: {
+ *   query: string,
+ *   candidates: Array<{id: string, text: string}>
+ * }
+ * Response: { scores: Array<{id: string, score: number}> } (score: 0~1)
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  extractToken,
+  validateToken,
+  parseRequestBody,
+  validateRequiredFields,
+} from "./_lib/validateRequest.js";
+import { rerankCandidates, type RerankCandidate } from "./_lib/reranker.js";
+
+interface RerankBody {
+  query: string;
+  candidates: RerankCandidate[];
+}
+
+const MAX_CANDIDATES = 20;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS 헤더 설정
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end();
+  }
+
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    // JWT 토큰 검증 (선택적: 공개 챗봇에서도 재순위화 가능)
+    const token = extractToken(req);
+    if (token) {
+      const validation = await validateToken(token);
+      if (!validation.valid) {
+        return res
+          .status(401)
+          .json({ error: validation.error || "Invalid token" });
+      }
+    }
+
+    // 요청 body 파싱
+    const body = await parseRequestBody<RerankBody>(req);
+
+    // 필수 필드 검증
+    const fieldsValidation = validateRequiredFields(body, [
+      "query",
+      "candidates",
+    ]);
+    if (!fieldsValidation.valid) {
+      return res.status(400).json({
+        error: "Missing required fields",
+        missingFields: fieldsValidation.missingFields,
+      });
+    }
+
+    if (!Array.isArray(body.candidates)) {
+      return res.status(400).json({ error: "candidates must be an array" });
+    }
+
+    if (body.candidates.length > MAX_CANDIDATES) {
+      return res
+        .status(400)
+        .json({ error: `Maximum ${MAX_CANDIDATES} candidates allowed` });
+    }
+
+    if (body.candidates.length === 0) {
+      return res.status(200).json({ scores: [] });
+    }
+
+    // 타임아웃 설정 (10초)
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      setTimeout(() => reject(new Error("Request timeout")), 10000);
+    });
+
+    // Gemini로 관련도 평가
+    const scores = await Promise.race([
+      rerankCandidates(body.query, body.candidates),
+      timeoutPromise,
+    ]);
+
+    return res.status(200).json({ scores });
+  } catch (error: any) {
+    console.error("Rerank error:", error);
+
+    if (error.message === "Request timeout") {
+      return res.status(504).json({ error: "Request timeout" });
+    }
+
+    if (error instanceof SyntaxError) {
+      return res.status(500).json({ error: "Failed to parse Gemini response" });
+    }
+
+    return res
+      .status(500)
+      .json({ error: error.message || "Failed to rerank candidates" });
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Ingestion: Enqueue Document
+ * POST /api/ingestion/enqueue
+ * Body: { workspaceId: string, documentId?: number, document: { name, size, uploadMode, filePath?, metadata }, options?: { useAI?: boolean } }
+ *   metadata.textPath: 추출 텍스트 Storage 경로 (<workspaceId>/..., 전체 텍스트는 body로 받지 않고 워커가 읽음)
+ * Response: { documentId: number, version: number, job: IngestionJob }
+ * Storage 업로드/텍스트 추출이 끝난 문서를 status 'processing'으로 저장하고 서버 처리 작업 등록 (editor 이상)
+ * documentId 지정 시 기존 문서를 새 버전으로 교체 (이전 버전 보관, FAQ 유지, 변경된 청크만 재임베딩)
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getSupabaseAdmin } from "../gemini/_lib/supabaseAdmin.js";
+import {
+  extractToken,
+  validateToken,
+  parseRequestBody,
+  validateRequiredFields,
+} from "../gemini/_lib/validateRequest.js";
+import { hasWorkspacePermission } from "../gemini/_lib/workspace.js";
+import {
+  enqueueIngestionJob,
+  hasPendingIngestionJob,
+  isWorkspaceObjectPath,
+  toIngestionJob,
+} from "../gemini/_lib/ingestion.js";
+import {
+  replaceDocumentVersion,
+  type DocumentVersionInput,
+} from "../gemini/_lib/documentVersions.js";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end();
+  }
+
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const token = extractToken(req);
+    if (!token) {
+      return res.status(401).json({ error: "Authorization token required" });
+    }
+
+    const validation = await validateToken(token);
+    if (!validation.valid || !validation.userId) {
+      return res
+        .status(401)
+        .json({ error: validation.error || "Invalid token" });
+    }
+
+    const body = await parseRequestBody<{
+      workspaceId: string;
+      documentId?: number;
+      document: DocumentVersionInput;
+      options?: { useAI?: boolean };
+    }>(req);
+
+    const fieldsValidation = validateRequiredFields(body, [
+      "workspaceId",
+      "document",
+    ]);
+    if (!fieldsValidation.valid || !body.document.name) {
+      return res.status(400).json({
+        error: "Missing required fields",
+        missingFields: fieldsValidation.missingFields ?? ["document.name"],
+      });
+    }
+
+    // RLS를 우회하므로 워크스페이스 역할 직접 확인
+    if (
+      !(await hasWorkspacePermission(
+        body.workspaceId,
+        validation.userId,
+        "editContent",
+      ))
+    ) {
+      return res.status(403).json({ error: "Permission denied" });
+    }
+
+    const supabaseAdmin = getSupabaseAdmin();
+    const { document } = body;
+
+    if (
+      document.metadata?.textContent !== undefined ||
+      !isWorkspaceObjectPath(body.workspaceId, document.metadata?.textPath)
+    ) {
+      return res.status(400).json({
+        error:
+          "metadata.textPath must be a storage path in the workspace (upload the extracted text instead of sending textContent)",
+      });
+    }
+
+    // 새 버전 교체: 문서 ID 유지, 큐레이션된 FAQ는 삭제하지 않으므로 FAQ 생성 생략
+    if (body.documentId) {
+      if (await hasPendingIngestionJob(body.documentId)) {
+        return res.status(409).json({
+          error: "이 문서는 아직 처리 중입니다. 완료 후 다시 시도해주세요.",
+        });
+      }
+
+      const replaced = await replaceDocumentVersion({
+        workspaceId: body.workspaceId,
+        documentId: body.documentId,
+        document,
+        userId: validation.userId,
+      });
+      if (!replaced) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      try {
+        const job = await enqueueIngestionJob({
+          workspaceId: body.workspaceId,
+          documentId: body.documentId,
+          createdBy: validation.userId,
+          payload: {
+            useAI: false,
+            mode: "replace",
+            previousVersion: replaced.previousVersion,
+          },
+        });
+
+        return res.status(200).json({
+          documentId: body.documentId,
+          version: replaced.version,
+          job: toIngestionJob(job),
+        });
+      } catch (enqueueError) {
+        // 이전 청크는 남아 있으므로 문서만 오류로 표시 (새 버전을 다시 업로드해 재시도)
+        await supabaseAdmin
+          .from("pdf_documents")
+          .update({ status: "error" })
+          .eq("id", body.documentId);
+        throw enqueueError;
+      }
+    }
+
+    const { data: created, error: insertError } = await supabaseAdmin
+      .from("pdf_documents")
+      .insert({
+        name: document.name,
+        size: document.size,
+        upload_date: new Date().toISOString().split("T")[0],
+        status: "processing",
+        upload_mode: document.uploadMode || "general",
+        file_path: document.filePath || null,
+        ocr_text: null, // 워커가 metadata.textPath에서 읽어 저장
+        metadata: document.metadata || {},
+        user_id: validation.userId,
+        workspace_id: body.workspaceId,
+      })
+      .select("id")
+      .single();
+
+    if (insertError) {
+      return res
+        .status(500)
+        .json({ error: `문서 저장 실패: ${insertError.message}` });
+    }
+
+    try {
+      const job = await enqueueIngestionJob({
+        workspaceId: body.workspaceId,
+        documentId: created.id,
+        createdBy: validation.userId,
+        payload: { useAI: body.options?.useAI === true, mode: "create" },
+      });
+
+      return res.status(200).json({
+        documentId: created.id,
+        version: 1,
+        job: toIngestionJob(job),
+      });
+    } catch (enqueueError) {
+      // 작업 없이 남은 문서는 처리되지 않으므로 함께 삭제
+      await supabaseAdmin.from("pdf_documents").delete().eq("id", created.id);
+      throw enqueueError;
+    }
+  } catch (error) {
+    console.error("Enqueue ingestion error:", error);
+    return res
+      .status(500)
+      .json({
+        error:
+          (error instanceof Error && error.message) ||
+          "Failed to enqueue document",
+      });
+  }
+}
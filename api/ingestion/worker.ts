@@ -0,0 +1,129 @@
+/**
+ * Ingestion: Worker
+ * POST /api/ingestion/worker
+ * Body: { jobId: string, retry?: boolean }
+ * Response: { claimed: boolean, job: IngestionJob | null }
+ * 관리자 화면이 열려 있는 동안 작업 상태 조회 주기마다 호출 (editor 이상)
+ * retry=true면 실패한 작업을 처음 시도부터 다시 처리
+ *
+ * GET /api/ingestion/worker (Vercel Cron, Authorization: Bearer CRON_SECRET)
+ * Response: { processed: number }
+ * 탭을 닫아 남은 작업을 시간 예산 내에서 순서대로 처리
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { defaultConfig } from "../../src/services/config.js";
+import {
+  extractToken,
+  validateToken,
+  parseRequestBody,
+  validateRequiredFields,
+} from "../gemini/_lib/validateRequest.js";
+import { hasWorkspacePermission } from "../gemini/_lib/workspace.js";
+import {
+  claimIngestionJob,
+  getIngestionJob,
+  retryIngestionJob,
+  runIngestionJob,
+  toIngestionJob,
+} from "../gemini/_lib/ingestion.js";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end();
+  }
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const token = extractToken(req);
+    if (!token) {
+      return res.status(401).json({ error: "Authorization token required" });
+    }
+
+    const deadline = Date.now() + defaultConfig.ingestion.workerTimeBudget;
+
+    // Vercel Cron: 대기 중인 작업을 시간 예산 내에서 처리
+    if (req.method === "GET") {
+      if (!process.env.CRON_SECRET || token !== process.env.CRON_SECRET) {
+        return res.status(401).json({ error: "Invalid cron secret" });
+      }
+
+      let processed = 0;
+      while (Date.now() < deadline) {
+        const claimed = await claimIngestionJob();
+        if (!claimed) break;
+        await runIngestionJob(claimed, deadline);
+        processed++;
+      }
+
+      return res.status(200).json({ processed });
+    }
+
+    const validation = await validateToken(token);
+    if (!validation.valid || !validation.userId) {
+      return res
+        .status(401)
+        .json({ error: validation.error || "Invalid token" });
+    }
+
+    const body = await parseRequestBody<{ jobId: string; retry?: boolean }>(
+      req,
+    );
+    const fieldsValidation = validateRequiredFields(body, ["jobId"]);
+    if (!fieldsValidation.valid) {
+      return res.status(400).json({
+        error: "Missing required fields",
+        missingFields: fieldsValidation.missingFields,
+      });
+    }
+
+    const job = await getIngestionJob(body.jobId);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    // RLS를 우회하므로 워크스페이스 역할 직접 확인
+    if (
+      !(await hasWorkspacePermission(
+        job.workspace_id,
+        validation.userId,
+        "editContent",
+      ))
+    ) {
+      return res.status(403).json({ error: "Permission denied" });
+    }
+
+    if (body.retry && job.status === "failed") {
+      await retryIngestionJob(job);
+    }
+
+    // 다른 워커가 처리 중이거나 재시도 대기 중이면 현재 상태만 반환
+    const claimed = await claimIngestionJob(job.id);
+    if (!claimed) {
+      const current = await getIngestionJob(job.id);
+      return res.status(200).json({
+        claimed: false,
+        job: current ? toIngestionJob(current) : null,
+      });
+    }
+
+    const result = await runIngestionJob(claimed, deadline);
+    return res.status(200).json({ claimed: true, job: toIngestionJob(result) });
+  } catch (error) {
+    console.error("Ingestion worker error:", error);
+    return res
+      .status(500)
+      .json({
+        error:
+          (error instanceof Error && error.message) ||
+          "Failed to process ingestion job",
+      });
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Widget Config Endpoint (공개)
+ * GET /api/widget/config?workspace=<slug>
+ * 임베드 스크립트(public/widget.js)가 호출, 요청 Origin이 허용 목록에 있을 때만 테마 설정 반환
+ * workspace 미지정 시 기본 워크스페이스 (공개 워크스페이스만 허용)
+ * Response: { title, greeting, primaryColor, position }
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { loadPublicWidgetConfig } from "../gemini/_lib/widgetSettings.js";
+import { isOriginAllowed } from "../../src/services/widgetConfig.js";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const origin = req.headers.origin;
+
+  // CORS 헤더 설정 (Allow-Origin은 허용 목록 확인 후 해당 Origin에만)
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader("Vary", "Origin");
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end();
+  }
+
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const slug =
+      typeof req.query.workspace === "string" ? req.query.workspace : undefined;
+    const config = await loadPublicWidgetConfig(slug);
+
+    if (!config) {
+      return res.status(404).json({ error: "Workspace not found" });
+    }
+
+    if (!config.enabled) {
+      return res.status(403).json({ error: "Widget is disabled" });
+    }
+
+    // Origin 헤더가 없는 요청(같은 Origin, 서버 간 호출)은 허용
+    if (origin) {
+      if (!isOriginAllowed(config, origin)) {
+        return res.status(403).json({ error: "Origin not allowed" });
+      }
+      res.setHeader("Access-Control-Allow-Origin", origin);
+    }
+
+    return res.status(200).json({
+      title: config.title,
+      greeting: config.greeting,
+      primaryColor: config.primaryColor,
+      position: config.position,
+    });
+  } catch (error) {
+    console.error("Widget config error:", error);
+    return res
+      .status(500)
+      .json({
+        error:
+          (error instanceof Error && error.message) ||
+          "Failed to load widget config",
+      });
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Widget Page Endpoint (공개)
+ * GET /widget?workspace=<slug> → /api/widget/page (vercel.json rewrite)
+ * SPA(index.html)를 그대로 반환하되, 워크스페이스 위젯 허용 Origin만 iframe으로 삽입할 수 있도록
+ * Content-Security-Policy frame-ancestors 헤더 설정 (위젯 꺼짐/허용 목록 없음/조회 실패 시 모두 차단)
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { loadPublicWidgetConfig } from "../gemini/_lib/widgetSettings.js";
+import { buildFrameAncestors } from "../../src/services/widgetConfig.js";
+
+/** 정적 빌드 결과의 index.html 조회 (같은 배포에서 제공) */
+async function fetchIndexHtml(req: VercelRequest): Promise<string> {
+  const proto = req.headers["x-forwarded-proto"] || "https";
+  const response = await fetch(`${proto}://${req.headers.host}/index.html`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to load index.html: HTTP ${response.status}`);
+  }
+
+  return response.text();
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  let frameAncestors = "frame-ancestors 'none'";
+  try {
+    const slug =
+      typeof req.query.workspace === "string" ? req.query.workspace : undefined;
+    const config = await loadPublicWidgetConfig(slug);
+    if (config) {
+      frameAncestors = buildFrameAncestors(config);
+    }
+  } catch (error) {
+    console.error("Widget page config error:", error);
+  }
+
+  try {
+    const html = await fetchIndexHtml(req);
+
+    res.setHeader("Content-Security-Policy", frameAncestors);
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+    res.setHeader("Cache-Control", "no-store");
+    return res.status(200).send(html);
+  } catch (error) {
+    console.error("Widget page error:", error);
+    return res
+      .status(500)
+      .json({
+        error:
+          (error instanceof Error && error.message) ||
+          "Failed to load widget page",
+      });
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * 엠브레인Agent 임베드 위젯 로더
+ *
+ * 사용법 (고객사 페이지 </body> 직전):
+ *   <script src="https://<배포 도메인>/widget.js" async></script>
+ *
+ * 선택 속성 (관리자 설정보다 우선):
+ *   data-position="bottom-right | bottom-left"
+ *   data-primary-color="#3b82f6"
+ *   data-greeting="인사 메시지"
+ *   data-title="위젯 제목"
+ *   data-workspace="워크스페이스 슬러그" (생략 시 기본 워크스페이스)
+ *
+ * 관리자 > 시스템 설정 > 임베드 위젯에서 허용한 Origin에서만 표시됨
+ */
+(function () {
+  "use strict";
+
+  var script = document.currentScript;
+  if (!script || window.__embrainWidgetLoaded) return;
+  window.__embrainWidgetLoaded = true;
+
+  var baseUrl = new URL(script.src).origin;
+  var workspace = script.dataset.workspace || "";
+  var HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+  var CHAT_ICON =
+    '<svg width="28" height="28" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z"/></svg>';
+  var CLOSE_ICON =
+    '<svg width="24" height="24" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M6 18L18 6M6 6l12 12"/></svg>';
+
+  // 관리자 설정 + data-* 속성 병합
+  function resolveOptions(config) {
+    var dataset = script.dataset;
+    var color = dataset.primaryColor;
+    var position = dataset.position || config.position;
+
+    return {
+      title: dataset.title || config.title,
+      greeting: dataset.greeting || config.greeting,
+      primaryColor:
+        color && HEX_COLOR_PATTERN.test(color) ? color : config.primaryColor,
+      position: position === "bottom-left" ? "bottom-left" : "bottom-right",
+    };
+  }
+
+  function buildStyles(options) {
+    var side = options.position === "bottom-left" ? "left" : "right";
+
+    return (
+      ":host { all: initial; }" +
+      ".launcher { position: fixed; bottom: 20px; " +
+      side +
+      ": 20px; width: 60px; height: 60px; border: none; border-radius: 50%;" +
+      " background: " +
+      options.primaryColor +
+      "; color: #fff; cursor: pointer; display: flex; align-items: center;" +
+      " justify-content: center; box-shadow: 0 8px 24px rgba(0,0,0,0.2);" +
+      " z-index: 2147483646; transition: transform 0.2s; }" +
+      ".launcher:hover { transform: scale(1.05); }" +
+      ".panel { position: fixed; bottom: 92px; " +
+      side +
+      ": 20px; width: 380px; height: 600px; max-height: calc(100vh - 112px);" +
+      " border-radius: 16px; overflow: hidden; background: #fff;" +
+      " box-shadow: 0 16px 48px rgba(0,0,0,0.25); z-index: 2147483647;" +
+      " display: none; }" +
+      ".panel.open { display: block; }" +
+      ".panel iframe { width: 100%; height: 100%; border: 0; }" +
+      "@media (max-width: 480px) {" +
+      " .panel { width: 100vw; height: 100vh; max-height: none; bottom: 0; " +
+      side +
+      ": 0; border-radius: 0; } }"
+    );
+  }
+
+  function mount(config) {
+    var options = resolveOptions(config);
+
+    var host = document.createElement("div");
+    host.id = "embrain-chat-widget";
+    var root = host.attachShadow({ mode: "closed" });
+
+    var style = document.createElement("style");
+    style.textContent = buildStyles(options);
+
+    var launcher = document.createElement("button");
+    launcher.className = "launcher";
+    launcher.type = "button";
+    launcher.setAttribute("aria-label", options.title + " 열기");
+    launcher.innerHTML = CHAT_ICON;
+
+    var panel = document.createElement("div");
+    panel.className = "panel";
+
+    var iframe = null;
+    var isOpen = false;
+
+    function setOpen(open) {
+      isOpen = open;
+
+      // iframe은 처음 열 때 로드 (페이지 로딩 부담 최소화)
+      if (open && !iframe) {
+        var params = new URLSearchParams({
+          title: options.title,
+          greeting: options.greeting,
+          color: options.primaryColor,
+        });
+        if (workspace) {
+          params.set("workspace", workspace);
+        }
+        iframe = document.createElement("iframe");
+        iframe.title = options.title;
+        iframe.src = baseUrl + "/widget?" + params.toString();
+        panel.appendChild(iframe);
+      }
+
+      panel.classList.toggle("open", open);
+      launcher.innerHTML = open ? CLOSE_ICON : CHAT_ICON;
+      launcher.setAttribute(
+        "aria-label",
+        options.title + (open ? " 닫기" : " 열기"),
+      );
+    }
+
+    launcher.addEventListener("click", function () {
+      setOpen(!isOpen);
+    });
+
+    // 위젯 내부 닫기 버튼 (iframe → postMessage)
+    window.addEventListener("message", function (event) {
+      if (event.origin !== baseUrl) return;
+      if (event.data && event.data.type === "embrain-widget:close") {
+        setOpen(false);
+      }
+    });
+
+    root.appendChild(style);
+    root.appendChild(panel);
+    root.appendChild(launcher);
+    document.body.appendChild(host);
+  }
+
+  var configUrl =
+    baseUrl +
+    "/api/widget/config" +
+    (workspace ? "?workspace=" + encodeURIComponent(workspace) : "");
+
+  fetch(configUrl)
+    .then(function (response) {
+      if (!response.ok) {
+        throw new Error("HTTP " + response.status);
+      }
+      return response.json();
+    })
+    .then(function (config) {
+      if (document.body) {
+        mount(config);
+      } else {
+        document.addEventListener("DOMContentLoaded", function () {
+          mount(config);
+        });
+      }
+    })
+    .catch(function (error) {
+      console.warn("[embrain-widget] 위젯을 불러오지 못했습니다:", error);
+    });
+})();
@@ -1,6 +1,8 @@
 import { useState, useEffect } from "react";
 import type { FAQ, Page } from "./types";
 import { useAuth } from "./hooks/useAuth";
+import { useWorkspace, usePublicWorkspace } from "./hooks/useWorkspace";
+import { canAccessPage } from "./services/permissions";
 import ErrorBoundary from "./components/ErrorBoundary";
 import { ToastProvider } from "./components/Toast";
 import Login from "./components/Login";
@@ -11,8 +13,11 @@ import DocumentManagement from "./components/DocumentManagement";
 import ChunkManagement from "./components/ChunkManagement";
 import ChatLogs from "./components/ChatLogs";
 import ChatLogAnalysis from "./components/ChatLogAnalysis";
+import ChatPlayground from "./components/ChatPlayground";
+import RagEvaluation from "./components/RagEvaluation";
 import SystemSettings from "./components/SystemSettings";
 import UserChatbot from "./components/UserChatbot";
+import ChatWidget from "./components/ChatWidget";
 
 function App() {
   const { user, loading, signOut } = useAuth();
@@ -22,6 +27,10 @@ function App() {
   );
   const [currentPage, setCurrentPage] = useState<Page>("대시보드");
   const [faqs, setFaqs] = useState<FAQ[]>([]);
+  const adminWorkspace = useWorkspace(
+    currentView === "admin" && user ? user.id : null,
+  );
+  const publicWorkspace = usePublicWorkspace(currentView === "chatbot");
 
   // Auth state + pathname → view switching
   useEffect(() => {
@@ -37,12 +46,33 @@ function App() {
     }
   }, [user, loading]);
 
+  // 워크스페이스 전환/생성 시 이전 워크스페이스 데이터 초기화
+  const handleSwitchWorkspace = (workspaceId: string) => {
+    setFaqs([]);
+    adminWorkspace.switchWorkspace(workspaceId);
+  };
+
+  const handleCreateWorkspace = async (name: string, slug: string) => {
+    const created = await adminWorkspace.createWorkspace(name, slug);
+    setFaqs([]);
+    return created;
+  };
+
   const handleLogout = async () => {
     await signOut();
     setCurrentView("login");
     setCurrentPage("대시보드");
   };
 
+  const renderLoading = () => (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto"></div>
+        <p className="mt-4 text-gray-600">로딩 중...</p>
+      </div>
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -56,10 +86,24 @@ function App() {
 
   // Chatbot view (public)
   if (currentView === "chatbot") {
+    if (publicWorkspace.loading) {
+      return renderLoading();
+    }
+    if (!publicWorkspace.workspace) {
+      return (
+        <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+          <p className="text-gray-600">챗봇을 찾을 수 없습니다.</p>
+        </div>
+      );
+    }
     return (
       <ErrorBoundary>
         <ToastProvider>
-          <UserChatbot />
+          {window.location.pathname.startsWith("/widget") ? (
+            <ChatWidget />
+          ) : (
+            <UserChatbot />
+          )}
         </ToastProvider>
       </ErrorBoundary>
     );
@@ -82,6 +126,25 @@ function App() {
 
   // Admin panel with sidebar
   const renderPage = () => {
+    if (!adminWorkspace.workspace) {
+      return (
+        <div className="p-8 text-center text-gray-600">
+          {adminWorkspace.loading
+            ? "워크스페이스를 불러오는 중..."
+            : "소속된 워크스페이스가 없습니다. 사이드바에서 새 워크스페이스를 만들어 주세요."}
+        </div>
+      );
+    }
+
+    // 역할에 허용되지 않은 페이지 (Sidebar에서도 숨김)
+    if (!canAccessPage(adminWorkspace.workspace.role, currentPage)) {
+      return (
+        <div className="p-8 text-center text-gray-600">
+          이 페이지에 접근할 권한이 없습니다.
+        </div>
+      );
+    }
+
     switch (currentPage) {
       case "대시보드":
         return (
@@ -97,6 +160,10 @@ function App() {
         return <ChatLogs />;
       case "채팅 분석":
         return <ChatLogAnalysis />;
+      case "플레이그라운드":
+        return <ChatPlayground />;
+      case "RAG 평가":
+        return <RagEvaluation />;
       case "시스템 설정":
         return <SystemSettings />;
       default:
@@ -114,8 +181,16 @@ function App() {
             currentPage={currentPage}
             setCurrentPage={setCurrentPage}
             onLogout={handleLogout}
+            workspaces={adminWorkspace.workspaces}
+            currentWorkspace={adminWorkspace.workspace}
+            onSwitchWorkspace={handleSwitchWorkspace}
+            onCreateWorkspace={handleCreateWorkspace}
           />
-          <main className="lg:ml-64 min-h-screen overflow-auto">
+          {/* 워크스페이스 전환 시 페이지 상태를 새로 로드 */}
+          <main
+            key={adminWorkspace.workspace?.id ?? "none"}
+            className="lg:ml-64 min-h-screen overflow-auto"
+          >
             {renderPage()}
           </main>
         </div>
@@ -101,6 +101,13 @@ const ChatLogAnalysis: React.FC = () => {
       ? `${(analytics.resolutionRate * 100).toFixed(1)}%`
       : "-";
 
+  const feedbackSummary = analytics.feedbackSummary ?? {
+    helpful: 0,
+    unhelpful: 0,
+  };
+  const worstFaqs = analytics.worstFaqs ?? [];
+  const worstChunks = analytics.worstChunks ?? [];
+
   const maxCount = useMemo(
     () => Math.max(...topQuestions.map((q) => q.count), 1),
     [topQuestions],
@@ -304,123 +311,242 @@ const ChatLogAnalysis: React.FC = () => {
           </div>
         </div>
       ) : (
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Hourly Distribution */}
-          <div className="bg-white rounded-xl shadow-sm p-6">
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-semibold text-black">
-                시간대별 질문 분포
-              </h3>
-              <span className="text-xs text-gray-400 bg-gray-100 px-2 py-1 rounded">
-                {periodLabel}
-              </span>
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Hourly Distribution */}
+            <div className="bg-white rounded-xl shadow-sm p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-black">
+                  시간대별 질문 분포
+                </h3>
+                <span className="text-xs text-gray-400 bg-gray-100 px-2 py-1 rounded">
+                  {periodLabel}
+                </span>
+              </div>
+              {hourlyData.length > 0 ? (
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart data={hourlyData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                    <XAxis
+                      dataKey="hour"
+                      stroke="#6b7280"
+                      tick={{ fontSize: 11 }}
+                      tickFormatter={(v: string) => `${v}시`}
+                    />
+                    <YAxis
+                      stroke="#6b7280"
+                      tick={{ fontSize: 11 }}
+                      allowDecimals={false}
+                    />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: "white",
+                        border: "1px solid #e5e7eb",
+                        borderRadius: "8px",
+                        boxShadow: "0 4px 6px -1px rgba(0, 0, 0, 0.1)",
+                      }}
+                      formatter={(value: number | undefined) => [
+                        `${value ?? 0}건`,
+                        "질문 수",
+                      ]}
+                      labelFormatter={(label: React.ReactNode) =>
+                        `${String(label)}시`
+                      }
+                    />
+                    <Bar dataKey="count" fill="#3B82F6" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="text-center py-12 text-gray-400">
+                  <p>시간대별 데이터가 없습니다</p>
+                </div>
+              )}
             </div>
-            {hourlyData.length > 0 ? (
-              <ResponsiveContainer width="100%" height={300}>
-                <BarChart data={hourlyData}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                  <XAxis
-                    dataKey="hour"
-                    stroke="#6b7280"
-                    tick={{ fontSize: 11 }}
-                    tickFormatter={(v: string) => `${v}시`}
-                  />
-                  <YAxis
-                    stroke="#6b7280"
-                    tick={{ fontSize: 11 }}
-                    allowDecimals={false}
-                  />
-                  <Tooltip
-                    contentStyle={{
-                      backgroundColor: "white",
-                      border: "1px solid #e5e7eb",
-                      borderRadius: "8px",
-                      boxShadow: "0 4px 6px -1px rgba(0, 0, 0, 0.1)",
-                    }}
-                    formatter={(value: number | undefined) => [
-                      `${value ?? 0}건`,
-                      "질문 수",
-                    ]}
-                    labelFormatter={(label: React.ReactNode) =>
-                      `${String(label)}시`
-                    }
-                  />
-                  <Bar dataKey="count" fill="#3B82F6" radius={[4, 4, 0, 0]} />
-                </BarChart>
-              </ResponsiveContainer>
-            ) : (
-              <div className="text-center py-12 text-gray-400">
-                <p>시간대별 데이터가 없습니다</p>
+
+            {/* Top Questions */}
+            <div className="bg-white rounded-xl shadow-sm p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-black">
+                  인기 질문 TOP 5
+                </h3>
+                <span className="text-xs text-gray-400 bg-gray-100 px-2 py-1 rounded">
+                  {periodLabel}
+                </span>
               </div>
-            )}
+              {topQuestions.length > 0 ? (
+                <div className="space-y-3">
+                  {topQuestions.map((item, index) => {
+                    const barWidth = Math.max((item.count / maxCount) * 100, 8);
+                    return (
+                      <div key={index} className="group">
+                        <div className="flex items-center justify-between mb-1">
+                          <div className="flex items-center min-w-0 flex-1 mr-3">
+                            <span
+                              className={`flex-shrink-0 w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold mr-2 ${
+                                index === 0
+                                  ? "bg-yellow-100 text-yellow-700"
+                                  : index === 1
+                                    ? "bg-gray-100 text-gray-600"
+                                    : index === 2
+                                      ? "bg-orange-100 text-orange-600"
+                                      : "bg-gray-50 text-gray-400"
+                              }`}
+                            >
+                              {index + 1}
+                            </span>
+                            <p
+                              className="text-sm text-gray-800 truncate"
+                              title={item.question}
+                            >
+                              {item.question}
+                            </p>
+                          </div>
+                          <span className="flex-shrink-0 text-sm font-semibold text-blue-600">
+                            {item.count}회
+                          </span>
+                        </div>
+                        <div className="ml-8 flex items-center gap-2">
+                          <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-blue-400 rounded-full transition-all duration-500"
+                              style={{ width: `${barWidth}%` }}
+                            />
+                          </div>
+                          {item.category && (
+                            <span className="flex-shrink-0 text-[10px] px-1.5 py-0.5 rounded bg-blue-50 text-blue-600">
+                              {item.category}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="text-center py-12 text-gray-400">
+                  <p>인기 질문 데이터가 없습니다</p>
+                </div>
+              )}
+            </div>
           </div>
 
-          {/* Top Questions */}
+          {/* Feedback: 개선이 필요한 FAQ / 청크 */}
           <div className="bg-white rounded-xl shadow-sm p-6">
             <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-semibold text-black">
-                인기 질문 TOP 5
-              </h3>
-              <span className="text-xs text-gray-400 bg-gray-100 px-2 py-1 rounded">
-                {periodLabel}
-              </span>
+              <div>
+                <h3 className="text-lg font-semibold text-black">
+                  개선이 필요한 답변
+                </h3>
+                <p className="text-sm text-gray-500 mt-1">
+                  👎 피드백이 많은 FAQ와 문서 청크입니다
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <span className="text-xs px-2 py-1 rounded bg-green-50 text-green-700">
+                  👍 {feedbackSummary.helpful.toLocaleString("ko-KR")}
+                </span>
+                <span className="text-xs px-2 py-1 rounded bg-red-50 text-red-700">
+                  👎 {feedbackSummary.unhelpful.toLocaleString("ko-KR")}
+                </span>
+                <span className="text-xs text-gray-400 bg-gray-100 px-2 py-1 rounded">
+                  {periodLabel}
+                </span>
+              </div>
             </div>
-            {topQuestions.length > 0 ? (
-              <div className="space-y-3">
-                {topQuestions.map((item, index) => {
-                  const barWidth = Math.max((item.count / maxCount) * 100, 8);
-                  return (
-                    <div key={index} className="group">
-                      <div className="flex items-center justify-between mb-1">
-                        <div className="flex items-center min-w-0 flex-1 mr-3">
-                          <span
-                            className={`flex-shrink-0 w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold mr-2 ${
-                              index === 0
-                                ? "bg-yellow-100 text-yellow-700"
-                                : index === 1
-                                  ? "bg-gray-100 text-gray-600"
-                                  : index === 2
-                                    ? "bg-orange-100 text-orange-600"
-                                    : "bg-gray-50 text-gray-400"
-                            }`}
-                          >
-                            {index + 1}
-                          </span>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <h4 className="text-sm font-semibold text-gray-700 mb-3">
+                  FAQ
+                </h4>
+                {worstFaqs.length > 0 ? (
+                  <div className="space-y-3">
+                    {worstFaqs.map((item) => (
+                      <div
+                        key={item.faqId}
+                        className="border border-gray-100 rounded-lg p-3"
+                      >
+                        <div className="flex items-start justify-between">
                           <p
-                            className="text-sm text-gray-800 truncate"
+                            className="text-sm text-gray-800 truncate mr-3"
                             title={item.question}
                           >
                             {item.question}
                           </p>
-                        </div>
-                        <span className="flex-shrink-0 text-sm font-semibold text-blue-600">
-                          {item.count}회
-                        </span>
-                      </div>
-                      <div className="ml-8 flex items-center gap-2">
-                        <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
-                          <div
-                            className="h-full bg-blue-400 rounded-full transition-all duration-500"
-                            style={{ width: `${barWidth}%` }}
-                          />
+                          <span className="flex-shrink-0 text-xs text-gray-500">
+                            👍 {item.helpful} · 👎 {item.unhelpful}
+                          </span>
                         </div>
                         {item.category && (
-                          <span className="flex-shrink-0 text-[10px] px-1.5 py-0.5 rounded bg-blue-50 text-blue-600">
+                          <span className="inline-block mt-1 text-[10px] px-1.5 py-0.5 rounded bg-blue-50 text-blue-600">
                             {item.category}
                           </span>
                         )}
+                        {item.reasons && item.reasons.length > 0 && (
+                          <ul className="mt-2 space-y-1">
+                            {item.reasons.map((reason, i) => (
+                              <li key={i} className="text-xs text-gray-500">
+                                “{reason}”
+                              </li>
+                            ))}
+                          </ul>
+                        )}
                       </div>
-                    </div>
-                  );
-                })}
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center py-8 text-gray-400">
+                    <p className="text-sm">👎 피드백을 받은 FAQ가 없습니다</p>
+                  </div>
+                )}
               </div>
-            ) : (
-              <div className="text-center py-12 text-gray-400">
-                <p>인기 질문 데이터가 없습니다</p>
+
+              <div>
+                <h4 className="text-sm font-semibold text-gray-700 mb-3">
+                  문서 청크
+                </h4>
+                {worstChunks.length > 0 ? (
+                  <div className="space-y-3">
+                    {worstChunks.map((item) => (
+                      <div
+                        key={item.chunkId}
+                        className="border border-gray-100 rounded-lg p-3"
+                      >
+                        <div className="flex items-start justify-between">
+                          <p
+                            className="text-sm font-medium text-gray-800 truncate mr-3"
+                            title={item.documentName}
+                          >
+                            {item.documentName} · {item.pageNumber}페이지
+                          </p>
+                          <span className="flex-shrink-0 text-xs text-gray-500">
+                            👍 {item.helpful} · 👎 {item.unhelpful}
+                          </span>
+                        </div>
+                        <p className="mt-1 text-xs text-gray-500 line-clamp-2">
+                          {item.contentPreview}
+                        </p>
+                        {item.reasons && item.reasons.length > 0 && (
+                          <ul className="mt-2 space-y-1">
+                            {item.reasons.map((reason, i) => (
+                              <li key={i} className="text-xs text-gray-500">
+                                “{reason}”
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center py-8 text-gray-400">
+                    <p className="text-sm">👎 피드백을 받은 청크가 없습니다</p>
+                  </div>
+                )}
               </div>
-            )}
+            </div>
           </div>
-        </div>
+        </>
       )}
     </div>
   );
@@ -1,10 +1,18 @@
 import React, { useState, useMemo, useEffect, useCallback } from "react";
 import { getSupabaseDatabaseService } from "../services/supabase";
 import { autoEmbeddingService } from "../services/autoEmbeddingService";
-import { ChatSession, ChatLogMessage, FAQ } from "../types";
+import {
+  ChatSession,
+  ChatLogMessage,
+  FAQ,
+  MessageFeedback,
+  RetrievalTrace,
+} from "../types";
 import { useToast } from "./Toast";
 import { exportChatLogsToExcel } from "../services/excelExportService";
 import { createLogger } from "../services/logger";
+import { hasCurrentPermission } from "../services/workspaceContext";
+import RetrievalTracePanel from "./RetrievalTracePanel";
 
 const log = createLogger("ChatLogs");
 interface ChatConversation {
@@ -33,6 +41,10 @@ interface ChatMessage {
   responseTime?: number; // in milliseconds
   confidence?: number; // AI confidence score
   sourceFaq?: number; // FAQ ID that was used for response
+  rewrittenQuery?: string; // 후속 질문 재작성 검색 질의
+  feedback?: MessageFeedback; // 봇 응답 👍/👎
+  feedbackReason?: string;
+  retrievalTrace?: RetrievalTrace; // 검색 추적 (서버 파이프라인 답변만)
 }
 
 const REAL_DATA_TAG = "실제 데이터";
@@ -124,6 +136,10 @@ const mapSessionToConversation = (
       responseTime: message.responseTime,
       confidence: message.confidence,
       sourceFaq: message.sourceFaq,
+      rewrittenQuery: message.rewrittenQuery,
+      feedback: message.feedback,
+      feedbackReason: message.feedbackReason,
+      retrievalTrace: message.retrievalTrace,
     })),
   };
 };
@@ -167,6 +183,7 @@ const FAQ_CATEGORIES = [
 
 const ChatLogs: React.FC = () => {
   const dbService = useMemo(() => getSupabaseDatabaseService(), []);
+  const canEditContent = hasCurrentPermission("editContent");
   const { showToast } = useToast();
 
   const [conversations, setConversations] = useState<ChatConversation[]>([]);
@@ -181,6 +198,8 @@ const ChatLogs: React.FC = () => {
   const [selectedConversation, setSelectedConversation] =
     useState<ChatConversation | null>(null);
   const [showDetails, setShowDetails] = useState(false);
+  // "왜 이 답변?" 검색 추적을 펼친 봇 메시지
+  const [traceMessageId, setTraceMessageId] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<string | null>(null);
   const [loadError, setLoadError] = useState<string | null>(null);
@@ -349,6 +368,7 @@ const ChatLogs: React.FC = () => {
 
   const handleViewDetails = (conversation: ChatConversation) => {
     setSelectedConversation(conversation);
+    setTraceMessageId(null);
     setShowDetails(true);
   };
 
@@ -916,7 +936,8 @@ const ChatLogs: React.FC = () => {
               </div>
 
               {/* FAQ 등록 버튼 */}
-              {!registeredFaqSessionIds.has(selectedConversation.sessionId) &&
+              {canEditContent &&
+                !registeredFaqSessionIds.has(selectedConversation.sessionId) &&
                 !showFaqForm && (
                   <div className="mb-6">
                     <button
@@ -1109,7 +1130,11 @@ const ChatLogs: React.FC = () => {
                     className={`flex ${message.sender === "user" ? "justify-end" : "justify-start"}`}
                   >
                     <div
-                      className={`max-w-[70%] rounded-lg px-4 py-2 ${
+                      className={`${
+                        traceMessageId === message.id
+                          ? "max-w-[90%]"
+                          : "max-w-[70%]"
+                      } rounded-lg px-4 py-2 ${
                         message.sender === "user"
                           ? "bg-blue-600 text-white"
                           : "bg-gray-100 text-black"
@@ -1118,6 +1143,11 @@ const ChatLogs: React.FC = () => {
                       <p className="text-sm whitespace-pre-wrap">
                         {removeMarkdown(message.message)}
                       </p>
+                      {message.rewrittenQuery && (
+                        <p className="text-xs opacity-75 mt-1">
+                          검색 질의: {message.rewrittenQuery}
+                        </p>
+                      )}
                       <div className="flex justify-between items-center mt-2 text-xs opacity-75">
                         <span>
                           {new Date(message.timestamp).toLocaleTimeString(
@@ -1133,6 +1163,36 @@ const ChatLogs: React.FC = () => {
                           신뢰도: {Math.round(message.confidence * 100)}%
                         </div>
                       )}
+                      {message.sender === "bot" && message.feedback && (
+                        <div className="text-xs opacity-75 mt-1">
+                          피드백: {message.feedback === "helpful" ? "👍" : "👎"}
+                          {message.feedbackReason &&
+                            ` · ${message.feedbackReason}`}
+                        </div>
+                      )}
+                      {canEditContent && message.retrievalTrace && (
+                        <>
+                          <button
+                            onClick={() =>
+                              setTraceMessageId(
+                                traceMessageId === message.id
+                                  ? null
+                                  : message.id,
+                              )
+                            }
+                            className="text-xs text-blue-600 hover:underline mt-1"
+                          >
+                            {traceMessageId === message.id
+                              ? "검색 근거 닫기"
+                              : "왜 이 답변?"}
+                          </button>
+                          {traceMessageId === message.id && (
+                            <RetrievalTracePanel
+                              trace={message.retrievalTrace}
+                            />
+                          )}
+                        </>
+                      )}
                     </div>
                   </div>
                 ))}
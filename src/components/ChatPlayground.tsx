@@ -0,0 +1,385 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ConversationTurn,
+  EvalCaseInput,
+  PlaygroundResponse,
+  PlaygroundSettings,
+  RetrievalTraceCandidate,
+} from "../types";
+import {
+  playgroundService,
+  DEFAULT_PLAYGROUND_SETTINGS,
+} from "../services/playgroundService";
+import { getSupabaseDatabaseService } from "../services/supabase";
+import { useToast } from "./Toast";
+import { createLogger } from "../services/logger";
+import RetrievalTracePanel from "./RetrievalTracePanel";
+import EvalCaseModal from "./EvalCaseModal";
+
+const log = createLogger("Playground");
+
+interface PlaygroundTurn {
+  id: number;
+  message: string;
+  settings: PlaygroundSettings; // 실행 당시 조건
+  response?: PlaygroundResponse;
+  error?: string;
+}
+
+/**
+ * 실행 결과 → 평가 질문 초안 (FAQ 답변이면 해당 FAQ, 생성 답변이면 인용 청크를 기대값으로)
+ */
+const toEvalDraft = (
+  turn: PlaygroundTurn,
+  response: PlaygroundResponse,
+): { draft: EvalCaseInput; candidates: RetrievalTraceCandidate[] } => {
+  const candidates = new Map<string, RetrievalTraceCandidate>();
+  response.retrievalTrace.searches
+    .flatMap((search) => search.candidates)
+    .forEach((candidate) =>
+      candidates.set(`${candidate.type}:${candidate.id}`, candidate),
+    );
+  const citedChunkIds = (response.citations || [])
+    .map((citation) => citation.chunkId)
+    .filter((id): id is number => id !== undefined);
+
+  return {
+    draft: {
+      question: response.rewrittenQuery || turn.message,
+      expectedFaqIds:
+        response.answerType === "faq" && response.faq ? [response.faq.id] : [],
+      expectedChunkIds: Array.from(new Set(citedChunkIds)),
+      expectedFacts: [],
+      expectFallback: response.answerType === "fallback",
+    },
+    candidates: Array.from(candidates.values()),
+  };
+};
+
+/**
+ * 관리자 플레이그라운드: 공개 챗봇과 같은 파이프라인을 기록 없이 실행하고
+ * 답변 옆에 검색 후보/점수를 표시, 조건(후보 수/임계값/검색 대상/지시문) 조정
+ */
+const ChatPlayground: React.FC = () => {
+  const { showToast } = useToast();
+  const dbService = useMemo(() => getSupabaseDatabaseService(), []);
+  const [settings, setSettings] = useState<PlaygroundSettings>(
+    DEFAULT_PLAYGROUND_SETTINGS,
+  );
+  const [input, setInput] = useState("");
+  const [turns, setTurns] = useState<PlaygroundTurn[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [evalDraft, setEvalDraft] = useState<{
+    draft: EvalCaseInput;
+    candidates: RetrievalTraceCandidate[];
+  } | null>(null);
+  const [evalCaseCount, setEvalCaseCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    dbService
+      .getEvalCases()
+      .then((cases) => setEvalCaseCount(cases.length))
+      .catch((error) => log.error("평가 질문 조회 실패:", error));
+  }, [dbService]);
+
+  const lastResponse = [...turns]
+    .reverse()
+    .find((turn) => turn.response)?.response;
+
+  const updateSettings = (updates: Partial<PlaygroundSettings>) => {
+    setSettings((prev) => ({ ...prev, ...updates }));
+  };
+
+  const handleRun = async () => {
+    const message = input.trim();
+    if (!message || isRunning) return;
+
+    // 플레이그라운드 안의 이전 대화를 후속 질문 맥락으로 전달
+    const history: ConversationTurn[] = turns.flatMap((turn) =>
+      turn.response
+        ? [
+            { role: "user" as const, content: turn.message },
+            { role: "assistant" as const, content: turn.response.answer },
+          ]
+        : [],
+    );
+    const turn: PlaygroundTurn = {
+      id: Date.now(),
+      message,
+      settings: { ...settings },
+    };
+
+    setInput("");
+    setIsRunning(true);
+    try {
+      const response = await playgroundService.run(message, settings, history);
+      setTurns((prev) => [...prev, { ...turn, response }]);
+    } catch (error) {
+      log.error("플레이그라운드 실행 실패:", error);
+      showToast("플레이그라운드 실행에 실패했습니다.", "error");
+      setTurns((prev) => [
+        ...prev,
+        {
+          ...turn,
+          error: error instanceof Error ? error.message : "실행 실패",
+        },
+      ]);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleRerun = (message: string) => {
+    setInput(message);
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">플레이그라운드</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              공개 챗봇과 같은 파이프라인으로 답변과 검색 후보를 확인합니다
+              (채팅 로그/통계에 기록되지 않음)
+            </p>
+          </div>
+          {evalCaseCount !== null && (
+            <div className="text-sm text-gray-600">
+              평가 질문{" "}
+              <span className="font-semibold text-blue-600">
+                {evalCaseCount}
+              </span>
+              개
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        {/* Settings */}
+        <div className="w-80 bg-white border-r border-gray-200 p-4 space-y-5 overflow-y-auto">
+          <h2 className="text-lg font-semibold text-gray-900">실행 조건</h2>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              답변 후보 수 (limit)
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={20}
+              value={settings.limit}
+              onChange={(e) =>
+                updateSettings({
+                  limit: Math.min(20, Math.max(1, Number(e.target.value) || 1)),
+                })
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              최소 유사도 {Math.round(settings.minSimilarity * 100)}%
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={settings.minSimilarity}
+              onChange={(e) =>
+                updateSettings({ minSimilarity: Number(e.target.value) })
+              }
+              className="w-full"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">검색 대상</p>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={settings.includeFaqs}
+                onChange={(e) =>
+                  updateSettings({ includeFaqs: e.target.checked })
+                }
+                disabled={!settings.includeChunks}
+              />
+              <span>FAQ</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={settings.includeChunks}
+                onChange={(e) =>
+                  updateSettings({ includeChunks: e.target.checked })
+                }
+                disabled={!settings.includeFaqs}
+              />
+              <span>문서 청크</span>
+            </label>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="text-sm font-medium text-gray-700">
+                RAG 지시문
+              </label>
+              <button
+                onClick={() =>
+                  updateSettings({ instructions: lastResponse?.instructions })
+                }
+                disabled={!lastResponse}
+                className="text-xs text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+              >
+                마지막 실행 지시문 불러오기
+              </button>
+            </div>
+            <textarea
+              value={settings.instructions || ""}
+              onChange={(e) => updateSettings({ instructions: e.target.value })}
+              rows={10}
+              placeholder="비워 두면 기본 지시문을 사용합니다. 참고 자료, 보안 지침, 인용 표기 규칙은 항상 덧붙습니다."
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-xs font-mono"
+            />
+          </div>
+
+          <button
+            onClick={() => setSettings(DEFAULT_PLAYGROUND_SETTINGS)}
+            className="w-full px-3 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            기본 조건으로 되돌리기
+          </button>
+        </div>
+
+        {/* Turns */}
+        <div className="flex-1 flex flex-col overflow-hidden">
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            {turns.length === 0 ? (
+              <div className="text-center text-gray-500 py-16">
+                <p className="text-sm">
+                  질문을 입력해 답변과 검색 후보를 확인하세요
+                </p>
+              </div>
+            ) : (
+              turns.map(({ response, ...turn }) => (
+                <div
+                  key={turn.id}
+                  className="bg-white border border-gray-200 rounded-lg p-4"
+                >
+                  <div className="flex items-start justify-between mb-3">
+                    <p className="text-sm font-medium text-gray-900">
+                      Q. {turn.message}
+                    </p>
+                    <button
+                      onClick={() => handleRerun(turn.message)}
+                      className="shrink-0 ml-3 text-xs text-gray-500 hover:text-gray-700"
+                    >
+                      다시 입력
+                    </button>
+                  </div>
+
+                  {turn.error ? (
+                    <p className="text-sm text-red-600">{turn.error}</p>
+                  ) : (
+                    response && (
+                      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <p className="text-sm text-gray-800 whitespace-pre-wrap bg-gray-50 p-3 rounded border border-gray-200">
+                            {response.answer}
+                          </p>
+                          {response.rewrittenQuery && (
+                            <p className="text-xs text-gray-500">
+                              검색 질의: {response.rewrittenQuery}
+                            </p>
+                          )}
+                          {response.citations &&
+                            response.citations.length > 0 && (
+                              <ul className="text-xs text-gray-600 space-y-0.5">
+                                {response.citations.map((citation) => (
+                                  <li key={citation.index}>
+                                    [{citation.index}] {citation.documentName}{" "}
+                                    {citation.pageNumber}페이지
+                                    {citation.chunkId !== undefined &&
+                                      ` (청크 #${citation.chunkId})`}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          <p className="text-xs text-gray-500">
+                            신뢰도 {Math.round(response.confidence * 100)}% ·
+                            응답시간 {response.responseTime}ms · 후보{" "}
+                            {turn.settings.limit}개 · 최소 유사도{" "}
+                            {Math.round(turn.settings.minSimilarity * 100)}%
+                          </p>
+                          <button
+                            onClick={() =>
+                              setEvalDraft(toEvalDraft(turn, response))
+                            }
+                            className="px-3 py-1.5 text-xs font-medium text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+                          >
+                            평가 질문으로 저장
+                          </button>
+                        </div>
+                        <RetrievalTracePanel trace={response.retrievalTrace} />
+                      </div>
+                    )
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Input */}
+          <div className="bg-white border-t border-gray-200 p-4">
+            <div className="flex items-end space-x-3">
+              <textarea
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    handleRun();
+                  }
+                }}
+                rows={2}
+                placeholder="질문 입력 (Enter 실행, Shift+Enter 줄바꿈)"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm resize-none"
+              />
+              <div className="flex flex-col space-y-2">
+                <button
+                  onClick={handleRun}
+                  disabled={isRunning || !input.trim()}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {isRunning ? "실행 중..." : "실행"}
+                </button>
+                <button
+                  onClick={() => setTurns([])}
+                  disabled={isRunning || turns.length === 0}
+                  className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                >
+                  대화 초기화
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <EvalCaseModal
+        draft={evalDraft?.draft ?? null}
+        candidates={evalDraft?.candidates}
+        onSaved={() =>
+          setEvalCaseCount((count) => (count === null ? null : count + 1))
+        }
+        onClose={() => setEvalDraft(null)}
+      />
+    </div>
+  );
+};
+
+export default ChatPlayground;
@@ -0,0 +1,36 @@
+import React, { useMemo } from "react";
+import UserChatbot from "./UserChatbot";
+import { sanitizeColor } from "../services/widgetConfig";
+
+/**
+ * 임베드 위젯 페이지 (/widget)
+ * public/widget.js가 고객사 페이지에 iframe으로 삽입, 테마는 URL 파라미터로 전달
+ * 배포 환경에서는 /api/widget/page가 허용 Origin만 iframe 삽입 가능하도록 CSP 헤더 설정
+ */
+const ChatWidget: React.FC = () => {
+  const { title, greeting, primaryColor } = useMemo(() => {
+    const params = new URLSearchParams(window.location.search);
+    return {
+      title: params.get("title") || undefined,
+      greeting: params.get("greeting") || undefined,
+      primaryColor: sanitizeColor(params.get("color")) || undefined,
+    };
+  }, []);
+
+  // 부모 페이지(로더 스크립트)에 패널 닫기 요청
+  const handleClose = () => {
+    window.parent.postMessage({ type: "embrain-widget:close" }, "*");
+  };
+
+  return (
+    <UserChatbot
+      embedded
+      title={title}
+      greeting={greeting}
+      primaryColor={primaryColor}
+      onClose={handleClose}
+    />
+  );
+};
+
+export default ChatWidget;
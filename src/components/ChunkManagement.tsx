@@ -1,10 +1,62 @@
-import React, { useState, useEffect, useMemo } from "react";
-import { PDFDocument, PDFChunk } from "../types";
+import React, { useState, useEffect, useMemo, useRef } from "react";
+import {
+  PDFDocument,
+  PDFChunk,
+  ChunkEdit,
+  ChunkEditAction,
+  ChunkImportance,
+} from "../types";
 import { getSupabaseDatabaseService } from "../services/supabase";
+import {
+  chunkEditService,
+  type ChunkEditResult,
+} from "../services/chunkEditService";
 import { useToast } from "./Toast";
 import { createLogger } from "../services/logger";
+import { hasCurrentPermission } from "../services/workspaceContext";
 
 const log = createLogger("ChunkMgmt");
+
+const EDIT_ACTION_LABELS: Record<ChunkEditAction, string> = {
+  edit: "수정",
+  split: "분할",
+  merge: "병합",
+  delete: "삭제",
+};
+
+const IMPORTANCE_LABELS: Record<ChunkImportance, string> = {
+  high: "높음",
+  medium: "보통",
+  low: "낮음",
+};
+
+const IMPORTANCE_STYLES: Record<ChunkImportance, string> = {
+  high: "bg-red-100 text-red-700",
+  medium: "bg-yellow-100 text-yellow-700",
+  low: "bg-gray-100 text-gray-700",
+};
+
+/** 관리자 지정 중요도 우선, 없으면 분석 결과 */
+const effectiveImportance = (chunk: PDFChunk): ChunkImportance | undefined =>
+  chunk.importance ?? chunk.metadata?.importance;
+
+/** RPC 오류 → 안내 문구 */
+const describeEditError = (error: unknown, fallback: string): string => {
+  const message =
+    error && typeof error === "object" && "message" in error
+      ? String(error.message)
+      : "";
+  if (message.includes("being processed")) {
+    return "문서 처리 중에는 청크를 편집할 수 없습니다.";
+  }
+  if (message.includes("not adjacent")) {
+    return "바로 이어지는 청크끼리만 병합할 수 있습니다.";
+  }
+  if (message.includes("Permission denied")) {
+    return "청크를 편집할 권한이 없습니다.";
+  }
+  return fallback;
+};
 interface ChunkWithDocument extends PDFChunk {
   sourceDocument?: PDFDocument;
 }
@@ -19,6 +71,17 @@ const ChunkManagement: React.FC = () => {
   const [selectedChunk, setSelectedChunk] = useState<PDFChunk | null>(null);
   const [loading, setLoading] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftContent, setDraftContent] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [chunkEdits, setChunkEdits] = useState<ChunkEdit[]>([]);
+  const [selectedChunkIds, setSelectedChunkIds] = useState<Set<number>>(
+    new Set(),
+  );
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+  // 역할별 버튼 노출 (실제 권한은 RPC에서 강제)
+  const canEditContent = hasCurrentPermission("editContent");
 
   const dbService = useMemo(() => getSupabaseDatabaseService(), []);
 
@@ -29,6 +92,7 @@ const ChunkManagement: React.FC = () => {
 
   // Load chunks when document is selected
   useEffect(() => {
+    setSelectedChunkIds(new Set());
     if (selectedDocumentId) {
       loadChunks(selectedDocumentId);
     }
@@ -62,6 +126,13 @@ const ChunkManagement: React.FC = () => {
       }));
 
       setChunks(chunksWithDoc);
+      // 편집 후 다시 불러오면 선택한 청크도 최신 내용으로 교체
+      setSelectedChunk((prev) =>
+        prev
+          ? (chunksWithDoc.find((chunk) => chunk.id === prev.id) ?? null)
+          : null,
+      );
+      setChunkEdits(await dbService.getChunkEdits(documentId));
     } catch (error) {
       log.error("청크 로드 실패:", error);
       showToast("청크를 불러오는데 실패했습니다.", "error");
@@ -70,6 +141,147 @@ const ChunkManagement: React.FC = () => {
     }
   };
 
+  const handleSelectChunk = (chunk: PDFChunk | null) => {
+    setSelectedChunk(chunk);
+    setIsEditing(false);
+  };
+
+  const handleStartEdit = () => {
+    if (!selectedChunk) return;
+    setDraftContent(selectedChunk.content);
+    setIsEditing(true);
+  };
+
+  /** 편집 작업 실행 후 청크/기록 다시 불러오기 */
+  const runChunkEdit = async (
+    action: () => Promise<ChunkEditResult | void>,
+    successMessage: string,
+    failureMessage: string,
+  ) => {
+    if (!selectedDocumentId) return;
+    setIsSaving(true);
+    try {
+      const result = await action();
+      setIsEditing(false);
+      await loadChunks(selectedDocumentId);
+      if (result && result.pending > 0) {
+        showToast(
+          `${successMessage} 임베딩 생성에 실패한 청크 ${result.pending}개는 검색에서 제외됩니다.`,
+          "warning",
+        );
+      } else {
+        showToast(successMessage, "success");
+      }
+    } catch (error) {
+      log.error(failureMessage, error);
+      showToast(describeEditError(error, failureMessage), "error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveEdit = () => {
+    if (!selectedChunk || !draftContent.trim()) return;
+    runChunkEdit(
+      () => chunkEditService.edit(selectedChunk, draftContent),
+      "청크를 수정했습니다.",
+      "청크 수정에 실패했습니다.",
+    );
+  };
+
+  const handleSplitAtCursor = () => {
+    if (!selectedChunk) return;
+    const splitAt = editorRef.current?.selectionStart ?? 0;
+    if (
+      !draftContent.slice(0, splitAt).trim() ||
+      !draftContent.slice(splitAt).trim()
+    ) {
+      showToast("분할할 위치에 커서를 두세요. (앞뒤에 내용 필요)", "warning");
+      return;
+    }
+    runChunkEdit(
+      () => chunkEditService.split(selectedChunk, draftContent, splitAt),
+      "청크를 둘로 나눴습니다.",
+      "청크 분할에 실패했습니다.",
+    );
+  };
+
+  const handleMergeWithNext = () => {
+    if (!selectedChunk || !nextChunk) return;
+    if (
+      !confirm(
+        `청크 #${selectedChunk.chunkIndex + 1}과 #${nextChunk.chunkIndex + 1}을 합치시겠습니까?`,
+      )
+    ) {
+      return;
+    }
+    runChunkEdit(
+      () => chunkEditService.mergeWithNext(selectedChunk, nextChunk),
+      "다음 청크와 병합했습니다.",
+      "청크 병합에 실패했습니다.",
+    );
+  };
+
+  const handleDeleteChunk = () => {
+    if (!selectedChunk) return;
+    if (
+      !confirm(
+        `청크 #${selectedChunk.chunkIndex + 1}을 삭제하시겠습니까?\n이 청크를 근거로 한 FAQ는 검토 필요로 표시됩니다.`,
+      )
+    ) {
+      return;
+    }
+    runChunkEdit(
+      () => chunkEditService.delete(selectedChunk),
+      "청크를 삭제했습니다.",
+      "청크 삭제에 실패했습니다.",
+    );
+  };
+
+  const handleReembedMissing = () => {
+    runChunkEdit(
+      () => chunkEditService.reembed(chunksWithoutEmbedding),
+      "청크 임베딩을 다시 생성했습니다.",
+      "청크 임베딩 생성에 실패했습니다.",
+    );
+  };
+
+  const toggleChunkSelection = (id: number) => {
+    setSelectedChunkIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  /** 검색 포함 여부 / 중요도 변경 (임베딩은 그대로, 다음 검색부터 반영) */
+  const updateRetrieval = async (
+    ids: number[],
+    updates: Pick<PDFChunk, "isSearchable" | "importance">,
+  ) => {
+    if (!selectedDocumentId || ids.length === 0) return;
+    setIsSaving(true);
+    try {
+      const updated = await dbService.updateChunksRetrieval(ids, updates);
+      setSelectedChunkIds(new Set());
+      await loadChunks(selectedDocumentId);
+      showToast(`청크 ${updated}개의 검색 설정을 변경했습니다.`, "success");
+    } catch (error) {
+      log.error("청크 검색 설정 변경 실패:", error);
+      showToast("청크 검색 설정 변경에 실패했습니다.", "error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleBulkImportance = (value: string) => {
+    if (!value) return;
+    updateRetrieval(Array.from(selectedChunkIds), {
+      importance: value === "auto" ? null : (value as ChunkImportance),
+    });
+  };
+
   const filteredChunks = chunks.filter((chunk) => {
     if (!searchTerm) return true;
     const searchLower = searchTerm.toLowerCase();
@@ -86,6 +298,20 @@ const ChunkManagement: React.FC = () => {
   const selectedDocument = documents.find(
     (doc) => doc.id === selectedDocumentId,
   );
+  // chunks는 chunk_index 순
+  const selectedIndex = selectedChunk
+    ? chunks.findIndex((chunk) => chunk.id === selectedChunk.id)
+    : -1;
+  const nextChunk = selectedIndex >= 0 ? chunks[selectedIndex + 1] : undefined;
+  const chunksWithoutEmbedding = chunks.filter((chunk) => !chunk.embeddings);
+  // 자동 감지된 제외 추천 중 아직 검색에 포함된 청크
+  const suggestedExclusions = chunks.filter(
+    (chunk) =>
+      chunk.metadata?.boilerplateReason && chunk.isSearchable !== false,
+  );
+  const excludedCount = chunks.filter(
+    (chunk) => chunk.isSearchable === false,
+  ).length;
 
   return (
     <div className="h-full flex flex-col bg-gray-50">
@@ -112,6 +338,12 @@ const ChunkManagement: React.FC = () => {
                   {chunks.length}
                 </span>
                 개 청크
+                {excludedCount > 0 && (
+                  <span className="text-gray-400">
+                    {" "}
+                    (검색 제외 {excludedCount}개)
+                  </span>
+                )}
               </div>
             )}
           </div>
@@ -214,14 +446,95 @@ const ChunkManagement: React.FC = () => {
         {selectedDocumentId && (
           <div className="w-96 bg-white border-r border-gray-200 flex flex-col">
             <div className="p-4 border-b border-gray-200">
-              <h2 className="text-lg font-semibold text-gray-900 mb-2">
-                청크 목록
-              </h2>
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="text-lg font-semibold text-gray-900">
+                  {showHistory ? "변경 기록" : "청크 목록"}
+                </h2>
+                <button
+                  onClick={() => setShowHistory(!showHistory)}
+                  className="px-2 py-1 text-xs font-medium text-gray-600 bg-gray-100 rounded hover:bg-gray-200 transition-colors"
+                >
+                  {showHistory ? "청크 목록" : `변경 기록 ${chunkEdits.length}`}
+                </button>
+              </div>
               {selectedDocument && (
                 <p className="text-sm text-gray-600 truncate">
                   {selectedDocument.name}
                 </p>
               )}
+              {canEditContent && chunksWithoutEmbedding.length > 0 && (
+                <button
+                  onClick={handleReembedMissing}
+                  disabled={isSaving}
+                  className="mt-2 w-full px-3 py-1.5 text-xs font-medium text-orange-700 bg-orange-50 rounded-lg hover:bg-orange-100 transition-colors disabled:opacity-50"
+                >
+                  임베딩 없는 청크 {chunksWithoutEmbedding.length}개 다시 생성
+                </button>
+              )}
+              {canEditContent && !showHistory && (
+                <div className="mt-2 space-y-2">
+                  {suggestedExclusions.length > 0 && (
+                    <button
+                      onClick={() =>
+                        setSelectedChunkIds(
+                          new Set(suggestedExclusions.map((chunk) => chunk.id)),
+                        )
+                      }
+                      disabled={isSaving}
+                      className="w-full px-3 py-1.5 text-xs font-medium text-amber-700 bg-amber-50 rounded-lg hover:bg-amber-100 transition-colors disabled:opacity-50"
+                    >
+                      제외 추천 청크 {suggestedExclusions.length}개 선택
+                    </button>
+                  )}
+                  {selectedChunkIds.size > 0 && (
+                    <div className="flex items-center gap-1 text-xs">
+                      <span className="text-gray-600 mr-1">
+                        {selectedChunkIds.size}개 선택
+                      </span>
+                      <button
+                        onClick={() =>
+                          updateRetrieval(Array.from(selectedChunkIds), {
+                            isSearchable: false,
+                          })
+                        }
+                        disabled={isSaving}
+                        className="px-2 py-1 font-medium text-red-700 bg-red-50 rounded hover:bg-red-100 transition-colors disabled:opacity-50"
+                      >
+                        검색 제외
+                      </button>
+                      <button
+                        onClick={() =>
+                          updateRetrieval(Array.from(selectedChunkIds), {
+                            isSearchable: true,
+                          })
+                        }
+                        disabled={isSaving}
+                        className="px-2 py-1 font-medium text-green-700 bg-green-50 rounded hover:bg-green-100 transition-colors disabled:opacity-50"
+                      >
+                        검색 포함
+                      </button>
+                      <select
+                        value=""
+                        onChange={(e) => handleBulkImportance(e.target.value)}
+                        disabled={isSaving}
+                        className="px-1 py-1 border border-gray-300 rounded text-xs"
+                      >
+                        <option value="">중요도</option>
+                        <option value="high">높음</option>
+                        <option value="medium">보통</option>
+                        <option value="low">낮음</option>
+                        <option value="auto">분석값</option>
+                      </select>
+                      <button
+                        onClick={() => setSelectedChunkIds(new Set())}
+                        className="ml-auto text-gray-400 hover:text-gray-600"
+                      >
+                        해제
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
 
             <div className="flex-1 overflow-y-auto">
@@ -229,6 +542,41 @@ const ChunkManagement: React.FC = () => {
                 <div className="flex items-center justify-center h-32">
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
                 </div>
+              ) : showHistory ? (
+                chunkEdits.length === 0 ? (
+                  <div className="p-8 text-center text-gray-500">
+                    <p className="text-sm">변경 기록이 없습니다</p>
+                  </div>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {chunkEdits.map((edit) => (
+                      <li key={edit.id} className="px-4 py-3 space-y-1">
+                        <div className="flex items-center justify-between text-xs">
+                          <span className="font-medium text-gray-900">
+                            {EDIT_ACTION_LABELS[edit.action]} · 청크 #
+                            {edit.chunkIndex + 1}
+                          </span>
+                          <span className="text-gray-400">
+                            {new Date(edit.createdAt).toLocaleString("ko-KR")}
+                          </span>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          {edit.editorEmail || "알 수 없는 사용자"}
+                        </p>
+                        {edit.beforeContent && (
+                          <p className="text-xs text-gray-400 line-through line-clamp-2">
+                            {edit.beforeContent}
+                          </p>
+                        )}
+                        {edit.afterContent && (
+                          <p className="text-xs text-gray-700 line-clamp-2">
+                            {edit.afterContent}
+                          </p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )
               ) : filteredChunks.length === 0 ? (
                 <div className="p-8 text-center text-gray-500">
                   <p className="text-sm">청크가 없습니다</p>
@@ -236,67 +584,93 @@ const ChunkManagement: React.FC = () => {
               ) : (
                 <div className="divide-y divide-gray-200">
                   {filteredChunks.map((chunk) => (
-                    <button
+                    <div
                       key={chunk.id}
-                      onClick={() => setSelectedChunk(chunk)}
-                      className={`w-full text-left px-4 py-3 hover:bg-gray-50 transition-colors ${
-                        selectedChunk?.id === chunk.id
-                          ? "bg-blue-50 border-l-4 border-blue-600"
-                          : ""
+                      className={`flex items-start ${
+                        chunk.isSearchable === false ? "opacity-60" : ""
                       }`}
                     >
-                      <div className="space-y-2">
-                        {chunk.metadata?.title && (
-                          <p className="text-sm font-medium text-gray-900 line-clamp-2">
-                            {chunk.metadata.title}
+                      {canEditContent && (
+                        <input
+                          type="checkbox"
+                          checked={selectedChunkIds.has(chunk.id)}
+                          onChange={() => toggleChunkSelection(chunk.id)}
+                          className="mt-4 ml-3"
+                          aria-label={`청크 #${chunk.chunkIndex + 1} 선택`}
+                        />
+                      )}
+                      <button
+                        onClick={() => handleSelectChunk(chunk)}
+                        className={`flex-1 min-w-0 text-left px-4 py-3 hover:bg-gray-50 transition-colors ${
+                          selectedChunk?.id === chunk.id
+                            ? "bg-blue-50 border-l-4 border-blue-600"
+                            : ""
+                        }`}
+                      >
+                        <div className="space-y-2">
+                          {chunk.metadata?.title && (
+                            <p className="text-sm font-medium text-gray-900 line-clamp-2">
+                              {chunk.metadata.title}
+                            </p>
+                          )}
+                          <p className="text-xs text-gray-600 line-clamp-3">
+                            {chunk.content}
                           </p>
-                        )}
-                        <p className="text-xs text-gray-600 line-clamp-3">
-                          {chunk.content}
-                        </p>
-                        <div className="flex items-center space-x-2 text-xs text-gray-500">
-                          <span className="inline-flex items-center px-2 py-0.5 rounded bg-gray-100">
-                            청크 #{chunk.chunkIndex + 1}
-                          </span>
-                          <span className="inline-flex items-center px-2 py-0.5 rounded bg-blue-100 text-blue-700">
-                            {chunk.metadata?.pageLabel ||
-                              `${chunk.pageNumber}페이지`}
-                          </span>
-                          {chunk.metadata?.importance && (
-                            <span
-                              className={`inline-flex items-center px-2 py-0.5 rounded ${
-                                chunk.metadata.importance === "high"
-                                  ? "bg-red-100 text-red-700"
-                                  : chunk.metadata.importance === "medium"
-                                    ? "bg-yellow-100 text-yellow-700"
-                                    : "bg-gray-100 text-gray-700"
-                              }`}
-                            >
-                              {chunk.metadata.importance === "high"
-                                ? "높음"
-                                : chunk.metadata.importance === "medium"
-                                  ? "보통"
-                                  : "낮음"}
+                          <div className="flex items-center space-x-2 text-xs text-gray-500">
+                            <span className="inline-flex items-center px-2 py-0.5 rounded bg-gray-100">
+                              청크 #{chunk.chunkIndex + 1}
                             </span>
-                          )}
+                            <span className="inline-flex items-center px-2 py-0.5 rounded bg-blue-100 text-blue-700">
+                              {chunk.metadata?.pageLabel ||
+                                `${chunk.pageNumber}페이지`}
+                            </span>
+                            {!chunk.embeddings && (
+                              <span className="inline-flex items-center px-2 py-0.5 rounded bg-orange-100 text-orange-700">
+                                임베딩 없음
+                              </span>
+                            )}
+                            {effectiveImportance(chunk) && (
+                              <span
+                                className={`inline-flex items-center px-2 py-0.5 rounded ${
+                                  IMPORTANCE_STYLES[effectiveImportance(chunk)!]
+                                }`}
+                              >
+                                {IMPORTANCE_LABELS[effectiveImportance(chunk)!]}
+                              </span>
+                            )}
+                            {chunk.isSearchable === false ? (
+                              <span className="inline-flex items-center px-2 py-0.5 rounded bg-gray-200 text-gray-700">
+                                검색 제외
+                              </span>
+                            ) : (
+                              chunk.metadata?.boilerplateReason && (
+                                <span
+                                  className="inline-flex items-center px-2 py-0.5 rounded bg-amber-100 text-amber-700"
+                                  title={chunk.metadata.boilerplateReason}
+                                >
+                                  제외 추천
+                                </span>
+                              )
+                            )}
+                          </div>
+                          {chunk.metadata?.keywords &&
+                            chunk.metadata.keywords.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {chunk.metadata.keywords
+                                  .slice(0, 3)
+                                  .map((keyword, idx) => (
+                                    <span
+                                      key={idx}
+                                      className="text-xs px-1.5 py-0.5 bg-purple-50 text-purple-700 rounded"
+                                    >
+                                      {keyword}
+                                    </span>
+                                  ))}
+                              </div>
+                            )}
                         </div>
-                        {chunk.metadata?.keywords &&
-                          chunk.metadata.keywords.length > 0 && (
-                            <div className="flex flex-wrap gap-1 mt-1">
-                              {chunk.metadata.keywords
-                                .slice(0, 3)
-                                .map((keyword, idx) => (
-                                  <span
-                                    key={idx}
-                                    className="text-xs px-1.5 py-0.5 bg-purple-50 text-purple-700 rounded"
-                                  >
-                                    {keyword}
-                                  </span>
-                                ))}
-                            </div>
-                          )}
-                      </div>
-                    </button>
+                      </button>
+                    </div>
                   ))}
                 </div>
               )}
@@ -340,7 +714,7 @@ const ChunkManagement: React.FC = () => {
                     </div>
                   </div>
                   <button
-                    onClick={() => setSelectedChunk(null)}
+                    onClick={() => handleSelectChunk(null)}
                     className="text-gray-400 hover:text-gray-600"
                   >
                     <svg
@@ -359,6 +733,55 @@ const ChunkManagement: React.FC = () => {
                   </button>
                 </div>
 
+                {/* 검색 설정 */}
+                {canEditContent && (
+                  <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+                    <label className="inline-flex items-center space-x-2 text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={selectedChunk.isSearchable !== false}
+                        onChange={(e) =>
+                          updateRetrieval([selectedChunk.id], {
+                            isSearchable: e.target.checked,
+                          })
+                        }
+                        disabled={isSaving}
+                      />
+                      <span>검색에 포함</span>
+                    </label>
+                    <label className="inline-flex items-center space-x-2 text-gray-700">
+                      <span>중요도</span>
+                      <select
+                        value={selectedChunk.importance ?? "auto"}
+                        onChange={(e) =>
+                          updateRetrieval([selectedChunk.id], {
+                            importance:
+                              e.target.value === "auto"
+                                ? null
+                                : (e.target.value as ChunkImportance),
+                          })
+                        }
+                        disabled={isSaving}
+                        className="px-2 py-1 border border-gray-300 rounded text-sm"
+                      >
+                        <option value="auto">
+                          {selectedChunk.metadata?.importance
+                            ? `분석값 (${IMPORTANCE_LABELS[selectedChunk.metadata.importance]})`
+                            : "분석값"}
+                        </option>
+                        <option value="high">높음</option>
+                        <option value="medium">보통</option>
+                        <option value="low">낮음</option>
+                      </select>
+                    </label>
+                    {selectedChunk.metadata?.boilerplateReason && (
+                      <span className="text-xs text-amber-700">
+                        제외 추천: {selectedChunk.metadata.boilerplateReason}
+                      </span>
+                    )}
+                  </div>
+                )}
+
                 {/* Metadata */}
                 {selectedChunk.metadata && (
                   <div className="grid grid-cols-2 gap-4">
@@ -372,25 +795,24 @@ const ChunkManagement: React.FC = () => {
                         </p>
                       </div>
                     )}
-                    {selectedChunk.metadata.importance && (
+                    {effectiveImportance(selectedChunk) && (
                       <div>
                         <p className="text-xs font-semibold text-gray-700 mb-1">
                           중요도
                         </p>
                         <span
                           className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${
-                            selectedChunk.metadata.importance === "high"
-                              ? "bg-red-100 text-red-700"
-                              : selectedChunk.metadata.importance === "medium"
-                                ? "bg-yellow-100 text-yellow-700"
-                                : "bg-gray-100 text-gray-700"
+                            IMPORTANCE_STYLES[
+                              effectiveImportance(selectedChunk)!
+                            ]
                           }`}
                         >
-                          {selectedChunk.metadata.importance === "high"
-                            ? "높음"
-                            : selectedChunk.metadata.importance === "medium"
-                              ? "보통"
-                              : "낮음"}
+                          {
+                            IMPORTANCE_LABELS[
+                              effectiveImportance(selectedChunk)!
+                            ]
+                          }
+                          {selectedChunk.importance && " (관리자 지정)"}
                         </span>
                       </div>
                     )}
@@ -454,37 +876,111 @@ const ChunkManagement: React.FC = () => {
                   <h3 className="text-lg font-semibold text-gray-900">
                     OCR 원문
                   </h3>
-                  <button
-                    onClick={() => {
-                      navigator.clipboard.writeText(selectedChunk.content);
-                      showToast(
-                        "텍스트가 클립보드에 복사되었습니다.",
-                        "success",
-                      );
-                    }}
-                    className="px-3 py-1.5 text-sm font-medium text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-lg transition-colors flex items-center space-x-1"
-                  >
-                    <svg
-                      className="w-4 h-4"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
+                  <div className="flex items-center space-x-1">
+                    {canEditContent && !isEditing && (
+                      <>
+                        <button
+                          onClick={handleStartEdit}
+                          disabled={isSaving}
+                          className="px-3 py-1.5 text-sm font-medium text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          편집
+                        </button>
+                        <button
+                          onClick={handleMergeWithNext}
+                          disabled={isSaving || !nextChunk}
+                          className="px-3 py-1.5 text-sm font-medium text-purple-600 hover:text-purple-700 hover:bg-purple-50 rounded-lg transition-colors disabled:opacity-50"
+                          title="바로 다음 청크를 이 청크 뒤에 합칩니다"
+                        >
+                          다음 청크와 병합
+                        </button>
+                        <button
+                          onClick={handleDeleteChunk}
+                          disabled={isSaving}
+                          className="px-3 py-1.5 text-sm font-medium text-red-600 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          삭제
+                        </button>
+                      </>
+                    )}
+                    <button
+                      onClick={() => {
+                        navigator.clipboard.writeText(selectedChunk.content);
+                        showToast(
+                          "텍스트가 클립보드에 복사되었습니다.",
+                          "success",
+                        );
+                      }}
+                      className="px-3 py-1.5 text-sm font-medium text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-lg transition-colors flex items-center space-x-1"
                     >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
-                      />
-                    </svg>
-                    <span>복사</span>
-                  </button>
-                </div>
-                <div className="bg-gray-50 border border-gray-200 rounded-lg p-6">
-                  <p className="text-gray-800 whitespace-pre-wrap leading-relaxed font-mono text-sm">
-                    {selectedChunk.content}
-                  </p>
+                      <svg
+                        className="w-4 h-4"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+                        />
+                      </svg>
+                      <span>복사</span>
+                    </button>
+                  </div>
                 </div>
+                {isEditing ? (
+                  <div className="space-y-3">
+                    <textarea
+                      ref={editorRef}
+                      value={draftContent}
+                      onChange={(e) => setDraftContent(e.target.value)}
+                      rows={16}
+                      className="w-full p-4 border border-gray-300 rounded-lg font-mono text-sm leading-relaxed focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <div className="flex items-center justify-between">
+                      <p className="text-xs text-gray-500">
+                        저장하면 임베딩을 다시 생성하고, 이 청크를 근거로 한
+                        FAQ는 검토 필요로 표시됩니다.
+                      </p>
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => setIsEditing(false)}
+                          disabled={isSaving}
+                          className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                        >
+                          취소
+                        </button>
+                        <button
+                          onClick={handleSplitAtCursor}
+                          disabled={isSaving}
+                          className="px-4 py-2 text-sm font-medium text-purple-700 bg-purple-50 rounded-lg hover:bg-purple-100 transition-colors disabled:opacity-50"
+                          title="커서 앞부분은 이 청크, 뒷부분은 새 청크가 됩니다"
+                        >
+                          커서 위치에서 분할
+                        </button>
+                        <button
+                          onClick={handleSaveEdit}
+                          disabled={
+                            isSaving ||
+                            !draftContent.trim() ||
+                            draftContent === selectedChunk.content
+                          }
+                          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                        >
+                          {isSaving ? "저장 중..." : "저장"}
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="bg-gray-50 border border-gray-200 rounded-lg p-6">
+                    <p className="text-gray-800 whitespace-pre-wrap leading-relaxed font-mono text-sm">
+                      {selectedChunk.content}
+                    </p>
+                  </div>
+                )}
 
                 {/* Context Information */}
                 {(selectedChunk.metadata?.contextBefore ||
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useMemo, useRef } from "react";
-import { FAQ, PDFDocument } from "../types";
+import { FAQ, IngestionJob, PDFDocument } from "../types";
 import PDFUploadModal from "./PDFUploadModal";
 import PDFDocumentViewer from "./PDFDocumentViewer";
 import DatabaseSettings from "./DatabaseSettings";
@@ -9,9 +9,36 @@ import {
 } from "../services/supabase";
 import { useToast } from "./Toast";
 import { createLogger } from "../services/logger";
-import * as XLSX from "xlsx";
+import { hasCurrentPermission } from "../services/workspaceContext";
+import { ingestionService } from "../services/ingestionService";
+import { pdfProcessingService } from "../services/pdfProcessingService";
+import {
+  faqImportService,
+  type FaqImportPreview,
+  type FaqImportResult,
+} from "../services/faqImportService";
+import FaqImportPreviewModal from "./FaqImportPreviewModal";
+import { defaultConfig } from "../services/config";
 
 const log = createLogger("DocMgmt");
+
+const INGESTION_STAGE_LABELS: Record<IngestionJob["stage"], string> = {
+  analyzing: "FAQ 생성 중",
+  chunking: "청크 저장 중",
+  embedding: "임베딩 생성 중",
+  completed: "마무리 중",
+};
+
+/** 문서별 최근 작업 (jobs는 최근 등록 순) */
+function latestJobsByDocument(
+  jobs: IngestionJob[],
+): Record<number, IngestionJob> {
+  const result: Record<number, IngestionJob> = {};
+  jobs.forEach((job) => {
+    if (!result[job.documentId]) result[job.documentId] = job;
+  });
+  return result;
+}
 interface DocumentManagementProps {
   setFaqs: React.Dispatch<React.SetStateAction<FAQ[]>>;
 }
@@ -27,126 +54,68 @@ const DocumentManagement: React.FC<DocumentManagementProps> = ({ setFaqs }) => {
   const [error, setError] = useState<string | null>(null);
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
   const [expandedImage, setExpandedImage] = useState<string | null>(null);
+  const [ingestionJobs, setIngestionJobs] = useState<
+    Record<number, IngestionJob>
+  >({});
+  // 응답을 기다리는 워커 호출 (같은 작업 중복 호출 방지)
+  const runningWorkers = useRef<Set<string>>(new Set());
   const dbService = useMemo(() => getSupabaseDatabaseService(), []);
+  // 역할별 버튼 노출 (실제 권한은 RLS에서 강제)
+  const canEditContent = hasCurrentPermission("editContent");
+  const canDeleteDocuments = hasCurrentPermission("deleteDocuments");
+  const canManageSettings = hasCurrentPermission("manageSettings");
   const storageService = useMemo(() => getSupabaseStorageService(), []);
   const { showToast } = useToast();
   const excelInputRef = useRef<HTMLInputElement>(null);
   const [isExcelUploading, setIsExcelUploading] = useState(false);
+  const [faqImportPreview, setFaqImportPreview] =
+    useState<FaqImportPreview | null>(null);
+  const versionInputRef = useRef<HTMLInputElement>(null);
+  const [versionTarget, setVersionTarget] = useState<PDFDocument | null>(null);
+  const [replacingDocumentId, setReplacingDocumentId] = useState<number | null>(
+    null,
+  );
 
-  const handleExcelUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFaqImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    if (!file.name.match(/\.(xlsx|xls)$/i)) {
-      showToast("엑셀 파일(.xlsx, .xls)만 업로드 가능합니다.", "error");
+    if (!faqImportService.isSupportedFile(file.name)) {
+      showToast(
+        "엑셀(.xlsx, .xls), CSV, JSON 파일만 가져올 수 있습니다.",
+        "error",
+      );
+      if (excelInputRef.current) excelInputRef.current.value = "";
       return;
     }
 
     setIsExcelUploading(true);
     try {
-      const data = await file.arrayBuffer();
-      const workbook = XLSX.read(data);
-
-      const allFaqs: { question: string; answer: string; category: string }[] =
-        [];
-
-      for (const sheetName of workbook.SheetNames) {
-        const sheet = workbook.Sheets[sheetName];
-        const rows = XLSX.utils.sheet_to_json<Record<string, string>>(sheet);
-
-        for (const row of rows) {
-          const question = (row["질문"] || "").trim();
-          const answer = (row["답변"] || "").trim();
-          if (question && answer) {
-            allFaqs.push({ question, answer, category: sheetName });
-          }
-        }
-      }
-
-      if (allFaqs.length === 0) {
-        showToast(
-          '엑셀에서 FAQ 데이터를 찾을 수 없습니다. "질문"과 "답변" 열이 필요합니다.',
-          "error",
-        );
-        return;
-      }
-
-      let successCount = 0;
-      let failCount = 0;
-
-      for (const faq of allFaqs) {
-        try {
-          await dbService.createFAQ({
-            question: faq.question,
-            answer: faq.answer,
-            category: faq.category,
-            isActive: true,
-          } as Omit<FAQ, "id">);
-          successCount++;
-        } catch (err) {
-          log.error("FAQ 저장 실패:", err);
-          failCount++;
-        }
-      }
-
-      // Generate embeddings for newly created FAQs
-      let embeddingCount = 0;
-      if (successCount > 0) {
-        showToast(`FAQ ${successCount}건 등록 완료. 임베딩 생성 중...`, "info");
-        try {
-          const { WebGeminiService } =
-            await import("../services/WebGeminiService");
-          const webGeminiService = WebGeminiService.getInstance();
-
-          const allDbFaqs = await dbService.getAllFAQs();
-          const faqsNeedingEmbedding = allDbFaqs.filter(
-            (f) =>
-              f.isActive &&
-              (!f.questionEmbedding || f.questionEmbedding.length === 0),
-          );
-
-          for (const faq of faqsNeedingEmbedding) {
-            try {
-              const [questionEmbedding, answerEmbedding] =
-                await webGeminiService.generateBatchEmbeddings([
-                  faq.question,
-                  faq.answer,
-                ]);
-
-              if (
-                questionEmbedding?.length > 0 &&
-                answerEmbedding?.length > 0
-              ) {
-                await dbService.updateFAQ(faq.id, {
-                  ...faq,
-                  questionEmbedding,
-                  answerEmbedding,
-                });
-                embeddingCount++;
-              }
-            } catch (embErr) {
-              log.warn(`FAQ ${faq.id} 임베딩 생성 실패:`, embErr);
-            }
-          }
-        } catch (embError) {
-          log.error("임베딩 생성 중 오류:", embError);
-        }
-      }
-
-      await loadFAQs();
-      showToast(
-        `엑셀 업로드 완료: ${successCount}건 등록${embeddingCount > 0 ? `, ${embeddingCount}건 임베딩 생성` : ""}${failCount > 0 ? `, ${failCount}건 실패` : ""}`,
-        failCount > 0 ? "warning" : "success",
+      setFaqImportPreview(
+        await faqImportService.preview(file, await dbService.getAllFAQs()),
       );
     } catch (err) {
-      log.error("엑셀 파싱 실패:", err);
-      showToast("엑셀 파일 처리 중 오류가 발생했습니다.", "error");
+      log.error("FAQ 파일 읽기 실패:", err);
+      showToast(
+        err instanceof Error
+          ? err.message
+          : "FAQ 파일 처리 중 오류가 발생했습니다.",
+        "error",
+      );
     } finally {
       setIsExcelUploading(false);
       if (excelInputRef.current) excelInputRef.current.value = "";
     }
   };
 
+  const handleFaqImportApplied = async (result: FaqImportResult) => {
+    await loadFAQs();
+    showToast(
+      `FAQ 가져오기 완료: 신규 ${result.created}건, 수정 ${result.updated}건${result.failures.length > 0 ? `, ${result.failures.length}건 실패` : ""}`,
+      result.failures.length > 0 ? "warning" : "success",
+    );
+  };
+
   // Load documents from database on component mount
   useEffect(() => {
     loadDocuments();
@@ -163,6 +132,18 @@ const DocumentManagement: React.FC<DocumentManagementProps> = ({ setFaqs }) => {
       log.debug("Loaded documents:", dbDocuments.length);
 
       setDocuments(dbDocuments);
+      // 작업 상태 조회 실패는 문서 목록 표시에 영향 없음
+      const jobs = await dbService
+        .getIngestionJobs(
+          dbDocuments
+            .filter((doc) => doc.status !== "completed")
+            .map((doc) => doc.id),
+        )
+        .catch((jobError) => {
+          log.warn("문서 처리 작업 조회 실패:", jobError);
+          return [];
+        });
+      setIngestionJobs(latestJobsByDocument(jobs));
 
       setLastRefresh(new Date());
     } catch (error) {
@@ -204,7 +185,10 @@ const DocumentManagement: React.FC<DocumentManagementProps> = ({ setFaqs }) => {
     const { WebGeminiService } = await import("../services/WebGeminiService");
     const webGeminiService = WebGeminiService.getInstance();
 
-    for (const doc of newDocuments) {
+    // 서버 작업으로 등록된 문서는 워커가 FAQ 생성/임베딩까지 처리
+    for (const doc of newDocuments.filter(
+      (document) => document.status !== "processing",
+    )) {
       try {
         // 1. Gemini로 문서 재분석 및 추가 FAQ 생성
         if (doc.metadata?.textContent) {
@@ -314,6 +298,149 @@ const DocumentManagement: React.FC<DocumentManagementProps> = ({ setFaqs }) => {
     log.debug("✨ 모든 문서 처리 완료!");
   };
 
+  // 서버 처리 중인 문서의 작업 상태 조회
+  // 탭이 열려 있는 동안은 조회 주기마다 워커를 호출해 처리 (닫혀 있으면 Vercel Cron이 처리)
+  const processingKey = documents
+    .filter((doc) => doc.status === "processing")
+    .map((doc) => doc.id)
+    .join(",");
+
+  useEffect(() => {
+    if (!processingKey) return;
+    const documentIds = processingKey.split(",").map(Number);
+    let cancelled = false;
+
+    const poll = async () => {
+      try {
+        const jobs = latestJobsByDocument(
+          await dbService.getIngestionJobs(documentIds),
+        );
+        if (cancelled) return;
+        setIngestionJobs((prev) => ({ ...prev, ...jobs }));
+
+        const finished = Object.values(jobs).filter(
+          (job) => job.status === "completed" || job.status === "failed",
+        );
+        if (finished.length > 0) {
+          const [updatedDocuments, updatedFaqs] = await Promise.all([
+            dbService.getAllDocuments(),
+            dbService.getAllFAQs(),
+          ]);
+          if (cancelled) return;
+          setDocuments(updatedDocuments);
+          setFaqs(updatedFaqs);
+
+          finished.forEach((job) => {
+            const doc = updatedDocuments.find((d) => d.id === job.documentId);
+            const name = doc?.name ?? `문서 ${job.documentId}`;
+            if (job.status === "completed") {
+              const diff = doc?.metadata?.versionDiff;
+              showToast(
+                diff && diff.toVersion === doc?.version && diff.flaggedFaqs > 0
+                  ? `문서 처리 완료: ${name} (검토 필요 FAQ ${diff.flaggedFaqs}개)`
+                  : `문서 처리 완료: ${name}`,
+                diff && diff.flaggedFaqs > 0 ? "warning" : "success",
+              );
+            } else {
+              showToast(
+                `문서 처리 실패: ${name}${job.lastError ? ` (${job.lastError})` : ""}`,
+                "error",
+              );
+            }
+          });
+          return;
+        }
+
+        if (!canEditContent) return;
+        Object.values(jobs)
+          .filter(
+            (job) =>
+              job.status !== "completed" &&
+              job.status !== "failed" &&
+              new Date(job.nextAttemptAt).getTime() <= Date.now() &&
+              !runningWorkers.current.has(job.id),
+          )
+          .forEach((job) => {
+            runningWorkers.current.add(job.id);
+            ingestionService
+              .runWorker(job.id)
+              .catch((error) =>
+                log.warn(`작업 ${job.id} 처리 요청 실패:`, error),
+              )
+              .finally(() => runningWorkers.current.delete(job.id));
+          });
+      } catch (error) {
+        log.error("문서 처리 작업 조회 실패:", error);
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, defaultConfig.ingestion.pollInterval);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [processingKey, dbService, setFaqs, showToast, canEditContent]);
+
+  const handleRetryIngestion = async (job: IngestionJob) => {
+    try {
+      await ingestionService.runWorker(job.id, { retry: true });
+      await loadDocuments();
+      showToast("문서 처리를 다시 시작했습니다.", "info");
+    } catch (error) {
+      log.error("문서 처리 재시도 실패:", error);
+      showToast("문서 처리 재시도에 실패했습니다.", "error");
+    }
+  };
+
+  const handleSelectVersionFile = (doc: PDFDocument) => {
+    setVersionTarget(doc);
+    versionInputRef.current?.click();
+  };
+
+  // 새 버전으로 교체: 문서 ID/FAQ 유지, 변경된 청크만 다시 임베딩
+  const handleReplaceVersion = async (
+    e: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = e.target.files?.[0];
+    const target = versionTarget;
+    e.target.value = "";
+    setVersionTarget(null);
+    if (!file || !target) return;
+
+    if (!pdfProcessingService.isSupportedDocument(file)) {
+      showToast(`지원하지 않는 문서 형식입니다: ${file.name}`, "error");
+      return;
+    }
+    if (
+      !confirm(
+        `"${target.name}"을(를) "${file.name}"(으)로 교체하시겠습니까?\n\n이전 버전은 보관되고 FAQ는 유지됩니다. 변경된 내용을 근거로 하는 FAQ는 검토 필요로 표시됩니다.`,
+      )
+    ) {
+      return;
+    }
+
+    setReplacingDocumentId(target.id);
+    try {
+      await pdfProcessingService.processGeneralDocument(file, () => {}, {
+        replaceDocumentId: target.id,
+      });
+      await loadDocuments();
+      showToast(
+        "새 버전을 등록했습니다. 변경된 내용만 다시 처리합니다.",
+        "info",
+      );
+    } catch (error) {
+      log.error("새 버전 등록 실패:", error);
+      showToast(
+        `새 버전 등록에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 오류"}`,
+        "error",
+      );
+    } finally {
+      setReplacingDocumentId(null);
+    }
+  };
+
   const handleDocumentClick = (document: PDFDocument) => {
     setSelectedDocument(document);
   };
@@ -400,6 +527,22 @@ const DocumentManagement: React.FC<DocumentManagementProps> = ({ setFaqs }) => {
           }
         }
 
+        // 보관 중인 이전 버전 파일도 함께 삭제 (버전 기록은 문서와 함께 삭제됨)
+        if (document?.version && document.version > 1) {
+          try {
+            const versionPaths = (
+              await dbService.getDocumentVersions(documentId)
+            )
+              .map((version) => version.filePath)
+              .filter((path): path is string => Boolean(path));
+            if (versionPaths.length > 0) {
+              await storageService.deleteMultiple(versionPaths);
+            }
+          } catch (error) {
+            log.warn("Failed to delete previous versions from storage:", error);
+          }
+        }
+
         // Delete from database
         await dbService.deleteDocument(documentId);
 
@@ -570,7 +713,7 @@ const DocumentManagement: React.FC<DocumentManagementProps> = ({ setFaqs }) => {
             <div>
               <h1 className="text-2xl font-bold text-black">문서 관리</h1>
               <p className="text-gray-600 mt-1">
-                AI 학습을 위한 PDF 문서를 업로드하고 FAQ를 관리하세요
+                AI 학습을 위한 문서를 업로드하고 FAQ를 관리하세요
               </p>
             </div>
             <div className="flex items-center space-x-3">
@@ -595,73 +738,86 @@ const DocumentManagement: React.FC<DocumentManagementProps> = ({ setFaqs }) => {
                 </svg>
                 {isLoading ? "새로고침 중..." : "새로고침"}
               </button>
-              <button
-                onClick={() => setIsDatabaseSettingsOpen(true)}
-                className="bg-gray-600 text-white px-4 py-3 rounded-lg hover:bg-gray-700 transition-all duration-200 flex items-center"
-                title="데이터베이스 설정"
-              >
-                <svg
-                  className="w-5 h-5 mr-2"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
+              {canManageSettings && (
+                <button
+                  onClick={() => setIsDatabaseSettingsOpen(true)}
+                  className="bg-gray-600 text-white px-4 py-3 rounded-lg hover:bg-gray-700 transition-all duration-200 flex items-center"
+                  title="데이터베이스 설정"
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4"
-                  />
-                </svg>
-                DB 설정
-              </button>
-              <button
-                onClick={() => excelInputRef.current?.click()}
-                disabled={isExcelUploading}
-                className="bg-emerald-600 text-white px-4 py-3 rounded-lg hover:bg-emerald-700 transition-all duration-200 flex items-center disabled:opacity-50"
-                title="엑셀 FAQ 업로드"
-              >
-                <svg
-                  className="w-5 h-5 mr-2"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
+                  <svg
+                    className="w-5 h-5 mr-2"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4"
+                    />
+                  </svg>
+                  DB 설정
+                </button>
+              )}
+              {canEditContent && (
+                <button
+                  onClick={() => excelInputRef.current?.click()}
+                  disabled={isExcelUploading}
+                  className="bg-emerald-600 text-white px-4 py-3 rounded-lg hover:bg-emerald-700 transition-all duration-200 flex items-center disabled:opacity-50"
+                  title="FAQ 가져오기 (엑셀/CSV/JSON, ID·외부키가 같으면 수정)"
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
-                  />
-                </svg>
-                {isExcelUploading ? "업로드 중..." : "엑셀 FAQ"}
-              </button>
+                  <svg
+                    className="w-5 h-5 mr-2"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                    />
+                  </svg>
+                  {isExcelUploading ? "읽는 중..." : "FAQ 가져오기"}
+                </button>
+              )}
               <input
                 ref={excelInputRef}
                 type="file"
-                accept=".xlsx,.xls"
-                onChange={handleExcelUpload}
+                accept=".xlsx,.xls,.csv,.json"
+                onChange={handleFaqImport}
                 className="hidden"
               />
-              <button
-                onClick={() => setIsUploadModalOpen(true)}
-                className="bg-gradient-to-r from-blue-500 to-purple-600 text-white px-6 py-3 rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all duration-200 flex items-center"
-              >
-                <svg
-                  className="w-5 h-5 mr-2"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
+              <input
+                ref={versionInputRef}
+                type="file"
+                accept={pdfProcessingService.getSupportedExtensions().join(",")}
+                onChange={handleReplaceVersion}
+                className="hidden"
+              />
+              {canEditContent && (
+                <button
+                  onClick={() => setIsUploadModalOpen(true)}
+                  className="bg-gradient-to-r from-blue-500 to-purple-600 text-white px-6 py-3 rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all duration-200 flex items-center"
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
-                  />
-                </svg>
-                문서 업로드
-              </button>
+                  <svg
+                    className="w-5 h-5 mr-2"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
+                    />
+                  </svg>
+                  문서 업로드
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -890,14 +1046,16 @@ const DocumentManagement: React.FC<DocumentManagementProps> = ({ setFaqs }) => {
                 아직 업로드된 문서가 없습니다
               </p>
               <p className="text-sm text-gray-400 mb-4">
-                위 버튼을 클릭하여 PDF 문서를 업로드해보세요
+                위 버튼을 클릭하여 문서를 업로드해보세요
               </p>
-              <button
-                onClick={() => setIsUploadModalOpen(true)}
-                className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
-              >
-                첫 문서 업로드
-              </button>
+              {canEditContent && (
+                <button
+                  onClick={() => setIsUploadModalOpen(true)}
+                  className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  첫 문서 업로드
+                </button>
+              )}
             </div>
           ) : (
             <div className="overflow-x-auto">
@@ -943,11 +1101,34 @@ const DocumentManagement: React.FC<DocumentManagementProps> = ({ setFaqs }) => {
                             >
                               {doc.name}
                             </button>
+                            {doc.version && doc.version > 1 && (
+                              <span className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800">
+                                v{doc.version}
+                              </span>
+                            )}
                             <p className="text-xs text-gray-500">
                               {doc.metadata?.pages
                                 ? `${doc.metadata.pages}페이지`
                                 : "처리 중"}
                             </p>
+                            {doc.metadata?.versionDiff &&
+                              doc.metadata.versionDiff.toVersion ===
+                                doc.version && (
+                                <p className="text-xs text-gray-500">
+                                  v{doc.metadata.versionDiff.fromVersion} 대비
+                                  청크 유지{" "}
+                                  {doc.metadata.versionDiff.unchangedChunks} ·
+                                  추가 {doc.metadata.versionDiff.addedChunks} ·
+                                  삭제 {doc.metadata.versionDiff.removedChunks}
+                                  {doc.metadata.versionDiff.flaggedFaqs > 0 && (
+                                    <span className="text-orange-600">
+                                      {" "}
+                                      · 검토 필요 FAQ{" "}
+                                      {doc.metadata.versionDiff.flaggedFaqs}개
+                                    </span>
+                                  )}
+                                </p>
+                              )}
                           </div>
                         </div>
                       </td>
@@ -965,9 +1146,42 @@ const DocumentManagement: React.FC<DocumentManagementProps> = ({ setFaqs }) => {
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span
                           className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(doc.status)}`}
+                          title={ingestionJobs[doc.id]?.lastError ?? undefined}
                         >
                           {getStatusText(doc.status)}
                         </span>
+                        {doc.status === "processing" &&
+                          ingestionJobs[doc.id] && (
+                            <div className="mt-1 w-32">
+                              <div className="w-full bg-gray-200 rounded-full h-1.5">
+                                <div
+                                  className="bg-yellow-500 h-1.5 rounded-full transition-all duration-300"
+                                  style={{
+                                    width: `${ingestionJobs[doc.id].progress}%`,
+                                  }}
+                                />
+                              </div>
+                              <p className="text-xs text-gray-500 mt-1">
+                                {ingestionJobs[doc.id].status === "retrying"
+                                  ? `재시도 대기 (${ingestionJobs[doc.id].attempts}/${ingestionJobs[doc.id].maxAttempts})`
+                                  : INGESTION_STAGE_LABELS[
+                                      ingestionJobs[doc.id].stage
+                                    ]}
+                              </p>
+                            </div>
+                          )}
+                        {doc.status === "error" &&
+                          ingestionJobs[doc.id]?.status === "failed" &&
+                          canEditContent && (
+                            <button
+                              onClick={() =>
+                                handleRetryIngestion(ingestionJobs[doc.id])
+                              }
+                              className="block mt-1 text-xs text-blue-600 hover:text-blue-700"
+                            >
+                              다시 처리
+                            </button>
+                          )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         <span className="bg-gray-100 px-2 py-1 rounded-full text-xs">
@@ -1029,25 +1243,61 @@ const DocumentManagement: React.FC<DocumentManagementProps> = ({ setFaqs }) => {
                               />
                             </svg>
                           </button>
-                          <button
-                            onClick={() => handleDeleteDocument(doc.id)}
-                            className="text-red-600 hover:text-red-700 p-2 hover:bg-red-50 rounded-lg transition-colors duration-200"
-                            title="삭제"
-                          >
-                            <svg
-                              className="w-4 h-4"
-                              fill="none"
-                              stroke="currentColor"
-                              viewBox="0 0 24 24"
+                          {canEditContent && (
+                            <button
+                              onClick={() => handleSelectVersionFile(doc)}
+                              disabled={
+                                doc.status === "processing" ||
+                                replacingDocumentId !== null
+                              }
+                              className={`p-2 rounded-lg transition-colors duration-200 ${
+                                doc.status === "processing" ||
+                                replacingDocumentId !== null
+                                  ? "text-gray-400 cursor-not-allowed"
+                                  : "text-purple-600 hover:text-purple-700 hover:bg-purple-50"
+                              }`}
+                              title={
+                                replacingDocumentId === doc.id
+                                  ? "새 버전 등록 중..."
+                                  : "새 버전 업로드 (FAQ 유지)"
+                              }
                             >
-                              <path
-                                strokeLinecap="round"
-                                strokeLinejoin="round"
-                                strokeWidth={2}
-                                d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                              />
-                            </svg>
-                          </button>
+                              <svg
+                                className={`w-4 h-4 ${replacingDocumentId === doc.id ? "animate-spin" : ""}`}
+                                fill="none"
+                                stroke="currentColor"
+                                viewBox="0 0 24 24"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                                />
+                              </svg>
+                            </button>
+                          )}
+                          {canDeleteDocuments && (
+                            <button
+                              onClick={() => handleDeleteDocument(doc.id)}
+                              className="text-red-600 hover:text-red-700 p-2 hover:bg-red-50 rounded-lg transition-colors duration-200"
+                              title="삭제"
+                            >
+                              <svg
+                                className="w-4 h-4"
+                                fill="none"
+                                stroke="currentColor"
+                                viewBox="0 0 24 24"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                                />
+                              </svg>
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -1059,6 +1309,12 @@ const DocumentManagement: React.FC<DocumentManagementProps> = ({ setFaqs }) => {
         </div>
       </div>
 
+      <FaqImportPreviewModal
+        preview={faqImportPreview}
+        onApplied={handleFaqImportApplied}
+        onClose={() => setFaqImportPreview(null)}
+      />
+
       {/* PDF Upload Modal */}
       <PDFUploadModal
         isOpen={isUploadModalOpen}
@@ -0,0 +1,86 @@
+import React from "react";
+import Modal from "./Modal";
+import type { DuplicateWarning } from "../services/faqDedupeService";
+
+interface DuplicateWarningModalProps {
+  isOpen: boolean;
+  warnings: DuplicateWarning[];
+  total: number; // 등록하려는 FAQ 수
+  onSkipDuplicates: () => void; // 중복 의심 건 제외하고 등록
+  onSaveAll: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * FAQ 등록 전 중복 의심 경고 (엑셀 가져오기 / 수동 등록)
+ */
+const DuplicateWarningModal: React.FC<DuplicateWarningModalProps> = ({
+  isOpen,
+  warnings,
+  total,
+  onSkipDuplicates,
+  onSaveAll,
+  onCancel,
+}) => {
+  const remaining = total - warnings.length;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onCancel} title="중복 의심 FAQ">
+      <p className="text-sm text-gray-600 mb-4">
+        등록하려는 FAQ {total}건 중 {warnings.length}건이 기존 FAQ 또는 함께
+        등록하는 FAQ와 비슷합니다.
+      </p>
+
+      <ul className="max-h-96 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        {warnings.map((warning) => (
+          <li key={warning.index} className="p-3">
+            <p className="text-sm font-medium text-black">{warning.question}</p>
+            <ul className="mt-1 space-y-1">
+              {warning.matches.map((match, i) => (
+                <li
+                  key={`${match.faqId ?? "batch"}-${i}`}
+                  className="text-xs text-gray-500"
+                >
+                  ≈ {match.question}{" "}
+                  <span className="text-orange-600">
+                    {match.reason === "text"
+                      ? "(같은 질문)"
+                      : `(유사도 ${Math.round(match.similarity * 100)}%)`}
+                  </span>
+                  {match.faqId === undefined && (
+                    <span className="text-gray-400"> · 함께 등록하는 FAQ</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex justify-end space-x-3 mt-6">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          취소
+        </button>
+        {remaining > 0 && (
+          <button
+            onClick={onSkipDuplicates}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            중복 제외하고 등록 ({remaining}건)
+          </button>
+        )}
+        <button
+          onClick={onSaveAll}
+          className="px-4 py-2 text-sm font-medium text-white bg-orange-500 rounded-lg hover:bg-orange-600 transition-colors"
+        >
+          {total > 1 ? `모두 등록 (${total}건)` : "그래도 저장"}
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+export default DuplicateWarningModal;
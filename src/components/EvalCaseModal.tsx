@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from "react";
+import Modal from "./Modal";
+import { EvalCase, EvalCaseInput, RetrievalTraceCandidate } from "../types";
+import { getSupabaseDatabaseService } from "../services/supabase";
+import { useToast } from "./Toast";
+import { createLogger } from "../services/logger";
+
+const log = createLogger("EvalCase");
+
+interface EvalCaseModalProps {
+  draft: EvalCaseInput | null; // null이면 닫힘
+  candidates?: RetrievalTraceCandidate[]; // 기대 FAQ/청크로 고를 검색 후보
+  onSaved: (evalCase: EvalCase) => void;
+  onClose: () => void;
+}
+
+// 후보가 없을 때 기본값 (렌더마다 새 배열이면 초기화 effect가 반복 실행됨)
+const NO_CANDIDATES: RetrievalTraceCandidate[] = [];
+
+const candidateKey = (
+  candidate: Pick<RetrievalTraceCandidate, "type" | "id">,
+) => `${candidate.type}:${candidate.id}`;
+
+/** "12, 34" → [12, 34] (숫자가 아닌 값은 무시) */
+const parseIds = (value: string): number[] =>
+  value
+    .split(/[\s,]+/)
+    .map(Number)
+    .filter((id) => Number.isInteger(id) && id > 0);
+
+/**
+ * 평가 질문 저장: 질문 + 기대 FAQ/청크(검색 후보 선택 또는 ID 입력) + 기대 사실
+ */
+const EvalCaseModal: React.FC<EvalCaseModalProps> = ({
+  draft,
+  candidates = NO_CANDIDATES,
+  onSaved,
+  onClose,
+}) => {
+  const [question, setQuestion] = useState("");
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [extraFaqIds, setExtraFaqIds] = useState("");
+  const [extraChunkIds, setExtraChunkIds] = useState("");
+  const [facts, setFacts] = useState("");
+  const [expectFallback, setExpectFallback] = useState(false);
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    if (!draft) return;
+    const keys = [
+      ...draft.expectedFaqIds.map((id) => candidateKey({ type: "faq", id })),
+      ...draft.expectedChunkIds.map((id) =>
+        candidateKey({ type: "chunk", id }),
+      ),
+    ];
+    const candidateKeys = new Set(candidates.map(candidateKey));
+    // 검색 후보에 없는 기대 ID는 직접 입력란으로
+    const extra = (type: RetrievalTraceCandidate["type"], ids: number[]) =>
+      ids
+        .filter((id) => !candidateKeys.has(candidateKey({ type, id })))
+        .join(", ");
+
+    setQuestion(draft.question);
+    setSelectedKeys(new Set(keys.filter((key) => candidateKeys.has(key))));
+    setExtraFaqIds(extra("faq", draft.expectedFaqIds));
+    setExtraChunkIds(extra("chunk", draft.expectedChunkIds));
+    setFacts(draft.expectedFacts.join("\n"));
+    setExpectFallback(draft.expectFallback);
+    setNotes(draft.notes || "");
+  }, [draft, candidates]);
+
+  if (!draft) return null;
+
+  const toggleCandidate = (key: string) => {
+    setSelectedKeys((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    const selectedIds = (type: RetrievalTraceCandidate["type"]) =>
+      candidates
+        .filter(
+          (candidate) =>
+            candidate.type === type &&
+            selectedKeys.has(candidateKey(candidate)),
+        )
+        .map((candidate) => candidate.id);
+    const unique = (ids: number[]) => Array.from(new Set(ids));
+
+    setIsSaving(true);
+    try {
+      const saved = await getSupabaseDatabaseService().createEvalCase({
+        question: question.trim(),
+        expectedFaqIds: unique([
+          ...selectedIds("faq"),
+          ...parseIds(extraFaqIds),
+        ]),
+        expectedChunkIds: unique([
+          ...selectedIds("chunk"),
+          ...parseIds(extraChunkIds),
+        ]),
+        expectedFacts: facts
+          .split("\n")
+          .map((fact) => fact.trim())
+          .filter(Boolean),
+        expectFallback,
+        notes: notes.trim() || undefined,
+      });
+      showToast("평가 질문을 저장했습니다.", "success");
+      onSaved(saved);
+      onClose();
+    } catch (error) {
+      log.error("평가 질문 저장 실패:", error);
+      showToast("평가 질문 저장에 실패했습니다.", "error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title="평가 질문으로 저장">
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            질문
+          </label>
+          <input
+            type="text"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+
+        {candidates.length > 0 && (
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">
+              기대 FAQ / 청크 (검색 후보에서 선택)
+            </p>
+            <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+              {candidates.map((candidate) => (
+                <li key={candidateKey(candidate)} className="px-3 py-1.5">
+                  <label className="flex items-center space-x-2 text-xs text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={selectedKeys.has(candidateKey(candidate))}
+                      onChange={() => toggleCandidate(candidateKey(candidate))}
+                    />
+                    <span className="font-medium">
+                      {candidate.type === "faq" ? "FAQ" : "청크"} #
+                      {candidate.id}
+                    </span>
+                    <span className="truncate">{candidate.label}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              추가 FAQ ID
+            </label>
+            <input
+              type="text"
+              value={extraFaqIds}
+              onChange={(e) => setExtraFaqIds(e.target.value)}
+              placeholder="예: 12, 34"
+              className="w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              추가 청크 ID
+            </label>
+            <input
+              type="text"
+              value={extraChunkIds}
+              onChange={(e) => setExtraChunkIds(e.target.value)}
+              placeholder="예: 1024"
+              className="w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            답변에 포함되어야 할 사실 (한 줄에 하나)
+          </label>
+          <textarea
+            value={facts}
+            onChange={(e) => setFacts(e.target.value)}
+            rows={3}
+            placeholder="예: 응답 비율 38%"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={expectFallback}
+            onChange={(e) => setExpectFallback(e.target.checked)}
+          />
+          <span>지식베이스 범위 밖 질문 (안내 문구가 정답)</span>
+        </label>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            메모
+          </label>
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            취소
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !question.trim()}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? "저장 중..." : "저장"}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default EvalCaseModal;
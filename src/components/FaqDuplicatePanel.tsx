@@ -0,0 +1,296 @@
+import React, { useState } from "react";
+import { FAQ } from "../types";
+import {
+  faqDedupeService,
+  type DuplicateCluster,
+} from "../services/faqDedupeService";
+import { useToast } from "./Toast";
+import { createLogger } from "../services/logger";
+
+const log = createLogger("FaqDedupe");
+
+interface FaqDuplicatePanelProps {
+  faqs: FAQ[];
+  canEditContent: boolean;
+  onMerged: () => Promise<void>; // 병합 후 FAQ 목록 다시 불러오기
+}
+
+interface DuplicateClusterCardProps {
+  cluster: DuplicateCluster;
+  canEditContent: boolean;
+  onMerge: (target: FAQ, sources: FAQ[], answer: string) => Promise<void>;
+  onDismiss: () => void;
+}
+
+/**
+ * 중복 묶음 1개: 남길 FAQ 선택 + 병합 답변 편집
+ */
+const DuplicateClusterCard: React.FC<DuplicateClusterCardProps> = ({
+  cluster,
+  canEditContent,
+  onMerge,
+  onDismiss,
+}) => {
+  // 기본으로 즐겨찾기 FAQ, 없으면 가장 먼저 등록된 FAQ를 남김
+  const defaultTarget =
+    cluster.faqs.find((faq) => faq.isFeatured) ?? cluster.faqs[0];
+  const [targetId, setTargetId] = useState(defaultTarget.id);
+  const [answer, setAnswer] = useState(defaultTarget.answer);
+  const [isMerging, setIsMerging] = useState(false);
+
+  const target = cluster.faqs.find((faq) => faq.id === targetId)!;
+  const sources = cluster.faqs.filter((faq) => faq.id !== targetId);
+
+  const handleSelectTarget = (faq: FAQ) => {
+    setTargetId(faq.id);
+    setAnswer(faq.answer);
+  };
+
+  // 서로 다른 답변을 남길 FAQ 답변 뒤에 이어 붙임
+  const handleCombineAnswers = () => {
+    const answers = [target, ...sources]
+      .map((faq) => faq.answer.trim())
+      .filter((value, index, list) => value && list.indexOf(value) === index);
+    setAnswer(answers.join("\n\n"));
+  };
+
+  const handleMerge = async () => {
+    setIsMerging(true);
+    try {
+      await onMerge(target, sources, answer);
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs font-medium text-orange-700 bg-orange-100 px-2 py-0.5 rounded-full">
+          {cluster.reasons.includes("text")
+            ? "같은 질문"
+            : `유사도 ${Math.round(cluster.similarity * 100)}%`}{" "}
+          · {cluster.faqs.length}개
+        </span>
+        <button
+          onClick={onDismiss}
+          className="text-xs text-gray-500 hover:text-gray-700"
+        >
+          중복 아님
+        </button>
+      </div>
+
+      <ul className="space-y-2">
+        {cluster.faqs.map((faq) => (
+          <li key={faq.id}>
+            <label className="flex items-start space-x-2 cursor-pointer">
+              <input
+                type="radio"
+                name={`duplicate-target-${cluster.key}`}
+                checked={faq.id === targetId}
+                onChange={() => handleSelectTarget(faq)}
+                disabled={!canEditContent}
+                className="mt-1"
+              />
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-black">
+                  {faq.question}
+                  <span className="ml-2 text-xs font-normal text-gray-400">
+                    #{faq.id} · {faq.category}
+                    {faq.isFeatured ? " · 즐겨찾기" : ""}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500 line-clamp-2">
+                  {faq.answer}
+                </p>
+              </div>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      {canEditContent && (
+        <div className="mt-3">
+          <div className="flex items-center justify-between mb-1">
+            <label className="text-xs font-medium text-gray-700">
+              병합 후 답변
+            </label>
+            <button
+              onClick={handleCombineAnswers}
+              className="text-xs text-blue-600 hover:text-blue-700"
+            >
+              답변 합치기
+            </button>
+          </div>
+          <textarea
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            rows={4}
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <div className="flex justify-end mt-2">
+            <button
+              onClick={handleMerge}
+              disabled={isMerging || !answer.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-orange-500 rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+            >
+              {isMerging ? "병합 중..." : `#${targetId}로 병합`}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * 중복/유사 FAQ 묶음 패널 (질문 임베딩 유사도 + 정규화 텍스트)
+ * 병합 시 채팅 로그의 출처 FAQ 참조는 남는 FAQ로 이전
+ */
+const FaqDuplicatePanel: React.FC<FaqDuplicatePanelProps> = ({
+  faqs,
+  canEditContent,
+  onMerged,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [clusters, setClusters] = useState<DuplicateCluster[] | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [dismissedKeys, setDismissedKeys] = useState<Set<string>>(new Set());
+  const { showToast } = useToast();
+
+  const visibleClusters = (clusters ?? []).filter(
+    (cluster) => !dismissedKeys.has(cluster.key),
+  );
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    try {
+      setClusters(await faqDedupeService.findClusters(faqs));
+    } catch (error) {
+      log.error("중복 FAQ 검사 실패:", error);
+      showToast("중복 FAQ 검사에 실패했습니다.", "error");
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleToggle = () => {
+    if (!isOpen && clusters === null) {
+      handleScan();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleMerge = async (target: FAQ, sources: FAQ[], answer: string) => {
+    if (
+      !confirm(
+        `FAQ ${sources.length}개를 #${target.id}로 병합하시겠습니까?\n병합된 FAQ는 삭제되고 채팅 로그의 출처는 #${target.id}로 바뀝니다.`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const redirected = await faqDedupeService.merge(target, sources, answer);
+      const mergedIds = new Set([target.id, ...sources.map((faq) => faq.id)]);
+      setClusters((prev) =>
+        (prev ?? []).filter(
+          (cluster) => !cluster.faqs.some((faq) => mergedIds.has(faq.id)),
+        ),
+      );
+      await onMerged();
+      showToast(
+        `FAQ ${sources.length}개를 병합했습니다.${redirected > 0 ? ` (채팅 로그 ${redirected}건 출처 이전)` : ""}`,
+        "success",
+      );
+    } catch (error) {
+      log.error("FAQ 병합 실패:", error);
+      showToast("FAQ 병합에 실패했습니다.", "error");
+    }
+  };
+
+  return (
+    <div className="card">
+      <button
+        onClick={handleToggle}
+        className="w-full flex items-center justify-between"
+      >
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-orange-100 rounded-lg">
+            <svg
+              className="w-5 h-5 text-orange-600"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+              />
+            </svg>
+          </div>
+          <div className="text-left">
+            <h2 className="text-lg font-semibold text-black">중복 FAQ 정리</h2>
+            <p className="text-sm text-gray-500">
+              {clusters === null
+                ? "비슷한 질문의 FAQ를 찾아 하나로 병합합니다"
+                : `중복 의심 묶음 ${visibleClusters.length}개`}
+            </p>
+          </div>
+        </div>
+        <svg
+          className={`w-5 h-5 text-gray-400 transition-transform duration-200 ${isOpen ? "rotate-180" : ""}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M19 9l-7 7-7-7"
+          />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 pt-4 border-t border-gray-200 space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-500">
+              질문 임베딩 유사도와 조사/어미를 제거한 질문 비교로 찾습니다.
+            </p>
+            <button
+              onClick={handleScan}
+              disabled={isScanning}
+              className="px-3 py-1.5 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              {isScanning ? "검사 중..." : "다시 검사"}
+            </button>
+          </div>
+
+          {!isScanning && clusters !== null && visibleClusters.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-4">
+              중복 의심 FAQ가 없습니다.
+            </p>
+          )}
+
+          {visibleClusters.map((cluster) => (
+            <DuplicateClusterCard
+              key={cluster.key}
+              cluster={cluster}
+              canEditContent={canEditContent}
+              onMerge={handleMerge}
+              onDismiss={() =>
+                setDismissedKeys((prev) => new Set(prev).add(cluster.key))
+              }
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FaqDuplicatePanel;
@@ -0,0 +1,276 @@
+import React, { useState } from "react";
+import Modal from "./Modal";
+import {
+  faqImportService,
+  type FaqImportAction,
+  type FaqImportPreview,
+  type FaqImportResult,
+  type FaqImportRow,
+} from "../services/faqImportService";
+import { useToast } from "./Toast";
+import { createLogger } from "../services/logger";
+
+const log = createLogger("FaqImport");
+
+/** 한 번에 그리는 최대 행 수 (나머지는 건수만 표시) */
+const MAX_VISIBLE_ROWS = 200;
+
+const ACTION_LABELS: Record<FaqImportAction, string> = {
+  create: "신규",
+  update: "수정",
+  unchanged: "변경 없음",
+  error: "오류",
+};
+
+const ACTION_STYLES: Record<FaqImportAction, string> = {
+  create: "text-blue-700 bg-blue-100",
+  update: "text-purple-700 bg-purple-100",
+  unchanged: "text-gray-600 bg-gray-100",
+  error: "text-red-700 bg-red-100",
+};
+
+interface FaqImportPreviewModalProps {
+  preview: FaqImportPreview | null;
+  onApplied: (result: FaqImportResult) => Promise<void>; // 적용 후 목록 다시 불러오기
+  onClose: () => void;
+}
+
+const rowLabel = (row: { rowNumber: number; sheet?: string }) =>
+  row.sheet ? `${row.sheet} ${row.rowNumber}행` : `${row.rowNumber}행`;
+
+const ImportRowItem: React.FC<{ row: FaqImportRow }> = ({ row }) => (
+  <li className="p-3">
+    <div className="flex items-start space-x-2">
+      <span
+        className={`shrink-0 text-xs font-medium px-2 py-0.5 rounded-full ${ACTION_STYLES[row.action]}`}
+      >
+        {ACTION_LABELS[row.action]}
+      </span>
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-black truncate">
+          {row.record.question || row.target?.question || "(질문 없음)"}
+        </p>
+        <p className="text-xs text-gray-400">
+          {rowLabel(row)}
+          {row.target ? ` · FAQ #${row.target.id}` : ""}
+        </p>
+      </div>
+    </div>
+
+    {row.errors.length > 0 && (
+      <ul className="mt-1 ml-2 space-y-0.5">
+        {row.errors.map((error, i) => (
+          <li key={i} className="text-xs text-red-600">
+            {error}
+          </li>
+        ))}
+      </ul>
+    )}
+
+    {row.changes.length > 0 && (
+      <ul className="mt-1 ml-2 space-y-0.5">
+        {row.changes.map((change) => (
+          <li key={change.field} className="text-xs text-gray-600">
+            <span className="font-medium">{change.label}</span>:{" "}
+            <span className="line-through text-gray-400">
+              {change.before || "(없음)"}
+            </span>{" "}
+            → {change.after || "(없음)"}
+          </li>
+        ))}
+      </ul>
+    )}
+
+    {row.duplicates.length > 0 && (
+      <ul className="mt-1 ml-2 space-y-0.5">
+        {row.duplicates.map((match, i) => (
+          <li
+            key={`${match.faqId ?? "batch"}-${i}`}
+            className="text-xs text-orange-600"
+          >
+            중복 의심 ≈ {match.question}
+            {match.faqId !== undefined ? ` (#${match.faqId})` : " (파일 내)"}
+          </li>
+        ))}
+      </ul>
+    )}
+  </li>
+);
+
+/**
+ * FAQ 가져오기 미리보기: 행별 작업/변경 내용/오류 확인 후 적용
+ */
+const FaqImportPreviewModal: React.FC<FaqImportPreviewModalProps> = ({
+  preview,
+  onApplied,
+  onClose,
+}) => {
+  const [filter, setFilter] = useState<FaqImportAction | "all">("all");
+  const [skipDuplicates, setSkipDuplicates] = useState(false);
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [result, setResult] = useState<FaqImportResult | null>(null);
+  const { showToast } = useToast();
+
+  if (!preview) return null;
+
+  const rowsToApply = preview.rows.filter(
+    (row) =>
+      (row.action === "create" || row.action === "update") &&
+      !(skipDuplicates && row.action === "create" && row.duplicates.length),
+  );
+  const duplicateCount = preview.rows.filter(
+    (row) => row.action === "create" && row.duplicates.length > 0,
+  ).length;
+  const filteredRows = preview.rows.filter(
+    (row) => filter === "all" || row.action === filter,
+  );
+  const isApplying = progress !== null && result === null;
+
+  const handleClose = () => {
+    if (isApplying) return;
+    setFilter("all");
+    setSkipDuplicates(false);
+    setProgress(null);
+    setResult(null);
+    onClose();
+  };
+
+  const handleApply = async () => {
+    setProgress({ done: 0, total: rowsToApply.length });
+    try {
+      const applied = await faqImportService.apply(rowsToApply, (done, total) =>
+        setProgress({ done, total }),
+      );
+      setResult(applied);
+      await onApplied(applied);
+    } catch (error) {
+      log.error("FAQ 가져오기 적용 실패:", error);
+      showToast("FAQ 가져오기 적용 중 오류가 발생했습니다.", "error");
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={handleClose} title="FAQ 가져오기 미리보기">
+      {result ? (
+        <>
+          <p className="text-sm text-gray-600 mb-4">
+            신규 {result.created}건, 수정 {result.updated}건 적용
+            {result.embedded > 0 ? `, 임베딩 ${result.embedded}건 생성` : ""}
+            {result.failures.length > 0
+              ? `, ${result.failures.length}건 실패`
+              : ""}
+          </p>
+          {result.failures.length > 0 && (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {result.failures.map((failure) => (
+                <li
+                  key={`${failure.sheet}-${failure.rowNumber}`}
+                  className="p-3"
+                >
+                  <p className="text-sm font-medium text-black truncate">
+                    {failure.question || "(질문 없음)"}
+                  </p>
+                  <p className="text-xs text-gray-400">{rowLabel(failure)}</p>
+                  <p className="text-xs text-red-600">{failure.error}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex justify-end mt-6">
+            <button
+              onClick={handleClose}
+              className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              닫기
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600 mb-4">
+            {preview.fileName} · {preview.rows.length}행 (ID 또는 외부키가 같은
+            FAQ는 수정, 나머지는 신규 등록)
+          </p>
+
+          <div className="flex flex-wrap gap-2 mb-3">
+            {(["all", "create", "update", "unchanged", "error"] as const).map(
+              (action) => (
+                <button
+                  key={action}
+                  onClick={() => setFilter(action)}
+                  className={`px-3 py-1 text-xs font-medium rounded-full transition-colors ${
+                    filter === action
+                      ? "text-white bg-blue-600"
+                      : "text-gray-600 bg-gray-100 hover:bg-gray-200"
+                  }`}
+                >
+                  {action === "all"
+                    ? `전체 ${preview.rows.length}`
+                    : `${ACTION_LABELS[action]} ${preview.counts[action]}`}
+                </button>
+              ),
+            )}
+          </div>
+
+          <ul className="max-h-96 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {filteredRows.slice(0, MAX_VISIBLE_ROWS).map((row) => (
+              <ImportRowItem key={`${row.sheet}-${row.rowNumber}`} row={row} />
+            ))}
+            {filteredRows.length === 0 && (
+              <li className="p-4 text-sm text-gray-500 text-center">
+                해당하는 행이 없습니다.
+              </li>
+            )}
+          </ul>
+          {filteredRows.length > MAX_VISIBLE_ROWS && (
+            <p className="text-xs text-gray-400 mt-1">
+              외 {filteredRows.length - MAX_VISIBLE_ROWS}행
+            </p>
+          )}
+
+          {preview.counts.error > 0 && (
+            <p className="text-xs text-red-600 mt-3">
+              오류가 있는 {preview.counts.error}행은 적용하지 않습니다.
+            </p>
+          )}
+          {duplicateCount > 0 && (
+            <label className="flex items-center space-x-2 mt-3 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={skipDuplicates}
+                onChange={(e) => setSkipDuplicates(e.target.checked)}
+                disabled={isApplying}
+              />
+              <span>중복 의심 신규 FAQ {duplicateCount}건 제외</span>
+            </label>
+          )}
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button
+              onClick={handleClose}
+              disabled={isApplying}
+              className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              취소
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={isApplying || rowsToApply.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isApplying
+                ? `적용 중... (${progress.done}/${progress.total})`
+                : `적용 (${rowsToApply.length}건)`}
+            </button>
+          </div>
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default FaqImportPreviewModal;
@@ -6,68 +6,34 @@ import {
   CustomerServiceInfo,
 } from "../types";
 import Modal from "./Modal";
+import FaqDuplicatePanel from "./FaqDuplicatePanel";
+import DuplicateWarningModal from "./DuplicateWarningModal";
 import { getSupabaseDatabaseService } from "../services/supabase";
 import { autoEmbeddingService } from "../services/autoEmbeddingService";
+import {
+  faqDedupeService,
+  type DuplicateWarning,
+} from "../services/faqDedupeService";
 import { useToast } from "./Toast";
 import { createLogger } from "../services/logger";
+import { hasCurrentPermission } from "../services/workspaceContext";
+import { exportFaqs, type FaqFileFormat } from "../services/excelExportService";
+import {
+  CUSTOMER_SERVICE_SETTING_KEY,
+  DEFAULT_CUSTOMER_SERVICE,
+  DEFAULT_FALLBACK_CONFIG,
+  FALLBACK_CONFIG_SETTING_KEY,
+  buildFallbackMessage,
+  parseCustomerServiceInfo,
+  parseFallbackConfig,
+} from "../services/fallbackMessage";
 
 const log = createLogger("FaqMgmt");
 type FeaturedMode = "manual" | "auto";
 
-// Fallback 메시지 기본값
-const FALLBACK_CONFIG_KEY = "fallback-message-config";
+// 공개 챗봇 고객센터 플레이스홀더 치환용 (같은 브라우저)
 const CUSTOMER_SERVICE_KEY = "customer-service-info";
 
-const DEFAULT_FALLBACK_CONFIG: FallbackMessageConfig = {
-  title: "죄송합니다. 해당 질문에 대한 답변을 찾을 수 없습니다.",
-  body: "아래 방법으로 도움을 받으실 수 있습니다:",
-  showPhone: true,
-  showEmail: true,
-  showFaqGuide: true,
-  additionalMessage: "",
-};
-
-const DEFAULT_CUSTOMER_SERVICE: CustomerServiceInfo = {
-  phone: "1234-5678",
-  email: "support@embrain.com",
-  operatingHours: "평일 09:00~18:00",
-};
-
-const loadFallbackConfig = (): FallbackMessageConfig => {
-  try {
-    const saved = localStorage.getItem(FALLBACK_CONFIG_KEY);
-    if (saved) return { ...DEFAULT_FALLBACK_CONFIG, ...JSON.parse(saved) };
-  } catch {}
-  return DEFAULT_FALLBACK_CONFIG;
-};
-
-const loadCustomerServiceInfo = (): CustomerServiceInfo => {
-  try {
-    const saved = localStorage.getItem(CUSTOMER_SERVICE_KEY);
-    if (saved) return { ...DEFAULT_CUSTOMER_SERVICE, ...JSON.parse(saved) };
-  } catch {}
-  return DEFAULT_CUSTOMER_SERVICE;
-};
-
-/** Fallback 메시지를 조합하여 미리보기 텍스트를 생성 */
-const buildFallbackPreview = (
-  config: FallbackMessageConfig,
-  cs: CustomerServiceInfo,
-): string => {
-  const lines: string[] = [config.title, ""];
-  if (config.body) lines.push(config.body);
-  if (config.showPhone)
-    lines.push(`• 고객센터 전화 문의: ${cs.phone} (${cs.operatingHours})`);
-  if (config.showEmail) lines.push(`• 이메일 문의: ${cs.email}`);
-  if (config.showFaqGuide)
-    lines.push(`• 위의 '자주 묻는 질문'을 확인해 보세요.`);
-  if (config.additionalMessage) {
-    lines.push("");
-    lines.push(config.additionalMessage);
-  }
-  return lines.join("\n");
-};
-
 interface FeaturedSettings {
   mode: FeaturedMode;
   autoCount: number; // 자동 모드에서 노출할 FAQ 개수 (1-4)
@@ -103,8 +69,14 @@ const FaqManagement: React.FC<FaqManagementProps> = ({
 }) => {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("전체");
+  const [showNeedsReviewOnly, setShowNeedsReviewOnly] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingFaq, setEditingFaq] = useState<FAQ | null>(null);
+  const [pendingDuplicate, setPendingDuplicate] = useState<{
+    faqData: Omit<FAQ, "id">;
+    warnings: DuplicateWarning[];
+  } | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [isFeaturedPanelOpen, setIsFeaturedPanelOpen] = useState(false);
   const [featuredSettings, setFeaturedSettings] =
@@ -114,36 +86,82 @@ const FaqManagement: React.FC<FaqManagementProps> = ({
   >([]);
   const [isAutoProcessing, setIsAutoProcessing] = useState(false);
   const [isFallbackPanelOpen, setIsFallbackPanelOpen] = useState(false);
-  const [fallbackConfig, setFallbackConfig] =
-    useState<FallbackMessageConfig>(loadFallbackConfig);
+  const [fallbackConfig, setFallbackConfig] = useState<FallbackMessageConfig>(
+    DEFAULT_FALLBACK_CONFIG,
+  );
   const [csInfo, setCsInfo] = useState<CustomerServiceInfo>(
-    loadCustomerServiceInfo,
+    DEFAULT_CUSTOMER_SERVICE,
   );
   const itemsPerPage = 10;
   const dbService = useMemo(() => getSupabaseDatabaseService(), []);
+  // 역할별 버튼 노출 (실제 권한은 RLS에서 강제)
+  const canEditContent = hasCurrentPermission("editContent");
+  const canReviewFaqs = hasCurrentPermission("reviewFaqs");
+  // 안내 메시지는 워크스페이스 설정(settings, owner 전용)에 저장해 서버(/api/chat)가 사용
+  const canManageSettings = hasCurrentPermission("manageSettings");
   const { showToast } = useToast();
 
+  // Fallback 설정 로드 (owner 외 역할은 조회 불가 → 기본값)
+  useEffect(() => {
+    if (!canManageSettings) return;
+
+    const loadFallbackSettings = async () => {
+      try {
+        const [savedConfig, savedCs] = await Promise.all([
+          dbService.getSetting(FALLBACK_CONFIG_SETTING_KEY),
+          dbService.getSetting(CUSTOMER_SERVICE_SETTING_KEY),
+        ]);
+        setFallbackConfig(parseFallbackConfig(savedConfig));
+        setCsInfo(parseCustomerServiceInfo(savedCs));
+      } catch (error) {
+        log.error("안내 메시지 설정 로드 실패:", error);
+      }
+    };
+
+    loadFallbackSettings();
+  }, [dbService, canManageSettings]);
+
+  const saveFallbackSettings = useCallback(
+    async (config: FallbackMessageConfig, cs: CustomerServiceInfo) => {
+      await dbService.setSetting(
+        FALLBACK_CONFIG_SETTING_KEY,
+        JSON.stringify(config),
+      );
+      await dbService.setSetting(
+        CUSTOMER_SERVICE_SETTING_KEY,
+        JSON.stringify(cs),
+      );
+      localStorage.setItem(CUSTOMER_SERVICE_KEY, JSON.stringify(cs));
+    },
+    [dbService],
+  );
+
   // Fallback 메시지 저장
-  const handleSaveFallback = useCallback(() => {
-    localStorage.setItem(FALLBACK_CONFIG_KEY, JSON.stringify(fallbackConfig));
-    localStorage.setItem(CUSTOMER_SERVICE_KEY, JSON.stringify(csInfo));
-    showToast("답변 불가 안내 메시지가 저장되었습니다.", "success");
-  }, [fallbackConfig, csInfo, showToast]);
+  const handleSaveFallback = useCallback(async () => {
+    try {
+      await saveFallbackSettings(fallbackConfig, csInfo);
+      showToast("답변 불가 안내 메시지가 저장되었습니다.", "success");
+    } catch (error) {
+      log.error("안내 메시지 저장 실패:", error);
+      showToast("답변 불가 안내 메시지 저장에 실패했습니다.", "error");
+    }
+  }, [saveFallbackSettings, fallbackConfig, csInfo, showToast]);
 
   // Fallback 기본값 복원
-  const handleResetFallback = useCallback(() => {
-    setFallbackConfig(DEFAULT_FALLBACK_CONFIG);
-    setCsInfo(DEFAULT_CUSTOMER_SERVICE);
-    localStorage.setItem(
-      FALLBACK_CONFIG_KEY,
-      JSON.stringify(DEFAULT_FALLBACK_CONFIG),
-    );
-    localStorage.setItem(
-      CUSTOMER_SERVICE_KEY,
-      JSON.stringify(DEFAULT_CUSTOMER_SERVICE),
-    );
-    showToast("기본값으로 복원되었습니다.", "info");
-  }, [showToast]);
+  const handleResetFallback = useCallback(async () => {
+    try {
+      await saveFallbackSettings(
+        DEFAULT_FALLBACK_CONFIG,
+        DEFAULT_CUSTOMER_SERVICE,
+      );
+      setFallbackConfig(DEFAULT_FALLBACK_CONFIG);
+      setCsInfo(DEFAULT_CUSTOMER_SERVICE);
+      showToast("기본값으로 복원되었습니다.", "info");
+    } catch (error) {
+      log.error("안내 메시지 복원 실패:", error);
+      showToast("기본값 복원에 실패했습니다.", "error");
+    }
+  }, [saveFallbackSettings, showToast]);
 
   // 현재 Featured FAQ 목록
   const featuredFaqs = useMemo(() => faqs.filter((f) => f.isFeatured), [faqs]);
@@ -264,7 +282,13 @@ const FaqManagement: React.FC<FaqManagementProps> = ({
   // 필터 변경 시 페이지를 1로 리셋
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchTerm, selectedCategory]);
+  }, [searchTerm, selectedCategory, showNeedsReviewOnly]);
+
+  // 문서 새 버전에서 근거 내용이 바뀐 FAQ
+  const needsReviewCount = useMemo(
+    () => faqs.filter((faq) => faq.needsReview).length,
+    [faqs],
+  );
 
   const filteredFaqs = useMemo(() => {
     return faqs.filter((faq) => {
@@ -273,9 +297,10 @@ const FaqManagement: React.FC<FaqManagementProps> = ({
         faq.answer.toLowerCase().includes(searchTerm.toLowerCase());
       const matchesCategory =
         selectedCategory === "전체" || faq.category === selectedCategory;
-      return matchesSearch && matchesCategory;
+      const matchesReview = !showNeedsReviewOnly || faq.needsReview;
+      return matchesSearch && matchesCategory && matchesReview;
     });
-  }, [faqs, searchTerm, selectedCategory]);
+  }, [faqs, searchTerm, selectedCategory, showNeedsReviewOnly]);
 
   const totalPages = Math.ceil(filteredFaqs.length / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
@@ -345,12 +370,43 @@ const FaqManagement: React.FC<FaqManagementProps> = ({
     }
   };
 
+  const handleCompleteReview = async (id: number) => {
+    try {
+      const updated = await dbService.updateFAQ(id, { needsReview: false });
+      if (updated) {
+        setFaqs((prev) => prev.map((f) => (f.id === id ? updated : f)));
+      }
+      showToast("FAQ 검토를 완료했습니다.", "success");
+    } catch (error) {
+      log.error("Failed to complete FAQ review:", error);
+      showToast("FAQ 검토 완료 처리에 실패했습니다.", "error");
+    }
+  };
+
   const handleSaveFaq = async (faqData: Omit<FAQ, "id">) => {
+    // 새 FAQ이거나 질문이 바뀌면 저장 전 중복 확인
+    if (!editingFaq || editingFaq.question !== faqData.question) {
+      const warnings = await faqDedupeService.checkCandidates([faqData], faqs, {
+        excludeId: editingFaq?.id,
+      });
+      if (warnings.length > 0) {
+        setPendingDuplicate({ faqData, warnings });
+        return;
+      }
+    }
+    await saveFaq(faqData);
+  };
+
+  const saveFaq = async (faqData: Omit<FAQ, "id">) => {
     try {
       let savedFaq: FAQ;
 
       if (editingFaq) {
-        const updated = await dbService.updateFAQ(editingFaq.id, faqData);
+        // 검토 필요 FAQ를 수정해 저장하면 검토 완료로 처리
+        const updated = await dbService.updateFAQ(
+          editingFaq.id,
+          editingFaq.needsReview ? { ...faqData, needsReview: false } : faqData,
+        );
         if (updated) {
           savedFaq = updated;
           setFaqs((prev) =>
@@ -439,25 +495,72 @@ const FaqManagement: React.FC<FaqManagementProps> = ({
                 채팅 테스트
               </button>
             )}
-            <button
-              onClick={handleAddFaq}
-              className="btn-primary flex items-center"
-            >
-              <svg
-                className="w-5 h-5 mr-2"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
+            <div className="relative">
+              <button
+                onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+                disabled={faqs.length === 0}
+                className="flex items-center px-4 py-2 text-sm font-medium text-emerald-600 bg-emerald-50 rounded-lg hover:bg-emerald-100 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="ID·외부키가 포함되어 수정 후 다시 가져올 수 있습니다"
               >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M12 6v6m0 0v6m0-6h6m-6 0H6"
-                />
-              </svg>
-              새 FAQ 추가
-            </button>
+                <svg
+                  className="w-4 h-4 mr-2"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                  />
+                </svg>
+                내보내기
+              </button>
+              {isExportMenuOpen && (
+                <div className="absolute right-0 z-10 mt-2 w-36 bg-white border border-gray-200 rounded-lg shadow-lg py-1">
+                  {(
+                    [
+                      ["xlsx", "엑셀 (.xlsx)"],
+                      ["csv", "CSV (.csv)"],
+                      ["json", "JSON (.json)"],
+                    ] as [FaqFileFormat, string][]
+                  ).map(([format, label]) => (
+                    <button
+                      key={format}
+                      onClick={() => {
+                        exportFaqs(faqs, format);
+                        setIsExportMenuOpen(false);
+                      }}
+                      className="block w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100"
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            {canEditContent && (
+              <button
+                onClick={handleAddFaq}
+                className="btn-primary flex items-center"
+              >
+                <svg
+                  className="w-5 h-5 mr-2"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 6v6m0 0v6m0-6h6m-6 0H6"
+                  />
+                </svg>
+                새 FAQ 추가
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -959,34 +1062,36 @@ const FaqManagement: React.FC<FaqManagementProps> = ({
                   />
                 </div>
 
-                {/* 버튼 */}
-                <div className="flex items-center space-x-3">
-                  <button
-                    onClick={handleSaveFallback}
-                    className="flex items-center px-4 py-2 text-sm font-medium text-white bg-red-500 rounded-lg hover:bg-red-600 transition-colors"
-                  >
-                    <svg
-                      className="w-4 h-4 mr-1.5"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
+                {/* 버튼 (owner만 저장 가능) */}
+                {canManageSettings && (
+                  <div className="flex items-center space-x-3">
+                    <button
+                      onClick={handleSaveFallback}
+                      className="flex items-center px-4 py-2 text-sm font-medium text-white bg-red-500 rounded-lg hover:bg-red-600 transition-colors"
                     >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M5 13l4 4L19 7"
-                      />
-                    </svg>
-                    저장
-                  </button>
-                  <button
-                    onClick={handleResetFallback}
-                    className="flex items-center px-4 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
-                  >
-                    기본값 복원
-                  </button>
-                </div>
+                      <svg
+                        className="w-4 h-4 mr-1.5"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M5 13l4 4L19 7"
+                        />
+                      </svg>
+                      저장
+                    </button>
+                    <button
+                      onClick={handleResetFallback}
+                      className="flex items-center px-4 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      기본값 복원
+                    </button>
+                  </div>
+                )}
               </div>
 
               {/* 우측: 미리보기 */}
@@ -1017,7 +1122,7 @@ const FaqManagement: React.FC<FaqManagementProps> = ({
                   </div>
                   <div className="bg-white rounded-xl px-4 py-3 shadow-sm">
                     <p className="text-sm text-gray-800 whitespace-pre-wrap leading-relaxed">
-                      {buildFallbackPreview(fallbackConfig, csInfo)}
+                      {buildFallbackMessage(fallbackConfig, csInfo)}
                     </p>
                   </div>
                   <p className="text-xs text-gray-400 mt-2 text-right">
@@ -1030,6 +1135,13 @@ const FaqManagement: React.FC<FaqManagementProps> = ({
         )}
       </div>
 
+      {/* 중복 FAQ 정리 패널 */}
+      <FaqDuplicatePanel
+        faqs={faqs}
+        canEditContent={canEditContent}
+        onMerged={reloadFAQs}
+      />
+
       {/* Filters */}
       <div className="card">
         <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
@@ -1067,6 +1179,18 @@ const FaqManagement: React.FC<FaqManagementProps> = ({
                 </option>
               ))}
             </select>
+            {(needsReviewCount > 0 || showNeedsReviewOnly) && (
+              <button
+                onClick={() => setShowNeedsReviewOnly((prev) => !prev)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium border transition-colors duration-200 ${
+                  showNeedsReviewOnly
+                    ? "bg-orange-100 border-orange-300 text-orange-800"
+                    : "bg-white border-gray-300 text-gray-700 hover:bg-orange-50"
+                }`}
+              >
+                검토 필요 {needsReviewCount}
+              </button>
+            )}
           </div>
           <div className="text-sm text-gray-600">
             총 {filteredFaqs.length}개의 FAQ
@@ -1109,6 +1233,14 @@ const FaqManagement: React.FC<FaqManagementProps> = ({
                         <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
                           {faq.category}
                         </span>
+                        {faq.needsReview && (
+                          <span
+                            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800"
+                            title={faq.reviewReason}
+                          >
+                            검토 필요
+                          </span>
+                        )}
                         {faq.sourceDocument ? (
                           <button
                             onClick={() =>
@@ -1223,44 +1355,69 @@ const FaqManagement: React.FC<FaqManagementProps> = ({
                           </svg>
                         </button>
                       )}
-                      <button
-                        onClick={() => handleEditFaq(faq)}
-                        className="text-blue-600 hover:text-blue-700 p-2 hover:bg-blue-50 rounded-lg transition-colors duration-200"
-                        title="편집"
-                      >
-                        <svg
-                          className="w-4 h-4"
-                          fill="none"
-                          stroke="currentColor"
-                          viewBox="0 0 24 24"
+                      {canReviewFaqs && faq.needsReview && (
+                        <button
+                          onClick={() => handleCompleteReview(faq.id)}
+                          className="text-orange-600 hover:text-orange-700 p-2 hover:bg-orange-50 rounded-lg transition-colors duration-200"
+                          title="검토 완료"
                         >
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
-                          />
-                        </svg>
-                      </button>
-                      <button
-                        onClick={() => handleDeleteFaq(faq.id)}
-                        className="text-red-600 hover:text-red-700 p-2 hover:bg-red-50 rounded-lg transition-colors duration-200"
-                        title="삭제"
-                      >
-                        <svg
-                          className="w-4 h-4"
-                          fill="none"
-                          stroke="currentColor"
-                          viewBox="0 0 24 24"
+                          <svg
+                            className="w-4 h-4"
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
+                          >
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M5 13l4 4L19 7"
+                            />
+                          </svg>
+                        </button>
+                      )}
+                      {canReviewFaqs && (
+                        <button
+                          onClick={() => handleEditFaq(faq)}
+                          className="text-blue-600 hover:text-blue-700 p-2 hover:bg-blue-50 rounded-lg transition-colors duration-200"
+                          title="편집"
                         >
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                          />
-                        </svg>
-                      </button>
+                          <svg
+                            className="w-4 h-4"
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
+                          >
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                            />
+                          </svg>
+                        </button>
+                      )}
+                      {canEditContent && (
+                        <button
+                          onClick={() => handleDeleteFaq(faq.id)}
+                          className="text-red-600 hover:text-red-700 p-2 hover:bg-red-50 rounded-lg transition-colors duration-200"
+                          title="삭제"
+                        >
+                          <svg
+                            className="w-4 h-4"
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
+                          >
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                            />
+                          </svg>
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -1361,6 +1518,19 @@ const FaqManagement: React.FC<FaqManagementProps> = ({
           onCancel={() => setIsModalOpen(false)}
         />
       </Modal>
+
+      <DuplicateWarningModal
+        isOpen={pendingDuplicate !== null}
+        warnings={pendingDuplicate?.warnings ?? []}
+        total={1}
+        onSkipDuplicates={() => setPendingDuplicate(null)}
+        onSaveAll={() => {
+          const faqData = pendingDuplicate?.faqData;
+          setPendingDuplicate(null);
+          if (faqData) saveFaq(faqData);
+        }}
+        onCancel={() => setPendingDuplicate(null)}
+      />
     </div>
   );
 };
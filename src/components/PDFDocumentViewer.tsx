@@ -1,21 +1,29 @@
 import React, { useState, useMemo, useEffect } from "react";
-import { PDFDocument, FAQ } from "../types";
-import { getSupabaseStorageService } from "../services/supabase";
+import { PDFDocument, FAQ, DocumentVersion } from "../types";
+import {
+  getSupabaseDatabaseService,
+  getSupabaseStorageService,
+} from "../services/supabase";
+import { splitPages } from "../services/documentChunker";
 
 interface PDFDocumentViewerProps {
   document: PDFDocument;
   onClose: () => void;
   onUpdateFAQs: (documentId: number, faqs: FAQ[]) => void;
+  initialPage?: number; // 지정 시 내용 탭의 해당 페이지로 열기
+  readOnly?: boolean; // 공개 챗봇에서 열 때 FAQ 관리 탭 숨김
 }
 
 const PDFDocumentViewer: React.FC<PDFDocumentViewerProps> = ({
   document,
   onClose,
   onUpdateFAQs,
+  initialPage,
+  readOnly = false,
 }) => {
   const [activeTab, setActiveTab] = useState<
-    "overview" | "ocr" | "content" | "faqs" | "metadata"
-  >("overview");
+    "overview" | "ocr" | "content" | "tables" | "faqs" | "metadata"
+  >(initialPage ? "content" : "overview");
   const [editingFAQ, setEditingFAQ] = useState<FAQ | null>(null);
   const [isAddingFAQ, setIsAddingFAQ] = useState(false);
   const [newFAQ, setNewFAQ] = useState<Partial<FAQ>>({
@@ -25,8 +33,9 @@ const PDFDocumentViewer: React.FC<PDFDocumentViewerProps> = ({
     isActive: true,
   });
   const [searchTerm, setSearchTerm] = useState("");
-  const [currentPage, setCurrentPage] = useState(1);
+  const [currentPage, setCurrentPage] = useState(initialPage || 1);
   const [pdfPreviewUrl, setPdfPreviewUrl] = useState<string | null>(null);
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
   const storageService = useMemo(() => getSupabaseStorageService(), []);
 
   const faqs = document.generatedFaqs || [];
@@ -56,6 +65,34 @@ const PDFDocumentViewer: React.FC<PDFDocumentViewerProps> = ({
     };
   }, [document.filePath, storageService]);
 
+  // 이전 버전 기록 (관리자 화면에서만)
+  useEffect(() => {
+    if (readOnly || !document.version || document.version <= 1) return;
+    let cancelled = false;
+
+    getSupabaseDatabaseService()
+      .getDocumentVersions(document.id)
+      .then((result) => {
+        if (!cancelled) setVersions(result);
+      })
+      .catch((error) => {
+        console.error("Failed to load document versions:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [document.id, document.version, readOnly]);
+
+  const handleDownloadVersion = async (version: DocumentVersion) => {
+    if (!version.filePath) return;
+    try {
+      window.open(await storageService.download(version.filePath), "_blank");
+    } catch (error) {
+      console.error("Failed to download document version:", error);
+    }
+  };
+
   const escapeRegExp = (value: string) =>
     value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 
@@ -91,12 +128,15 @@ const PDFDocumentViewer: React.FC<PDFDocumentViewerProps> = ({
     }
 
     if (metadata?.textContent) {
-      return [
-        {
-          pageNumber: 1,
-          text: metadata.textContent.trim(),
-        },
-      ];
+      // 페이지 마커가 있으면 페이지별로, 없으면 1페이지로 표시
+      const pages = splitPages(metadata.textContent);
+      const totalPages = Math.max(1, ...pages.map((page) => page.pageNumber));
+
+      return Array.from({ length: totalPages }, (_, index) => ({
+        pageNumber: index + 1,
+        text:
+          pages.find((page) => page.pageNumber === index + 1)?.content || "",
+      }));
     }
 
     return [];
@@ -314,6 +354,11 @@ const PDFDocumentViewer: React.FC<PDFDocumentViewerProps> = ({
       name: "내용",
       icon: "M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V19a2 2 0 01-2 2z",
     },
+    {
+      id: "tables",
+      name: `표 (${metadata?.tables?.length || 0})`,
+      icon: "M3 10h18M3 14h18M10 3v18M14 3v18M5 3h14a2 2 0 012 2v14a2 2 0 01-2 2H5a2 2 0 01-2-2V5a2 2 0 012-2z",
+    },
     {
       id: "faqs",
       name: "엠브레인Agent관리",
@@ -340,9 +385,7 @@ const PDFDocumentViewer: React.FC<PDFDocumentViewerProps> = ({
                   {getStatusText(document.status)}
                 </span>
                 <span className="text-blue-100 text-sm">
-                  {document.uploadMode === "general"
-                    ? "일반 모드"
-                    : "DeepSeek OCR 모드"}
+                  {document.uploadMode === "general" ? "일반 모드" : "OCR 모드"}
                 </span>
               </div>
             </div>
@@ -370,37 +413,39 @@ const PDFDocumentViewer: React.FC<PDFDocumentViewerProps> = ({
         {/* Tabs */}
         <div className="border-b border-gray-200">
           <nav className="flex space-x-8 px-6">
-            {tabs.map((tab) => (
-              <button
-                key={tab.id}
-                onClick={() => setActiveTab(tab.id as typeof activeTab)}
-                className={`py-4 px-1 border-b-2 font-medium text-sm flex items-center space-x-2 transition-colors ${
-                  activeTab === tab.id
-                    ? "border-blue-500 text-blue-600"
-                    : "border-transparent text-gray-500 hover:text-gray-600 hover:border-gray-300"
-                }`}
-              >
-                <svg
-                  className="w-4 h-4"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
+            {tabs
+              .filter((tab) => !readOnly || tab.id !== "faqs")
+              .map((tab) => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id as typeof activeTab)}
+                  className={`py-4 px-1 border-b-2 font-medium text-sm flex items-center space-x-2 transition-colors ${
+                    activeTab === tab.id
+                      ? "border-blue-500 text-blue-600"
+                      : "border-transparent text-gray-500 hover:text-gray-600 hover:border-gray-300"
+                  }`}
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d={tab.icon}
-                  />
-                </svg>
-                <span>{tab.name}</span>
-                {tab.id === "faqs" && faqs.length > 0 && (
-                  <span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">
-                    {faqs.length}
-                  </span>
-                )}
-              </button>
-            ))}
+                  <svg
+                    className="w-4 h-4"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d={tab.icon}
+                    />
+                  </svg>
+                  <span>{tab.name}</span>
+                  {tab.id === "faqs" && faqs.length > 0 && (
+                    <span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">
+                      {faqs.length}
+                    </span>
+                  )}
+                </button>
+              ))}
           </nav>
         </div>
 
@@ -525,6 +570,51 @@ const PDFDocumentViewer: React.FC<PDFDocumentViewerProps> = ({
                 </div>
               )}
 
+              {versions.length > 0 && (
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <h4 className="font-semibold text-black mb-3">
+                    버전 기록 (현재 v{document.version})
+                  </h4>
+                  {metadata?.versionDiff && (
+                    <p className="text-sm text-gray-600 mb-3">
+                      v{metadata.versionDiff.fromVersion} 대비 청크 유지{" "}
+                      {metadata.versionDiff.unchangedChunks}개 · 추가{" "}
+                      {metadata.versionDiff.addedChunks}개 · 삭제{" "}
+                      {metadata.versionDiff.removedChunks}개 · 검토 필요 FAQ{" "}
+                      {metadata.versionDiff.flaggedFaqs}개
+                    </p>
+                  )}
+                  <ul className="divide-y divide-gray-200 text-sm">
+                    {versions.map((version) => (
+                      <li
+                        key={version.id}
+                        className="flex items-center justify-between py-2"
+                      >
+                        <div>
+                          <span className="font-medium text-black">
+                            v{version.version}
+                          </span>
+                          <span className="ml-2 text-gray-600">
+                            {version.name}
+                          </span>
+                          <span className="ml-2 text-xs text-gray-400">
+                            {version.size} · {version.uploadDate}
+                          </span>
+                        </div>
+                        {version.filePath && (
+                          <button
+                            onClick={() => handleDownloadVersion(version)}
+                            className="text-xs text-blue-600 hover:text-blue-700"
+                          >
+                            다운로드
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {document.uploadMode === "deepseek_ocr" && metadata && (
                 <div className="bg-gray-50 rounded-lg p-4">
                   <h4 className="font-semibold text-black mb-3">
@@ -583,6 +673,48 @@ const PDFDocumentViewer: React.FC<PDFDocumentViewerProps> = ({
                 </p>
               </div>
 
+              {metadata?.ocr && (
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <h4 className="font-semibold text-black">
+                      페이지별 OCR 결과
+                    </h4>
+                    {metadata.ocr.averageConfidence !== undefined && (
+                      <span className="text-sm text-gray-600">
+                        평균 신뢰도{" "}
+                        {Math.round(metadata.ocr.averageConfidence * 100)}%
+                      </span>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                    {metadata.ocr.pages.map((page) => (
+                      <div
+                        key={page.pageNumber}
+                        className="bg-white border border-gray-200 rounded px-3 py-2"
+                      >
+                        <p className="font-medium text-gray-900">
+                          {page.pageNumber}페이지
+                        </p>
+                        <p
+                          className={
+                            page.method === "ocr" &&
+                            (page.confidence ?? 0) < 0.6
+                              ? "text-red-600"
+                              : "text-gray-600"
+                          }
+                        >
+                          {page.method === "ocr"
+                            ? `OCR ${Math.round((page.confidence ?? 0) * 100)}%`
+                            : "텍스트 레이어"}
+                          {" · "}
+                          {page.textLength.toLocaleString()}자
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {document.ocrText ? (
                 <div className="bg-gray-50 border border-gray-200 rounded-lg p-6 min-h-[400px] max-h-[600px] overflow-y-auto">
                   <div className="whitespace-pre-wrap text-sm text-gray-700 leading-relaxed font-mono">
@@ -809,7 +941,8 @@ const PDFDocumentViewer: React.FC<PDFDocumentViewerProps> = ({
                       >
                         <div className="flex items-center justify-between mb-2">
                           <span className="text-xs text-gray-500">
-                            청크 {index + 1} (페이지 {chunk.pageNumber})
+                            청크 {index + 1} (페이지{" "}
+                            {chunk.metadata?.pageRange ?? chunk.pageNumber})
                           </span>
                         </div>
                         <p className="text-xs text-gray-600 whitespace-pre-wrap leading-relaxed">
@@ -823,6 +956,76 @@ const PDFDocumentViewer: React.FC<PDFDocumentViewerProps> = ({
             </div>
           )}
 
+          {/* Tables Tab */}
+          {activeTab === "tables" && (
+            <div className="space-y-6">
+              {metadata?.tables && metadata.tables.length > 0 ? (
+                metadata.tables.map((table, tableIndex) => (
+                  <div
+                    key={tableIndex}
+                    className="border border-gray-200 rounded-lg overflow-hidden"
+                  >
+                    <div className="flex items-center justify-between bg-gray-50 px-4 py-2">
+                      <h4 className="font-semibold text-black text-sm">
+                        {table.title || `표 ${tableIndex + 1}`}
+                      </h4>
+                      {table.pageNumber && (
+                        <button
+                          onClick={() => {
+                            gotoPage(table.pageNumber!);
+                            setActiveTab("content");
+                          }}
+                          className="text-xs text-blue-600 hover:text-blue-800"
+                        >
+                          {table.pageNumber}페이지로 이동
+                        </button>
+                      )}
+                    </div>
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full text-sm">
+                        {table.headers.some(Boolean) && (
+                          <thead className="bg-gray-100">
+                            <tr>
+                              {table.headers.map((header, index) => (
+                                <th
+                                  key={index}
+                                  className="px-3 py-2 text-left font-medium text-gray-700 border-b border-gray-200"
+                                >
+                                  {header}
+                                </th>
+                              ))}
+                            </tr>
+                          </thead>
+                        )}
+                        <tbody>
+                          {table.rows.map((row, rowIndex) => (
+                            <tr
+                              key={rowIndex}
+                              className="border-b border-gray-100 last:border-0"
+                            >
+                              {row.map((value, index) => (
+                                <td
+                                  key={index}
+                                  className="px-3 py-2 text-gray-700"
+                                >
+                                  {value}
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                ))
+              ) : (
+                <div className="bg-gray-50 border border-gray-200 rounded-lg p-6 text-center text-sm text-gray-500">
+                  문서에서 감지된 표가 없습니다.
+                </div>
+              )}
+            </div>
+          )}
+
           {/* FAQ Management Tab */}
           {activeTab === "faqs" && (
             <div className="space-y-4">
@@ -1081,6 +1284,14 @@ const PDFDocumentViewer: React.FC<PDFDocumentViewerProps> = ({
                           <span className="bg-gray-100 px-2 py-1 rounded-full">
                             {faq.category}
                           </span>
+                          {faq.needsReview && (
+                            <span
+                              className="ml-2 bg-orange-100 text-orange-800 px-2 py-1 rounded-full"
+                              title={faq.reviewReason}
+                            >
+                              검토 필요
+                            </span>
+                          )}
                         </div>
                       </div>
                     )}
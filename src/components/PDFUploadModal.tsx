@@ -1,11 +1,42 @@
 import React, { useState, useRef, useCallback, useEffect } from "react";
-import { PDFDocument, DocumentUploadProgress, GeminiAPIConfig } from "../types";
+import {
+  PDFDocument,
+  DocumentUploadProgress,
+  GeminiAPIConfig,
+  OcrMode,
+} from "../types";
 import { pdfProcessingService } from "../services/pdfProcessingService";
 import { defaultConfig } from "../services/config";
 import { useToast } from "./Toast";
 import { createLogger } from "../services/logger";
 
 const log = createLogger("PDFUpload");
+
+const OCR_MODE_STORAGE_KEY = "pdf-upload-ocr-mode";
+
+const OCR_MODE_OPTIONS: Array<{ value: OcrMode; label: string }> = [
+  { value: "auto", label: "자동 (텍스트가 없는 스캔 페이지만)" },
+  { value: "always", label: "항상 OCR" },
+  { value: "off", label: "사용 안 함" },
+];
+
+const IMAGE_FILE_PATTERN = /\.(jpg|jpeg|png|gif|webp|bmp)$/i;
+
+// 이미지 또는 등록된 문서 추출기가 있는 파일만 허용
+function isAcceptedFile(file: File): boolean {
+  return (
+    file.type.startsWith("image/") ||
+    IMAGE_FILE_PATTERN.test(file.name) ||
+    pdfProcessingService.isSupportedDocument(file)
+  );
+}
+
+function loadOcrMode(): OcrMode {
+  const saved = localStorage.getItem(OCR_MODE_STORAGE_KEY);
+  return OCR_MODE_OPTIONS.some((option) => option.value === saved)
+    ? (saved as OcrMode)
+    : "auto";
+}
 interface PDFUploadModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -28,6 +59,7 @@ const PDFUploadModal: React.FC<PDFUploadModalProps> = ({
     null,
   );
   const [faqCount, setFaqCount] = useState<number>(5);
+  const [ocrMode, setOcrMode] = useState<OcrMode>(loadOcrMode);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const previewUrlCache = useRef<Map<File, string>>(new Map());
 
@@ -99,15 +131,7 @@ const PDFUploadModal: React.FC<PDFUploadModalProps> = ({
     e.stopPropagation();
     setIsDragOver(false);
 
-    const files = Array.from(e.dataTransfer.files).filter((file) => {
-      const isPDF =
-        file.type === "application/pdf" ||
-        file.name.toLowerCase().endsWith(".pdf");
-      const isImage =
-        file.type.startsWith("image/") ||
-        /\.(jpg|jpeg|png|gif|webp|bmp)$/i.test(file.name);
-      return isPDF || isImage;
-    });
+    const files = Array.from(e.dataTransfer.files).filter(isAcceptedFile);
 
     if (files.length > 0) {
       setSelectedFiles((prev) => [...prev, ...files]);
@@ -117,7 +141,7 @@ const PDFUploadModal: React.FC<PDFUploadModalProps> = ({
   const handleFileSelect = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       if (e.target.files) {
-        const files = Array.from(e.target.files);
+        const files = Array.from(e.target.files).filter(isAcceptedFile);
         setSelectedFiles((prev) => [...prev, ...files]);
         // Reset input value to allow selecting the same file again
         e.target.value = "";
@@ -180,9 +204,10 @@ const PDFUploadModal: React.FC<PDFUploadModalProps> = ({
               onProgress,
             );
           } else {
-            document = await pdfProcessingService.processGeneralPDF(
+            document = await pdfProcessingService.processGeneralDocument(
               file,
               onProgress,
+              { ocrMode },
             );
           }
 
@@ -242,10 +267,7 @@ const PDFUploadModal: React.FC<PDFUploadModalProps> = ({
   };
 
   const isImageFile = (file: File): boolean => {
-    return (
-      file.type.startsWith("image/") ||
-      /\.(jpg|jpeg|png|gif|webp|bmp)$/i.test(file.name)
-    );
+    return file.type.startsWith("image/") || IMAGE_FILE_PATTERN.test(file.name);
   };
 
   const getFilePreviewURL = (file: File): string | null => {
@@ -276,6 +298,7 @@ const PDFUploadModal: React.FC<PDFUploadModalProps> = ({
         geminiConfig?.isActive && geminiConfig?.apiKey
           ? "AI 기반 FAQ 생성 중"
           : "FAQ 생성 중",
+      queued: "서버 처리 대기열 등록",
       completed: "처리 완료",
       error: "처리 오류",
     };
@@ -319,7 +342,7 @@ const PDFUploadModal: React.FC<PDFUploadModalProps> = ({
           {/* Processing Mode Info */}
           <div className="border-2 border-blue-500 bg-blue-50 rounded-lg p-4">
             <div className="flex items-center justify-between mb-2">
-              <h4 className="font-semibold text-black">PDF 등록 (일반)</h4>
+              <h4 className="font-semibold text-black">문서 등록 (일반)</h4>
               {geminiConfig?.isActive && geminiConfig?.apiKey ? (
                 <div className="flex items-center text-blue-600">
                   <svg
@@ -359,7 +382,7 @@ const PDFUploadModal: React.FC<PDFUploadModalProps> = ({
             <p className="text-sm text-gray-600">
               {geminiConfig?.isActive && geminiConfig?.apiKey
                 ? `시스템 설정의 Gemini API (${geminiConfig.model})를 사용하여 정교한 청킹 및 FAQ 생성을 수행합니다.`
-                : "기본적인 PDF 처리 방식으로 텍스트 추출과 FAQ를 생성합니다."}
+                : "기본 문서 처리 방식으로 텍스트 추출과 FAQ를 생성합니다."}
             </p>
             <div className="mt-2 text-xs text-gray-500">
               {geminiConfig?.isActive && geminiConfig?.apiKey ? (
@@ -418,6 +441,34 @@ const PDFUploadModal: React.FC<PDFUploadModalProps> = ({
                 </p>
               </div>
             )}
+
+            {/* OCR Mode Setting - 스캔 PDF 페이지 인식 (AI 활성화 시) */}
+            {geminiConfig?.isActive && geminiConfig?.apiKey && (
+              <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                <label className="block text-sm font-medium text-blue-900 mb-2">
+                  PDF OCR 모드
+                </label>
+                <select
+                  value={ocrMode}
+                  onChange={(e) => {
+                    const value = e.target.value as OcrMode;
+                    setOcrMode(value);
+                    localStorage.setItem(OCR_MODE_STORAGE_KEY, value);
+                  }}
+                  className="px-3 py-2 border border-blue-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                >
+                  {OCR_MODE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-blue-600 mt-1">
+                  텍스트 레이어가 없는 스캔 페이지를 이미지로 인식해 텍스트를
+                  추출합니다. 페이지당 처리 시간이 늘어납니다.
+                </p>
+              </div>
+            )}
           </div>
 
           {/* File Upload Area */}
@@ -446,11 +497,11 @@ const PDFUploadModal: React.FC<PDFUploadModalProps> = ({
               />
             </svg>
             <p className="text-lg font-medium text-gray-600 mb-2">
-              PDF 파일 또는 이미지를 드래그하여 놓거나 클릭하여 선택하세요
+              문서 또는 이미지를 드래그하여 놓거나 클릭하여 선택하세요
             </p>
             <p className="text-sm text-gray-500 mb-4">
-              여러 개의 PDF 파일 및 이미지를 동시에 업로드할 수 있습니다 (JPG,
-              PNG, GIF, WEBP 지원)
+              PDF, Word(DOCX), PowerPoint(PPTX), 한글(HWP/HWPX), TXT, HTML
+              문서와 이미지(JPG, PNG, GIF, WEBP)를 동시에 업로드할 수 있습니다
             </p>
             <button
               onClick={() => fileInputRef.current?.click()}
@@ -462,7 +513,10 @@ const PDFUploadModal: React.FC<PDFUploadModalProps> = ({
               ref={fileInputRef}
               type="file"
               multiple
-              accept=".pdf,.jpg,.jpeg,.png,.gif,.webp,.bmp,image/*"
+              accept={[
+                ...pdfProcessingService.getSupportedExtensions(),
+                ".jpg,.jpeg,.png,.gif,.webp,.bmp,image/*",
+              ].join(",")}
               onChange={handleFileSelect}
               className="hidden"
             />
@@ -518,7 +572,7 @@ const PDFUploadModal: React.FC<PDFUploadModalProps> = ({
                             )}
                             {!isImage && (
                               <span className="ml-2 text-red-600 text-xs">
-                                PDF
+                                {file.name.split(".").pop()?.toUpperCase()}
                               </span>
                             )}
                           </p>
@@ -0,0 +1,566 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  EvalCase,
+  EvalCaseInput,
+  EvalMetrics,
+  EvalRun,
+  PlaygroundSettings,
+} from "../types";
+import { evaluationService } from "../services/evaluationService";
+import { DEFAULT_PLAYGROUND_SETTINGS } from "../services/playgroundService";
+import { getSupabaseDatabaseService } from "../services/supabase";
+import { useToast } from "./Toast";
+import { createLogger } from "../services/logger";
+import EvalCaseModal from "./EvalCaseModal";
+
+const log = createLogger("RagEvaluation");
+
+// 새 평가 질문 초안 (렌더마다 새 객체면 모달 초기화 effect가 반복 실행됨)
+const EMPTY_DRAFT: EvalCaseInput = {
+  question: "",
+  expectedFaqIds: [],
+  expectedChunkIds: [],
+  expectedFacts: [],
+  expectFallback: false,
+};
+
+type MetricKey = Exclude<keyof EvalMetrics, "errorCount">;
+
+const METRIC_COLUMNS: Array<{
+  key: MetricKey;
+  label: string;
+  higherIsBetter: boolean;
+}> = [
+  { key: "recallAtK", label: "Recall@k", higherIsBetter: true },
+  { key: "mrr", label: "MRR", higherIsBetter: true },
+  { key: "hitRate", label: "적중률", higherIsBetter: true },
+  { key: "fallbackRate", label: "안내 문구 비율", higherIsBetter: false },
+  { key: "fallbackAccuracy", label: "안내 문구 정확도", higherIsBetter: true },
+  { key: "factRecall", label: "사실 포함률", higherIsBetter: true },
+];
+
+const percent = (value: number | null | undefined) =>
+  value === null || value === undefined ? "-" : `${Math.round(value * 100)}%`;
+
+/**
+ * 직전 실행 대비 변화 (%p)
+ */
+const MetricDelta: React.FC<{
+  current: number | null;
+  previous: number | null | undefined;
+  higherIsBetter: boolean;
+}> = ({ current, previous, higherIsBetter }) => {
+  if (current === null || previous === null || previous === undefined) {
+    return null;
+  }
+  const delta = Math.round((current - previous) * 100);
+  if (delta === 0) return null;
+  const improved = delta > 0 === higherIsBetter;
+  return (
+    <span
+      className={`ml-1 text-[10px] ${improved ? "text-green-600" : "text-red-600"}`}
+    >
+      {delta > 0 ? "+" : ""}
+      {delta}
+    </span>
+  );
+};
+
+/**
+ * RAG 평가: 골든 질문 세트 관리 + 일괄 실행 + 실행별 지표 비교
+ */
+const RagEvaluation: React.FC = () => {
+  const { showToast } = useToast();
+  const dbService = useMemo(() => getSupabaseDatabaseService(), []);
+  const [cases, setCases] = useState<EvalCase[]>([]);
+  const [runs, setRuns] = useState<EvalRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [settings, setSettings] = useState<PlaygroundSettings>(
+    DEFAULT_PLAYGROUND_SETTINGS,
+  );
+  const [label, setLabel] = useState("");
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [selectedRunId, setSelectedRunId] = useState<number | null>(null);
+  const [newCaseDraft, setNewCaseDraft] = useState<EvalCaseInput | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [loadedCases, loadedRuns] = await Promise.all([
+        dbService.getEvalCases(),
+        dbService.getEvalRuns(),
+      ]);
+      setCases(loadedCases);
+      setRuns(loadedRuns);
+    } catch (error) {
+      log.error("평가 데이터 조회 실패:", error);
+      showToast("평가 데이터를 불러오지 못했습니다.", "error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [dbService, showToast]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  // 실행 중 페이지를 벗어나면 남은 질문 중단
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const selectedRun = runs.find((run) => run.id === selectedRunId) || null;
+  const isRunning = progress !== null;
+
+  const updateSettings = (updates: Partial<PlaygroundSettings>) => {
+    setSettings((prev) => ({ ...prev, ...updates }));
+  };
+
+  const handleRun = async () => {
+    if (cases.length === 0 || isRunning) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: cases.length });
+    try {
+      const run = await evaluationService.run(
+        cases,
+        {
+          ...settings,
+          instructions: settings.instructions?.trim() || undefined,
+        },
+        label,
+        (done, total) => setProgress({ done, total }),
+        controller.signal,
+      );
+      setRuns((prev) => [run, ...prev]);
+      setSelectedRunId(run.id);
+      setLabel("");
+      showToast(
+        run.metrics.errorCount > 0
+          ? `평가를 완료했습니다. (실패 ${run.metrics.errorCount}건)`
+          : "평가를 완료했습니다.",
+        run.metrics.errorCount > 0 ? "warning" : "success",
+      );
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        showToast("평가를 중단했습니다.", "info");
+      } else {
+        log.error("평가 실행 실패:", error);
+        showToast("평가 실행에 실패했습니다.", "error");
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleDeleteCase = async (evalCase: EvalCase) => {
+    if (!confirm(`"${evalCase.question}" 평가 질문을 삭제하시겠습니까?`)) {
+      return;
+    }
+    try {
+      await dbService.deleteEvalCase(evalCase.id);
+      setCases((prev) => prev.filter((item) => item.id !== evalCase.id));
+    } catch (error) {
+      log.error("평가 질문 삭제 실패:", error);
+      showToast("평가 질문 삭제에 실패했습니다.", "error");
+    }
+  };
+
+  const handleDeleteRun = async (run: EvalRun) => {
+    if (!confirm("이 평가 실행 기록을 삭제하시겠습니까?")) return;
+    try {
+      await dbService.deleteEvalRun(run.id);
+      setRuns((prev) => prev.filter((item) => item.id !== run.id));
+      if (selectedRunId === run.id) setSelectedRunId(null);
+    } catch (error) {
+      log.error("평가 실행 기록 삭제 실패:", error);
+      showToast("평가 실행 기록 삭제에 실패했습니다.", "error");
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-6 py-4">
+        <h1 className="text-2xl font-bold text-gray-900">RAG 평가</h1>
+        <p className="text-sm text-gray-600 mt-1">
+          골든 질문 세트를 일괄 실행해 임계값/청킹/프롬프트 변경 전후의 검색과
+          답변 품질을 비교합니다 (채팅 로그/통계에 기록되지 않음)
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="flex-1 flex overflow-hidden">
+          {/* Golden set + run settings */}
+          <div className="w-96 bg-white border-r border-gray-200 flex flex-col overflow-hidden">
+            <div className="p-4 border-b border-gray-200 space-y-3">
+              <h2 className="text-lg font-semibold text-gray-900">실행 조건</h2>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">
+                    답변 후보 수 (k)
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={20}
+                    value={settings.limit}
+                    onChange={(e) =>
+                      updateSettings({
+                        limit: Math.min(
+                          20,
+                          Math.max(1, Number(e.target.value) || 1),
+                        ),
+                      })
+                    }
+                    disabled={isRunning}
+                    className="w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">
+                    최소 유사도 {percent(settings.minSimilarity)}
+                  </label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={settings.minSimilarity}
+                    onChange={(e) =>
+                      updateSettings({ minSimilarity: Number(e.target.value) })
+                    }
+                    disabled={isRunning}
+                    className="w-full"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center space-x-4 text-sm text-gray-700">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={settings.includeFaqs}
+                    onChange={(e) =>
+                      updateSettings({ includeFaqs: e.target.checked })
+                    }
+                    disabled={isRunning || !settings.includeChunks}
+                  />
+                  <span>FAQ</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={settings.includeChunks}
+                    onChange={(e) =>
+                      updateSettings({ includeChunks: e.target.checked })
+                    }
+                    disabled={isRunning || !settings.includeFaqs}
+                  />
+                  <span>문서 청크</span>
+                </label>
+              </div>
+              <textarea
+                value={settings.instructions || ""}
+                onChange={(e) =>
+                  updateSettings({ instructions: e.target.value })
+                }
+                rows={3}
+                disabled={isRunning}
+                placeholder="RAG 지시문 (비워 두면 기본 지시문)"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-xs font-mono"
+              />
+              <input
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                disabled={isRunning}
+                placeholder="실행 이름 (예: 임계값 0.40 시험)"
+                className="w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+              />
+              {isRunning ? (
+                <div className="flex items-center space-x-3">
+                  <div className="flex-1 bg-gray-200 rounded-full h-2">
+                    <div
+                      className="bg-blue-600 h-2 rounded-full transition-all"
+                      style={{
+                        width: `${(progress.done / progress.total) * 100}%`,
+                      }}
+                    />
+                  </div>
+                  <span className="text-xs text-gray-600">
+                    {progress.done}/{progress.total}
+                  </span>
+                  <button
+                    onClick={() => abortRef.current?.abort()}
+                    className="px-3 py-1.5 text-xs font-medium text-red-700 bg-red-50 rounded-lg hover:bg-red-100 transition-colors"
+                  >
+                    중단
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={handleRun}
+                  disabled={cases.length === 0}
+                  className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  평가 질문 {cases.length}개 실행
+                </button>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between px-4 pt-4 pb-2">
+              <h2 className="text-lg font-semibold text-gray-900">
+                골든 질문 세트
+              </h2>
+              <button
+                onClick={() => setNewCaseDraft(EMPTY_DRAFT)}
+                disabled={isRunning}
+                className="px-3 py-1.5 text-xs font-medium text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors disabled:opacity-50"
+              >
+                질문 추가
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto px-4 pb-4">
+              {cases.length === 0 ? (
+                <p className="text-sm text-gray-500 py-8 text-center">
+                  평가 질문이 없습니다. 플레이그라운드에서 저장하거나 직접
+                  추가하세요.
+                </p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {cases.map((evalCase) => (
+                    <li
+                      key={evalCase.id}
+                      className="py-2 flex items-start justify-between"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm text-gray-900 truncate">
+                          {evalCase.question}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {evalCase.expectFallback
+                            ? "범위 밖 (안내 문구)"
+                            : `FAQ ${evalCase.expectedFaqIds.length} · 청크 ${evalCase.expectedChunkIds.length} · 사실 ${evalCase.expectedFacts.length}`}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleDeleteCase(evalCase)}
+                        disabled={isRunning}
+                        className="shrink-0 ml-2 text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                      >
+                        삭제
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          {/* Runs */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            <div className="bg-white border border-gray-200 rounded-lg">
+              <div className="px-4 py-3 border-b border-gray-200">
+                <h2 className="text-lg font-semibold text-gray-900">
+                  실행 기록
+                </h2>
+                <p className="text-xs text-gray-500">
+                  지표 옆 숫자는 직전 실행 대비 변화(%p)
+                </p>
+              </div>
+              {runs.length === 0 ? (
+                <p className="text-sm text-gray-500 py-8 text-center">
+                  아직 실행한 평가가 없습니다.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b border-gray-200">
+                        <th className="py-2 px-3 font-medium">실행</th>
+                        <th className="py-2 px-2 font-medium">조건</th>
+                        {METRIC_COLUMNS.map((column) => (
+                          <th
+                            key={column.key}
+                            className="py-2 px-2 font-medium text-right"
+                          >
+                            {column.label}
+                          </th>
+                        ))}
+                        <th className="py-2 px-2 font-medium text-right">
+                          실패
+                        </th>
+                        <th className="py-2 px-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {runs.map((run, index) => {
+                        const previous = runs[index + 1];
+                        return (
+                          <tr
+                            key={run.id}
+                            onClick={() => setSelectedRunId(run.id)}
+                            className={`cursor-pointer hover:bg-gray-50 ${
+                              run.id === selectedRunId ? "bg-blue-50" : ""
+                            }`}
+                          >
+                            <td className="py-2 px-3">
+                              <p className="font-medium text-gray-900">
+                                {run.label || `실행 #${run.id}`}
+                              </p>
+                              <p className="text-gray-500">
+                                {new Date(run.createdAt).toLocaleString(
+                                  "ko-KR",
+                                )}
+                              </p>
+                            </td>
+                            <td className="py-2 px-2 text-gray-600">
+                              k={run.settings.limit} · 최소{" "}
+                              {percent(run.settings.minSimilarity)}
+                              <br />
+                              {run.promptVersion || "-"} · {run.caseCount}문항
+                            </td>
+                            {METRIC_COLUMNS.map((column) => (
+                              <td
+                                key={column.key}
+                                className="py-2 px-2 text-right text-gray-900"
+                              >
+                                {percent(run.metrics[column.key])}
+                                <MetricDelta
+                                  current={run.metrics[column.key]}
+                                  previous={previous?.metrics[column.key]}
+                                  higherIsBetter={column.higherIsBetter}
+                                />
+                              </td>
+                            ))}
+                            <td className="py-2 px-2 text-right text-gray-600">
+                              {run.metrics.errorCount}
+                            </td>
+                            <td className="py-2 px-3 text-right">
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleDeleteRun(run);
+                                }}
+                                className="text-red-600 hover:text-red-800"
+                              >
+                                삭제
+                              </button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            {selectedRun && (
+              <div className="bg-white border border-gray-200 rounded-lg">
+                <div className="px-4 py-3 border-b border-gray-200">
+                  <h2 className="text-lg font-semibold text-gray-900">
+                    {selectedRun.label || `실행 #${selectedRun.id}`} 질문별 결과
+                  </h2>
+                </div>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 px-3 font-medium">질문</th>
+                      <th className="py-2 px-2 font-medium">답변 유형</th>
+                      <th
+                        className="py-2 px-2 font-medium text-right"
+                        title="답변 후보 다음에 제외된 후보까지 이어 붙인 순위 (MRR 기준)"
+                      >
+                        첫 정답 순위
+                      </th>
+                      <th
+                        className="py-2 px-2 font-medium text-right"
+                        title="상위 k개 답변 후보 기준 (제외된 후보는 미포함)"
+                      >
+                        Recall
+                      </th>
+                      <th className="py-2 px-3 font-medium text-right">
+                        사실 포함
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {selectedRun.results.map((result) => {
+                      const fallbackMismatch =
+                        !result.error &&
+                        (result.answerType === "fallback") !==
+                          result.expectFallback;
+                      return (
+                        <tr key={result.caseId} className="align-top">
+                          <td className="py-2 px-3">
+                            <p className="text-gray-900">{result.question}</p>
+                            {result.error ? (
+                              <p className="text-red-600">{result.error}</p>
+                            ) : (
+                              result.answer && (
+                                <p
+                                  className="text-gray-500 line-clamp-2"
+                                  title={result.answer}
+                                >
+                                  {result.answer}
+                                </p>
+                              )
+                            )}
+                          </td>
+                          <td
+                            className={`py-2 px-2 ${
+                              fallbackMismatch
+                                ? "text-red-600 font-medium"
+                                : "text-gray-600"
+                            }`}
+                          >
+                            {result.answerType || "-"}
+                            {result.expectFallback && " (안내 기대)"}
+                          </td>
+                          <td className="py-2 px-2 text-right text-gray-900">
+                            {result.recall === undefined
+                              ? "-"
+                              : (result.firstRelevantRank ?? "없음")}
+                          </td>
+                          <td className="py-2 px-2 text-right text-gray-900">
+                            {percent(result.recall)}
+                          </td>
+                          <td className="py-2 px-3 text-right text-gray-900">
+                            {percent(result.factRecall)}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <EvalCaseModal
+        draft={newCaseDraft}
+        onSaved={(evalCase) => setCases((prev) => [evalCase, ...prev])}
+        onClose={() => setNewCaseDraft(null)}
+      />
+    </div>
+  );
+};
+
+export default RagEvaluation;
@@ -0,0 +1,132 @@
+import React from "react";
+import { ChatAnswerType, RetrievalTrace, RetrievalTraceSearch } from "../types";
+
+const ANSWER_TYPE_LABELS: Record<ChatAnswerType, string> = {
+  faq: "FAQ 직접 답변",
+  generated: "문서 기반 생성",
+  chunk: "청크 원문 (생성 실패)",
+  compound: "복합 질문 분리",
+  fallback: "답변 없음 (안내 문구)",
+};
+
+const RERANKER_LABELS: Record<RetrievalTraceSearch["reranker"], string> = {
+  gemini: "Gemini",
+  local: "로컬 키워드 (Gemini 실패 또는 설정)",
+  off: "사용 안 함",
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+const optionalPercent = (value?: number) =>
+  value !== undefined ? percent(value) : "-";
+
+interface RetrievalTracePanelProps {
+  trace: RetrievalTrace;
+}
+
+/**
+ * 질의 1건의 검색 후보 표 (순위/유사도/점수, 답변 후보 사용 여부)
+ */
+const TraceSearchTable: React.FC<{ search: RetrievalTraceSearch }> = ({
+  search,
+}) => (
+  <div className="space-y-1">
+    <p className="text-xs text-gray-700">
+      <span className="font-medium">질의:</span> {search.query}
+    </p>
+    <p className="text-xs text-gray-500">
+      벡터 {search.vectorCount}건 · 키워드 {search.keywordCount}건
+      {search.hybrid ? " (하이브리드)" : ""} · 재순위화{" "}
+      {RERANKER_LABELS[search.reranker]}
+    </p>
+    {search.embeddingFailed && (
+      <p className="text-xs text-orange-600">
+        질의 임베딩 생성에 실패해 키워드 검색 결과만 사용했습니다.
+      </p>
+    )}
+    {search.candidates.length === 0 ? (
+      <p className="text-xs text-gray-500">검색 후보가 없습니다.</p>
+    ) : (
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-1 pr-2 font-medium">후보</th>
+            <th className="py-1 px-1 font-medium text-right">유사도/키워드</th>
+            <th className="py-1 px-1 font-medium text-right">벡터/키워드</th>
+            <th className="py-1 px-1 font-medium text-right">결합</th>
+            <th className="py-1 pl-1 font-medium text-right">최종</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {search.candidates.map((candidate) => (
+            <tr
+              key={`${candidate.type}-${candidate.id}`}
+              className={candidate.selected ? "" : "text-gray-400"}
+            >
+              <td className="py-1 pr-2">
+                <span
+                  className={`mr-1 px-1 rounded ${
+                    candidate.type === "faq"
+                      ? "bg-purple-100 text-purple-700"
+                      : "bg-blue-100 text-blue-700"
+                  }`}
+                >
+                  {candidate.type === "faq" ? "FAQ" : "청크"} #{candidate.id}
+                </span>
+                {candidate.label}
+              </td>
+              <td className="py-1 px-1 text-right">
+                {optionalPercent(candidate.similarity)}/
+                {optionalPercent(candidate.keywordScore)}
+              </td>
+              <td className="py-1 px-1 text-right">
+                {candidate.vectorRank ?? "-"}/{candidate.keywordRank ?? "-"}
+              </td>
+              <td className="py-1 px-1 text-right">
+                {candidate.fusedScore.toFixed(3)}
+              </td>
+              <td className="py-1 pl-1 text-right">
+                {candidate.finalScore !== undefined
+                  ? candidate.finalScore.toFixed(3)
+                  : "제외"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+/**
+ * "왜 이 답변?" 검색 추적: 답변 유형/임계값/모델 + 질의별 검색 후보
+ */
+const RetrievalTracePanel: React.FC<RetrievalTracePanelProps> = ({ trace }) => (
+  <div className="mt-2 p-3 space-y-3 bg-white border border-gray-200 rounded-lg text-black">
+    <div className="text-xs text-gray-600 space-y-0.5">
+      <p>
+        <span className="font-medium">답변 유형:</span>{" "}
+        {ANSWER_TYPE_LABELS[trace.answerType]}
+      </p>
+      <p>
+        <span className="font-medium">임계값:</span> 검색{" "}
+        {percent(trace.thresholds.minSimilarity)} · FAQ 답변{" "}
+        {percent(trace.thresholds.faqMedium)} · FAQ 원문{" "}
+        {percent(trace.thresholds.faqHigh)}
+      </p>
+      <p>
+        <span className="font-medium">프롬프트:</span> {trace.promptVersion} ·{" "}
+        <span className="font-medium">모델:</span> {trace.model} /{" "}
+        {trace.embeddingModel}
+      </p>
+    </div>
+    {trace.searches.length === 0 ? (
+      <p className="text-xs text-gray-500">검색을 실행하지 않았습니다.</p>
+    ) : (
+      trace.searches.map((search, index) => (
+        <TraceSearchTable key={index} search={search} />
+      ))
+    )}
+  </div>
+);
+
+export default RetrievalTracePanel;
@@ -1,18 +1,35 @@
 import React, { useState } from "react";
-import type { Page } from "../types";
+import type { Page, Workspace } from "../types";
+import { canAccessPage, ROLE_LABELS } from "../services/permissions";
 
 interface SidebarProps {
   currentPage: Page;
   setCurrentPage: (page: Page) => void;
   onLogout: () => void;
+  workspaces: Workspace[];
+  currentWorkspace: Workspace | null;
+  onSwitchWorkspace: (workspaceId: string) => void;
+  onCreateWorkspace: (name: string, slug: string) => Promise<Workspace>;
 }
 
+// 워크스페이스 선택 드롭다운의 "새 워크스페이스" 항목 값
+const NEW_WORKSPACE_OPTION = "__new__";
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{1,62}$/;
+
 const Sidebar: React.FC<SidebarProps> = ({
   currentPage,
   setCurrentPage,
   onLogout,
+  workspaces,
+  currentWorkspace,
+  onSwitchWorkspace,
+  onCreateWorkspace,
 }) => {
   const [isMobileOpen, setIsMobileOpen] = useState(false);
+  const [isCreatingWorkspace, setIsCreatingWorkspace] = useState(false);
+  const [newWorkspaceName, setNewWorkspaceName] = useState("");
+  const [newWorkspaceSlug, setNewWorkspaceSlug] = useState("");
+  const [workspaceError, setWorkspaceError] = useState("");
 
   const menuItems = [
     {
@@ -129,6 +146,42 @@ const Sidebar: React.FC<SidebarProps> = ({
         </svg>
       ),
     },
+    {
+      name: "플레이그라운드" as Page,
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z"
+          />
+        </svg>
+      ),
+    },
+    {
+      name: "RAG 평가" as Page,
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4"
+          />
+        </svg>
+      ),
+    },
     {
       name: "시스템 설정" as Page,
       icon: (
@@ -160,6 +213,48 @@ const Sidebar: React.FC<SidebarProps> = ({
     setIsMobileOpen(false);
   };
 
+  const handleWorkspaceChange = (value: string) => {
+    if (value === NEW_WORKSPACE_OPTION) {
+      setIsCreatingWorkspace(true);
+      return;
+    }
+    onSwitchWorkspace(value);
+    setIsMobileOpen(false);
+  };
+
+  const resetWorkspaceForm = () => {
+    setIsCreatingWorkspace(false);
+    setNewWorkspaceName("");
+    setNewWorkspaceSlug("");
+    setWorkspaceError("");
+  };
+
+  const handleCreateWorkspace = async () => {
+    const name = newWorkspaceName.trim();
+    const slug = newWorkspaceSlug.trim().toLowerCase();
+
+    if (!name) {
+      setWorkspaceError("이름을 입력해주세요.");
+      return;
+    }
+    if (!SLUG_PATTERN.test(slug)) {
+      setWorkspaceError(
+        "슬러그는 영문 소문자, 숫자, 하이픈으로 2~63자여야 합니다.",
+      );
+      return;
+    }
+
+    try {
+      await onCreateWorkspace(name, slug);
+      resetWorkspaceForm();
+      setIsMobileOpen(false);
+    } catch (error) {
+      setWorkspaceError(
+        error instanceof Error ? error.message : "워크스페이스 생성 실패",
+      );
+    }
+  };
+
   const sidebarContent = (
     <>
       {/* Header */}
@@ -209,30 +304,103 @@ const Sidebar: React.FC<SidebarProps> = ({
         </div>
       </div>
 
+      {/* Workspace Switcher */}
+      <div className="px-4 pt-4">
+        <label className="block text-xs font-medium text-gray-500 mb-1">
+          워크스페이스
+        </label>
+        <select
+          value={
+            isCreatingWorkspace
+              ? NEW_WORKSPACE_OPTION
+              : (currentWorkspace?.id ?? "")
+          }
+          onChange={(e) => handleWorkspaceChange(e.target.value)}
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {!currentWorkspace && !isCreatingWorkspace && (
+            <option value="">선택 안 됨</option>
+          )}
+          {workspaces.map((ws) => (
+            <option key={ws.id} value={ws.id}>
+              {ws.name}
+            </option>
+          ))}
+          <option value={NEW_WORKSPACE_OPTION}>+ 새 워크스페이스</option>
+        </select>
+        {currentWorkspace?.role && (
+          <p className="mt-1 text-xs text-gray-500">
+            내 역할: {ROLE_LABELS[currentWorkspace.role]}
+          </p>
+        )}
+
+        {isCreatingWorkspace && (
+          <div className="mt-2 space-y-2">
+            <input
+              type="text"
+              value={newWorkspaceName}
+              onChange={(e) => setNewWorkspaceName(e.target.value)}
+              placeholder="이름 (예: 고객지원팀)"
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg"
+            />
+            <input
+              type="text"
+              value={newWorkspaceSlug}
+              onChange={(e) => setNewWorkspaceSlug(e.target.value)}
+              placeholder="슬러그 (예: support)"
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg font-mono"
+            />
+            {workspaceError && (
+              <p className="text-xs text-red-600">{workspaceError}</p>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={handleCreateWorkspace}
+                className="flex-1 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+              >
+                생성
+              </button>
+              <button
+                onClick={resetWorkspaceForm}
+                className="flex-1 px-3 py-1.5 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200"
+              >
+                취소
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
       {/* Navigation */}
       <nav className="mt-4 px-3">
         <div className="space-y-2">
-          {menuItems.map((item) => (
-            <button
-              key={item.name}
-              onClick={() => handlePageClick(item.name)}
-              className={`sidebar-item ${
-                currentPage === item.name
-                  ? "sidebar-item-active"
-                  : "sidebar-item-inactive"
-              }`}
-            >
-              <span className="mr-3">{item.icon}</span>
-              {item.name}
-            </button>
-          ))}
+          {menuItems
+            .filter((item) => canAccessPage(currentWorkspace?.role, item.name))
+            .map((item) => (
+              <button
+                key={item.name}
+                onClick={() => handlePageClick(item.name)}
+                className={`sidebar-item ${
+                  currentPage === item.name
+                    ? "sidebar-item-active"
+                    : "sidebar-item-inactive"
+                }`}
+              >
+                <span className="mr-3">{item.icon}</span>
+                {item.name}
+              </button>
+            ))}
         </div>
       </nav>
 
       {/* User Info & Actions */}
       <div className="absolute bottom-0 left-0 right-0 p-4 border-t border-gray-200 space-y-2">
         <a
-          href="/"
+          href={
+            currentWorkspace
+              ? `/?workspace=${encodeURIComponent(currentWorkspace.slug)}`
+              : "/"
+          }
           className="w-full flex items-center justify-center px-3 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors duration-200"
         >
           <svg
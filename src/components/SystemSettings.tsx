@@ -1,12 +1,35 @@
 import React, { useState, useEffect, useCallback } from "react";
 import { WebGeminiService } from "../services/WebGeminiService";
 import { embeddingService } from "../services/embeddingService";
-import { GeminiAPIConfig, CustomerServiceInfo } from "../types";
+import {
+  GeminiAPIConfig,
+  CustomerServiceInfo,
+  type WidgetConfig,
+  type WorkspaceMember,
+  type WorkspaceRole,
+} from "../types";
 import { defaultConfig } from "../services/config";
 import { useToast } from "./Toast";
 import { createLogger } from "../services/logger";
 import { getSupabaseDatabaseService } from "../services/supabase";
 import { supabase } from "../services/supabase/client";
+import {
+  getCurrentWorkspace,
+  getCurrentWorkspaceId,
+  hasCurrentPermission,
+} from "../services/workspaceContext";
+import { ROLE_LABELS, WORKSPACE_ROLES } from "../services/permissions";
+import {
+  WIDGET_CONFIG_SETTING_KEY,
+  DEFAULT_WIDGET_CONFIG,
+  parseWidgetConfig,
+  normalizeOrigin,
+} from "../services/widgetConfig";
+import {
+  CUSTOMER_SERVICE_SETTING_KEY,
+  DEFAULT_CUSTOMER_SERVICE,
+  parseCustomerServiceInfo,
+} from "../services/fallbackMessage";
 
 const log = createLogger("SysSettings");
 const SystemSettings: React.FC = () => {
@@ -30,11 +53,21 @@ const SystemSettings: React.FC = () => {
 
   // 고객센터 정보 설정
   const [customerServiceInfo, setCustomerServiceInfo] =
-    useState<CustomerServiceInfo>({
-      phone: "1234-5678",
-      email: "support@embrain.com",
-      operatingHours: "평일 09:00~18:00",
-    });
+    useState<CustomerServiceInfo>(DEFAULT_CUSTOMER_SERVICE);
+
+  // 임베드 위젯 설정 (허용 Origin은 줄 단위 입력)
+  const [widgetConfig, setWidgetConfig] = useState<WidgetConfig>(
+    DEFAULT_WIDGET_CONFIG,
+  );
+  const [widgetOriginsText, setWidgetOriginsText] = useState("");
+  const currentWorkspace = getCurrentWorkspace();
+  const widgetSnippet = `<script src="${window.location.origin}/widget.js" data-workspace="${currentWorkspace?.slug ?? ""}" async></script>`;
+
+  // 워크스페이스 멤버 관리 (소유자만 추가/제거 가능)
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [newMemberEmail, setNewMemberEmail] = useState("");
+  const [newMemberRole, setNewMemberRole] = useState<WorkspaceRole>("viewer");
+  const canManageMembers = hasCurrentPermission("manageMembers");
 
   // 임베딩 관리 상태
   const [embeddingStats, setEmbeddingStats] = useState<{
@@ -57,14 +90,19 @@ const SystemSettings: React.FC = () => {
   // 임베딩 통계 로드
   const loadEmbeddingStats = useCallback(async () => {
     try {
+      const workspaceId = getCurrentWorkspaceId();
+      if (!workspaceId) return;
+
       const { count: total } = await supabase
         .from("faqs")
         .select("*", { count: "exact", head: true })
+        .eq("workspace_id", workspaceId)
         .eq("is_active", true);
 
       const { count: withEmb } = await supabase
         .from("faqs")
         .select("*", { count: "exact", head: true })
+        .eq("workspace_id", workspaceId)
         .eq("is_active", true)
         .not("question_embedding", "is", null);
 
@@ -96,6 +134,7 @@ const SystemSettings: React.FC = () => {
           "Content-Type": "application/json",
           Authorization: `Bearer ${session.access_token}`,
         },
+        body: JSON.stringify({ workspaceId: getCurrentWorkspaceId() }),
       });
 
       if (response.ok) {
@@ -186,14 +225,26 @@ const SystemSettings: React.FC = () => {
   // 설정 로드
   useEffect(() => {
     const loadSettings = async () => {
-      // 고객센터 정보 로드 (localStorage 우선)
+      // 고객센터 정보 로드 (답변 불가 안내 메시지에 사용, 워크스페이스 설정)
       try {
-        const savedCS = localStorage.getItem("customer-service-info");
-        if (savedCS) {
-          setCustomerServiceInfo(JSON.parse(savedCS));
-        }
-      } catch {
-        /* ignore */
+        const savedCS = await dbService.getSetting(
+          CUSTOMER_SERVICE_SETTING_KEY,
+        );
+        setCustomerServiceInfo(parseCustomerServiceInfo(savedCS));
+      } catch (error) {
+        log.error("고객센터 정보 로드 실패:", error);
+      }
+
+      // 임베드 위젯 설정 로드
+      try {
+        const savedWidget = await dbService.getSetting(
+          WIDGET_CONFIG_SETTING_KEY,
+        );
+        const config = parseWidgetConfig(savedWidget);
+        setWidgetConfig(config);
+        setWidgetOriginsText(config.allowedOrigins.join("\n"));
+      } catch (error) {
+        log.error("위젯 설정 로드 실패:", error);
       }
 
       // Gemini 설정 로드
@@ -244,7 +295,61 @@ const SystemSettings: React.FC = () => {
     loadSettings();
     loadEmbeddingStats();
     checkRpcStatus();
-  }, [loadEmbeddingStats, checkRpcStatus]);
+  }, [dbService, loadEmbeddingStats, checkRpcStatus]);
+
+  // 워크스페이스 멤버 목록 로드
+  const loadMembers = useCallback(async () => {
+    const workspaceId = getCurrentWorkspaceId();
+    if (!workspaceId) return;
+
+    try {
+      setMembers(await dbService.getWorkspaceMembers(workspaceId));
+    } catch (error) {
+      log.error("멤버 목록 로드 실패:", error);
+    }
+  }, [dbService]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  // 멤버 추가 (가입된 사용자 이메일 기준)
+  const handleAddMember = async () => {
+    const workspaceId = getCurrentWorkspaceId();
+    const email = newMemberEmail.trim();
+    if (!workspaceId || !email) return;
+
+    try {
+      await dbService.addWorkspaceMember(workspaceId, email, newMemberRole);
+      setNewMemberEmail("");
+      await loadMembers();
+      showToast("멤버가 추가되었습니다.", "success");
+    } catch (error) {
+      log.error("멤버 추가 실패:", error);
+      showToast(
+        error instanceof Error ? error.message : "멤버 추가에 실패했습니다.",
+        "error",
+      );
+    }
+  };
+
+  // 멤버 제거
+  const handleRemoveMember = async (member: WorkspaceMember) => {
+    const workspaceId = getCurrentWorkspaceId();
+    if (!workspaceId) return;
+    if (!confirm(`${member.email} 님을 워크스페이스에서 제거하시겠습니까?`)) {
+      return;
+    }
+
+    try {
+      await dbService.removeWorkspaceMember(workspaceId, member.userId);
+      await loadMembers();
+      showToast("멤버가 제거되었습니다.", "success");
+    } catch (error) {
+      log.error("멤버 제거 실패:", error);
+      showToast("멤버 제거에 실패했습니다.", "error");
+    }
+  };
 
   // 연결 테스트
   const handleTest = async () => {
@@ -340,16 +445,57 @@ const SystemSettings: React.FC = () => {
   // 고객센터 정보 저장
   const handleSaveCustomerService = async () => {
     try {
+      await dbService.setSetting(
+        CUSTOMER_SERVICE_SETTING_KEY,
+        JSON.stringify(customerServiceInfo),
+      );
+      // 같은 브라우저의 챗봇 플레이스홀더 치환용
       localStorage.setItem(
         "customer-service-info",
         JSON.stringify(customerServiceInfo),
       );
       showToast("고객센터 정보가 저장되었습니다.", "success");
-    } catch {
+    } catch (error) {
+      log.error("고객센터 정보 저장 실패:", error);
       showToast("고객센터 정보 저장에 실패했습니다.", "error");
     }
   };
 
+  // 임베드 위젯 설정 저장
+  const handleSaveWidgetConfig = async () => {
+    const lines = widgetOriginsText
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean);
+    const origins = lines.map(normalizeOrigin);
+    const invalid = lines.filter((_, i) => origins[i] === null);
+
+    if (invalid.length > 0) {
+      showToast(`올바르지 않은 Origin: ${invalid.join(", ")}`, "error");
+      return;
+    }
+
+    const config: WidgetConfig = {
+      ...widgetConfig,
+      title: widgetConfig.title.trim() || DEFAULT_WIDGET_CONFIG.title,
+      greeting: widgetConfig.greeting.trim() || DEFAULT_WIDGET_CONFIG.greeting,
+      allowedOrigins: [...new Set(origins as string[])],
+    };
+
+    try {
+      await dbService.setSetting(
+        WIDGET_CONFIG_SETTING_KEY,
+        JSON.stringify(config),
+      );
+      setWidgetConfig(config);
+      setWidgetOriginsText(config.allowedOrigins.join("\n"));
+      showToast("위젯 설정이 저장되었습니다.", "success");
+    } catch (error) {
+      log.error("위젯 설정 저장 실패:", error);
+      showToast("위젯 설정 저장에 실패했습니다.", "error");
+    }
+  };
+
   // 설정 삭제
   const handleDelete = () => {
     const resetConfig: GeminiAPIConfig = {
@@ -654,6 +800,260 @@ const SystemSettings: React.FC = () => {
         </div>
       </div>
 
+      {/* Embed Widget */}
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <h3 className="text-lg font-semibold text-black mb-6 flex items-center">
+          <div className="w-8 h-8 bg-blue-100 rounded-lg flex items-center justify-center mr-3">
+            <svg
+              className="w-5 h-5 text-blue-600"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4"
+              />
+            </svg>
+          </div>
+          임베드 위젯
+        </h3>
+
+        <p className="text-sm text-gray-500 mb-4">
+          고객사 웹사이트에 아래 스크립트를 추가하면 우측 하단에 챗봇 위젯이
+          표시됩니다. 허용 Origin에 등록된 사이트에서만 동작합니다.
+        </p>
+
+        <div className="space-y-4">
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={widgetConfig.enabled}
+              onChange={(e) =>
+                setWidgetConfig((prev) => ({
+                  ...prev,
+                  enabled: e.target.checked,
+                }))
+              }
+              className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-600">위젯 사용</span>
+          </label>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-2">
+              위젯 제목
+            </label>
+            <input
+              type="text"
+              value={widgetConfig.title}
+              onChange={(e) =>
+                setWidgetConfig((prev) => ({
+                  ...prev,
+                  title: e.target.value,
+                }))
+              }
+              placeholder={DEFAULT_WIDGET_CONFIG.title}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-2">
+              인사 메시지
+            </label>
+            <textarea
+              value={widgetConfig.greeting}
+              onChange={(e) =>
+                setWidgetConfig((prev) => ({
+                  ...prev,
+                  greeting: e.target.value,
+                }))
+              }
+              rows={2}
+              placeholder={DEFAULT_WIDGET_CONFIG.greeting}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">
+                테마 색상
+              </label>
+              <input
+                type="color"
+                value={widgetConfig.primaryColor}
+                onChange={(e) =>
+                  setWidgetConfig((prev) => ({
+                    ...prev,
+                    primaryColor: e.target.value,
+                  }))
+                }
+                className="w-full h-12 px-1 py-1 border border-gray-300 rounded-lg cursor-pointer"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">
+                표시 위치
+              </label>
+              <select
+                value={widgetConfig.position}
+                onChange={(e) =>
+                  setWidgetConfig((prev) => ({
+                    ...prev,
+                    position: e.target.value as WidgetConfig["position"],
+                  }))
+                }
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="bottom-right">우측 하단</option>
+                <option value="bottom-left">좌측 하단</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-2">
+              허용 Origin (한 줄에 하나)
+            </label>
+            <textarea
+              value={widgetOriginsText}
+              onChange={(e) => setWidgetOriginsText(e.target.value)}
+              rows={3}
+              placeholder={"https://www.example.com\nhttps://shop.example.com"}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-600">
+                설치 스크립트
+              </label>
+              <button
+                onClick={() => {
+                  navigator.clipboard.writeText(widgetSnippet);
+                  showToast("스크립트가 클립보드에 복사되었습니다.", "success");
+                }}
+                className="px-3 py-1.5 text-sm font-medium text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-lg transition-colors"
+              >
+                복사
+              </button>
+            </div>
+            <pre className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-xs text-gray-700 overflow-x-auto">
+              {widgetSnippet}
+            </pre>
+            <p className="text-xs text-gray-400 mt-1">
+              data-workspace로 연결할 워크스페이스를 지정하며, data-position,
+              data-primary-color, data-greeting, data-title 속성으로 사이트별로
+              덮어쓸 수 있습니다.
+            </p>
+          </div>
+        </div>
+
+        <div className="mt-6">
+          <button
+            onClick={handleSaveWidgetConfig}
+            className="bg-blue-600 text-white px-5 py-2.5 rounded-lg hover:bg-blue-700 transition-colors duration-200 font-medium"
+          >
+            위젯 설정 저장
+          </button>
+        </div>
+      </div>
+
+      {/* Workspace Members */}
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <h3 className="text-lg font-semibold text-black mb-6 flex items-center">
+          <div className="w-8 h-8 bg-indigo-100 rounded-lg flex items-center justify-center mr-3">
+            <svg
+              className="w-5 h-5 text-indigo-600"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z"
+              />
+            </svg>
+          </div>
+          워크스페이스 멤버
+          {currentWorkspace && (
+            <span className="ml-2 text-sm font-normal text-gray-500">
+              {currentWorkspace.name}
+            </span>
+          )}
+        </h3>
+
+        <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {members.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">멤버가 없습니다.</p>
+          ) : (
+            members.map((member) => (
+              <div
+                key={member.userId}
+                className="flex items-center justify-between px-4 py-3"
+              >
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {member.email}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {ROLE_LABELS[member.role]}
+                  </p>
+                </div>
+                {canManageMembers && (
+                  <button
+                    onClick={() => handleRemoveMember(member)}
+                    className="px-3 py-1.5 text-sm font-medium text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  >
+                    제거
+                  </button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {canManageMembers && (
+          <div className="mt-4 flex flex-col sm:flex-row gap-2">
+            <input
+              type="email"
+              value={newMemberEmail}
+              onChange={(e) => setNewMemberEmail(e.target.value)}
+              placeholder="추가할 사용자 이메일"
+              className="flex-1 px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+            <select
+              value={newMemberRole}
+              onChange={(e) =>
+                setNewMemberRole(e.target.value as WorkspaceRole)
+              }
+              className="px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              {WORKSPACE_ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {ROLE_LABELS[role]}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleAddMember}
+              disabled={!newMemberEmail.trim()}
+              className="bg-indigo-600 text-white px-5 py-2.5 rounded-lg hover:bg-indigo-700 transition-colors duration-200 font-medium disabled:opacity-50"
+            >
+              멤버 추가
+            </button>
+          </div>
+        )}
+      </div>
+
       {/* Embedding Management */}
       <div className="bg-white rounded-xl shadow-sm p-6">
         <h3 className="text-lg font-semibold text-black mb-6 flex items-center">
@@ -5,18 +5,19 @@ import React, {
   useCallback,
   useMemo,
 } from "react";
-import { FAQ, CustomerServiceInfo, FallbackMessageConfig } from "../types";
-import {
-  vectorSearchService,
-  FAQ_MIN_SIMILARITY,
-  FAQ_HIGH_CONFIDENCE,
-  FAQ_MEDIUM_CONFIDENCE,
-} from "../services/vectorSearchService";
+import { FAQ, CustomerServiceInfo, PDFDocument } from "../types";
 
 import { getSupabaseDatabaseService } from "../services/supabase";
-import { ChatSessionUpdateInput } from "../types";
+import {
+  ChatSessionUpdateInput,
+  type Citation,
+  type ConversationTurn,
+  type MessageFeedback,
+} from "../types";
 import { useToast } from "./Toast";
-import { WebGeminiService } from "../services/WebGeminiService";
+import { chatApiService } from "../services/chatApiService";
+import { DEFAULT_CUSTOMER_SERVICE } from "../services/fallbackMessage";
+import PDFDocumentViewer from "./PDFDocumentViewer";
 import { createLogger } from "../services/logger";
 
 const log = createLogger("UserChatbot");
@@ -24,6 +25,13 @@ interface UserChatbotProps {
   faqs?: FAQ[];
   onGoToAdmin?: () => void;
   selectedFaq?: FAQ | null;
+  /** 임베드 위젯(iframe) 모드: 컴팩트 레이아웃 + 닫기 버튼 */
+  embedded?: boolean;
+  title?: string;
+  greeting?: string;
+  /** 위젯 테마 색상 (#rrggbb) */
+  primaryColor?: string;
+  onClose?: () => void;
 }
 
 interface Message {
@@ -53,94 +61,22 @@ interface Message {
     name: string;
     filePath?: string;
   }>;
+  citations?: Citation[];
+  /** 서버에 기록된 봇 메시지 ID (피드백 저장용) */
+  messageId?: number;
+  feedback?: MessageFeedback;
 }
 
+/** 클라이언트가 기록하는 사용자 메시지 (봇 응답은 서버 /api/chat만 기록) */
 type LogMessagePayload = {
-  sender: "user" | "bot";
   message: string;
   timestamp: Date;
   messageType?: "text" | "file" | "image";
-  responseTime?: number;
-  confidence?: number;
-  sourceFaq?: number;
 };
 
 const INITIAL_BOT_MESSAGE =
   "안녕하세요! 엠브레인Agent입니다. 궁금한 것이 있으시면 언제든 물어보세요.";
 
-// 복합 질문 감지 함수
-const COMPOUND_CONJUNCTIONS = [
-  "그리고",
-  "또한",
-  "추가로",
-  "아울러",
-  "더불어",
-  "함께",
-  "뿐만 아니라",
-];
-
-const detectCompoundQuestion = (text: string): boolean => {
-  // 물음표가 2개 이상이면 복합 질문
-  const questionMarkCount = (text.match(/\?/g) || []).length;
-  if (questionMarkCount >= 2) return true;
-
-  // 접속사로 연결된 복합 질문 감지
-  for (const conj of COMPOUND_CONJUNCTIONS) {
-    if (text.includes(conj)) {
-      // 접속사 전후에 질문 형태가 있는지 확인
-      const parts = text.split(conj);
-      if (
-        parts.length >= 2 &&
-        parts[0].trim().length > 5 &&
-        parts[1].trim().length > 5
-      ) {
-        return true;
-      }
-    }
-  }
-
-  return false;
-};
-
-// 고객센터 기본 정보
-const DEFAULT_CUSTOMER_SERVICE: CustomerServiceInfo = {
-  phone: "1234-5678",
-  email: "support@embrain.com",
-  operatingHours: "평일 09:00~18:00",
-};
-
-// Fallback 메시지 기본값
-const DEFAULT_FALLBACK_CONFIG: FallbackMessageConfig = {
-  title: "죄송합니다. 해당 질문에 대한 답변을 찾을 수 없습니다.",
-  body: "아래 방법으로 도움을 받으실 수 있습니다:",
-  showPhone: true,
-  showEmail: true,
-  showFaqGuide: true,
-  additionalMessage: "",
-};
-
-/** localStorage에서 Fallback 설정을 로드하여 메시지 텍스트를 조합 */
-const buildFallbackMessage = (cs: CustomerServiceInfo): string => {
-  let config = DEFAULT_FALLBACK_CONFIG;
-  try {
-    const saved = localStorage.getItem("fallback-message-config");
-    if (saved) config = { ...DEFAULT_FALLBACK_CONFIG, ...JSON.parse(saved) };
-  } catch {}
-
-  const lines: string[] = [config.title, ""];
-  if (config.body) lines.push(config.body);
-  if (config.showPhone)
-    lines.push(`\u2022 고객센터 전화 문의: ${cs.phone} (${cs.operatingHours})`);
-  if (config.showEmail) lines.push(`\u2022 이메일 문의: ${cs.email}`);
-  if (config.showFaqGuide)
-    lines.push(`\u2022 위의 '자주 묻는 질문'을 확인해 보세요.`);
-  if (config.additionalMessage) {
-    lines.push("");
-    lines.push(config.additionalMessage);
-  }
-  return lines.join("\n");
-};
-
 // URL sanitization (XSS 방지: javascript:, data: 등 위험한 프로토콜 차단)
 const sanitizeUrl = (url: string | undefined): string | null => {
   if (!url || typeof url !== "string") return null;
@@ -210,26 +146,37 @@ const removeMarkdown = (text: string): string => {
 };
 
 const UserChatbot: React.FC<UserChatbotProps> = ({
-  faqs = [],
   onGoToAdmin,
   selectedFaq,
+  embedded = false,
+  title = "엠브레인Agent",
+  greeting,
+  primaryColor,
+  onClose,
 }) => {
   const { showToast } = useToast();
   const dbService = useMemo(() => getSupabaseDatabaseService(), []);
 
   const createInitialMessage = (): Message => ({
     id: 1,
-    text: INITIAL_BOT_MESSAGE,
+    text: greeting || INITIAL_BOT_MESSAGE,
     isUser: false,
     timestamp: new Date(),
   });
 
   const [messages, setMessages] = useState<Message[]>([createInitialMessage()]);
+
+  // 위젯 테마 색상 (기본 그라데이션 대신 단색 적용)
+  const accentStyle = primaryColor ? { background: primaryColor } : undefined;
   const [inputText, setInputText] = useState("");
   const [isTyping, setIsTyping] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [citationViewer, setCitationViewer] = useState<{
+    document: PDFDocument;
+    pageNumber: number;
+  } | null>(null);
   const [featuredFAQs, setFeaturedFAQs] = useState<FAQ[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const initialBotMessageRef = useRef<Message>(messages[0]);
   const sessionStartRef = useRef<Date | null>(null);
   const pendingLogsRef = useRef<LogMessagePayload[]>([]);
   const messagesRef = useRef<Message[]>(messages);
@@ -246,6 +193,11 @@ const UserChatbot: React.FC<UserChatbotProps> = ({
     undefined,
   );
   const [satisfaction, setSatisfaction] = useState<number | null>(null);
+  // 👎 피드백 사유 입력 중인 메시지
+  const [feedbackReasonTarget, setFeedbackReasonTarget] = useState<
+    number | null
+  >(null);
+  const [feedbackReason, setFeedbackReason] = useState("");
   const [customerServiceInfo, setCustomerServiceInfo] =
     useState<CustomerServiceInfo>(DEFAULT_CUSTOMER_SERVICE);
 
@@ -270,12 +222,8 @@ const UserChatbot: React.FC<UserChatbotProps> = ({
         await dbService.createChatMessage({
           sessionId,
           timestamp: payload.timestamp.toISOString(),
-          sender: payload.sender,
           message: payload.message,
           messageType: payload.messageType || "text",
-          responseTime: payload.responseTime,
-          confidence: payload.confidence,
-          sourceFaq: payload.sourceFaq,
         });
       } catch (error) {
         log.error("채팅 메시지 저장 실패:", error);
@@ -284,7 +232,7 @@ const UserChatbot: React.FC<UserChatbotProps> = ({
     [dbService],
   );
 
-  // 첫 사용자 메시지 시 DB에 세션 생성 + 인사 메시지 저장
+  // 첫 사용자 메시지 시 DB에 세션 생성
   const ensureSessionPersisted = useCallback(async () => {
     if (sessionPersistedRef.current) return;
 
@@ -306,21 +254,10 @@ const UserChatbot: React.FC<UserChatbotProps> = ({
       });
 
       sessionPersistedRef.current = true;
-
-      // 인사 메시지도 함께 저장
-      const initialMessage = initialBotMessageRef.current;
-      if (initialMessage) {
-        await persistMessage(sessionId, {
-          sender: "bot",
-          message: initialMessage.text,
-          timestamp: initialMessage.timestamp,
-          messageType: "text",
-        });
-      }
     } catch (error) {
       log.error("채팅 세션 생성 실패:", error);
     }
-  }, [dbService, persistMessage]);
+  }, [dbService]);
 
   const logMessage = useCallback(
     async (payload: LogMessagePayload) => {
@@ -555,22 +492,13 @@ const UserChatbot: React.FC<UserChatbotProps> = ({
 
         setMessages((prev) => [...prev, testMessage, botResponse]);
 
+        // 질문만 기록 (봇 응답은 공개 RPC로 기록할 수 없음)
         await logMessage({
-          sender: "user",
           message: testMessage.text,
           timestamp: testMessage.timestamp,
           messageType: "text",
         });
 
-        await logMessage({
-          sender: "bot",
-          message: botResponse.text,
-          timestamp: botResponse.timestamp,
-          messageType: "text",
-          sourceFaq: selectedFaq.id,
-          responseTime: botTimestamp.getTime() - userTimestamp.getTime(),
-        });
-
         setSessionCategory(selectedFaq.category);
         setIsSessionResolved(true);
         await updateSession({
@@ -585,188 +513,38 @@ const UserChatbot: React.FC<UserChatbotProps> = ({
     addTestConversation();
   }, [selectedFaq, logMessage, updateSession, customerServiceInfo]);
 
-  const findBestMatch = async (query: string): Promise<FAQ | null> => {
-    try {
-      // 벡터 서치 사용 (우선순위 높음)
-      const bestFAQ = await vectorSearchService.findBestFAQ(query);
-      if (bestFAQ) {
-        return bestFAQ;
-      }
-
-      // Fallback: 키워드 매칭
-      const activeFaqs = faqs.filter((faq) => faq.isActive);
-      const matches = activeFaqs.filter(
-        (faq) =>
-          faq.question.toLowerCase().includes(query.toLowerCase()) ||
-          faq.answer.toLowerCase().includes(query.toLowerCase()) ||
-          query.toLowerCase().includes(faq.category.toLowerCase()),
-      );
-
-      return matches.length > 0 ? matches[0] : null;
-    } catch (error) {
-      log.error("검색 중 오류:", error);
-      // Fallback: 키워드 매칭
-      const activeFaqs = faqs.filter((faq) => faq.isActive);
-      const matches = activeFaqs.filter(
-        (faq) =>
-          faq.question.toLowerCase().includes(query.toLowerCase()) ||
-          faq.answer.toLowerCase().includes(query.toLowerCase()),
-      );
-      return matches.length > 0 ? matches[0] : null;
-    }
-  };
-
-  // Gemini를 활용한 복합 질문 분리
-  const splitCompoundQuestion = async (text: string): Promise<string[]> => {
-    try {
-      const result = await WebGeminiService.getInstance().generateResponse(
-        text,
-        [
-          {
-            content:
-              "다음 텍스트에서 개별 질문들을 분리해주세요. 각 질문을 줄바꿈으로 구분하여 반환해주세요. 질문이 아닌 부분은 제외하세요. 원문의 의미를 변경하지 마세요.",
-            source: "system",
-            similarity: 1,
-          },
-        ],
-        [],
-      );
-
-      if (result.text) {
-        const questions = result.text
-          .split("\n")
-          .map((q) => q.replace(/^\d+[\.\)]\s*/, "").trim())
-          .filter((q) => q.length > 3);
-        if (questions.length >= 2) return questions;
-      }
-    } catch (error) {
-      log.error("복합 질문 분리 실패:", error);
-    }
-    return [text];
-  };
-
-  // 단일 질문에 대한 검색 및 응답 생성
-  const processQuestion = async (
-    query: string,
-  ): Promise<{
-    responseText: string;
-    matchedFaq: FAQ | null;
-    confidence: number | undefined;
-    searchResults: any[];
-    relatedImages: Message["relatedImages"];
-    relatedGraphs: Message["relatedGraphs"];
-    relatedChunks: Message["relatedChunks"];
-    relatedDocuments: Message["relatedDocuments"];
-  }> => {
-    const searchResults = await vectorSearchService.search(query, {
-      limit: 5,
-      minSimilarity: FAQ_MIN_SIMILARITY,
-      includeFAQs: true,
-      includeDocuments: false,
-      includeChunks: true,
-      includeImages: false,
-      includeGraphs: false,
+  // 인용 각주 클릭 시 출처 문서를 해당 페이지로 열기
+  // 공개 챗봇(anon)은 pdf_documents를 조회할 수 없으므로 서버가 준 경로/이름으로 뷰어 구성
+  const openCitation = (citation: Citation) => {
+    if (!citation.documentId || !citation.filePath) return;
+
+    setCitationViewer({
+      document: {
+        id: citation.documentId,
+        name: citation.documentName,
+        filePath: citation.filePath,
+        size: "",
+        uploadDate: "",
+        status: "completed",
+        uploadMode: "",
+      },
+      pageNumber: citation.pageNumber,
     });
-
-    let matchedFaq: FAQ | null = null;
-    const relatedImages: Message["relatedImages"] = [];
-    const relatedGraphs: Message["relatedGraphs"] = [];
-    const relatedChunks: Message["relatedChunks"] = [];
-    const relatedDocuments: Message["relatedDocuments"] = [];
-    const documentSet = new Set<number>();
-
-    const hasMeaningfulResult =
-      searchResults.length > 0 &&
-      searchResults[0].similarity >= FAQ_MIN_SIMILARITY;
-    if (hasMeaningfulResult) {
-      if (searchResults[0].type === "faq") {
-        matchedFaq = searchResults[0].item as FAQ;
-      }
-
-      searchResults.forEach((result) => {
-        if (result.type === "chunk") {
-          const chunk = result.item as import("../types").PDFChunk;
-          relatedChunks.push({
-            content: chunk.content,
-            pageNumber: chunk.pageNumber,
-            sourceDocument: result.sourceDocument
-              ? {
-                  id: result.sourceDocument.id,
-                  name: result.sourceDocument.name,
-                  filePath: result.sourceDocument.filePath,
-                }
-              : undefined,
-          });
-          if (
-            result.sourceDocument &&
-            !documentSet.has(result.sourceDocument.id)
-          ) {
-            documentSet.add(result.sourceDocument.id);
-            relatedDocuments.push({
-              id: result.sourceDocument.id,
-              name: result.sourceDocument.name,
-              filePath: result.sourceDocument.filePath,
-            });
-          }
-        }
-      });
-
-      const bestResult = searchResults[0];
-      const bestSimilarity = bestResult.similarity;
-      let responseText: string;
-
-      if (bestResult.type === "faq") {
-        const faq = bestResult.item as FAQ;
-        if (bestSimilarity >= FAQ_HIGH_CONFIDENCE) {
-          responseText = faq.answer;
-        } else if (bestSimilarity >= FAQ_MEDIUM_CONFIDENCE) {
-          responseText = `관련 FAQ를 찾았습니다.\n\n${faq.answer}`;
-        } else {
-          responseText = "";
-        }
-      } else if (bestResult.type === "chunk") {
-        const chunk = bestResult.item as import("../types").PDFChunk;
-        responseText =
-          chunk.content || "관련 내용을 찾았지만 표시할 수 없습니다.";
-      } else {
-        responseText = "관련 정보를 찾았지만 답변을 제공할 수 없습니다.";
-      }
-
-      if (responseText) {
-        return {
-          responseText,
-          matchedFaq,
-          confidence: bestSimilarity,
-          searchResults,
-          relatedImages: relatedImages.length > 0 ? relatedImages : undefined,
-          relatedGraphs: relatedGraphs.length > 0 ? relatedGraphs : undefined,
-          relatedChunks: relatedChunks.length > 0 ? relatedChunks : undefined,
-          relatedDocuments:
-            relatedDocuments.length > 0 ? relatedDocuments : undefined,
-        };
-      }
-    }
-
-    // Fallback
-    return {
-      responseText: "",
-      matchedFaq: null,
-      confidence: 0,
-      searchResults: [],
-      relatedImages: undefined,
-      relatedGraphs: undefined,
-      relatedChunks: undefined,
-      relatedDocuments: undefined,
-    };
   };
 
+  // 답변 표시용 정리 (마크다운 제거 + 고객센터 플레이스홀더 치환)
+  const formatAnswer = (text: string): string =>
+    replaceCustomerServicePlaceholders(
+      removeMarkdown(text),
+      customerServiceInfo,
+    );
+
+  // 검색/재순위화/생성/대화 기록은 서버(/api/chat)에서 처리하고 결과만 렌더링
   const handleSendMessage = async () => {
     if (!inputText.trim()) return;
 
     const trimmedInput = inputText.trim();
-
-    // 복합 질문 감지
-    const isCompound = detectCompoundQuestion(trimmedInput);
+    const sessionId = chatSessionIdRef.current;
 
     const userMessage: Message = {
       id: Date.now(),
@@ -774,355 +552,110 @@ const UserChatbot: React.FC<UserChatbotProps> = ({
       isUser: true,
       timestamp: new Date(),
     };
+    const botMessageId = userMessage.id + 1;
+
+    // 후속 질문 맥락 유지용 이전 대화 (첫 인사 메시지 제외)
+    const history: ConversationTurn[] = messages.slice(1).map((message) => ({
+      role: message.isUser ? "user" : "assistant",
+      content: message.text,
+    }));
 
     setMessages((prev) => [...prev, userMessage]);
     setInputText("");
     setIsTyping(true);
 
-    void logMessage({
-      sender: "user",
-      message: userMessage.text,
-      timestamp: userMessage.timestamp,
-      messageType: "text",
-    });
-
-    // 복합 질문인 경우: Gemini로 분리 후 개별 처리
-    if (isCompound) {
-      try {
-        log.debug("🔀 복합 질문 감지, 분리 시도:", trimmedInput);
-        const questions = await splitCompoundQuestion(trimmedInput);
-
-        if (questions.length >= 2) {
-          log.debug(`✅ ${questions.length}개 질문으로 분리됨`);
-
-          const answers: string[] = [];
-          let anyResolved = false;
-          let lastCategory: string | undefined;
-          let lastFaqId: number | undefined;
-          let overallConfidence: number | undefined;
-
-          for (let i = 0; i < questions.length; i++) {
-            const q = questions[i];
-            const result = await processQuestion(q);
-
-            if (result.searchResults.length > 0 && result.responseText) {
-              answers.push(
-                `[질문 ${i + 1}] ${q}\n${replaceCustomerServicePlaceholders(removeMarkdown(result.responseText), customerServiceInfo)}`,
-              );
-              if (result.matchedFaq) {
-                anyResolved = true;
-                lastCategory = result.matchedFaq.category;
-                lastFaqId = result.matchedFaq.id;
-              }
-              if (result.confidence !== undefined) {
-                overallConfidence =
-                  overallConfidence !== undefined
-                    ? Math.max(overallConfidence, result.confidence)
-                    : result.confidence;
-              }
-            } else {
-              answers.push(
-                `[질문 ${i + 1}] ${q}\n해당 질문에 대한 답변을 찾을 수 없습니다.`,
-              );
-            }
-          }
-
-          const combinedText = answers.join("\n\n");
-          const botResponse: Message = {
-            id: Date.now() + 1,
-            text: combinedText,
-            isUser: false,
-            timestamp: new Date(),
-          };
-
-          setMessages((prev) => [...prev, botResponse]);
-          setIsTyping(false);
-
-          const responseTime =
-            botResponse.timestamp.getTime() - userMessage.timestamp.getTime();
-          void logMessage({
-            sender: "bot",
-            message: botResponse.text,
-            timestamp: botResponse.timestamp,
-            messageType: "text",
-            responseTime,
-            confidence: overallConfidence,
-            sourceFaq: lastFaqId,
-          });
-
-          if (anyResolved) {
-            setSessionCategory((prev) => prev || lastCategory);
-            setIsSessionResolved(true);
-            updateSession({ category: lastCategory, isResolved: true });
-          } else {
-            setIsSessionResolved(false);
-            updateSession({ isResolved: false });
-          }
-          return;
-        }
-        // 분리 실패 시 단일 질문으로 계속 진행
-      } catch (error) {
-        log.error("복합 질문 처리 실패, 단일 질문으로 처리:", error);
-      }
-    }
-
-    // 단일 질문 처리 (기존 로직)
     try {
-      log.debug("🔍 벡터 검색 시작:", trimmedInput);
-
-      // 1. 벡터 검색 수행 (FAQ 우선, 빠른 응답을 위해 최적화)
-      // FAQ가 높은 점수면 바로 사용, 아니면 청크와 문서도 검색
-      const searchResults = await vectorSearchService.search(trimmedInput, {
-        limit: 5,
-        minSimilarity: FAQ_MIN_SIMILARITY,
-        includeFAQs: true,
-        includeDocuments: false, // 성능 최적화: 필요시에만 활성화
-        includeChunks: true, // Gemini RAG를 위해 청크 포함
-        includeImages: false, // 성능 최적화: 필요시에만 활성화
-        includeGraphs: false, // 성능 최적화: 필요시에만 활성화
-      });
-
-      log.debug(`✅ 검색 결과 ${searchResults.length}개 발견`);
-
-      // 결과 타입별 개수 확인
-      const chunkCount = searchResults.filter((r) => r.type === "chunk").length;
-      if (chunkCount > 0) {
-        log.debug(`📝 관련 청크 ${chunkCount}개`);
+      if (!sessionId) {
+        throw new Error("채팅 세션이 준비되지 않았습니다.");
       }
 
-      let botResponse: Message;
-      let matchedFaq: FAQ | null = null;
+      // 서버가 메시지를 기록하기 전에 세션 저장
+      await ensureSessionPersisted();
 
-      const hasMeaningfulResult =
-        searchResults.length > 0 &&
-        searchResults[0].similarity >= FAQ_MIN_SIMILARITY;
-      if (hasMeaningfulResult) {
-        // 가장 유사한 결과가 FAQ인 경우
-        if (searchResults[0].type === "faq") {
-          matchedFaq = searchResults[0].item as FAQ;
-        }
+      log.debug("🔍 서버 RAG 파이프라인 요청:", trimmedInput);
 
-        // 2. 검색 결과를 컨텍스트로 변환 및 관련 이미지/그래프/청크/문서 추출
-        const context: string[] = [];
-        const relatedImages: Message["relatedImages"] = [];
-        const relatedGraphs: Message["relatedGraphs"] = [];
-        const relatedChunks: Message["relatedChunks"] = [];
-        const relatedDocuments: Message["relatedDocuments"] = [];
-        const documentSet = new Set<number>();
-
-        searchResults.forEach((result) => {
-          if (result.type === "faq") {
-            const faq = result.item as FAQ;
-            context.push(`[FAQ] Q: ${faq.question}\nA: ${faq.answer}`);
-          } else if (result.type === "chunk") {
-            const chunk = result.item as import("../types").PDFChunk;
-            context.push(`[문서 내용] ${chunk.content}`);
-            // 청크 정보 추가
-            relatedChunks.push({
-              content: chunk.content,
-              pageNumber: chunk.pageNumber,
-              sourceDocument: result.sourceDocument
-                ? {
-                    id: result.sourceDocument.id,
-                    name: result.sourceDocument.name,
-                    filePath: result.sourceDocument.filePath,
-                  }
-                : undefined,
-            });
-            // 청크의 출처 문서 추가
-            if (
-              result.sourceDocument &&
-              !documentSet.has(result.sourceDocument.id)
-            ) {
-              documentSet.add(result.sourceDocument.id);
-              relatedDocuments.push({
-                id: result.sourceDocument.id,
-                name: result.sourceDocument.name,
-                filePath: result.sourceDocument.filePath,
-              });
-            }
-          } else if (result.type === "document") {
-            const doc = result.item as import("../types").PDFDocument;
-            context.push(
-              `[문서] ${doc.name}: ${doc.metadata?.textContent || ""}`,
-            );
-            if (!documentSet.has(doc.id)) {
-              documentSet.add(doc.id);
-              relatedDocuments.push({
-                id: doc.id,
-                name: doc.name,
-                filePath: doc.filePath,
-              });
-            }
-          } else if (result.type === "image" && result.sourceDocument) {
-            const image = result.item as import("../types").DocumentImage;
-            context.push(`[이미지] ${image.description || image.fileName}`);
-            relatedImages.push({
-              url: image.url,
-              description: image.description,
-              sourceDocument: {
-                id: result.sourceDocument.id,
-                name: result.sourceDocument.name,
-                filePath: result.sourceDocument.filePath,
-              },
-            });
-            if (!documentSet.has(result.sourceDocument.id)) {
-              documentSet.add(result.sourceDocument.id);
-              relatedDocuments.push({
-                id: result.sourceDocument.id,
-                name: result.sourceDocument.name,
-                filePath: result.sourceDocument.filePath,
-              });
-            }
-          } else if (result.type === "graph" && result.sourceDocument) {
-            const graph = result.item as import("../types").DocumentGraph;
-            context.push(
-              `[그래프] ${graph.title || graph.description || graph.fileName}`,
-            );
-            relatedGraphs.push({
-              url: graph.url,
-              title: graph.title,
-              description: graph.description,
-              sourceDocument: {
-                id: result.sourceDocument.id,
-                name: result.sourceDocument.name,
-                filePath: result.sourceDocument.filePath,
-              },
-            });
-            if (!documentSet.has(result.sourceDocument.id)) {
-              documentSet.add(result.sourceDocument.id);
-              relatedDocuments.push({
-                id: result.sourceDocument.id,
-                name: result.sourceDocument.name,
-                filePath: result.sourceDocument.filePath,
-              });
+      let streamedText = "";
+      const response = await chatApiService.sendMessage(
+        sessionId,
+        trimmedInput,
+        {
+          history,
+          // 생성 답변은 부분 텍스트를 메시지에 실시간 반영
+          onDelta: (text) => {
+            const isFirstDelta = !streamedText;
+            streamedText += text;
+            const partialMessage: Message = {
+              id: botMessageId,
+              text: formatAnswer(streamedText),
+              isUser: false,
+              timestamp: new Date(),
+            };
+
+            if (isFirstDelta) {
+              setIsTyping(false);
+              setIsStreaming(true);
+              setMessages((prev) => [...prev, partialMessage]);
+            } else {
+              setMessages((prev) =>
+                prev.map((m) => (m.id === botMessageId ? partialMessage : m)),
+              );
             }
-          }
-        });
-
-        log.debug(`📚 컨텍스트 준비 완료: ${context.length}개 항목`);
-
-        // 3. 유사도 기반 FAQ 직접 반환 (LLM 없이)
-        let responseText: string;
-        const bestResult = searchResults[0];
-        const bestSimilarity = bestResult.similarity;
-
-        if (bestResult.type === "faq") {
-          const faq = bestResult.item as FAQ;
-          if (bestSimilarity >= FAQ_HIGH_CONFIDENCE) {
-            responseText = faq.answer;
-          } else if (bestSimilarity >= FAQ_MEDIUM_CONFIDENCE) {
-            responseText = `관련 FAQ를 찾았습니다.\n\n${faq.answer}`;
-          } else {
-            // 임계값 미만이면 Fallback 처리로 넘어감
-            responseText = "";
-          }
-        } else if (bestResult.type === "chunk") {
-          const chunk = bestResult.item as import("../types").PDFChunk;
-          responseText =
-            chunk.content || "관련 내용을 찾았지만 표시할 수 없습니다.";
-        } else {
-          responseText = "관련 정보를 찾았지만 답변을 제공할 수 없습니다.";
-        }
-
-        if (responseText) {
-          log.debug(`✅ FAQ 직접 반환 (유사도: ${bestSimilarity.toFixed(3)})`);
-
-          botResponse = {
-            id: Date.now() + 1,
-            text: replaceCustomerServicePlaceholders(
-              removeMarkdown(responseText),
-              customerServiceInfo,
-            ),
-            isUser: false,
-            timestamp: new Date(),
-            faq: matchedFaq || undefined,
-            relatedImages: relatedImages.length > 0 ? relatedImages : undefined,
-            relatedGraphs: relatedGraphs.length > 0 ? relatedGraphs : undefined,
-            relatedChunks: relatedChunks.length > 0 ? relatedChunks : undefined,
-            relatedDocuments:
-              relatedDocuments.length > 0 ? relatedDocuments : undefined,
-          };
-        } else {
-          // 유사도가 임계값 미만이어서 Fallback 처리
-          log.debug(
-            `⚠️  유사도 부족 (${bestSimilarity.toFixed(3)}) - Fallback 처리`,
-          );
-          matchedFaq = null;
-          const fallbackText = buildFallbackMessage(customerServiceInfo);
-          botResponse = {
-            id: Date.now() + 1,
-            text: fallbackText,
-            isUser: false,
-            timestamp: new Date(),
-          };
-        }
-      } else {
-        // 검색 결과가 없을 때 - 관리자가 설정한 Fallback 메시지 사용
-        log.debug("⚠️  검색 결과 없음 - Fallback 고객센터 안내");
-
-        const fallbackText = buildFallbackMessage(customerServiceInfo);
+          },
+        },
+      );
 
-        botResponse = {
-          id: Date.now() + 1,
-          text: fallbackText,
-          isUser: false,
-          timestamp: new Date(),
-        };
+      log.debug(
+        `✅ 응답 수신 (${response.answerType}, 유사도: ${response.confidence.toFixed(3)})`,
+      );
+      if (response.rewrittenQuery) {
+        log.debug("🔁 후속 질문 재작성:", response.rewrittenQuery);
       }
 
-      setMessages((prev) => [...prev, botResponse]);
-      setIsTyping(false);
+      const botResponse: Message = {
+        id: botMessageId,
+        text:
+          response.answerType === "fallback"
+            ? response.answer
+            : formatAnswer(response.answer),
+        isUser: false,
+        timestamp: new Date(),
+        faq: response.faq,
+        relatedChunks: response.relatedChunks,
+        relatedDocuments: response.relatedDocuments,
+        citations: response.citations,
+        messageId: response.messageId,
+      };
 
-      const responseTime =
-        botResponse.timestamp.getTime() - userMessage.timestamp.getTime();
-      const isFallback = !hasMeaningfulResult || !matchedFaq;
-      const confidence = isFallback
-        ? 0
-        : matchedFaq && searchResults.length > 0
-          ? searchResults[0].similarity
-          : undefined;
-
-      void logMessage({
-        sender: "bot",
-        message: botResponse.text,
-        timestamp: botResponse.timestamp,
-        messageType: "text",
-        responseTime,
-        confidence,
-        sourceFaq: matchedFaq?.id,
-      });
+      // 스트리밍으로 이미 추가된 메시지는 최종 응답으로 교체
+      setMessages((prev) => [
+        ...prev.filter((m) => m.id !== botMessageId),
+        botResponse,
+      ]);
 
-      if (matchedFaq) {
-        setSessionCategory((prev) => prev || matchedFaq.category);
+      // 세션 해결 여부는 서버에서 기록, 종료 시점 갱신용으로 로컬 상태만 반영
+      if (response.isResolved) {
+        setSessionCategory((prev) => prev || response.category);
         setIsSessionResolved(true);
-        updateSession({
-          category: matchedFaq.category,
-          isResolved: true,
-        });
       } else {
         setIsSessionResolved(false);
-        updateSession({ isResolved: false });
       }
     } catch (error) {
       log.error("응답 생성 중 오류:", error);
       const errorResponse: Message = {
-        id: Date.now() + 1,
+        id: botMessageId,
         text: "죄송합니다. 일시적인 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
         isUser: false,
         timestamp: new Date(),
       };
-      setMessages((prev) => [...prev, errorResponse]);
-      setIsTyping(false);
-
-      void logMessage({
-        sender: "bot",
-        message: errorResponse.text,
-        timestamp: errorResponse.timestamp,
-        messageType: "text",
-      });
+      setMessages((prev) => [
+        ...prev.filter((m) => m.id !== botMessageId),
+        errorResponse,
+      ]);
 
       updateSession({ isResolved: false });
+    } finally {
+      setIsTyping(false);
+      setIsStreaming(false);
     }
   };
 
@@ -1133,6 +666,62 @@ const UserChatbot: React.FC<UserChatbotProps> = ({
     }
   };
 
+  // 봇 응답 👍/👎 피드백 (같은 버튼을 다시 누르면 취소)
+  const handleMessageFeedback = async (
+    message: Message,
+    feedback: MessageFeedback,
+  ) => {
+    const sessionId = chatSessionIdRef.current;
+    if (!message.messageId || !sessionId) return;
+
+    const next = message.feedback === feedback ? undefined : feedback;
+    const updateFeedback = (value?: MessageFeedback) =>
+      setMessages((prev) =>
+        prev.map((m) => (m.id === message.id ? { ...m, feedback: value } : m)),
+      );
+
+    updateFeedback(next);
+    setFeedbackReasonTarget(next === "unhelpful" ? message.id : null);
+    setFeedbackReason("");
+
+    try {
+      await dbService.setMessageFeedback(
+        sessionId,
+        message.messageId,
+        next ?? null,
+      );
+    } catch (error) {
+      log.error("피드백 저장 실패:", error);
+      updateFeedback(message.feedback);
+      setFeedbackReasonTarget(null);
+      showToast("피드백 저장에 실패했습니다.", "error");
+    }
+  };
+
+  // 👎 피드백 사유 전송
+  const handleSubmitFeedbackReason = async (message: Message) => {
+    const sessionId = chatSessionIdRef.current;
+    if (!message.messageId || !sessionId) return;
+
+    setFeedbackReasonTarget(null);
+    if (!feedbackReason.trim()) return;
+
+    try {
+      await dbService.setMessageFeedback(
+        sessionId,
+        message.messageId,
+        "unhelpful",
+        feedbackReason,
+      );
+      showToast("의견을 보내주셔서 감사합니다.", "success");
+    } catch (error) {
+      log.error("피드백 사유 저장 실패:", error);
+      showToast("피드백 저장에 실패했습니다.", "error");
+    } finally {
+      setFeedbackReason("");
+    }
+  };
+
   // quickQuestions는 featuredFAQs에서 가져옴 (최대 4개)
 
   const handleQuickQuestion = (question: string) => {
@@ -1140,12 +729,21 @@ const UserChatbot: React.FC<UserChatbotProps> = ({
   };
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex flex-col">
+    <div
+      className={
+        embedded
+          ? "h-screen bg-white flex flex-col"
+          : "min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex flex-col"
+      }
+    >
       {/* Header */}
       <div className="bg-white shadow-sm border-b border-gray-200 p-4">
         <div className="max-w-4xl mx-auto flex items-center justify-between">
           <div className="flex items-center">
-            <div className="w-10 h-10 bg-gradient-to-r from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
+            <div
+              className="w-10 h-10 bg-gradient-to-r from-blue-500 to-purple-600 rounded-full flex items-center justify-center"
+              style={accentStyle}
+            >
               <svg
                 className="w-6 h-6 text-white"
                 fill="none"
@@ -1161,26 +759,58 @@ const UserChatbot: React.FC<UserChatbotProps> = ({
               </svg>
             </div>
             <div className="ml-3">
-              <h1 className="text-lg font-semibold text-black">
-                엠브레인Agent
-              </h1>
+              <h1 className="text-lg font-semibold text-black">{title}</h1>
               <p className="text-sm text-gray-500">
                 24시간 언제든지 질문하세요
               </p>
             </div>
           </div>
-          <a
-            href="/admin"
-            className="text-xs text-gray-400 hover:text-blue-600 transition-colors duration-200"
-          >
-            관리자
-          </a>
+          {embedded ? (
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors duration-200"
+              aria-label="닫기"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          ) : (
+            <a
+              href="/admin"
+              className="text-xs text-gray-400 hover:text-blue-600 transition-colors duration-200"
+            >
+              관리자
+            </a>
+          )}
         </div>
       </div>
 
       {/* Chat Container */}
-      <div className="flex-1 max-w-4xl mx-auto w-full p-4 overflow-hidden">
-        <div className="bg-white rounded-2xl shadow-lg h-full flex flex-col max-h-[calc(100vh-120px)]">
+      <div
+        className={
+          embedded
+            ? "flex-1 w-full overflow-hidden"
+            : "flex-1 max-w-4xl mx-auto w-full p-4 overflow-hidden"
+        }
+      >
+        <div
+          className={
+            embedded
+              ? "bg-white h-full flex flex-col"
+              : "bg-white rounded-2xl shadow-lg h-full flex flex-col max-h-[calc(100vh-120px)]"
+          }
+        >
           {/* Messages */}
           <div className="flex-1 p-6 overflow-y-auto space-y-4 min-h-0">
             {messages.map((message) => (
@@ -1193,7 +823,10 @@ const UserChatbot: React.FC<UserChatbotProps> = ({
                 >
                   {!message.isUser && (
                     <div className="flex items-center mb-2">
-                      <div className="w-8 h-8 bg-gradient-to-r from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
+                      <div
+                        className="w-8 h-8 bg-gradient-to-r from-blue-500 to-purple-600 rounded-full flex items-center justify-center"
+                        style={accentStyle}
+                      >
                         <svg
                           className="w-4 h-4 text-white"
                           fill="none"
@@ -1219,10 +852,27 @@ const UserChatbot: React.FC<UserChatbotProps> = ({
                         ? "bg-gradient-to-r from-blue-500 to-purple-600 text-white"
                         : "bg-gray-100 text-black"
                     }`}
+                    style={message.isUser ? accentStyle : undefined}
                   >
                     <p className="text-sm whitespace-pre-wrap">
                       {message.text}
                     </p>
+                    {message.citations && message.citations.length > 0 && (
+                      <div className="mt-3 pt-3 border-t border-gray-200 space-y-1">
+                        {message.citations.map((citation) => (
+                          <button
+                            key={citation.index}
+                            onClick={() => openCitation(citation)}
+                            disabled={!citation.filePath}
+                            className="block text-left text-xs text-blue-600 hover:text-blue-700 hover:underline disabled:text-gray-500 disabled:no-underline"
+                            title="클릭하여 출처 페이지 열기"
+                          >
+                            [{citation.index}] {citation.documentName} ·{" "}
+                            {citation.pageNumber}페이지
+                          </button>
+                        ))}
+                      </div>
+                    )}
                     {message.faq && (
                       <div className="mt-3 pt-3 border-t border-gray-200">
                         <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
@@ -1522,12 +1172,67 @@ const UserChatbot: React.FC<UserChatbotProps> = ({
                         </div>
                       )}
                   </div>
-                  <p className="text-xs text-gray-500 mt-1 px-2">
-                    {message.timestamp.toLocaleTimeString("ko-KR", {
-                      hour: "2-digit",
-                      minute: "2-digit",
-                    })}
-                  </p>
+                  <div className="flex items-center mt-1 px-2 space-x-2">
+                    <p className="text-xs text-gray-500">
+                      {message.timestamp.toLocaleTimeString("ko-KR", {
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      })}
+                    </p>
+                    {!message.isUser && message.messageId && (
+                      <div className="flex items-center space-x-1">
+                        <button
+                          onClick={() =>
+                            handleMessageFeedback(message, "helpful")
+                          }
+                          className={`text-xs px-1.5 py-0.5 rounded transition-colors duration-200 ${
+                            message.feedback === "helpful"
+                              ? "bg-green-100 text-green-700"
+                              : "text-gray-400 hover:bg-gray-100"
+                          }`}
+                          title="도움이 됐어요"
+                        >
+                          👍
+                        </button>
+                        <button
+                          onClick={() =>
+                            handleMessageFeedback(message, "unhelpful")
+                          }
+                          className={`text-xs px-1.5 py-0.5 rounded transition-colors duration-200 ${
+                            message.feedback === "unhelpful"
+                              ? "bg-red-100 text-red-700"
+                              : "text-gray-400 hover:bg-gray-100"
+                          }`}
+                          title="도움이 안 됐어요"
+                        >
+                          👎
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  {feedbackReasonTarget === message.id && (
+                    <div className="mt-2 px-2 flex items-center space-x-2">
+                      <input
+                        type="text"
+                        value={feedbackReason}
+                        onChange={(e) => setFeedbackReason(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") {
+                            handleSubmitFeedbackReason(message);
+                          }
+                        }}
+                        maxLength={300}
+                        placeholder="어떤 점이 부족했나요? (선택)"
+                        className="flex-1 text-xs px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <button
+                        onClick={() => handleSubmitFeedbackReason(message)}
+                        className="text-xs px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors duration-200"
+                      >
+                        보내기
+                      </button>
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -1536,7 +1241,10 @@ const UserChatbot: React.FC<UserChatbotProps> = ({
               <div className="flex justify-start">
                 <div className="max-w-xs lg:max-w-md">
                   <div className="flex items-center mb-2">
-                    <div className="w-8 h-8 bg-gradient-to-r from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
+                    <div
+                      className="w-8 h-8 bg-gradient-to-r from-blue-500 to-purple-600 rounded-full flex items-center justify-center"
+                      style={accentStyle}
+                    >
                       <svg
                         className="w-4 h-4 text-white"
                         fill="none"
@@ -1612,13 +1320,14 @@ const UserChatbot: React.FC<UserChatbotProps> = ({
                   className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
                   rows={1}
                   style={{ minHeight: "48px", maxHeight: "120px" }}
-                  disabled={isTyping}
+                  disabled={isTyping || isStreaming}
                 />
               </div>
               <button
                 onClick={handleSendMessage}
-                disabled={!inputText.trim() || isTyping}
+                disabled={!inputText.trim() || isTyping || isStreaming}
                 className="bg-gradient-to-r from-blue-500 to-purple-600 text-white p-3 rounded-xl hover:from-blue-600 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                style={accentStyle}
               >
                 <svg
                   className="w-5 h-5"
@@ -1677,6 +1386,16 @@ const UserChatbot: React.FC<UserChatbotProps> = ({
           </div>
         </div>
       </div>
+
+      {citationViewer && (
+        <PDFDocumentViewer
+          document={citationViewer.document}
+          initialPage={citationViewer.pageNumber}
+          readOnly
+          onClose={() => setCitationViewer(null)}
+          onUpdateFAQs={() => {}}
+        />
+      )}
     </div>
   );
 };
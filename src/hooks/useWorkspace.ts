@@ -0,0 +1,137 @@
+import { useState, useEffect, useCallback } from "react";
+import type { Workspace } from "../types";
+import { getSupabaseDatabaseService } from "../services/supabase";
+import {
+  DEFAULT_WORKSPACE_SLUG,
+  getSavedWorkspaceId,
+  setCurrentWorkspace,
+} from "../services/workspaceContext";
+import { createLogger } from "../services/logger";
+
+const log = createLogger("Workspace");
+
+interface UseWorkspaceReturn {
+  workspaces: Workspace[];
+  workspace: Workspace | null;
+  loading: boolean;
+  switchWorkspace: (workspaceId: string) => void;
+  createWorkspace: (name: string, slug: string) => Promise<Workspace>;
+}
+
+/**
+ * 관리자 워크스페이스 선택
+ * 로그인 사용자의 워크스페이스 목록을 불러와 마지막 선택(없으면 첫 번째)으로 복원
+ */
+export function useWorkspace(userId: string | null): UseWorkspaceReturn {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  // 목록을 마지막으로 불러온 사용자 (로그아웃/계정 전환 감지용)
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null);
+
+  const selectWorkspace = useCallback((next: Workspace | null) => {
+    setCurrentWorkspace(next);
+    setWorkspace(next);
+  }, []);
+
+  useEffect(() => {
+    if (!userId) {
+      setCurrentWorkspace(null, false);
+      return;
+    }
+
+    let cancelled = false;
+
+    getSupabaseDatabaseService()
+      .getMyWorkspaces()
+      .then((list) => {
+        if (cancelled) return;
+        const savedId = getSavedWorkspaceId();
+        setWorkspaces(list);
+        selectWorkspace(
+          list.find((ws) => ws.id === savedId) ?? list[0] ?? null,
+        );
+      })
+      .catch((error) => {
+        log.error("워크스페이스 목록 로드 실패:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedUserId(userId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, selectWorkspace]);
+
+  const isCurrentUser = !!userId && loadedUserId === userId;
+
+  const switchWorkspace = (workspaceId: string) => {
+    const next = workspaces.find((ws) => ws.id === workspaceId);
+    if (next) selectWorkspace(next);
+  };
+
+  const createWorkspace = async (
+    name: string,
+    slug: string,
+  ): Promise<Workspace> => {
+    const created = await getSupabaseDatabaseService().createWorkspace(
+      name,
+      slug,
+      workspace?.organizationId,
+    );
+    setWorkspaces((prev) =>
+      [...prev, created].sort((a, b) => a.name.localeCompare(b.name, "ko")),
+    );
+    selectWorkspace(created);
+    return created;
+  };
+
+  return {
+    workspaces: isCurrentUser ? workspaces : [],
+    workspace: isCurrentUser ? workspace : null,
+    loading: !!userId && !isCurrentUser,
+    switchWorkspace,
+    createWorkspace,
+  };
+}
+
+/**
+ * 공개 챗봇 워크스페이스 (?workspace=slug, 미지정 시 기본 워크스페이스)
+ * 관리자 선택을 덮어쓰지 않도록 localStorage에 저장하지 않음
+ */
+export function usePublicWorkspace(enabled: boolean): {
+  workspace: Workspace | null;
+  loading: boolean;
+} {
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [resolved, setResolved] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const slug =
+      new URLSearchParams(window.location.search).get("workspace") ||
+      DEFAULT_WORKSPACE_SLUG;
+    let cancelled = false;
+
+    getSupabaseDatabaseService()
+      .getWorkspaceBySlug(slug)
+      .then((found) => {
+        if (cancelled) return;
+        setCurrentWorkspace(found, false);
+        setWorkspace(found);
+      })
+      .catch((error) => {
+        log.error("워크스페이스 조회 실패:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setResolved(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return { workspace, loading: enabled && !resolved };
+}
@@ -5,7 +5,8 @@
  */
 
 import { supabase } from "./supabase/client";
-import type { GeminiAPIConfig } from "../types";
+import type { GeminiAPIConfig, Citation, DocumentTable } from "../types";
+import { defaultConfig } from "./config";
 
 interface DocumentAnalysisResult {
   summary: string;
@@ -21,6 +22,20 @@ interface DocumentAnalysisResult {
     summary: string;
     importance: string;
     keywords: string[];
+    pageNumber?: number;
+    pageRange?: string;
+  }>;
+}
+
+export interface ImageAnalysisResult {
+  extractedText: string;
+  caption: string;
+  tables: DocumentTable[];
+  keywords: string[];
+  suggestedFAQs: Array<{
+    question: string;
+    answer: string;
+    category: string;
   }>;
 }
 
@@ -31,12 +46,19 @@ interface GenerateResponseResult {
     pageNumber: number;
     relevance: number;
   }>;
+  citations?: Citation[];
 }
 
+export type GenerateResponseStreamEvent =
+  { type: "delta"; text: string } | ({ type: "done" } & GenerateResponseResult);
+
 export interface ContextItem {
   content: string;
   source: string;
   similarity: number;
+  chunkId?: number;
+  documentId?: number;
+  pageNumber?: number;
 }
 
 interface ConversationMessage {
@@ -96,28 +118,47 @@ export class WebGeminiService {
     return session.access_token;
   }
 
+  /**
+   * 세션이 있으면 JWT 토큰 반환 (공개 챗봇용, 없으면 null)
+   */
+  private async getOptionalAuthToken(): Promise<string | null> {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    return session?.access_token ?? null;
+  }
+
   /**
    * API 요청 헬퍼
+   * requireAuth=false면 세션이 없어도 요청 (공개 챗봇용 엔드포인트)
    */
   private async makeRequest<T>(
     endpoint: string,
     method: "GET" | "POST",
     body?: any,
     timeout: number = 30000,
+    requireAuth: boolean = true,
   ): Promise<T> {
     try {
-      const token = await this.getAuthToken();
+      const token = requireAuth
+        ? await this.getAuthToken()
+        : await this.getOptionalAuthToken();
       const url = `${this.baseUrl}${endpoint}`;
 
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), timeout);
 
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+      };
+      if (token) {
+        headers.Authorization = `Bearer ${token}`;
+      }
+
       const options: RequestInit = {
         method,
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
+        headers,
         signal: controller.signal,
       };
 
@@ -239,6 +280,38 @@ export class WebGeminiService {
     return result;
   }
 
+  /**
+   * 이미지 분석 (Gemini Vision: 텍스트 추출, 설명, 표, FAQ 제안)
+   */
+  async analyzeImage(
+    imageBase64: string,
+    mimeType: string,
+    fileName?: string,
+  ): Promise<ImageAnalysisResult> {
+    return this.makeRequest<ImageAnalysisResult>(
+      "/analyze-image",
+      "POST",
+      { imageBase64, mimeType, fileName },
+      defaultConfig.timeout.imageAnalysis + 5000,
+    );
+  }
+
+  /**
+   * 스캔 PDF 페이지 OCR (Gemini Vision, confidence는 0~1 자체 평가)
+   */
+  async ocrPage(
+    imageBase64: string,
+    mimeType: string,
+    pageNumber?: number,
+  ): Promise<{ text: string; confidence: number }> {
+    return this.makeRequest<{ text: string; confidence: number }>(
+      "/ocr-page",
+      "POST",
+      { imageBase64, mimeType, pageNumber },
+      defaultConfig.timeout.imageAnalysis + 5000,
+    );
+  }
+
   /**
    * RAG 기반 대화 생성
    */
@@ -256,6 +329,104 @@ export class WebGeminiService {
 
     return result;
   }
+
+  /**
+   * 검색 후보 재순위화 (질문 관련도 0~1)
+   */
+  async rerank(
+    query: string,
+    candidates: Array<{ id: string; text: string }>,
+    timeout: number = 10000,
+  ): Promise<Array<{ id: string; score: number }>> {
+    const result = await this.makeRequest<{
+      scores: Array<{ id: string; score: number }>;
+    }>("/rerank", "POST", { query, candidates }, timeout, false);
+
+    return result.scores;
+  }
+
+  /**
+   * RAG 기반 대화 스트리밍 생성 (SSE)
+   * delta 이벤트로 부분 텍스트를, 마지막에 done 이벤트로 전체 결과를 반환
+   */
+  async *generateResponseStream(
+    question: string,
+    context: ContextItem[],
+    conversationHistory?: ConversationMessage[],
+    signal?: AbortSignal,
+  ): AsyncGenerator<GenerateResponseStreamEvent> {
+    const token = await this.getOptionalAuthToken();
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+    };
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/generate-response-stream`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ question, context, conversationHistory }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+
+      try {
+        const errorData = await response.json();
+        errorMessage = errorData.error || errorMessage;
+      } catch {
+        // JSON 파싱 실패 시 기본 메시지 사용
+      }
+
+      if (response.status === 504) {
+        throw new Error("Request timeout. Please try again.");
+      }
+
+      throw new Error(errorMessage);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split("\n\n");
+        buffer = events.pop() || "";
+
+        for (const rawEvent of events) {
+          const data = rawEvent
+            .split("\n")
+            .filter((line) => line.startsWith("data:"))
+            .map((line) => line.slice(5).trim())
+            .join("");
+          if (!data) continue;
+
+          const event = JSON.parse(data);
+          if (event.type === "error") {
+            throw new Error(event.error || "Stream error");
+          }
+
+          yield event as GenerateResponseStreamEvent;
+
+          if (event.type === "done") {
+            return;
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    throw new Error("Stream ended unexpectedly");
+  }
 }
 
 // 싱글톤 인스턴스 내보내기
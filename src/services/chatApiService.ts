@@ -0,0 +1,128 @@
+/**
+ * Chat API Service
+ * 서버사이드 RAG 파이프라인(/api/chat) 호출 클라이언트 (싱글톤)
+ * 검색/재순위화/생성/대화 기록은 서버에서 처리하고 결과만 반환
+ */
+
+import { supabase } from "./supabase/client";
+import type { ChatResponse, ConversationTurn } from "../types";
+import { buildConversationWindow } from "./conversationMemory";
+import { getCurrentWorkspaceId } from "./workspaceContext";
+
+export type ChatStreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "done"; response: ChatResponse }
+  | { type: "error"; error: string };
+
+export class ChatApiService {
+  private static instance: ChatApiService;
+  private endpoint: string = "/api/chat";
+
+  private constructor() {
+    // 싱글톤 패턴
+  }
+
+  static getInstance(): ChatApiService {
+    if (!ChatApiService.instance) {
+      ChatApiService.instance = new ChatApiService();
+    }
+    return ChatApiService.instance;
+  }
+
+  /**
+   * 메시지 전송 (SSE 스트리밍)
+   * 생성 답변의 부분 텍스트는 onDelta로 전달하고 최종 응답을 반환
+   * history는 턴 수/토큰 예산 내 최근 대화만 전송
+   */
+  async sendMessage(
+    sessionId: string,
+    message: string,
+    options: {
+      history?: ConversationTurn[];
+      onDelta?: (text: string) => void;
+      signal?: AbortSignal;
+    } = {},
+  ): Promise<ChatResponse> {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+    };
+    if (session?.access_token) {
+      headers.Authorization = `Bearer ${session.access_token}`;
+    }
+
+    const response = await fetch(this.endpoint, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        sessionId,
+        message,
+        stream: true,
+        history: buildConversationWindow(options.history || []),
+        workspaceId: getCurrentWorkspaceId(),
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+
+      try {
+        const errorData = await response.json();
+        errorMessage = errorData.error || errorMessage;
+      } catch {
+        // JSON 파싱 실패 시 기본 메시지 사용
+      }
+
+      if (response.status === 504) {
+        throw new Error("Request timeout. Please try again.");
+      }
+
+      throw new Error(errorMessage);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split("\n\n");
+        buffer = events.pop() || "";
+
+        for (const rawEvent of events) {
+          const data = rawEvent
+            .split("\n")
+            .filter((line) => line.startsWith("data:"))
+            .map((line) => line.slice(5).trim())
+            .join("");
+          if (!data) continue;
+
+          const event = JSON.parse(data) as ChatStreamEvent;
+          if (event.type === "error") {
+            throw new Error(event.error || "Stream error");
+          }
+          if (event.type === "done") {
+            return event.response;
+          }
+          options.onDelta?.(event.text);
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    throw new Error("Stream ended unexpectedly");
+  }
+}
+
+// 싱글톤 인스턴스 내보내기
+export const chatApiService = ChatApiService.getInstance();
@@ -0,0 +1,113 @@
+/**
+ * Chunk Edit Service
+ * 청킹 관리에서 청크 직접 편집 (수정 / 분할 / 인접 병합 / 삭제) (싱글톤)
+ * - 위치(chunk_index) 조정, 변경 기록, FAQ 검토 표시는 DB RPC에서 한 번에 처리
+ * - 내용이 바뀐 청크는 저장 후 임베딩을 다시 생성 (해시 임베딩이면 저장하지 않고 비워 둠)
+ */
+
+import type { PDFChunk } from "../types";
+import { embeddingService } from "./embeddingService";
+import { getSupabaseDatabaseService } from "./supabase";
+import { createLogger } from "./logger";
+
+const log = createLogger("chunkEdit");
+
+/** 편집 결과 (임베딩을 다시 만들지 못한 청크는 검색에서 빠짐) */
+export interface ChunkEditResult {
+  embedded: number;
+  pending: number; // 임베딩이 비어 있는 청크 수
+}
+
+interface ChunkText {
+  id: number;
+  content: string;
+}
+
+export class ChunkEditService {
+  private static instance: ChunkEditService;
+
+  private constructor() {
+    // 싱글톤 패턴
+  }
+
+  static getInstance(): ChunkEditService {
+    if (!ChunkEditService.instance) {
+      ChunkEditService.instance = new ChunkEditService();
+    }
+    return ChunkEditService.instance;
+  }
+
+  async edit(chunk: PDFChunk, content: string): Promise<ChunkEditResult> {
+    await getSupabaseDatabaseService().editChunk(chunk.id, content);
+    return this.reembed([{ id: chunk.id, content }]);
+  }
+
+  /**
+   * content[splitAt] 위치에서 분할 (앞뒤 공백 정리, 한쪽이 비면 오류)
+   */
+  async split(
+    chunk: PDFChunk,
+    content: string,
+    splitAt: number,
+  ): Promise<ChunkEditResult> {
+    const first = content.slice(0, splitAt).trimEnd();
+    const second = content.slice(splitAt).trimStart();
+    if (!first || !second) {
+      throw new Error("분할 위치 앞뒤에 내용이 있어야 합니다.");
+    }
+
+    const newId = await getSupabaseDatabaseService().splitChunk(
+      chunk.id,
+      first,
+      second,
+    );
+    return this.reembed([
+      { id: chunk.id, content: first },
+      { id: newId, content: second },
+    ]);
+  }
+
+  async mergeWithNext(
+    chunk: PDFChunk,
+    next: PDFChunk,
+  ): Promise<ChunkEditResult> {
+    const merged = `${chunk.content}\n\n${next.content}`;
+    await getSupabaseDatabaseService().mergeChunks(chunk.id, next.id, merged);
+    return this.reembed([{ id: chunk.id, content: merged }]);
+  }
+
+  async delete(chunk: PDFChunk): Promise<void> {
+    await getSupabaseDatabaseService().deleteChunk(chunk.id);
+  }
+
+  /**
+   * 청크 임베딩 다시 생성 (편집 직후 또는 임베딩이 빠진 청크 재시도)
+   */
+  async reembed(chunks: ChunkText[]): Promise<ChunkEditResult> {
+    if (chunks.length === 0) return { embedded: 0, pending: 0 };
+
+    try {
+      const embeddings = await embeddingService.generateBatchEmbeddings(
+        chunks.map((chunk) => chunk.content),
+      );
+      // 해시 임베딩은 의미 검색을 망치므로 저장하지 않음
+      if (embeddingService.lastEmbeddingWasHash) {
+        log.warn("Gemini 임베딩 실패, 청크 임베딩을 비워 둠");
+        return { embedded: 0, pending: chunks.length };
+      }
+
+      const dbService = getSupabaseDatabaseService();
+      for (const [index, chunk] of chunks.entries()) {
+        await dbService.updateChunk(chunk.id, {
+          embeddings: embeddings[index],
+        });
+      }
+      return { embedded: chunks.length, pending: 0 };
+    } catch (error) {
+      log.error("청크 임베딩 생성 실패:", error);
+      return { embedded: 0, pending: chunks.length };
+    }
+  }
+}
+
+export const chunkEditService = ChunkEditService.getInstance();
@@ -24,6 +24,9 @@ export interface TimeoutConfig {
   faqGeneration: number;
   documentAnalysis: number;
   semanticChunking: number;
+  rerank: number;
+  queryRewrite: number;
+  imageAnalysis: number;
   rateLimitDelay: number;
   batchProcessingDelay: number;
 }
@@ -34,6 +37,15 @@ export interface SearchConfig {
   documentNameBoost: number;
   maxChunksPerSearch: number;
   minSimilarityThreshold: number;
+  hybridSearchEnabled: boolean; // 키워드(trigram) 검색 병행 여부
+  vectorWeight: number; // RRF 벡터 순위 가중치
+  keywordWeight: number; // RRF 키워드 순위 가중치
+  rrfK: number; // RRF 상수 (클수록 하위 순위 영향 증가)
+  keywordMatchCount: number;
+  rerankEnabled: boolean; // 검색 후 상위 후보 재순위화 여부
+  reranker: "gemini" | "local";
+  rerankTopN: number;
+  rerankWeight: number; // 0~1, 재순위 점수 반영 비율
 }
 
 export interface ChunkingConfig {
@@ -51,6 +63,34 @@ export interface GenerationConfig {
   maxFaqCount: number;
 }
 
+export interface ConversationConfig {
+  maxHistoryTurns: number; // 전달할 최근 메시지 수 (사용자/봇 각각 1개로 계산)
+  maxHistoryTokens: number; // 대화 히스토리 토큰 예산 (추정치)
+  queryRewriteEnabled: boolean; // 후속 질문을 독립 질의로 재작성할지 여부
+}
+
+export interface OcrConfig {
+  minTextLayerChars: number; // 이보다 텍스트 레이어가 짧은 페이지는 스캔본으로 보고 OCR (auto 모드)
+  renderScale: number; // 페이지 이미지 렌더링 배율
+  maxPages: number; // 문서당 OCR 최대 페이지 수
+}
+
+export interface IngestionConfig {
+  maxAttempts: number; // 단계별 최대 시도 횟수 (초과 시 작업 실패)
+  retryBaseDelay: number; // 재시도 대기 시간 (ms, 시도마다 2배)
+  retryMaxDelay: number; // 재시도 대기 시간 상한 (ms)
+  lockDuration: number; // 워커 작업 점유 시간 (ms, 워커가 중단되면 이후 재점유)
+  workerTimeBudget: number; // 워커 1회 호출당 처리 시간 (ms, 초과 시 다음 호출에서 이어서 처리)
+  embeddingBatchSize: number; // 임베딩 단계 1회 처리 청크 수
+  pollInterval: number; // 관리자 화면 작업 상태 조회 주기 (ms)
+}
+
+export interface DedupeConfig {
+  similarityThreshold: number; // 질문 임베딩 유사도가 이 이상이면 중복 의심
+  neighborCount: number; // FAQ별로 비교할 최근접 질문 수
+  maxEmbeddingChecks: number; // 가져오기 시 임베딩으로 비교할 최대 행 수 (초과분은 텍스트 비교만)
+}
+
 export interface AppConfig {
   embedding: EmbeddingConfig;
   aiModel: AIModelConfig;
@@ -58,8 +98,17 @@ export interface AppConfig {
   search: SearchConfig;
   chunking: ChunkingConfig;
   generation: GenerationConfig;
+  conversation: ConversationConfig;
+  ocr: OcrConfig;
+  ingestion: IngestionConfig;
+  dedupe: DedupeConfig;
 }
 
+/** FAQ 유사도 임계값 상수 (클라이언트 검색 / 서버 chat 파이프라인 공용) */
+export const FAQ_MIN_SIMILARITY = 0.45;
+export const FAQ_HIGH_CONFIDENCE = 0.65;
+export const FAQ_MEDIUM_CONFIDENCE = 0.45;
+
 export const defaultConfig: AppConfig = {
   embedding: {
     geminiEmbeddingModel: "gemini-embedding-001",
@@ -80,6 +129,9 @@ export const defaultConfig: AppConfig = {
     faqGeneration: 25000,
     documentAnalysis: 15000,
     semanticChunking: 20000,
+    rerank: 3000,
+    queryRewrite: 4000,
+    imageAnalysis: 25000,
     rateLimitDelay: 100,
     batchProcessingDelay: 100,
   },
@@ -89,6 +141,15 @@ export const defaultConfig: AppConfig = {
     documentNameBoost: 1.2,
     maxChunksPerSearch: 10,
     minSimilarityThreshold: 0.7,
+    hybridSearchEnabled: true,
+    vectorWeight: 1.0,
+    keywordWeight: 0.8,
+    rrfK: 60,
+    keywordMatchCount: 10,
+    rerankEnabled: true,
+    reranker: "gemini",
+    rerankTopN: 8,
+    rerankWeight: 0.7,
   },
   chunking: {
     defaultChunkSize: 300,
@@ -103,6 +164,30 @@ export const defaultConfig: AppConfig = {
     minFaqCount: 1,
     maxFaqCount: 20,
   },
+  conversation: {
+    maxHistoryTurns: 6,
+    maxHistoryTokens: 1200,
+    queryRewriteEnabled: true,
+  },
+  ocr: {
+    minTextLayerChars: 30,
+    renderScale: 2,
+    maxPages: 50,
+  },
+  ingestion: {
+    maxAttempts: 5,
+    retryBaseDelay: 10000,
+    retryMaxDelay: 10 * 60 * 1000,
+    lockDuration: 90000,
+    workerTimeBudget: 40000,
+    embeddingBatchSize: 20,
+    pollInterval: 3000,
+  },
+  dedupe: {
+    similarityThreshold: 0.9,
+    neighborCount: 5,
+    maxEmbeddingChecks: 200,
+  },
 };
 
 export const getConfig = (): AppConfig => {
@@ -0,0 +1,66 @@
+/**
+ * 멀티턴 대화 히스토리 윈도우
+ * 챗봇(UserChatbot) / 서버 chat 파이프라인(/api/chat) 공용
+ * 최근 메시지부터 턴 수 + 토큰 예산 안에서 잘라 사용
+ */
+
+// 서버(api/)에서도 import하므로 .js 확장자 사용
+import type { ConversationTurn } from "../types.js";
+import { defaultConfig } from "./config.js";
+
+/** 한 메시지 최대 길이 (긴 생성 답변이 예산을 독점하지 않도록) */
+const MAX_TURN_CHARS = 600;
+
+/**
+ * 토큰 수 추정 (한글은 글자당 약 1토큰, 그 외는 4글자당 약 1토큰)
+ */
+export function estimateTokens(text: string): number {
+  const hangul = (text.match(/[가-힣]/g) || []).length;
+  return hangul + Math.ceil((text.length - hangul) / 4);
+}
+
+/**
+ * 최근 대화부터 역순으로 담아 예산 내 히스토리 구성 (시간순 반환)
+ * 잘못된 항목(역할/내용 누락)은 제외
+ */
+export function buildConversationWindow(
+  turns: ConversationTurn[],
+  options: { maxTurns?: number; maxTokens?: number } = {},
+): ConversationTurn[] {
+  const {
+    maxTurns = defaultConfig.conversation.maxHistoryTurns,
+    maxTokens = defaultConfig.conversation.maxHistoryTokens,
+  } = options;
+
+  const window: ConversationTurn[] = [];
+  let usedTokens = 0;
+
+  for (let i = turns.length - 1; i >= 0 && window.length < maxTurns; i--) {
+    const turn = turns[i];
+    if (
+      !turn ||
+      (turn.role !== "user" && turn.role !== "assistant") ||
+      typeof turn.content !== "string" ||
+      !turn.content.trim()
+    ) {
+      continue;
+    }
+
+    const content =
+      turn.content.length > MAX_TURN_CHARS
+        ? `${turn.content.slice(0, MAX_TURN_CHARS)}…`
+        : turn.content.trim();
+    const tokens = estimateTokens(content);
+    if (usedTokens + tokens > maxTokens) break;
+
+    usedTokens += tokens;
+    window.unshift({ role: turn.role, content });
+  }
+
+  // Gemini contents는 user 턴으로 시작해야 하므로 앞쪽 assistant 턴 제거
+  while (window.length > 0 && window[0].role !== "user") {
+    window.shift();
+  }
+
+  return window;
+}
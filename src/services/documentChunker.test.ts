@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  chunkPagedText,
+  createTextChunkRecords,
+  joinPages,
+  splitPages,
+} from "./documentChunker";
+
+const sentence = (index: number) => `문장 ${index}번은 테스트용 내용입니다.`;
+
+describe("splitPages", () => {
+  it("페이지 마커 기준 분리, 마커 앞 텍스트는 1페이지", () => {
+    expect(
+      splitPages("머리말\n=== 페이지 2 ===\n본문\n=== 페이지 3 ===\n"),
+    ).toEqual([
+      { pageNumber: 1, content: "머리말" },
+      { pageNumber: 2, content: "본문" },
+    ]);
+    expect(splitPages(joinPages(["첫 장", "둘째 장"]))).toEqual([
+      { pageNumber: 1, content: "첫 장" },
+      { pageNumber: 2, content: "둘째 장" },
+    ]);
+  });
+});
+
+describe("chunkPagedText", () => {
+  it("제목에서 새 청크를 시작하고 앞 섹션 내용은 겹치지 않음", () => {
+    const text = joinPages([
+      `1. 개요\n${sentence(1)} ${sentence(2)}\n\n2. 신청 방법\n${sentence(3)}`,
+    ]);
+
+    const chunks = chunkPagedText(text, {
+      maxChunkSize: 200,
+      minChunkSize: 10,
+      overlap: 50,
+    });
+
+    expect(chunks.map((chunk) => [chunk.title, chunk.chunkType])).toEqual([
+      ["1. 개요", "section"],
+      ["2. 신청 방법", "section"],
+    ]);
+    expect(chunks[1].content).toBe(`2. 신청 방법\n\n${sentence(3)}`);
+  });
+
+  it("최대 크기를 넘으면 문장 경계에서 나누고 앞 청크 끝 문장을 겹침", () => {
+    const text = Array.from({ length: 6 }, (_, i) => sentence(i + 1)).join(" ");
+
+    const chunks = chunkPagedText(text, {
+      maxChunkSize: 70,
+      minChunkSize: 10,
+      overlap: 30,
+    });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk) => {
+      expect(chunk.content.length).toBeLessThanOrEqual(70);
+      expect(chunk.content).toMatch(/입니다\.$/);
+    });
+    for (let i = 1; i < chunks.length; i++) {
+      const lastSentence = chunks[i - 1].content.match(/문장 \d+번은 [^.]+\.$/);
+      expect(lastSentence).not.toBeNull();
+      expect(chunks[i].content.startsWith(lastSentence?.[0] ?? "")).toBe(true);
+    }
+  });
+
+  it("overlap 0이면 겹치지 않음", () => {
+    const text = Array.from({ length: 6 }, (_, i) => sentence(i + 1)).join(" ");
+
+    const chunks = chunkPagedText(text, {
+      maxChunkSize: 70,
+      minChunkSize: 10,
+      overlap: 0,
+    });
+
+    expect(chunks.map((chunk) => chunk.content).join(" ")).toBe(text);
+  });
+
+  it("페이지에 걸친 청크는 시작 페이지와 페이지 범위 유지", () => {
+    const text = joinPages([sentence(1), sentence(2), sentence(3)]);
+
+    const [chunk] = chunkPagedText(text, { maxChunkSize: 500 });
+
+    expect(chunk.pageNumber).toBe(1);
+    expect(chunk.pageRange).toBe("1-3");
+  });
+});
+
+describe("createTextChunkRecords", () => {
+  it("페이지 라벨과 청크 정보를 metadata에 기록", () => {
+    const records = createTextChunkRecords(
+      joinPages(["", `■ 환불 안내\n${sentence(1)}`, sentence(2)]),
+      { maxChunkSize: 500 },
+    );
+
+    expect(records).toHaveLength(1);
+    expect(records[0].pageNumber).toBe(2);
+    expect(records[0].metadata).toMatchObject({
+      pageLabel: "2-3페이지",
+      pageRange: "2-3",
+      title: "■ 환불 안내",
+      chunkType: "section",
+    });
+  });
+});
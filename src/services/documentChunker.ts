@@ -0,0 +1,443 @@
+/**
+ * Document Chunker
+ * 페이지 마커(=== 페이지 N ===)가 포함된 문서 텍스트의 페이지 보존 청킹
+ * - 클라이언트 기본 처리(pdfProcessingService)와 서버 analyze-document 공용
+ * - 제목/단락/문장 경계에서 분할, semanticChunkOverlap만큼 앞 청크 끝을 이어붙임
+ * - 청크마다 시작 페이지(pageNumber)와 걸친 페이지 범위(pageRange) 유지
+ * - 표는 행 단위 "열: 값" 텍스트로 직렬화 (수치 질문 검색용)
+ * - 청크 레코드(내용/페이지/메타데이터) 생성은 클라이언트와 서버 ingestion 워커 공용
+ * - 표지/목차/저작권 안내처럼 검색에 방해되는 청크는 metadata.boilerplateReason으로 제외 추천
+ */
+
+// 서버(api/)에서도 import하므로 .js 확장자 사용
+import type { DocumentTable, PDFChunk } from "../types.js";
+import { defaultConfig } from "./config.js";
+
+export interface PageText {
+  pageNumber: number;
+  content: string;
+}
+
+export interface TextChunk {
+  content: string;
+  pageNumber: number;
+  /** 여러 페이지에 걸친 경우 "3-4" */
+  pageRange?: string;
+  chunkType: "section" | "paragraph";
+  /** 제목으로 시작하는 청크의 제목 */
+  title?: string;
+}
+
+/** DB 저장 전 청크 (id/documentId/chunkIndex는 저장 측에서 부여) */
+export type ChunkRecord = Pick<PDFChunk, "content" | "pageNumber" | "metadata">;
+
+export interface ChunkOptions {
+  maxChunkSize?: number;
+  minChunkSize?: number;
+  overlap?: number;
+}
+
+interface Segment {
+  text: string;
+  pageNumber: number;
+  isHeading: boolean;
+  /** 앞 세그먼트와 같은 단락에서 이어지는 문장 */
+  continuesBlock: boolean;
+}
+
+const PAGE_MARKER_PATTERN = /=== 페이지 (\d+) ===/g;
+
+// 번호/기호로 시작하는 짧은 줄 (1. 개요, 제3조, 가. 신청, ■ 안내, ## 제목)
+const HEADING_PATTERN =
+  /^(#{1,6}\s|제\s*\d+\s*[장절조항]|\d+(\.\d+)*[.)]\s|[IVX]+\.\s|[가-하]\.\s|[■□▶◆●【])/;
+const MAX_HEADING_LENGTH = 60;
+
+const SENTENCE_BOUNDARY = /(?<=[.!?。])\s+/;
+
+// 상투적 청크 감지 (제외 추천만, 실제 제외는 관리자가 결정)
+const TOC_HEADING_PATTERN =
+  /^\s*(목\s*차|차\s*례|contents|table of contents)\s*$/im;
+// "1. 개요 ........ 3" 처럼 점선/공백 뒤 페이지 번호로 끝나는 줄
+const TOC_LINE_PATTERN = /(\.{3,}|·{3,}|…+|-{3,}|\s{2,})\s*\d{1,4}\s*$/;
+const COPYRIGHT_PATTERN =
+  /(copyright|all rights reserved|ⓒ|©|무단\s*(전재|복제|배포)|저작권)/i;
+const MIN_MEANINGFUL_CHARS = 20;
+const MAX_COVER_LENGTH = 300;
+const MAX_NOTICE_LENGTH = 300;
+const MIN_REPEAT_COUNT = 3;
+
+export function formatPageMarker(pageNumber: number): string {
+  return `=== 페이지 ${pageNumber} ===`;
+}
+
+export function formatPageLabel(
+  pageNumber: number,
+  pageRange?: string,
+): string {
+  return `${pageRange ?? pageNumber}페이지`;
+}
+
+/**
+ * 페이지별 텍스트를 페이지 마커 형식으로 결합 (pages[i] = i+1 페이지)
+ */
+export function joinPages(pages: string[]): string {
+  return pages
+    .map((content, index) => `${formatPageMarker(index + 1)}\n${content}`)
+    .join("\n\n");
+}
+
+/**
+ * 페이지 마커 기준으로 텍스트 분리 (마커가 없으면 전체를 1페이지로)
+ */
+export function splitPages(text: string): PageText[] {
+  const pages: PageText[] = [];
+  const matches = Array.from(text.matchAll(PAGE_MARKER_PATTERN));
+
+  if (matches.length === 0) {
+    return text.trim() ? [{ pageNumber: 1, content: text.trim() }] : [];
+  }
+
+  const leading = text.substring(0, matches[0].index).trim();
+  if (leading) {
+    pages.push({ pageNumber: 1, content: leading });
+  }
+
+  matches.forEach((match, index) => {
+    const start = match.index + match[0].length;
+    const end = matches[index + 1]?.index ?? text.length;
+    const content = text.substring(start, end).trim();
+    if (content) {
+      pages.push({ pageNumber: parseInt(match[1], 10), content });
+    }
+  });
+
+  return pages;
+}
+
+function isHeading(line: string): boolean {
+  const trimmed = line.trim();
+  return (
+    trimmed.length > 0 &&
+    trimmed.length <= MAX_HEADING_LENGTH &&
+    HEADING_PATTERN.test(trimmed) &&
+    !/[.!?。]$/.test(trimmed)
+  );
+}
+
+/**
+ * 긴 문장은 공백 기준으로 maxSize 이하로 분할
+ */
+function splitLongText(text: string, maxSize: number): string[] {
+  if (text.length <= maxSize) return [text];
+
+  const parts: string[] = [];
+  let rest = text;
+  while (rest.length > maxSize) {
+    const cut = rest.lastIndexOf(" ", maxSize);
+    const index = cut > maxSize / 2 ? cut : maxSize;
+    parts.push(rest.substring(0, index).trim());
+    rest = rest.substring(index).trim();
+  }
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+/**
+ * 페이지 → 세그먼트(제목 / 단락 / 긴 단락은 문장) 분해
+ */
+function toSegments(pages: PageText[], maxSize: number): Segment[] {
+  const segments: Segment[] = [];
+
+  pages.forEach(({ pageNumber, content }) => {
+    const blocks: Array<{ text: string; isHeading: boolean }> = [];
+
+    content.split(/\n\s*\n/).forEach((block) => {
+      let lines: string[] = [];
+      const flushLines = () => {
+        const text = lines.join(" ").replace(/\s+/g, " ").trim();
+        if (text) blocks.push({ text, isHeading: false });
+        lines = [];
+      };
+
+      block.split("\n").forEach((line) => {
+        if (isHeading(line)) {
+          flushLines();
+          blocks.push({ text: line.trim(), isHeading: true });
+        } else {
+          lines.push(line);
+        }
+      });
+      flushLines();
+    });
+
+    blocks.forEach((block) => {
+      if (block.isHeading || block.text.length <= maxSize) {
+        segments.push({ ...block, pageNumber, continuesBlock: false });
+        return;
+      }
+
+      block.text
+        .split(SENTENCE_BOUNDARY)
+        .flatMap((sentence) => splitLongText(sentence, maxSize))
+        .forEach((sentence, index) =>
+          segments.push({
+            text: sentence,
+            pageNumber,
+            isHeading: false,
+            continuesBlock: index > 0,
+          }),
+        );
+    });
+  });
+
+  return segments;
+}
+
+/**
+ * 청크 끝에서 overlap 글자 이내의 문장(없으면 단어 경계) 추출
+ */
+function takeOverlap(content: string, overlap: number): string {
+  if (overlap <= 0) return "";
+
+  const sentences = content.split(SENTENCE_BOUNDARY);
+  let tail = "";
+  for (let i = sentences.length - 1; i >= 0; i--) {
+    const next = tail ? `${sentences[i]} ${tail}` : sentences[i];
+    if (next.length > overlap) break;
+    tail = next;
+  }
+  if (tail) return tail;
+
+  const slice = content.slice(-overlap);
+  const wordStart = slice.indexOf(" ");
+  return wordStart >= 0 ? slice.substring(wordStart + 1) : "";
+}
+
+/**
+ * 페이지 마커 텍스트를 청크로 분할
+ */
+export function chunkPagedText(
+  text: string,
+  options: ChunkOptions = {},
+): TextChunk[] {
+  const maxSize = options.maxChunkSize ?? defaultConfig.chunking.maxChunkSize;
+  const minSize = options.minChunkSize ?? defaultConfig.chunking.minChunkSize;
+  const overlap =
+    options.overlap ?? defaultConfig.chunking.semanticChunkOverlap;
+
+  const chunks: TextChunk[] = [];
+  let content = "";
+  let pages: number[] = [];
+  let title: string | undefined;
+  let hasBody = false;
+
+  const flush = () => {
+    if (!hasBody) return;
+
+    const first = Math.min(...pages);
+    const last = Math.max(...pages);
+    chunks.push({
+      content: content.trim(),
+      pageNumber: first,
+      pageRange: first !== last ? `${first}-${last}` : undefined,
+      chunkType: title ? "section" : "paragraph",
+      title,
+    });
+
+    const tail = takeOverlap(content, overlap);
+    content = tail;
+    pages = tail ? [last] : [];
+    title = undefined;
+    hasBody = false;
+  };
+
+  toSegments(splitPages(text), maxSize).forEach((segment) => {
+    if (segment.isHeading && content.length >= minSize) {
+      flush();
+      // 새 섹션은 앞 섹션 내용을 겹치지 않음
+      content = "";
+      pages = [];
+    }
+
+    const separator = () =>
+      !content ? "" : segment.continuesBlock ? " " : "\n\n";
+    if (
+      hasBody &&
+      content.length + separator().length + segment.text.length > maxSize
+    ) {
+      flush();
+    }
+
+    if (segment.isHeading && !hasBody && !title) {
+      title = segment.text;
+    }
+    content += separator() + segment.text;
+    pages.push(segment.pageNumber);
+    hasBody = true;
+  });
+
+  flush();
+  return chunks;
+}
+
+/**
+ * 표를 검색용 텍스트로 직렬화
+ * 행마다 "열 이름: 값"을 나열해 "20대 응답 비율" 같은 질문이 행/열 모두와 매칭되도록 하고,
+ * maxChunkSize를 넘으면 제목/열 정보를 반복하며 행 단위로 분할
+ */
+export function serializeTable(
+  table: DocumentTable,
+  maxChunkSize: number = defaultConfig.chunking.maxChunkSize,
+): string[] {
+  const heading = [
+    `[표] ${table.title || "제목 없음"}${table.pageNumber ? ` (${table.pageNumber}페이지)` : ""}`,
+  ];
+  const hasHeaders = table.headers.some((header) => header.trim());
+  if (hasHeaders) {
+    heading.push(`열: ${table.headers.join(" | ")}`);
+  }
+
+  const lines = table.rows.map((row) =>
+    hasHeaders
+      ? row
+          .map((value, index) =>
+            value
+              ? `${table.headers[index] || `열${index + 1}`}: ${value}`
+              : "",
+          )
+          .filter(Boolean)
+          .join(" | ")
+      : row.filter(Boolean).join(" | "),
+  );
+
+  const header = heading.join("\n");
+  const parts: string[] = [];
+  let current: string[] = [];
+
+  lines.forEach((line) => {
+    const length =
+      header.length + current.reduce((sum, row) => sum + row.length + 1, 0);
+    if (current.length > 0 && length + line.length + 1 > maxChunkSize) {
+      parts.push([header, ...current].join("\n"));
+      current = [];
+    }
+    current.push(line);
+  });
+  if (current.length > 0 || parts.length === 0) {
+    parts.push([header, ...current].join("\n"));
+  }
+
+  return parts;
+}
+
+/**
+ * 검색 제외를 추천할 상투적 청크의 사유 (해당 없으면 null)
+ * @param repeatCount 문서 안에서 같은 내용이 나온 횟수 (머리글/바닥글 반복)
+ */
+export function detectBoilerplateReason(
+  content: string,
+  position: { index: number; pageNumber: number },
+  repeatCount = 1,
+): string | null {
+  const lines = content
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const tocLines = lines.filter((line) => TOC_LINE_PATTERN.test(line));
+
+  if (
+    TOC_HEADING_PATTERN.test(content) ||
+    (lines.length >= 4 && tocLines.length / lines.length >= 0.5)
+  ) {
+    return "목차";
+  }
+  if (content.replace(/[^가-힣a-zA-Z]/g, "").length < MIN_MEANINGFUL_CHARS) {
+    return "내용이 거의 없음";
+  }
+  if (repeatCount >= MIN_REPEAT_COUNT) {
+    return "반복되는 머리글/바닥글";
+  }
+  if (COPYRIGHT_PATTERN.test(content) && content.length <= MAX_NOTICE_LENGTH) {
+    return "저작권 안내";
+  }
+  if (
+    position.index === 0 &&
+    position.pageNumber === 1 &&
+    content.length <= MAX_COVER_LENGTH &&
+    !/[.!?。]/.test(content)
+  ) {
+    return "표지";
+  }
+  return null;
+}
+
+/**
+ * 청크 레코드에 검색 제외 추천 사유 표시 (metadata.boilerplateReason)
+ */
+export function markBoilerplateChunks(records: ChunkRecord[]): ChunkRecord[] {
+  const normalize = (content: string) => content.replace(/\s+/g, " ").trim();
+  const counts = new Map<string, number>();
+  records.forEach((record) => {
+    const key = normalize(record.content);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  return records.map((record, index) => {
+    const reason = detectBoilerplateReason(
+      record.content,
+      { index, pageNumber: record.pageNumber },
+      counts.get(normalize(record.content)),
+    );
+    return reason
+      ? {
+          ...record,
+          metadata: { ...record.metadata, boilerplateReason: reason },
+        }
+      : record;
+  });
+}
+
+/**
+ * 페이지 보존 청킹 결과를 청크 레코드로 변환
+ */
+export function createTextChunkRecords(
+  text: string,
+  options: ChunkOptions = {},
+): ChunkRecord[] {
+  return markBoilerplateChunks(
+    chunkPagedText(text, options).map((chunk) => ({
+      content: chunk.content,
+      pageNumber: chunk.pageNumber,
+      metadata: {
+        pageLabel: formatPageLabel(chunk.pageNumber, chunk.pageRange),
+        pageRange: chunk.pageRange,
+        title: chunk.title,
+        chunkType: chunk.chunkType,
+        importance: "medium",
+      },
+    })),
+  );
+}
+
+/**
+ * 표 청크 레코드 (chunkType "table", tableIndex는 metadata.tables 내 위치)
+ */
+export function createTableChunkRecords(
+  tables: DocumentTable[],
+): ChunkRecord[] {
+  return tables.flatMap((table, tableIndex) =>
+    serializeTable(table).map((content) => ({
+      content,
+      pageNumber: table.pageNumber ?? 1,
+      metadata: {
+        pageLabel: table.pageNumber
+          ? formatPageLabel(table.pageNumber)
+          : undefined,
+        title: table.title || "표",
+        chunkType: "table" as const,
+        tableIndex,
+        importance: "medium" as const,
+      },
+    })),
+  );
+}
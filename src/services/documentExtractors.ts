@@ -0,0 +1,714 @@
+/**
+ * Document Extractors
+ * MIME 타입별 문서 텍스트 추출기 (PDFProcessingService 레지스트리에 등록)
+ * - 결과 텍스트는 PDF와 같은 "=== 페이지 N ===" 마커 형식 (documentChunker로 청킹)
+ * - 제목은 "# " 접두어로 표시해 섹션 경계에서 청크 분할
+ * - DOCX/PPTX/HWPX는 ZIP+XML, HWP 5.0은 CFB(OLE) 레코드를 직접 파싱 (xlsx 번들 CFB 사용)
+ */
+
+import * as XLSX from "xlsx";
+import type { DocumentTable, OcrMode, OcrPageResult } from "../types";
+import { joinPages } from "./documentChunker";
+
+export interface ExtractedDocument {
+  /** 페이지 마커가 포함된 전체 텍스트 */
+  text: string;
+  numPages: number;
+  tables?: DocumentTable[];
+  ocrPages?: OcrPageResult[];
+}
+
+export interface ExtractionContext {
+  ocrMode: OcrMode;
+  onPageProgress?: (pageNum: number, numPages: number) => void;
+}
+
+export interface DocumentExtractor {
+  label: string;
+  extensions: string[];
+  extract(file: File, context: ExtractionContext): Promise<ExtractedDocument>;
+}
+
+interface CfbEntry {
+  content: Uint8Array;
+}
+
+interface CfbContainer {
+  FullPaths: string[];
+  FileIndex: CfbEntry[];
+}
+
+/**
+ * 페이지 단위 텍스트 누적 (페이지 구분 / 제목 / 표)
+ */
+class PageBuilder {
+  private pages: string[][] = [[]];
+  readonly tables: DocumentTable[] = [];
+
+  get pageNumber(): number {
+    return this.pages.length;
+  }
+
+  addLine(text: string) {
+    const line = text.replace(/[ \t\u00a0]+/g, " ").trim();
+    if (line) this.pages[this.pages.length - 1].push(line);
+  }
+
+  addHeading(text: string, level: number = 1) {
+    const heading = text.replace(/\s+/g, " ").trim();
+    if (heading) {
+      this.pages[this.pages.length - 1].push(
+        `${"#".repeat(Math.min(Math.max(level, 1), 6))} ${heading}`,
+      );
+    }
+  }
+
+  addTable(cells: string[][], title?: string) {
+    const rows = cells
+      .map((row) => row.map((cell) => cell.replace(/\s+/g, " ").trim()))
+      .filter((row) => row.some(Boolean));
+    if (rows.length === 0) return;
+
+    rows.forEach((row) => this.addLine(row.join(" | ")));
+    if (rows.length >= 2) {
+      this.tables.push({
+        title,
+        headers: rows[0],
+        rows: rows.slice(1),
+        pageNumber: this.pageNumber,
+      });
+    }
+  }
+
+  breakPage() {
+    if (this.pages[this.pages.length - 1].length > 0) {
+      this.pages.push([]);
+    }
+  }
+
+  build(fileName: string): ExtractedDocument {
+    const pages = this.pages.map((lines) => lines.join("\n\n"));
+    // 문서 끝의 페이지 나누기로 생긴 빈 페이지 제거
+    while (pages.length > 1 && !pages[pages.length - 1]) pages.pop();
+    if (pages.every((page) => !page.trim())) {
+      throw new Error(`${fileName}에서 텍스트를 추출할 수 없습니다.`);
+    }
+
+    return {
+      text: joinPages(pages),
+      numPages: pages.length,
+      tables: this.tables,
+    };
+  }
+}
+
+async function readContainer(file: File): Promise<CfbContainer> {
+  const data = new Uint8Array(await file.arrayBuffer());
+  return XLSX.CFB.read(data, { type: "buffer" }) as CfbContainer;
+}
+
+/**
+ * 컨테이너 내부 경로로 항목 조회 (ZIP/CFB 모두 "Root Entry/" 하위)
+ */
+function findEntry(
+  container: CfbContainer,
+  path: string,
+): Uint8Array | undefined {
+  const target = `/${path}`.toLowerCase();
+  const index = container.FullPaths.findIndex((fullPath) =>
+    fullPath.toLowerCase().endsWith(target),
+  );
+  return index >= 0 ? container.FileIndex[index].content : undefined;
+}
+
+function readXml(container: CfbContainer, path: string): Document | null {
+  const content = findEntry(container, path);
+  if (!content) return null;
+
+  const xml = new TextDecoder("utf-8").decode(content);
+  return new DOMParser().parseFromString(xml, "application/xml");
+}
+
+function children(element: Element, tagName: string): Element[] {
+  return Array.from(element.children).filter(
+    (child) => child.tagName === tagName,
+  );
+}
+
+/**
+ * 관계 파일(.rels)의 Id → Target 매핑
+ */
+function readRelationships(
+  container: CfbContainer,
+  path: string,
+): Map<string, { target: string; type: string }> {
+  const rels = new Map<string, { target: string; type: string }>();
+  const doc = readXml(container, path);
+  Array.from(doc?.getElementsByTagName("Relationship") ?? []).forEach((rel) =>
+    rels.set(rel.getAttribute("Id") || "", {
+      target: rel.getAttribute("Target") || "",
+      type: rel.getAttribute("Type") || "",
+    }),
+  );
+  return rels;
+}
+
+/**
+ * 텍스트 파일 디코딩 (UTF-8 실패 시 EUC-KR)
+ */
+async function decodeText(file: File): Promise<string> {
+  const data = await file.arrayBuffer();
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(data);
+  } catch {
+    return new TextDecoder("euc-kr").decode(data);
+  }
+}
+
+// ----------------------------------------------------------------------------
+// DOCX (Word)
+// ----------------------------------------------------------------------------
+
+/** 제목 스타일 ID → 제목 수준 (styles.xml의 heading N / Title / 제목 N) */
+function readDocxHeadingStyles(container: CfbContainer): Map<string, number> {
+  const headingStyles = new Map<string, number>();
+  const styles = readXml(container, "word/styles.xml");
+
+  Array.from(styles?.getElementsByTagName("w:style") ?? []).forEach((style) => {
+    const styleId = style.getAttribute("w:styleId");
+    const name =
+      children(style, "w:name")[0]?.getAttribute("w:val")?.toLowerCase() ?? "";
+    const match = name.match(/^(?:heading|제목)\s*(\d)$/);
+    if (!styleId) return;
+    if (match) {
+      headingStyles.set(styleId, parseInt(match[1], 10));
+    } else if (name === "title" || name === "제목") {
+      headingStyles.set(styleId, 1);
+    }
+  });
+
+  return headingStyles;
+}
+
+function docxParagraph(
+  paragraph: Element,
+  builder: PageBuilder,
+  headingStyles: Map<string, number>,
+) {
+  const props = children(paragraph, "w:pPr")[0];
+  const styleId = props
+    ? children(props, "w:pStyle")[0]?.getAttribute("w:val")
+    : undefined;
+  const outlineLevel = props
+    ? children(props, "w:outlineLvl")[0]?.getAttribute("w:val")
+    : undefined;
+  const headingLevel =
+    (styleId && headingStyles.get(styleId)) ||
+    (outlineLevel !== undefined && outlineLevel !== null
+      ? parseInt(outlineLevel, 10) + 1
+      : 0);
+
+  let text = "";
+  const flush = () => {
+    if (headingLevel) builder.addHeading(text, headingLevel);
+    else text.split("\n").forEach((line) => builder.addLine(line));
+    text = "";
+  };
+
+  const walk = (element: Element) => {
+    Array.from(element.children).forEach((child) => {
+      switch (child.tagName) {
+        case "w:t":
+          text += child.textContent ?? "";
+          break;
+        case "w:tab":
+          text += "\t";
+          break;
+        case "w:br":
+          if (child.getAttribute("w:type") === "page") {
+            flush();
+            builder.breakPage();
+          } else {
+            text += "\n";
+          }
+          break;
+        case "w:lastRenderedPageBreak":
+          // Word가 마지막 저장 시 계산한 페이지 경계
+          flush();
+          builder.breakPage();
+          break;
+        case "w:pPr":
+        case "w:rPr":
+        case "w:instrText":
+        case "w:delText":
+          break;
+        default:
+          walk(child);
+      }
+    });
+  };
+
+  walk(paragraph);
+  flush();
+}
+
+function docxCellText(cell: Element): string {
+  return Array.from(cell.getElementsByTagName("w:p"))
+    .map((paragraph) =>
+      Array.from(paragraph.getElementsByTagName("w:t"))
+        .map((t) => t.textContent ?? "")
+        .join(""),
+    )
+    .filter(Boolean)
+    .join(" ");
+}
+
+const docxExtractor: DocumentExtractor = {
+  label: "Word",
+  extensions: [".docx"],
+  async extract(file) {
+    const container = await readContainer(file);
+    const document = readXml(container, "word/document.xml");
+    const body = document?.getElementsByTagName("w:body")[0];
+    if (!body) {
+      throw new Error("Word 문서 본문(word/document.xml)을 찾을 수 없습니다.");
+    }
+
+    const headingStyles = readDocxHeadingStyles(container);
+    const builder = new PageBuilder();
+
+    Array.from(body.children).forEach((element) => {
+      if (element.tagName === "w:p") {
+        docxParagraph(element, builder, headingStyles);
+      } else if (element.tagName === "w:tbl") {
+        builder.addTable(
+          children(element, "w:tr").map((row) =>
+            children(row, "w:tc").map(docxCellText),
+          ),
+        );
+      } else if (element.tagName === "w:sdt") {
+        // 콘텐츠 컨트롤(목차 등) 내부 단락
+        Array.from(element.getElementsByTagName("w:p")).forEach((paragraph) =>
+          docxParagraph(paragraph, builder, headingStyles),
+        );
+      }
+    });
+
+    return builder.build(file.name);
+  },
+};
+
+// ----------------------------------------------------------------------------
+// PPTX (PowerPoint) - 슬라이드 1장 = 1페이지
+// ----------------------------------------------------------------------------
+
+function drawingParagraphs(element: Element): string[] {
+  return Array.from(element.getElementsByTagName("a:p")).map((paragraph) =>
+    Array.from(paragraph.children)
+      .map((child) => {
+        if (child.tagName === "a:br") return "\n";
+        return Array.from(child.getElementsByTagName("a:t"))
+          .map((t) => t.textContent ?? "")
+          .join("");
+      })
+      .join(""),
+  );
+}
+
+/**
+ * 슬라이드 순서 (presentation.xml sldIdLst, 없으면 파일 번호순)
+ */
+function pptxSlidePaths(container: CfbContainer): string[] {
+  const presentation = readXml(container, "ppt/presentation.xml");
+  const rels = readRelationships(container, "ppt/_rels/presentation.xml.rels");
+  const ordered = Array.from(
+    presentation?.getElementsByTagName("p:sldId") ?? [],
+  )
+    .map((slide) => rels.get(slide.getAttribute("r:id") || "")?.target)
+    .filter((target): target is string => !!target)
+    .map((target) => `ppt/${target.replace(/^\/?(ppt\/)?/, "")}`);
+
+  if (ordered.length > 0) return ordered;
+
+  return container.FullPaths.map((path) =>
+    path.match(/ppt\/slides\/slide(\d+)\.xml$/i),
+  )
+    .filter((match): match is RegExpMatchArray => !!match)
+    .sort((a, b) => parseInt(a[1], 10) - parseInt(b[1], 10))
+    .map((match) => match[0]);
+}
+
+const pptxExtractor: DocumentExtractor = {
+  label: "PowerPoint",
+  extensions: [".pptx"],
+  async extract(file, context) {
+    const container = await readContainer(file);
+    const slidePaths = pptxSlidePaths(container);
+    if (slidePaths.length === 0) {
+      throw new Error("PowerPoint 슬라이드를 찾을 수 없습니다.");
+    }
+
+    const builder = new PageBuilder();
+
+    slidePaths.forEach((slidePath, index) => {
+      context.onPageProgress?.(index + 1, slidePaths.length);
+      if (index > 0) builder.breakPage();
+
+      const slide = readXml(container, slidePath);
+      if (!slide) return;
+
+      Array.from(slide.getElementsByTagName("p:sp")).forEach((shape) => {
+        const placeholder = shape
+          .getElementsByTagName("p:ph")[0]
+          ?.getAttribute("type");
+        const paragraphs = drawingParagraphs(shape);
+
+        if (placeholder === "title" || placeholder === "ctrTitle") {
+          builder.addHeading(paragraphs.join(" "));
+        } else {
+          paragraphs.forEach((paragraph) =>
+            paragraph.split("\n").forEach((line) => builder.addLine(line)),
+          );
+        }
+      });
+
+      Array.from(slide.getElementsByTagName("a:tbl")).forEach((table) =>
+        builder.addTable(
+          children(table, "a:tr").map((row) =>
+            children(row, "a:tc").map((cell) =>
+              drawingParagraphs(cell).join(" "),
+            ),
+          ),
+        ),
+      );
+
+      // 발표자 노트
+      const slideFile = slidePath.split("/").pop();
+      const notesTarget = Array.from(
+        readRelationships(
+          container,
+          `ppt/slides/_rels/${slideFile}.rels`,
+        ).values(),
+      ).find((rel) => rel.type.endsWith("/notesSlide"))?.target;
+      const notes = notesTarget
+        ? readXml(container, `ppt/notesSlides/${notesTarget.split("/").pop()}`)
+        : null;
+      const noteText = notes
+        ? Array.from(notes.getElementsByTagName("p:sp"))
+            .filter(
+              (shape) =>
+                shape.getElementsByTagName("p:ph")[0]?.getAttribute("type") ===
+                "body",
+            )
+            .flatMap(drawingParagraphs)
+            .join(" ")
+            .trim()
+        : "";
+      if (noteText) builder.addLine(`발표자 노트: ${noteText}`);
+    });
+
+    return builder.build(file.name);
+  },
+};
+
+// ----------------------------------------------------------------------------
+// HWP 5.0 (한글) - 구역(Section) 1개 = 1페이지
+// ----------------------------------------------------------------------------
+
+const HWPTAG_PARA_TEXT = 0x10 + 51;
+
+// 1 WCHAR 크기의 문자 컨트롤 (나머지 제어 문자는 8 WCHAR 인라인/확장 컨트롤)
+const HWP_CHAR_CONTROLS = new Set([0, 10, 13, 24, 25, 26, 27, 28, 29, 30, 31]);
+
+function decodeHwpParaText(data: Uint8Array): string {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let text = "";
+  let i = 0;
+
+  while (i + 1 < data.byteLength) {
+    const code = view.getUint16(i, true);
+    if (code >= 32) {
+      text += String.fromCharCode(code);
+      i += 2;
+    } else if (HWP_CHAR_CONTROLS.has(code)) {
+      if (code === 10 || code === 13) text += "\n";
+      i += 2;
+    } else {
+      if (code === 9) text += "\t";
+      i += 16;
+    }
+  }
+
+  return text;
+}
+
+function parseHwpSection(data: Uint8Array, builder: PageBuilder) {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 0;
+
+  while (offset + 4 <= data.byteLength) {
+    const header = view.getUint32(offset, true);
+    offset += 4;
+    const tagId = header & 0x3ff;
+    let size = (header >>> 20) & 0xfff;
+    if (size === 0xfff) {
+      size = view.getUint32(offset, true);
+      offset += 4;
+    }
+
+    if (tagId === HWPTAG_PARA_TEXT) {
+      decodeHwpParaText(data.subarray(offset, offset + size))
+        .split("\n")
+        .forEach((line) => builder.addLine(line));
+    }
+    offset += size;
+  }
+}
+
+const hwpExtractor: DocumentExtractor = {
+  label: "한글(HWP)",
+  extensions: [".hwp"],
+  async extract(file, context) {
+    const container = await readContainer(file);
+    const fileHeader = findEntry(container, "FileHeader");
+    const signature = fileHeader
+      ? new TextDecoder("ascii").decode(fileHeader.subarray(0, 17))
+      : "";
+    if (!fileHeader || signature !== "HWP Document File") {
+      throw new Error("HWP 5.0 형식 문서가 아닙니다.");
+    }
+
+    const properties = new DataView(
+      fileHeader.buffer,
+      fileHeader.byteOffset,
+      fileHeader.byteLength,
+    ).getUint32(36, true);
+    if (properties & 0x2) {
+      throw new Error("암호가 설정된 HWP 문서는 지원하지 않습니다.");
+    }
+    if (properties & 0x4) {
+      throw new Error("배포용 HWP 문서는 지원하지 않습니다.");
+    }
+    const compressed = (properties & 0x1) !== 0;
+
+    const sections: Uint8Array[] = [];
+    for (
+      let section = findEntry(container, "BodyText/Section0");
+      section;
+      section = findEntry(container, `BodyText/Section${sections.length}`)
+    ) {
+      sections.push(section);
+    }
+
+    const builder = new PageBuilder();
+    sections.forEach((section, index) => {
+      context.onPageProgress?.(index + 1, sections.length);
+      if (index > 0) builder.breakPage();
+
+      const data = compressed
+        ? (XLSX.CFB.utils._inflateRaw(
+            Object.assign(new Uint8Array(section), { l: 0 }),
+            0,
+          ) as Uint8Array)
+        : section;
+      parseHwpSection(data, builder);
+    });
+
+    return builder.build(file.name);
+  },
+};
+
+// ----------------------------------------------------------------------------
+// HWPX (한글 OWPML) - 구역(section) 1개 = 1페이지
+// ----------------------------------------------------------------------------
+
+function byLocalName(element: Element | Document, name: string): Element[] {
+  return Array.from(element.getElementsByTagNameNS("*", name));
+}
+
+function hwpxParagraphText(paragraph: Element): string {
+  return byLocalName(paragraph, "t")
+    .map((t) => t.textContent ?? "")
+    .join("");
+}
+
+const hwpxExtractor: DocumentExtractor = {
+  label: "한글(HWPX)",
+  extensions: [".hwpx"],
+  async extract(file, context) {
+    const container = await readContainer(file);
+    const sectionPaths = container.FullPaths.map((path) =>
+      path.match(/Contents\/section(\d+)\.xml$/i),
+    )
+      .filter((match): match is RegExpMatchArray => !!match)
+      .sort((a, b) => parseInt(a[1], 10) - parseInt(b[1], 10))
+      .map((match) => match[0]);
+
+    const builder = new PageBuilder();
+    sectionPaths.forEach((path, index) => {
+      context.onPageProgress?.(index + 1, sectionPaths.length);
+      if (index > 0) builder.breakPage();
+
+      const section = readXml(container, path);
+      if (!section?.documentElement) return;
+
+      // 표 안의 단락은 표로 따로 처리
+      const walk = (element: Element) => {
+        Array.from(element.children).forEach((child) => {
+          if (child.localName === "tbl") {
+            builder.addTable(
+              byLocalName(child, "tr").map((row) =>
+                byLocalName(row, "tc").map((cell) =>
+                  byLocalName(cell, "p").map(hwpxParagraphText).join(" "),
+                ),
+              ),
+            );
+          } else if (child.localName === "p") {
+            const nested = byLocalName(child, "tbl");
+            if (nested.length > 0) {
+              walk(child);
+            } else {
+              builder.addLine(hwpxParagraphText(child));
+            }
+          } else {
+            walk(child);
+          }
+        });
+      };
+      walk(section.documentElement);
+    });
+
+    return builder.build(file.name);
+  },
+};
+
+// ----------------------------------------------------------------------------
+// TXT / HTML
+// ----------------------------------------------------------------------------
+
+const textExtractor: DocumentExtractor = {
+  label: "텍스트",
+  extensions: [".txt", ".md"],
+  async extract(file) {
+    const builder = new PageBuilder();
+    // 폼 피드(\f)는 페이지 구분으로 처리
+    (await decodeText(file)).split("\f").forEach((page, index) => {
+      if (index > 0) builder.breakPage();
+      page
+        .split(/\r?\n\s*\r?\n/)
+        .forEach((paragraph) =>
+          builder.addLine(paragraph.replace(/\s+/g, " ")),
+        );
+    });
+    return builder.build(file.name);
+  },
+};
+
+const HTML_SKIP_TAGS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "head",
+  "nav",
+  "iframe",
+  "svg",
+]);
+
+const HTML_BLOCK_TAGS = new Set([
+  "p",
+  "div",
+  "li",
+  "ul",
+  "ol",
+  "dl",
+  "dt",
+  "dd",
+  "section",
+  "article",
+  "header",
+  "footer",
+  "main",
+  "aside",
+  "blockquote",
+  "pre",
+  "br",
+  "hr",
+  "figure",
+  "figcaption",
+]);
+
+const htmlExtractor: DocumentExtractor = {
+  label: "HTML",
+  extensions: [".html", ".htm"],
+  async extract(file) {
+    const html = new DOMParser().parseFromString(
+      await decodeText(file),
+      "text/html",
+    );
+    const builder = new PageBuilder();
+    let line = "";
+    const flush = () => {
+      builder.addLine(line);
+      line = "";
+    };
+
+    const walk = (node: Node) => {
+      node.childNodes.forEach((child) => {
+        if (child.nodeType === Node.TEXT_NODE) {
+          line += child.textContent ?? "";
+          return;
+        }
+        if (!(child instanceof Element)) return;
+
+        const tag = child.tagName.toLowerCase();
+        if (HTML_SKIP_TAGS.has(tag)) return;
+
+        const heading = tag.match(/^h([1-6])$/);
+        if (heading) {
+          flush();
+          builder.addHeading(child.textContent ?? "", parseInt(heading[1], 10));
+        } else if (tag === "table") {
+          flush();
+          builder.addTable(
+            Array.from(child.querySelectorAll("tr")).map((row) =>
+              Array.from(row.querySelectorAll("th, td")).map(
+                (cell) => cell.textContent ?? "",
+              ),
+            ),
+            child.querySelector("caption")?.textContent ?? undefined,
+          );
+        } else if (HTML_BLOCK_TAGS.has(tag)) {
+          flush();
+          walk(child);
+          flush();
+        } else {
+          walk(child);
+        }
+      });
+    };
+
+    walk(html.body);
+    flush();
+    return builder.build(file.name);
+  },
+};
+
+/**
+ * 기본 문서 추출기 (MIME 타입 → 추출기)
+ * 한글 문서는 브라우저/OS마다 MIME 타입이 달라 별칭도 등록
+ */
+export const DEFAULT_DOCUMENT_EXTRACTORS: Record<string, DocumentExtractor> = {
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+    docxExtractor,
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation":
+    pptxExtractor,
+  "application/x-hwp": hwpExtractor,
+  "application/haansofthwp": hwpExtractor,
+  "application/vnd.hancom.hwp": hwpExtractor,
+  "application/hwp+zip": hwpxExtractor,
+  "application/vnd.hancom.hwpx": hwpxExtractor,
+  "text/plain": textExtractor,
+  "text/markdown": textExtractor,
+  "text/html": htmlExtractor,
+};
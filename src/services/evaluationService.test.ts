@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from "vitest";
+import type {
+  EvalCase,
+  PlaygroundResponse,
+  RetrievalTraceCandidate,
+} from "../types";
+import { computeEvalMetrics, scoreCase } from "./evaluationService";
+
+// Supabase 클라이언트는 환경 변수가 필요하므로 채점 함수만 검증
+vi.mock("./supabase", () => ({ getSupabaseDatabaseService: () => ({}) }));
+vi.mock("./playgroundService", () => ({ playgroundService: {} }));
+
+const candidate = (
+  type: RetrievalTraceCandidate["type"],
+  id: number,
+  selected: boolean,
+  finalScore?: number,
+): RetrievalTraceCandidate => ({
+  type,
+  id,
+  label: `${type} ${id}`,
+  fusedScore: 0.01,
+  finalScore,
+  selected,
+});
+
+/** 답변 후보: FAQ 1, 청크 10 / 제외: FAQ 2 */
+const response: PlaygroundResponse = {
+  answer: "환불은 결제 후 7일 이내 신청할 수 있습니다.",
+  answerType: "generated",
+  confidence: 0.7,
+  responseTime: 120,
+  instructions: "",
+  retrievalTrace: {
+    answerType: "generated",
+    promptVersion: "test",
+    model: "test",
+    embeddingModel: "test",
+    thresholds: { minSimilarity: 0.45, faqMedium: 0.45, faqHigh: 0.65 },
+    searches: [
+      {
+        query: "환불 기간",
+        embeddingFailed: false,
+        hybrid: true,
+        vectorCount: 3,
+        keywordCount: 0,
+        reranker: "local",
+        candidates: [
+          candidate("faq", 2, false),
+          candidate("chunk", 10, true, 0.8),
+          candidate("faq", 1, true, 0.9),
+        ],
+      },
+    ],
+  },
+};
+
+const evalCase = (overrides: Partial<EvalCase>): EvalCase => ({
+  id: 1,
+  question: "환불 기간",
+  expectedFaqIds: [],
+  expectedChunkIds: [],
+  expectedFacts: [],
+  expectFallback: false,
+  createdAt: "2024-01-01T00:00:00Z",
+  ...overrides,
+});
+
+describe("scoreCase", () => {
+  it("답변 후보를 최종 점수순으로, 제외 후보를 뒤에 둔 순위", () => {
+    const result = scoreCase(evalCase({ expectedChunkIds: [10] }), response, 3);
+
+    expect(result.retrieved.map((item) => `${item.type}:${item.id}`)).toEqual([
+      "faq:1",
+      "chunk:10",
+      "faq:2",
+    ]);
+    expect(result.firstRelevantRank).toBe(2);
+    expect(result.recall).toBe(1);
+  });
+
+  it("제외 후보는 k 안에 있어도 recall에서 빼고 MRR 순위에는 포함", () => {
+    const result = scoreCase(evalCase({ expectedFaqIds: [2] }), response, 3);
+
+    expect(result.firstRelevantRank).toBe(3);
+    expect(result.recall).toBe(0);
+  });
+
+  it("기대 사실은 공백/대소문자 무시하고 답변 포함 여부로 채점", () => {
+    const result = scoreCase(
+      evalCase({ expectedFacts: ["7일 이내", "위약금"] }),
+      response,
+      3,
+    );
+
+    expect(result.recall).toBeUndefined();
+    expect(result.factRecall).toBe(0.5);
+  });
+});
+
+describe("computeEvalMetrics", () => {
+  it("recall@k / MRR / 적중률은 기대 항목이 있는 질문만, 실패 질문은 errorCount", () => {
+    const metrics = computeEvalMetrics([
+      scoreCase(evalCase({ expectedChunkIds: [10] }), response, 3),
+      scoreCase(evalCase({ id: 2, expectedFaqIds: [2] }), response, 3),
+      scoreCase(evalCase({ id: 3, expectedFacts: ["7일"] }), response, 3),
+      {
+        caseId: 4,
+        question: "오류",
+        retrieved: [],
+        expectFallback: false,
+        error: "timeout",
+      },
+    ]);
+
+    expect(metrics.recallAtK).toBe(0.5);
+    expect(metrics.mrr).toBeCloseTo((1 / 2 + 1 / 3) / 2);
+    expect(metrics.hitRate).toBe(0.5);
+    expect(metrics.factRecall).toBe(1);
+    expect(metrics.fallbackRate).toBe(0);
+    expect(metrics.errorCount).toBe(1);
+  });
+});
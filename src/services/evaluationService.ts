@@ -0,0 +1,229 @@
+/**
+ * Evaluation Service
+ * 골든 질문 세트(eval_cases) 일괄 실행 및 RAG 지표 계산 (싱글톤)
+ * - 질문마다 플레이그라운드 API로 검색 + 생성 실행 (채팅 로그/통계에 남지 않음)
+ * - recall@k, MRR, 적중률, 안내 문구 비율, 기대 사실 포함률
+ * - recall@k / 적중률은 답변 후보(selected)만, MRR은 제외 후보까지 포함한 순위로 계산
+ * - 실행 결과는 eval_runs에 저장해 조건 변경 전후 비교
+ */
+
+import type {
+  EvalCase,
+  EvalCaseResult,
+  EvalMetrics,
+  EvalRun,
+  PlaygroundResponse,
+  PlaygroundSettings,
+  RetrievalTraceCandidate,
+} from "../types";
+import { playgroundService } from "./playgroundService";
+import { getSupabaseDatabaseService } from "./supabase";
+import { createLogger } from "./logger";
+
+const log = createLogger("evaluation");
+
+/** 질문별로 기록하는 검색 순위 길이 (MRR 계산 범위) */
+const MAX_RANKED_RESULTS = 10;
+
+type RankedItem = Pick<RetrievalTraceCandidate, "type" | "id" | "selected">;
+
+const itemKey = (item: Pick<RankedItem, "type" | "id">) =>
+  `${item.type}:${item.id}`;
+
+/** 비교용 정규화 (공백 제거 + 소문자) */
+const normalizeFact = (text: string) => text.replace(/\s+/g, "").toLowerCase();
+
+/**
+ * 검색 추적 → 순위 목록
+ * 답변 후보(최종 점수순) 다음에 제외된 후보(결합 점수순), 복합 질문은 하위 질의 순서대로 이어 붙임
+ * 제외된 후보는 답변에 쓰이지 않으므로 selected=false로 남겨 MRR/진단용으로만 사용
+ */
+function toRankedItems(response: PlaygroundResponse): RankedItem[] {
+  const seen = new Set<string>();
+  const ranked: RankedItem[] = [];
+
+  response.retrievalTrace.searches.forEach((search) => {
+    const selected = search.candidates
+      .filter((candidate) => candidate.selected)
+      .sort((a, b) => (b.finalScore ?? 0) - (a.finalScore ?? 0));
+    const excluded = search.candidates.filter(
+      (candidate) => !candidate.selected,
+    );
+
+    [...selected, ...excluded].forEach((candidate) => {
+      const key = itemKey(candidate);
+      if (seen.has(key)) return;
+      seen.add(key);
+      ranked.push({
+        type: candidate.type,
+        id: candidate.id,
+        selected: candidate.selected,
+      });
+    });
+  });
+
+  return ranked.slice(0, MAX_RANKED_RESULTS);
+}
+
+/**
+ * 질문 1건 채점
+ * - firstRelevantRank: 전체 순위(제외 후보 포함)에서 기대 항목이 처음 나온 순위 (MRR용)
+ * - recall: 상위 k개 답변 후보 안의 기대 항목 비율 (제외 후보는 k 안에 있어도 미포함)
+ */
+export function scoreCase(
+  evalCase: EvalCase,
+  response: PlaygroundResponse,
+  k: number,
+): EvalCaseResult {
+  const retrieved = toRankedItems(response);
+  const expected = new Set([
+    ...evalCase.expectedFaqIds.map((id) => itemKey({ type: "faq", id })),
+    ...evalCase.expectedChunkIds.map((id) => itemKey({ type: "chunk", id })),
+  ]);
+
+  let firstRelevantRank: number | undefined;
+  let recall: number | undefined;
+  if (expected.size > 0) {
+    const firstIndex = retrieved.findIndex((item) =>
+      expected.has(itemKey(item)),
+    );
+    firstRelevantRank = firstIndex >= 0 ? firstIndex + 1 : undefined;
+    recall =
+      retrieved.filter(
+        (item, index) =>
+          item.selected && index < k && expected.has(itemKey(item)),
+      ).length / expected.size;
+  }
+
+  let factRecall: number | undefined;
+  if (evalCase.expectedFacts.length > 0) {
+    const answer = normalizeFact(response.answer);
+    factRecall =
+      evalCase.expectedFacts.filter((fact) =>
+        answer.includes(normalizeFact(fact)),
+      ).length / evalCase.expectedFacts.length;
+  }
+
+  return {
+    caseId: evalCase.id,
+    question: evalCase.question,
+    answerType: response.answerType,
+    retrieved,
+    firstRelevantRank,
+    recall,
+    factRecall,
+    expectFallback: evalCase.expectFallback,
+    answer: response.answer,
+  };
+}
+
+const average = (values: number[]): number | null =>
+  values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+
+/**
+ * 질문별 결과 → 실행 지표 (실행 실패 질문은 errorCount로만 집계)
+ * 적중률은 상위 k개 답변 후보에 기대 항목이 하나라도 있는 질문 비율 (recall > 0)
+ */
+export function computeEvalMetrics(results: EvalCaseResult[]): EvalMetrics {
+  const completed = results.filter((result) => !result.error);
+  const retrievalCases = completed.filter(
+    (result) => result.recall !== undefined,
+  );
+  const isFallback = (result: EvalCaseResult) =>
+    result.answerType === "fallback";
+
+  return {
+    recallAtK: average(retrievalCases.map((result) => result.recall ?? 0)),
+    mrr: average(
+      retrievalCases.map((result) =>
+        result.firstRelevantRank ? 1 / result.firstRelevantRank : 0,
+      ),
+    ),
+    hitRate: average(
+      retrievalCases.map((result) => ((result.recall ?? 0) > 0 ? 1 : 0)),
+    ),
+    fallbackRate:
+      completed.length > 0
+        ? completed.filter(isFallback).length / completed.length
+        : 0,
+    fallbackAccuracy: average(
+      completed.map((result) =>
+        isFallback(result) === result.expectFallback ? 1 : 0,
+      ),
+    ),
+    factRecall: average(
+      completed
+        .map((result) => result.factRecall)
+        .filter((value): value is number => value !== undefined),
+    ),
+    errorCount: results.length - completed.length,
+  };
+}
+
+export class EvaluationService {
+  private static instance: EvaluationService;
+
+  private constructor() {
+    // 싱글톤 패턴
+  }
+
+  static getInstance(): EvaluationService {
+    if (!EvaluationService.instance) {
+      EvaluationService.instance = new EvaluationService();
+    }
+    return EvaluationService.instance;
+  }
+
+  /**
+   * 골든 질문 일괄 실행 후 저장 (API 호출량 제한을 피하려고 순차 실행)
+   * signal로 중단하면 저장하지 않고 AbortError
+   */
+  async run(
+    cases: EvalCase[],
+    settings: PlaygroundSettings,
+    label?: string,
+    onProgress?: (done: number, total: number) => void,
+    signal?: AbortSignal,
+  ): Promise<EvalRun> {
+    const results: EvalCaseResult[] = [];
+    let promptVersion: string | undefined;
+
+    for (const [index, evalCase] of cases.entries()) {
+      if (signal?.aborted) {
+        throw new DOMException("Evaluation aborted", "AbortError");
+      }
+
+      try {
+        const response = await playgroundService.run(
+          evalCase.question,
+          settings,
+        );
+        promptVersion ??= response.retrievalTrace.promptVersion;
+        results.push(scoreCase(evalCase, response, settings.limit));
+      } catch (error) {
+        log.warn(`평가 질문 #${evalCase.id} 실행 실패:`, error);
+        results.push({
+          caseId: evalCase.id,
+          question: evalCase.question,
+          retrieved: [],
+          expectFallback: evalCase.expectFallback,
+          error: error instanceof Error ? error.message : "실행 실패",
+        });
+      }
+      onProgress?.(index + 1, cases.length);
+    }
+
+    return getSupabaseDatabaseService().createEvalRun({
+      label: label?.trim() || undefined,
+      settings,
+      promptVersion,
+      caseCount: cases.length,
+      metrics: computeEvalMetrics(results),
+      results,
+    });
+  }
+}
+
+export const evaluationService = EvaluationService.getInstance();
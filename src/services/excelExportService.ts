@@ -1,5 +1,33 @@
 import * as XLSX from "xlsx";
-import type { ChatSession, ChatAnalytics, DashboardMetrics } from "../types";
+import type {
+  ChatSession,
+  ChatAnalytics,
+  DashboardMetrics,
+  FAQ,
+} from "../types";
+
+/** FAQ 내보내기/가져오기 파일 형식 */
+export type FaqFileFormat = "xlsx" | "csv" | "json";
+
+/**
+ * FAQ 내보내기/가져오기 열 (엑셀/CSV 헤더, JSON 키)
+ * 내보낸 파일을 그대로 가져오면 ID로 같은 FAQ를 갱신
+ */
+export const FAQ_TRANSFER_COLUMNS = [
+  { key: "id", header: "ID", width: 8 },
+  { key: "externalKey", header: "외부키", width: 15 },
+  { key: "category", header: "카테고리", width: 15 },
+  { key: "question", header: "질문", width: 40 },
+  { key: "answer", header: "답변", width: 60 },
+  { key: "isActive", header: "활성", width: 8 },
+  { key: "isFeatured", header: "즐겨찾기", width: 10 },
+  { key: "linkUrl", header: "링크", width: 30 },
+  { key: "imageUrl", header: "이미지", width: 30 },
+  { key: "documentLink", header: "문서링크", width: 30 },
+  { key: "keywords", header: "키워드", width: 30 },
+] as const;
+
+export type FaqTransferField = (typeof FAQ_TRANSFER_COLUMNS)[number]["key"];
 
 const getDateString = (): string => {
   const now = new Date();
@@ -9,9 +37,7 @@ const getDateString = (): string => {
   return `${y}-${m}-${d}`;
 };
 
-const downloadWorkbook = (wb: XLSX.WorkBook, fileName: string): void => {
-  const wbout = XLSX.write(wb, { bookType: "xlsx", type: "array" });
-  const blob = new Blob([wbout], { type: "application/octet-stream" });
+const downloadBlob = (blob: Blob, fileName: string): void => {
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
   a.href = url;
@@ -22,6 +48,14 @@ const downloadWorkbook = (wb: XLSX.WorkBook, fileName: string): void => {
   URL.revokeObjectURL(url);
 };
 
+const downloadWorkbook = (wb: XLSX.WorkBook, fileName: string): void => {
+  const wbout = XLSX.write(wb, { bookType: "xlsx", type: "array" });
+  downloadBlob(
+    new Blob([wbout], { type: "application/octet-stream" }),
+    fileName,
+  );
+};
+
 const getStatusText = (status: string): string => {
   switch (status) {
     case "completed":
@@ -125,6 +159,27 @@ export const exportAnalyticsToExcel = (
   const ws3 = XLSX.utils.aoa_to_sheet(summaryData);
   ws3["!cols"] = [{ wch: 18 }, { wch: 20 }];
   XLSX.utils.book_append_sheet(wb, ws3, "요약 통계");
+
+  const feedbackHeaders = ["유형", "대상", "👍", "👎", "사유"];
+  const feedbackRows = [
+    ...(analytics.worstFaqs ?? []).map((f) => [
+      "FAQ",
+      f.question,
+      f.helpful,
+      f.unhelpful,
+      (f.reasons ?? []).join(" / "),
+    ]),
+    ...(analytics.worstChunks ?? []).map((c) => [
+      "청크",
+      `${c.documentName} (${c.pageNumber}페이지) ${c.contentPreview}`,
+      c.helpful,
+      c.unhelpful,
+      (c.reasons ?? []).join(" / "),
+    ]),
+  ];
+  const ws4 = XLSX.utils.aoa_to_sheet([feedbackHeaders, ...feedbackRows]);
+  ws4["!cols"] = [{ wch: 8 }, { wch: 60 }, { wch: 6 }, { wch: 6 }, { wch: 40 }];
+  XLSX.utils.book_append_sheet(wb, ws4, "개선 필요 답변");
   downloadWorkbook(wb, `채팅분석_리포트_${getDateString()}.xlsx`);
 };
 
@@ -174,3 +229,61 @@ export const exportDashboardToExcel = (metrics: DashboardMetrics): void => {
   XLSX.utils.book_append_sheet(wb, ws3, "최근 활동");
   downloadWorkbook(wb, `대시보드_${getDateString()}.xlsx`);
 };
+
+export const exportFaqs = (faqs: FAQ[], format: FaqFileFormat): void => {
+  const fileName = `FAQ_${getDateString()}.${format}`;
+
+  if (format === "json") {
+    const records = faqs.map((f) => ({
+      id: f.id,
+      externalKey: f.externalKey || "",
+      category: f.category,
+      question: f.question,
+      answer: f.answer,
+      isActive: f.isActive,
+      isFeatured: Boolean(f.isFeatured),
+      linkUrl: f.linkUrl || "",
+      imageUrl: f.imageUrl || "",
+      documentLink: f.documentLink || "",
+      keywords: f.semanticKeywords ?? [],
+    }));
+    downloadBlob(
+      new Blob([JSON.stringify({ faqs: records }, null, 2)], {
+        type: "application/json",
+      }),
+      fileName,
+    );
+    return;
+  }
+
+  const headers = FAQ_TRANSFER_COLUMNS.map((c) => c.header);
+  const rows = faqs.map((f) => [
+    f.id,
+    f.externalKey || "",
+    f.category,
+    f.question,
+    f.answer,
+    f.isActive ? "Y" : "N",
+    f.isFeatured ? "Y" : "N",
+    f.linkUrl || "",
+    f.imageUrl || "",
+    f.documentLink || "",
+    (f.semanticKeywords ?? []).join(", "),
+  ]);
+  const ws = XLSX.utils.aoa_to_sheet([headers, ...rows]);
+
+  if (format === "csv") {
+    // 엑셀에서 한글이 깨지지 않도록 BOM 추가
+    const csv = XLSX.utils.sheet_to_csv(ws);
+    downloadBlob(
+      new Blob(["\ufeff" + csv], { type: "text/csv;charset=utf-8" }),
+      fileName,
+    );
+    return;
+  }
+
+  ws["!cols"] = FAQ_TRANSFER_COLUMNS.map((c) => ({ wch: c.width }));
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, "FAQ");
+  downloadWorkbook(wb, fileName);
+};
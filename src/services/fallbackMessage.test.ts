@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_FALLBACK_CONFIG,
+  buildFallbackMessage,
+  parseCustomerServiceInfo,
+  parseFallbackConfig,
+} from "./fallbackMessage";
+
+describe("parseFallbackConfig", () => {
+  it("잘못된 값은 기본값으로 대체", () => {
+    expect(parseFallbackConfig("not json")).toEqual(DEFAULT_FALLBACK_CONFIG);
+    expect(
+      parseFallbackConfig(JSON.stringify({ title: 1, showPhone: false })),
+    ).toEqual({ ...DEFAULT_FALLBACK_CONFIG, showPhone: false });
+  });
+});
+
+describe("buildFallbackMessage", () => {
+  it("설정된 항목만 안내 메시지에 포함", () => {
+    const message = buildFallbackMessage(
+      { ...DEFAULT_FALLBACK_CONFIG, showPhone: false, showFaqGuide: false },
+      parseCustomerServiceInfo(JSON.stringify({ email: "help@example.com" })),
+    );
+
+    expect(message).toContain("• 이메일 문의: help@example.com");
+    expect(message).not.toContain("고객센터 전화 문의");
+    expect(message).not.toContain("자주 묻는 질문");
+  });
+});
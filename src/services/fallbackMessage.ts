@@ -0,0 +1,106 @@
+/**
+ * 답변 불가(Fallback) 안내 메시지 유틸리티
+ * 관리자 설정(FaqManagement / SystemSettings) / 서버 chat 파이프라인(/api/chat, 플레이그라운드) 공용
+ * 안내 문구는 워크스페이스 settings에 저장하고 서버가 조합 (요청 body로 받지 않음)
+ */
+
+// 서버(api/)에서도 import하므로 .js 확장자 사용
+import type { CustomerServiceInfo, FallbackMessageConfig } from "../types.js";
+
+/** settings 테이블 키 */
+export const FALLBACK_CONFIG_SETTING_KEY = "fallback_message_config";
+export const CUSTOMER_SERVICE_SETTING_KEY = "customer_service_info";
+
+export const DEFAULT_FALLBACK_CONFIG: FallbackMessageConfig = {
+  title: "죄송합니다. 해당 질문에 대한 답변을 찾을 수 없습니다.",
+  body: "아래 방법으로 도움을 받으실 수 있습니다:",
+  showPhone: true,
+  showEmail: true,
+  showFaqGuide: true,
+  additionalMessage: "",
+};
+
+export const DEFAULT_CUSTOMER_SERVICE: CustomerServiceInfo = {
+  phone: "1234-5678",
+  email: "support@embrain.com",
+  operatingHours: "평일 09:00~18:00",
+};
+
+const pickString = (value: unknown, fallback: string): string =>
+  typeof value === "string" ? value : fallback;
+
+const pickBoolean = (value: unknown, fallback: boolean): boolean =>
+  typeof value === "boolean" ? value : fallback;
+
+function parseObject(value: string | null): Record<string, unknown> {
+  if (!value) return {};
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return parsed && typeof parsed === "object"
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 저장된 Fallback 설정 문자열 파싱 (누락/잘못된 값은 기본값으로 대체)
+ */
+export function parseFallbackConfig(
+  value: string | null,
+): FallbackMessageConfig {
+  const parsed = parseObject(value);
+  return {
+    title: pickString(parsed.title, DEFAULT_FALLBACK_CONFIG.title),
+    body: pickString(parsed.body, DEFAULT_FALLBACK_CONFIG.body),
+    showPhone: pickBoolean(parsed.showPhone, DEFAULT_FALLBACK_CONFIG.showPhone),
+    showEmail: pickBoolean(parsed.showEmail, DEFAULT_FALLBACK_CONFIG.showEmail),
+    showFaqGuide: pickBoolean(
+      parsed.showFaqGuide,
+      DEFAULT_FALLBACK_CONFIG.showFaqGuide,
+    ),
+    additionalMessage: pickString(
+      parsed.additionalMessage,
+      DEFAULT_FALLBACK_CONFIG.additionalMessage,
+    ),
+  };
+}
+
+/**
+ * 저장된 고객센터 정보 문자열 파싱 (누락/잘못된 값은 기본값으로 대체)
+ */
+export function parseCustomerServiceInfo(
+  value: string | null,
+): CustomerServiceInfo {
+  const parsed = parseObject(value);
+  return {
+    phone: pickString(parsed.phone, DEFAULT_CUSTOMER_SERVICE.phone),
+    email: pickString(parsed.email, DEFAULT_CUSTOMER_SERVICE.email),
+    operatingHours: pickString(
+      parsed.operatingHours,
+      DEFAULT_CUSTOMER_SERVICE.operatingHours,
+    ),
+  };
+}
+
+/**
+ * Fallback 설정 + 고객센터 정보로 안내 메시지 텍스트 조합
+ */
+export function buildFallbackMessage(
+  config: FallbackMessageConfig,
+  cs: CustomerServiceInfo,
+): string {
+  const lines: string[] = [config.title, ""];
+  if (config.body) lines.push(config.body);
+  if (config.showPhone)
+    lines.push(`• 고객센터 전화 문의: ${cs.phone} (${cs.operatingHours})`);
+  if (config.showEmail) lines.push(`• 이메일 문의: ${cs.email}`);
+  if (config.showFaqGuide)
+    lines.push(`• 위의 '자주 묻는 질문'을 확인해 보세요.`);
+  if (config.additionalMessage) {
+    lines.push("");
+    lines.push(config.additionalMessage);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { FAQ } from "../types";
+import { defaultConfig } from "./config";
+import { faqDedupeService } from "./faqDedupeService";
+
+// Supabase/임베딩은 환경 변수가 필요하므로 조회 결과만 대체
+const mocks = vi.hoisted(() => ({
+  embedding: { lastEmbeddingWasHash: false, generateBatchEmbeddings: vi.fn() },
+  db: { findSimilarFAQs: vi.fn(), getDuplicateFAQPairs: vi.fn() },
+}));
+
+vi.mock("./supabase", () => ({ getSupabaseDatabaseService: () => mocks.db }));
+vi.mock("./embeddingService", () => ({ embeddingService: mocks.embedding }));
+vi.mock("./autoEmbeddingService", () => ({ autoEmbeddingService: {} }));
+
+const faq = (id: number, question: string): FAQ => ({
+  id,
+  question,
+  answer: "답변",
+  category: "일반",
+  isActive: true,
+});
+
+const existing = [
+  faq(1, "환불은 언제 되나요?"),
+  faq(2, "배송은 얼마나 걸리나요?"),
+  faq(3, "회원 탈퇴 방법"),
+];
+
+beforeEach(() => {
+  mocks.embedding.lastEmbeddingWasHash = false;
+  mocks.embedding.generateBatchEmbeddings
+    .mockReset()
+    .mockImplementation(async (texts: string[]) => texts.map(() => [0.1, 0.2]));
+  mocks.db.findSimilarFAQs.mockReset().mockResolvedValue([]);
+  mocks.db.getDuplicateFAQPairs.mockReset().mockResolvedValue([]);
+});
+
+describe("checkCandidates", () => {
+  it("설정 유사도 기준으로 기존 FAQ를 조회하고 수정 중인 FAQ는 제외", async () => {
+    mocks.db.findSimilarFAQs.mockResolvedValue([
+      { ...existing[0], similarity: 0.93 },
+      { ...existing[1], similarity: 0.91 },
+    ]);
+
+    const warnings = await faqDedupeService.checkCandidates(
+      [{ question: "환불 언제 돼요?" }],
+      existing,
+      { excludeId: 2 },
+    );
+
+    expect(mocks.db.findSimilarFAQs).toHaveBeenCalledWith(
+      [0.1, 0.2],
+      defaultConfig.dedupe.similarityThreshold,
+    );
+    expect(warnings[0].matches).toEqual([
+      {
+        faqId: 1,
+        question: "환불은 언제 되나요?",
+        similarity: 0.93,
+        reason: "embedding",
+      },
+    ]);
+  });
+
+  it("정규화 질문이 같으면 텍스트 중복 (기존 FAQ / 입력 목록 내)", async () => {
+    const warnings = await faqDedupeService.checkCandidates(
+      [
+        { question: "환불은 언제 되나요" },
+        { question: "새 질문입니다" },
+        { question: "새 질문입니다!" },
+      ],
+      existing,
+    );
+
+    expect(
+      warnings.map(({ index, matches }) => [index, matches[0].reason]),
+    ).toEqual([
+      [0, "text"],
+      [2, "text"],
+    ]);
+    expect(warnings[0].matches[0].faqId).toBe(1);
+    expect(warnings[1].matches[0].faqId).toBeUndefined();
+  });
+
+  it("입력이 최대 임베딩 비교 수를 넘거나 해시 임베딩이면 텍스트 비교만", async () => {
+    const { maxEmbeddingChecks } = defaultConfig.dedupe;
+    await faqDedupeService.checkCandidates(
+      Array.from({ length: maxEmbeddingChecks + 1 }, (_, index) => ({
+        question: `질문 ${index}`,
+      })),
+      existing,
+    );
+    expect(mocks.embedding.generateBatchEmbeddings).not.toHaveBeenCalled();
+
+    mocks.embedding.lastEmbeddingWasHash = true;
+    await faqDedupeService.checkCandidates([{ question: "질문" }], existing);
+    expect(mocks.db.findSimilarFAQs).not.toHaveBeenCalled();
+  });
+});
+
+describe("findClusters", () => {
+  it("설정 유사도/이웃 수로 쌍을 조회하고 연결된 FAQ를 한 묶음으로", async () => {
+    mocks.db.getDuplicateFAQPairs.mockResolvedValue([
+      { faqId: 1, duplicateId: 2, similarity: 0.92 },
+      { faqId: 2, duplicateId: 3, similarity: 0.95 },
+      { faqId: 3, duplicateId: 99, similarity: 0.99 },
+    ]);
+
+    const clusters = await faqDedupeService.findClusters(existing);
+
+    expect(mocks.db.getDuplicateFAQPairs).toHaveBeenCalledWith(
+      defaultConfig.dedupe.similarityThreshold,
+      defaultConfig.dedupe.neighborCount,
+    );
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].key).toBe("1-2-3");
+    expect(clusters[0].similarity).toBe(0.95);
+    expect(clusters[0].reasons).toEqual(["embedding"]);
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * FAQ Dedupe Service
+ * 중복/유사 FAQ 탐지 (질문 임베딩 유사도 + 정규화 텍스트) 및 병합 (싱글톤)
+ * - 등록 전 경고: 엑셀 가져오기 / 수동 등록
+ * - 중복 묶음: FAQ 관리 화면에서 병합
+ */
+
+import type { FAQ } from "../types";
+import { defaultConfig } from "./config";
+import { embeddingService } from "./embeddingService";
+import { autoEmbeddingService } from "./autoEmbeddingService";
+import { normalizeForComparison } from "./koreanTokenizer";
+import { getSupabaseDatabaseService } from "./supabase";
+import { createLogger } from "./logger";
+
+const log = createLogger("dedupe");
+
+/** 등록 전 임베딩 비교 배치 크기 (배치 임베딩 요청 1회당) */
+const EMBEDDING_BATCH_SIZE = 50;
+
+/** 중복 의심 근거 (text: 정규화 질문 일치, embedding: 질문 임베딩 유사) */
+export type DuplicateReason = "text" | "embedding";
+
+export interface DuplicateMatch {
+  faqId?: number; // 기존 FAQ (입력 목록 내 중복이면 없음)
+  question: string;
+  similarity: number; // 텍스트 일치는 1
+  reason: DuplicateReason;
+}
+
+/** 등록하려는 FAQ의 중복 의심 결과 */
+export interface DuplicateWarning {
+  index: number; // 입력 목록 내 위치
+  question: string;
+  matches: DuplicateMatch[];
+}
+
+/** 서로 중복 의심인 FAQ 묶음 */
+export interface DuplicateCluster {
+  key: string; // 묶음 FAQ ID 목록 ("1-5-9")
+  faqs: FAQ[];
+  similarity: number; // 묶음 내 최고 유사도
+  reasons: DuplicateReason[];
+}
+
+interface DuplicateEdge {
+  from: number;
+  to: number;
+  similarity: number;
+  reason: DuplicateReason;
+}
+
+export class FaqDedupeService {
+  private static instance: FaqDedupeService;
+
+  private constructor() {
+    // 싱글톤 패턴
+  }
+
+  static getInstance(): FaqDedupeService {
+    if (!FaqDedupeService.instance) {
+      FaqDedupeService.instance = new FaqDedupeService();
+    }
+    return FaqDedupeService.instance;
+  }
+
+  /**
+   * FAQ 목록의 중복 묶음 (유사 질문 쌍을 Union-Find로 묶음, 유사도 높은 순)
+   * 임베딩 유사 쌍 조회에 실패하면 정규화 텍스트 일치만 사용
+   */
+  async findClusters(faqs: FAQ[]): Promise<DuplicateCluster[]> {
+    const { similarityThreshold, neighborCount } = defaultConfig.dedupe;
+    const faqById = new Map(faqs.map((faq) => [faq.id, faq]));
+    const edges: DuplicateEdge[] = [];
+
+    const idsByText = new Map<string, number[]>();
+    faqs.forEach((faq) => {
+      const key = normalizeForComparison(faq.question);
+      idsByText.set(key, [...(idsByText.get(key) ?? []), faq.id]);
+    });
+    idsByText.forEach(([first, ...rest]) =>
+      rest.forEach((id) =>
+        edges.push({ from: first, to: id, similarity: 1, reason: "text" }),
+      ),
+    );
+
+    try {
+      const pairs = await getSupabaseDatabaseService().getDuplicateFAQPairs(
+        similarityThreshold,
+        neighborCount,
+      );
+      pairs
+        .filter(
+          (pair) => faqById.has(pair.faqId) && faqById.has(pair.duplicateId),
+        )
+        .forEach((pair) =>
+          edges.push({
+            from: pair.faqId,
+            to: pair.duplicateId,
+            similarity: pair.similarity,
+            reason: "embedding",
+          }),
+        );
+    } catch (error) {
+      log.warn("유사 FAQ 쌍 조회 실패, 텍스트 비교만 사용:", error);
+    }
+
+    const parent = new Map<number, number>();
+    const find = (id: number): number => {
+      const next = parent.get(id) ?? id;
+      if (next === id) return id;
+      const root = find(next);
+      parent.set(id, root);
+      return root;
+    };
+    edges.forEach((edge) => {
+      const a = find(edge.from);
+      const b = find(edge.to);
+      if (a !== b) parent.set(b, a);
+    });
+
+    const groups = new Map<
+      number,
+      { ids: Set<number>; similarity: number; reasons: Set<DuplicateReason> }
+    >();
+    edges.forEach((edge) => {
+      const root = find(edge.from);
+      const group = groups.get(root) ?? {
+        ids: new Set<number>(),
+        similarity: 0,
+        reasons: new Set<DuplicateReason>(),
+      };
+      group.ids.add(edge.from).add(edge.to);
+      group.similarity = Math.max(group.similarity, edge.similarity);
+      group.reasons.add(edge.reason);
+      groups.set(root, group);
+    });
+
+    return Array.from(groups.values())
+      .map((group) => {
+        const ids = Array.from(group.ids).sort((a, b) => a - b);
+        return {
+          key: ids.join("-"),
+          faqs: ids.map((id) => faqById.get(id) as FAQ),
+          similarity: group.similarity,
+          reasons: Array.from(group.reasons),
+        };
+      })
+      .sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * 등록 전 중복 확인 (기존 FAQ와 비교 + 입력 목록 내 중복)
+   * 임베딩 비교는 Gemini 임베딩일 때만 (해시 임베딩은 의미 유사도가 없음)
+   * 입력이 maxEmbeddingChecks를 넘으면 텍스트 비교만 수행
+   */
+  async checkCandidates(
+    candidates: { question: string }[],
+    existing: FAQ[],
+    options: { excludeId?: number } = {},
+  ): Promise<DuplicateWarning[]> {
+    const { similarityThreshold, maxEmbeddingChecks } = defaultConfig.dedupe;
+    const warnings = new Map<number, DuplicateWarning>();
+    const addMatch = (index: number, match: DuplicateMatch) => {
+      const warning = warnings.get(index) ?? {
+        index,
+        question: candidates[index].question,
+        matches: [],
+      };
+      if (
+        match.faqId === undefined ||
+        !warning.matches.some((m) => m.faqId === match.faqId)
+      ) {
+        warning.matches.push(match);
+      }
+      warnings.set(index, warning);
+    };
+
+    const existingByText = new Map<string, FAQ>();
+    existing
+      .filter((faq) => faq.id !== options.excludeId)
+      .forEach((faq) =>
+        existingByText.set(normalizeForComparison(faq.question), faq),
+      );
+
+    const firstIndexByText = new Map<string, number>();
+    candidates.forEach((candidate, index) => {
+      const key = normalizeForComparison(candidate.question);
+      const faq = existingByText.get(key);
+      if (faq) {
+        addMatch(index, {
+          faqId: faq.id,
+          question: faq.question,
+          similarity: 1,
+          reason: "text",
+        });
+      }
+
+      const firstIndex = firstIndexByText.get(key);
+      if (firstIndex === undefined) {
+        firstIndexByText.set(key, index);
+      } else {
+        addMatch(index, {
+          question: candidates[firstIndex].question,
+          similarity: 1,
+          reason: "text",
+        });
+      }
+    });
+
+    if (candidates.length > maxEmbeddingChecks) {
+      log.info(
+        `가져오기 ${candidates.length}건: 임베딩 비교 생략 (최대 ${maxEmbeddingChecks}건)`,
+      );
+      return Array.from(warnings.values());
+    }
+
+    try {
+      const dbService = getSupabaseDatabaseService();
+      for (let i = 0; i < candidates.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = candidates.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const embeddings = await embeddingService.generateBatchEmbeddings(
+          batch.map((candidate) => candidate.question),
+        );
+        if (embeddingService.lastEmbeddingWasHash) break;
+
+        for (const [offset, embedding] of embeddings.entries()) {
+          const similar = await dbService.findSimilarFAQs(
+            embedding,
+            similarityThreshold,
+          );
+          similar
+            .filter((faq) => faq.id !== options.excludeId)
+            .forEach((faq) =>
+              addMatch(i + offset, {
+                faqId: faq.id,
+                question: faq.question,
+                similarity: faq.similarity,
+                reason: "embedding",
+              }),
+            );
+        }
+      }
+    } catch (error) {
+      log.warn("임베딩 중복 확인 실패, 텍스트 비교만 사용:", error);
+    }
+
+    return Array.from(warnings.values()).sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * FAQ 병합 (sources를 target으로 합치고 채팅 로그 참조 이전)
+   * 답변이 바뀌면 target 임베딩을 백그라운드에서 다시 생성
+   * @returns 참조를 옮긴 채팅 메시지 수
+   */
+  async merge(
+    target: FAQ,
+    sources: FAQ[],
+    mergedAnswer?: string,
+  ): Promise<number> {
+    const answer = mergedAnswer?.trim();
+    const answerChanged = Boolean(answer) && answer !== target.answer;
+
+    const redirected = await getSupabaseDatabaseService().mergeFAQs(
+      target.id,
+      sources.map((faq) => faq.id),
+      answerChanged ? answer : undefined,
+    );
+
+    if (answerChanged && answer) {
+      autoEmbeddingService
+        .generateAndSaveFAQEmbeddings({ ...target, answer })
+        .catch((error) => {
+          log.error("병합 FAQ 임베딩 생성 실패 (백그라운드):", error);
+        });
+    }
+
+    return redirected;
+  }
+}
+
+export const faqDedupeService = FaqDedupeService.getInstance();
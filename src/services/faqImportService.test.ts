@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from "vitest";
+import type { FAQ } from "../types";
+import { faqImportService } from "./faqImportService";
+
+// Supabase 클라이언트/임베딩은 환경 변수가 필요하므로 미리보기 비교만 검증
+vi.mock("./supabase", () => ({ getSupabaseDatabaseService: () => ({}) }));
+vi.mock("./autoEmbeddingService", () => ({ autoEmbeddingService: {} }));
+vi.mock("./faqDedupeService", () => ({
+  faqDedupeService: { checkCandidates: async () => [] },
+}));
+
+const faq = (overrides: Partial<FAQ>): FAQ => ({
+  id: 1,
+  question: "환불은 언제 되나요?",
+  answer: "결제 후 7일 이내 신청할 수 있습니다.",
+  category: "결제",
+  isActive: true,
+  ...overrides,
+});
+
+const existing: FAQ[] = [
+  faq({ id: 1, externalKey: "refund" }),
+  faq({
+    id: 2,
+    question: "배송은 얼마나 걸리나요?",
+    answer: "2~3일 소요됩니다.",
+    category: "배송",
+    externalKey: "shipping",
+    semanticKeywords: ["배송"],
+  }),
+];
+
+const preview = (items: Record<string, unknown>[]) =>
+  faqImportService.preview(
+    new File([JSON.stringify(items)], "faqs.json", {
+      type: "application/json",
+    }),
+    existing,
+  );
+
+describe("preview 대상 매칭", () => {
+  it("ID가 있으면 ID로, 없으면 외부키로 기존 FAQ를 찾음", async () => {
+    const { rows } = await preview([
+      { id: 2, answer: "1~2일 소요됩니다." },
+      {
+        externalKey: "refund",
+        answer: "결제 후 14일 이내 신청할 수 있습니다.",
+      },
+      {
+        externalKey: "new-key",
+        category: "회원",
+        question: "탈퇴는 어떻게 하나요?",
+        answer: "마이페이지에서 탈퇴할 수 있습니다.",
+      },
+    ]);
+
+    expect(rows.map((row) => [row.action, row.target?.id])).toEqual([
+      ["update", 2],
+      ["update", 1],
+      ["create", undefined],
+    ]);
+  });
+
+  it("ID 대상과 외부키 소유 FAQ가 다르거나 없는 ID면 오류", async () => {
+    const { rows, counts } = await preview([
+      { id: 1, externalKey: "shipping" },
+      { id: 99, question: "없는 FAQ" },
+    ]);
+
+    expect(rows[0].errors).toEqual([
+      '외부키 "shipping"는 FAQ #2에서 사용 중입니다.',
+    ]);
+    expect(rows[1].errors).toContain("ID #99 FAQ가 없습니다.");
+    expect(counts.error).toBe(2);
+  });
+
+  it("파일 안에서 같은 FAQ를 두 번 가리키면 나중 행은 오류", async () => {
+    const { rows } = await preview([
+      { id: 1, answer: "첫 번째" },
+      { externalKey: "refund", answer: "두 번째" },
+    ]);
+
+    expect(rows.map((row) => row.action)).toEqual(["update", "error"]);
+    expect(rows[1].errors).toEqual([
+      "파일 안에서 FAQ #1를 가리키는 행이 여러 개입니다.",
+    ]);
+  });
+});
+
+describe("preview 변경 비교", () => {
+  it("파일에 있는 열 중 값이 바뀐 필드만 변경으로 표시", async () => {
+    const { rows } = await preview([
+      {
+        id: 2,
+        question: "배송은 얼마나 걸리나요?",
+        isActive: "N",
+        keywords: "배송, 택배",
+      },
+    ]);
+
+    expect(rows[0].changes).toEqual([
+      { field: "isActive", label: "활성", before: "Y", after: "N" },
+      {
+        field: "keywords",
+        label: "키워드",
+        before: "배송",
+        after: "배송, 택배",
+      },
+    ]);
+  });
+
+  it("값이 모두 같으면 unchanged, 신규 행은 필수 값 누락 시 오류", async () => {
+    const { rows, counts } = await preview([
+      { 외부키: "refund", 질문: "환불은 언제 되나요?", 활성: "Y" },
+      { question: "카테고리 없는 신규 질문", answer: "답변" },
+    ]);
+
+    expect(rows[0].action).toBe("unchanged");
+    expect(rows[0].changes).toEqual([]);
+    expect(rows[1].errors).toEqual(["카테고리가 비어 있습니다."]);
+    expect(counts).toEqual({ create: 0, update: 0, unchanged: 1, error: 1 });
+  });
+});
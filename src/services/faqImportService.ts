@@ -0,0 +1,520 @@
+/**
+ * FAQ Import Service
+ * FAQ 파일 가져오기 (엑셀/CSV/JSON) — 미리보기 후 적용 (싱글톤)
+ * - ID 또는 외부키로 기존 FAQ를 찾아 갱신, 없으면 신규 등록
+ * - 파일에 없는 열은 기존 값 유지 (기존 "질문"/"답변" 엑셀은 시트 이름을 카테고리로 사용)
+ * - 행별 검증 오류와 변경 내용을 적용 전에 보여주고 오류 행은 건너뜀
+ */
+
+import * as XLSX from "xlsx";
+import type { FAQ } from "../types";
+import {
+  FAQ_TRANSFER_COLUMNS,
+  type FaqTransferField,
+} from "./excelExportService";
+import { faqDedupeService, type DuplicateMatch } from "./faqDedupeService";
+import { autoEmbeddingService } from "./autoEmbeddingService";
+import { getSupabaseDatabaseService } from "./supabase";
+import { createLogger } from "./logger";
+
+const log = createLogger("faqImport");
+
+export type FaqImportAction = "create" | "update" | "unchanged" | "error";
+
+/** 가져오기 행 값 (파일에 없는 열은 undefined → 기존 값 유지) */
+export interface FaqImportRecord {
+  id?: number;
+  externalKey?: string;
+  category?: string;
+  question?: string;
+  answer?: string;
+  isActive?: boolean;
+  isFeatured?: boolean;
+  linkUrl?: string;
+  imageUrl?: string;
+  documentLink?: string;
+  keywords?: string[];
+}
+
+export interface FaqFieldChange {
+  field: FaqTransferField;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface FaqImportRow {
+  rowNumber: number; // 엑셀/CSV는 시트 행 번호, JSON은 항목 순서 (1부터)
+  sheet?: string;
+  action: FaqImportAction;
+  record: FaqImportRecord;
+  target?: FAQ; // 갱신 대상 기존 FAQ
+  changes: FaqFieldChange[];
+  errors: string[];
+  duplicates: DuplicateMatch[]; // 신규 행의 중복 의심
+}
+
+export interface FaqImportPreview {
+  fileName: string;
+  rows: FaqImportRow[];
+  counts: Record<FaqImportAction, number>;
+}
+
+export interface FaqImportFailure {
+  rowNumber: number;
+  sheet?: string;
+  question: string;
+  error: string;
+}
+
+export interface FaqImportResult {
+  created: number;
+  updated: number;
+  embedded: number;
+  failures: FaqImportFailure[];
+}
+
+interface RawFaqRow {
+  rowNumber: number;
+  sheet?: string;
+  values: Partial<Record<FaqTransferField, unknown>>;
+}
+
+/** 헤더/JSON 키 → 필드 (대소문자 무시) */
+const FIELD_BY_HEADER = new Map<string, FaqTransferField>([
+  ...FAQ_TRANSFER_COLUMNS.flatMap(
+    (column) =>
+      [
+        [column.header.toLowerCase(), column.key],
+        [column.key.toLowerCase(), column.key],
+      ] as [string, FaqTransferField][],
+  ),
+  ["semantickeywords", "keywords"],
+]);
+
+const LABEL_BY_FIELD = new Map<FaqTransferField, string>(
+  FAQ_TRANSFER_COLUMNS.map((column) => [column.key, column.header]),
+);
+
+const TRUE_VALUES = new Set(["y", "yes", "o", "true", "1", "예", "활성"]);
+const FALSE_VALUES = new Set([
+  "n",
+  "no",
+  "x",
+  "false",
+  "0",
+  "아니오",
+  "비활성",
+]);
+
+const REQUIRED_FIELDS = [
+  { field: "question", message: "질문이 비어 있습니다." },
+  { field: "answer", message: "답변이 비어 있습니다." },
+  { field: "category", message: "카테고리가 비어 있습니다." },
+] as const;
+
+const URL_FIELDS: FaqTransferField[] = ["linkUrl", "imageUrl", "documentLink"];
+
+const toText = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map(String).join(", ");
+  return String(value).trim();
+};
+
+const formatValue = (value: FaqImportRecord[keyof FaqImportRecord]): string => {
+  if (value === undefined) return "";
+  if (typeof value === "boolean") return value ? "Y" : "N";
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+};
+
+const currentValues = (faq: FAQ): FaqImportRecord => ({
+  id: faq.id,
+  externalKey: faq.externalKey || "",
+  category: faq.category,
+  question: faq.question,
+  answer: faq.answer,
+  isActive: faq.isActive,
+  isFeatured: Boolean(faq.isFeatured),
+  linkUrl: faq.linkUrl || "",
+  imageUrl: faq.imageUrl || "",
+  documentLink: faq.documentLink || "",
+  keywords: faq.semanticKeywords ?? [],
+});
+
+const errorMessage = (error: unknown): string => {
+  if (error && typeof error === "object") {
+    if ("code" in error && error.code === "23505") {
+      return "외부키가 다른 FAQ에서 이미 사용 중입니다.";
+    }
+    if ("message" in error) return String(error.message);
+  }
+  return String(error);
+};
+
+export class FaqImportService {
+  private static instance: FaqImportService;
+
+  private constructor() {
+    // 싱글톤 패턴
+  }
+
+  static getInstance(): FaqImportService {
+    if (!FaqImportService.instance) {
+      FaqImportService.instance = new FaqImportService();
+    }
+    return FaqImportService.instance;
+  }
+
+  isSupportedFile(fileName: string): boolean {
+    return /\.(xlsx|xls|csv|json)$/i.test(fileName);
+  }
+
+  /**
+   * 파일을 읽어 기존 FAQ와 비교한 미리보기 (DB 변경 없음)
+   */
+  async preview(file: File, existing: FAQ[]): Promise<FaqImportPreview> {
+    const rawRows = await this.parseFile(file);
+    if (rawRows.length === 0) {
+      throw new Error("가져올 FAQ 행이 없습니다.");
+    }
+
+    const faqById = new Map(existing.map((faq) => [faq.id, faq]));
+    const faqByKey = new Map(
+      existing
+        .filter((faq) => faq.externalKey)
+        .map((faq) => [faq.externalKey as string, faq]),
+    );
+    const seenTargetIds = new Set<number>();
+    const seenKeys = new Set<string>();
+
+    const rows = rawRows.map((raw) => {
+      const row = this.buildRow(raw, faqById, faqByKey);
+
+      // 파일 안에서 같은 FAQ를 두 번 가리키면 나중 행은 오류
+      const key = row.record.externalKey;
+      if (row.target && seenTargetIds.has(row.target.id)) {
+        row.errors.push(
+          `파일 안에서 FAQ #${row.target.id}를 가리키는 행이 여러 개입니다.`,
+        );
+      } else if (key && seenKeys.has(key)) {
+        row.errors.push(`파일 안에서 외부키 "${key}"가 중복됩니다.`);
+      }
+      if (row.target) seenTargetIds.add(row.target.id);
+      if (key) seenKeys.add(key);
+
+      if (row.errors.length > 0) {
+        row.action = "error";
+      } else if (row.target) {
+        row.changes = this.diff(row.target, row.record);
+        row.action = row.changes.length > 0 ? "update" : "unchanged";
+      }
+      return row;
+    });
+
+    // 신규 행만 기존 FAQ / 파일 내 중복 의심 확인 (적용은 막지 않음)
+    const createRows = rows.filter((row) => row.action === "create");
+    if (createRows.length > 0) {
+      const warnings = await faqDedupeService.checkCandidates(
+        createRows.map((row) => ({ question: row.record.question ?? "" })),
+        existing,
+      );
+      warnings.forEach((warning) => {
+        createRows[warning.index].duplicates = warning.matches;
+      });
+    }
+
+    const counts: Record<FaqImportAction, number> = {
+      create: 0,
+      update: 0,
+      unchanged: 0,
+      error: 0,
+    };
+    rows.forEach((row) => counts[row.action]++);
+
+    return { fileName: file.name, rows, counts };
+  }
+
+  /**
+   * 미리보기 행 적용 (create/update 행만, 행별 실패는 결과에 모아 반환)
+   * 질문/답변이 바뀐 FAQ는 저장 후 임베딩을 다시 생성
+   */
+  async apply(
+    rows: FaqImportRow[],
+    onProgress?: (done: number, total: number) => void,
+  ): Promise<FaqImportResult> {
+    const dbService = getSupabaseDatabaseService();
+    const targets = rows.filter(
+      (row) => row.action === "create" || row.action === "update",
+    );
+    const result: FaqImportResult = {
+      created: 0,
+      updated: 0,
+      embedded: 0,
+      failures: [],
+    };
+    const needsEmbedding: FAQ[] = [];
+
+    for (const [index, row] of targets.entries()) {
+      const { record } = row;
+      try {
+        if (row.action === "create") {
+          const created = await dbService.createFAQ({
+            question: record.question ?? "",
+            answer: record.answer ?? "",
+            category: record.category ?? "",
+            isActive: record.isActive ?? true,
+            externalKey: record.externalKey || undefined,
+            linkUrl: record.linkUrl || undefined,
+            imageUrl: record.imageUrl || undefined,
+            documentLink: record.documentLink || undefined,
+            semanticKeywords: record.keywords?.length
+              ? record.keywords
+              : undefined,
+            generationSource: "manual",
+          });
+          if (record.isFeatured) {
+            await dbService.setFAQFeatured(created.id, true);
+          }
+          needsEmbedding.push(created);
+          result.created++;
+        } else if (row.target) {
+          const changed = new Set(row.changes.map((change) => change.field));
+          const updates: Partial<FAQ> = {};
+          if (changed.has("externalKey"))
+            updates.externalKey = record.externalKey;
+          if (changed.has("category")) updates.category = record.category;
+          if (changed.has("question")) updates.question = record.question;
+          if (changed.has("answer")) updates.answer = record.answer;
+          if (changed.has("isActive")) updates.isActive = record.isActive;
+          if (changed.has("linkUrl")) updates.linkUrl = record.linkUrl;
+          if (changed.has("imageUrl")) updates.imageUrl = record.imageUrl;
+          if (changed.has("documentLink"))
+            updates.documentLink = record.documentLink;
+          if (changed.has("keywords"))
+            updates.semanticKeywords = record.keywords;
+
+          const updated = await dbService.updateFAQ(row.target.id, updates);
+          // 즐겨찾기는 최대 개수 제한이 있어 별도 처리
+          if (changed.has("isFeatured")) {
+            await dbService.setFAQFeatured(
+              row.target.id,
+              Boolean(record.isFeatured),
+            );
+          }
+          if (updated && (changed.has("question") || changed.has("answer"))) {
+            needsEmbedding.push(updated);
+          }
+          result.updated++;
+        }
+      } catch (error) {
+        log.error(`FAQ 가져오기 ${row.rowNumber}행 실패:`, error);
+        result.failures.push({
+          rowNumber: row.rowNumber,
+          sheet: row.sheet,
+          question: record.question ?? row.target?.question ?? "",
+          error: errorMessage(error),
+        });
+      }
+      onProgress?.(index + 1, targets.length);
+    }
+
+    for (const faq of needsEmbedding) {
+      try {
+        await autoEmbeddingService.generateAndSaveFAQEmbeddings(faq);
+        result.embedded++;
+      } catch (error) {
+        log.warn(`FAQ #${faq.id} 임베딩 생성 실패:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  private async parseFile(file: File): Promise<RawFaqRow[]> {
+    if (!this.isSupportedFile(file.name)) {
+      throw new Error(
+        "엑셀(.xlsx, .xls), CSV, JSON 파일만 가져올 수 있습니다.",
+      );
+    }
+
+    if (/\.json$/i.test(file.name)) {
+      const data: unknown = JSON.parse(await file.text());
+      const items = Array.isArray(data)
+        ? data
+        : data && typeof data === "object" && "faqs" in data
+          ? data.faqs
+          : null;
+      if (!Array.isArray(items)) {
+        throw new Error("JSON 파일에 FAQ 목록이 없습니다.");
+      }
+      return items.map((item, index) => ({
+        rowNumber: index + 1,
+        values: this.mapFields(
+          item && typeof item === "object"
+            ? Object.entries(item as Record<string, unknown>)
+            : [],
+        ),
+      }));
+    }
+
+    // CSV는 UTF-8 문자열로 읽어야 한글이 깨지지 않음
+    const isCsv = /\.csv$/i.test(file.name);
+    const workbook = isCsv
+      ? XLSX.read((await file.text()).replace(/^\uFEFF/, ""), {
+          type: "string",
+        })
+      : XLSX.read(await file.arrayBuffer());
+
+    const rows: RawFaqRow[] = [];
+    for (const sheetName of workbook.SheetNames) {
+      const table = XLSX.utils.sheet_to_json<unknown[]>(
+        workbook.Sheets[sheetName],
+        { header: 1, defval: "", raw: false, blankrows: true },
+      );
+      const [headers = [], ...body] = table;
+      body.forEach((cells, index) => {
+        if (cells.every((cell) => toText(cell) === "")) return;
+        rows.push({
+          rowNumber: index + 2,
+          sheet: isCsv ? undefined : sheetName,
+          values: this.mapFields(
+            headers.map((header, column) => [toText(header), cells[column]]),
+          ),
+        });
+      });
+    }
+    return rows;
+  }
+
+  private mapFields(
+    entries: [string, unknown][],
+  ): Partial<Record<FaqTransferField, unknown>> {
+    const values: Partial<Record<FaqTransferField, unknown>> = {};
+    entries.forEach(([name, value]) => {
+      const field = FIELD_BY_HEADER.get(name.trim().toLowerCase());
+      if (field) values[field] = value;
+    });
+    return values;
+  }
+
+  /** 행 값 검증 + 갱신 대상 찾기 (파일 내 중복/변경 비교는 preview에서) */
+  private buildRow(
+    raw: RawFaqRow,
+    faqById: Map<number, FAQ>,
+    faqByKey: Map<string, FAQ>,
+  ): FaqImportRow {
+    const { values } = raw;
+    const errors: string[] = [];
+    const record: FaqImportRecord = {};
+    const has = (field: FaqTransferField) => field in values;
+
+    const idText = toText(values.id);
+    if (idText) {
+      const id = Number(idText);
+      if (Number.isInteger(id) && id > 0) {
+        record.id = id;
+      } else {
+        errors.push(`ID가 올바르지 않습니다: ${idText}`);
+      }
+    }
+
+    if (has("externalKey")) record.externalKey = toText(values.externalKey);
+    if (has("question")) record.question = toText(values.question);
+    if (has("answer")) record.answer = toText(values.answer);
+    if (has("category")) {
+      record.category = toText(values.category);
+    } else if (raw.sheet) {
+      // 기존 엑셀 양식: 시트 이름이 카테고리
+      record.category = raw.sheet;
+    }
+
+    (["isActive", "isFeatured"] as const).forEach((field) => {
+      const value = values[field];
+      if (typeof value === "boolean") {
+        record[field] = value;
+        return;
+      }
+      const text = toText(value).toLowerCase();
+      if (!text) return;
+      if (TRUE_VALUES.has(text)) record[field] = true;
+      else if (FALSE_VALUES.has(text)) record[field] = false;
+      else
+        errors.push(
+          `${LABEL_BY_FIELD.get(field)} 값은 Y/N으로 입력하세요: ${toText(value)}`,
+        );
+    });
+
+    URL_FIELDS.forEach((field) => {
+      if (!has(field)) return;
+      const url = toText(values[field]);
+      if (url && !/^https?:\/\/\S+$/i.test(url)) {
+        errors.push(
+          `${LABEL_BY_FIELD.get(field)} URL 형식이 올바르지 않습니다.`,
+        );
+      }
+      record[field as "linkUrl" | "imageUrl" | "documentLink"] = url;
+    });
+
+    if (has("keywords")) {
+      const list = Array.isArray(values.keywords)
+        ? values.keywords.map(toText)
+        : toText(values.keywords).split(/[,\n]/);
+      record.keywords = Array.from(
+        new Set(list.map((keyword) => keyword.trim()).filter(Boolean)),
+      );
+    }
+
+    let target: FAQ | undefined;
+    if (record.id !== undefined) {
+      target = faqById.get(record.id);
+      if (!target) errors.push(`ID #${record.id} FAQ가 없습니다.`);
+    } else if (record.externalKey) {
+      target = faqByKey.get(record.externalKey);
+    }
+
+    const keyOwner = record.externalKey
+      ? faqByKey.get(record.externalKey)
+      : undefined;
+    if (target && keyOwner && keyOwner.id !== target.id) {
+      errors.push(
+        `외부키 "${record.externalKey}"는 FAQ #${keyOwner.id}에서 사용 중입니다.`,
+      );
+    }
+
+    // 필수 값: 신규는 항상, 갱신은 열이 있을 때만
+    REQUIRED_FIELDS.forEach(({ field, message }) => {
+      if ((!target || record[field] !== undefined) && !record[field]) {
+        errors.push(message);
+      }
+    });
+
+    return {
+      rowNumber: raw.rowNumber,
+      sheet: raw.sheet,
+      action: "create",
+      record,
+      target,
+      changes: [],
+      errors,
+      duplicates: [],
+    };
+  }
+
+  private diff(target: FAQ, record: FaqImportRecord): FaqFieldChange[] {
+    const current = currentValues(target);
+    return FAQ_TRANSFER_COLUMNS.filter(
+      (column) =>
+        column.key !== "id" &&
+        record[column.key] !== undefined &&
+        formatValue(record[column.key]) !== formatValue(current[column.key]),
+    ).map((column) => ({
+      field: column.key,
+      label: column.header,
+      before: formatValue(current[column.key]),
+      after: formatValue(record[column.key]),
+    }));
+  }
+}
+
+export const faqImportService = FaqImportService.getInstance();
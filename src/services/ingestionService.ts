@@ -0,0 +1,97 @@
+/**
+ * Ingestion Service
+ * 문서 서버 처리 작업(/api/ingestion) 호출 클라이언트 (싱글톤)
+ * 브라우저는 Storage 업로드/텍스트 추출까지만 하고 FAQ 생성/청킹/임베딩은 서버 작업 큐에서 처리
+ */
+
+import { supabase } from "./supabase/client";
+import type { IngestionJob, PDFDocument } from "../types";
+import { getCurrentWorkspaceId } from "./workspaceContext";
+
+export type IngestionDocumentInput = Pick<
+  PDFDocument,
+  "name" | "size" | "uploadMode" | "filePath" | "metadata"
+>;
+
+export class IngestionService {
+  private static instance: IngestionService;
+  private baseUrl: string = "/api/ingestion";
+
+  private constructor() {
+    // 싱글톤 패턴
+  }
+
+  static getInstance(): IngestionService {
+    if (!IngestionService.instance) {
+      IngestionService.instance = new IngestionService();
+    }
+    return IngestionService.instance;
+  }
+
+  private async request<T>(endpoint: string, body: unknown): Promise<T> {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error("No active session. Please login first.");
+    }
+
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+
+      try {
+        const errorData = await response.json();
+        errorMessage = errorData.error || errorMessage;
+      } catch {
+        // JSON 파싱 실패 시 기본 메시지 사용
+      }
+
+      throw new Error(errorMessage);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * 추출이 끝난 문서를 저장하고 서버 처리 작업 등록
+   * 반환된 documentId는 실제 DB 문서 ID
+   * replaceDocumentId 지정 시 기존 문서를 새 버전으로 교체 (FAQ 유지, 변경된 청크만 재임베딩)
+   */
+  async enqueue(
+    document: IngestionDocumentInput,
+    options: { useAI: boolean; replaceDocumentId?: number },
+  ): Promise<{ documentId: number; version: number; job: IngestionJob }> {
+    return this.request("/enqueue", {
+      workspaceId: getCurrentWorkspaceId(),
+      documentId: options.replaceDocumentId,
+      document,
+      options: { useAI: options.useAI },
+    });
+  }
+
+  /**
+   * 작업 처리 요청 (다른 워커가 처리 중이거나 재시도 대기 중이면 현재 상태만 반환)
+   * retry=true면 실패한 작업을 처음 시도부터 다시 처리
+   */
+  async runWorker(
+    jobId: string,
+    options: { retry?: boolean } = {},
+  ): Promise<IngestionJob | null> {
+    const result = await this.request<{ job: IngestionJob | null }>("/worker", {
+      jobId,
+      retry: options.retry,
+    });
+    return result.job;
+  }
+}
+
+export const ingestionService = IngestionService.getInstance();
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  containsKeyword,
+  jamoSimilarity,
+  normalizeForComparison,
+  stripJosa,
+  tokenMatches,
+  tokenize,
+} from "./koreanTokenizer";
+
+/** 실제 챗봇 질문 형태의 한국어 질의 → 기대 토큰 */
+const TOKENIZE_FIXTURES: Array<[string, string[]]> = [
+  ["환불은 어떻게 하나요?", ["환불"]],
+  ["그럼 기간은요?", ["기간"]],
+  ["그러면 비용은요", ["비용"]],
+  ["환불이요", ["환불"]],
+  ["필요한 서류는요?", ["필요한", "서류"]],
+  ["비밀번호를 잊어버렸어요", ["비밀번호", "잊어버렸"]],
+  ["설문조사 참여 방법을 알려주세요", ["설문조사", "참여", "방법"]],
+  ["패널 보상은 언제 지급되나요?", ["패널", "보상", "지급"]],
+  ["포인트 적립 기준이 궁금합니다", ["포인트", "적립", "기준"]],
+  ["서울에서 부산까지 배송", ["서울", "부산", "배송"]],
+  ["Survey 결과를 CSV로 받을 수 있나요", ["survey", "결과", "csv", "받을"]],
+];
+
+describe("tokenize", () => {
+  it.each(TOKENIZE_FIXTURES)("%s", (query, expected) => {
+    expect(tokenize(query)).toEqual(expected);
+  });
+
+  it("빈 문자열은 빈 목록", () => {
+    expect(tokenize("")).toEqual([]);
+  });
+
+  it("중복 토큰은 한 번만", () => {
+    expect(tokenize("환불 환불은 환불을")).toEqual(["환불"]);
+  });
+});
+
+describe("stripJosa", () => {
+  it.each([
+    ["환불을", "환불"],
+    ["서비스에서는", "서비스"],
+    ["기간은요", "기간"],
+    ["신청하려면", "신청"],
+  ])("%s → %s", (word, expected) => {
+    expect(stripJosa(word)).toBe(expected);
+  });
+
+  it("어간이 1음절만 남으면 제거하지 않음", () => {
+    expect(stripJosa("중요")).toBe("중요");
+    expect(stripJosa("책을")).toBe("책을");
+  });
+});
+
+describe("normalizeForComparison", () => {
+  it("동의어와 조사 차이를 무시", () => {
+    expect(normalizeForComparison("환불은 어떻게 하나요?")).toBe(
+      normalizeForComparison("환급 어떻게 하나요"),
+    );
+  });
+
+  it("토큰 순서를 무시", () => {
+    expect(normalizeForComparison("설문 가격")).toBe(
+      normalizeForComparison("가격 설문"),
+    );
+  });
+});
+
+describe("tokenMatches", () => {
+  it("복합어 포함", () => {
+    expect(tokenMatches("환불", "환불정책")).toBe(true);
+  });
+
+  it("자모 단위 오타 허용", () => {
+    expect(jamoSimilarity("비밀번호", "비빌번호")).toBeGreaterThanOrEqual(0.8);
+    expect(tokenMatches("비밀번호", "비빌번호")).toBe(true);
+  });
+
+  it("짧은 영문 토큰은 부분 일치하지 않음", () => {
+    expect(tokenMatches("ab", "abc")).toBe(false);
+  });
+});
+
+describe("containsKeyword", () => {
+  it("띄어 쓴 본문에서 붙여 쓴 키워드 매칭", () => {
+    expect(containsKeyword(tokenize("회원 가입 절차 안내"), "회원가입")).toBe(
+      true,
+    );
+  });
+});
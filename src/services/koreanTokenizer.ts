@@ -0,0 +1,337 @@
+/**
+ * Korean Tokenizer
+ * 키워드 검색/키워드 매칭용 한국어 정규화 유틸리티
+ * - 조사/어미 제거 ("환불은", "환불을" → "환불")
+ * - 자모 단위 유사도 (오타 허용 매칭)
+ * - 동의어 사전 (대표어로 정규화)
+ */
+
+/** 어미 (긴 것부터 매칭) */
+const ENDINGS = [
+  "해주세요",
+  "하려면",
+  "으려면",
+  "하나요",
+  "되나요",
+  "인가요",
+  "있나요",
+  "없나요",
+  "할까요",
+  "이에요",
+  "입니다",
+  "합니다",
+  "인지",
+  "는지",
+  "나요",
+  "까요",
+  "가요",
+  "세요",
+  "어요",
+  "아요",
+  "예요",
+  "해요",
+];
+
+/** 조사 (긴 것부터 매칭) */
+const JOSA = [
+  "으로부터",
+  "에게서",
+  "으로써",
+  "으로서",
+  "이라고",
+  "에서는",
+  "에서도",
+  "까지는",
+  "에게",
+  "에서",
+  "으로",
+  "부터",
+  "까지",
+  "보다",
+  "처럼",
+  "이나",
+  "이랑",
+  "하고",
+  "라고",
+  "은",
+  "는",
+  "이",
+  "가",
+  "을",
+  "를",
+  "의",
+  "에",
+  "로",
+  "와",
+  "과",
+  "도",
+  "만",
+  "랑",
+];
+
+/** 검색에 의미 없는 단어 (조사 제거 후 기준) */
+const STOPWORDS = new Set([
+  "어떻게",
+  "무엇",
+  "어디",
+  "언제",
+  "알려",
+  "알려주",
+  "알려주세요",
+  "궁금",
+  "궁금해요",
+  "궁금합니다",
+  "그리고",
+  "또한",
+  "관련",
+  "대해",
+  "대한",
+  "제가",
+  "저는",
+  "그럼",
+  "그러면",
+  "그런데",
+  "그래서",
+  "혹시",
+  "하나요",
+  "되나요",
+  "있나요",
+  "없나요",
+  "할까요",
+  "해주세요",
+]);
+
+/** 동의어 그룹 (첫 번째 단어가 대표어) */
+const SYNONYM_GROUPS: string[][] = [
+  ["환불", "환급", "반환"],
+  ["가격", "비용", "요금", "금액", "견적"],
+  ["설문", "설문조사", "서베이", "survey"],
+  ["조사", "리서치", "research"],
+  ["패널", "응답자", "panel"],
+  ["송금", "이체"],
+  ["계좌", "통장"],
+  ["비밀번호", "패스워드", "암호", "password"],
+  ["로그인", "접속", "login"],
+  ["가입", "회원가입"],
+  ["탈퇴", "해지"],
+  ["주식", "주가"],
+  ["연락처", "전화번호"],
+  ["담당자", "매니저"],
+];
+
+const SYNONYM_MAP = new Map<string, string>(
+  SYNONYM_GROUPS.flatMap((group) => group.map((word) => [word, group[0]])),
+);
+
+/** 자모 단위 퍼지 매칭 임계값 */
+const JAMO_SIMILARITY_THRESHOLD = 0.8;
+
+const HANGUL_BASE = 0xac00;
+const HANGUL_END = 0xd7a3;
+const CHOSEONG = "ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ";
+const JUNGSEONG = "ㅏㅐㅑㅒㅓㅔㅕㅖㅗㅘㅙㅚㅛㅜㅝㅞㅟㅠㅡㅢㅣ";
+const JONGSEONG = [
+  "",
+  ..."ㄱㄲㄳㄴㄵㄶㄷㄹㄺㄻㄼㄽㄾㄿㅀㅁㅂㅄㅅㅆㅇㅈㅊㅋㅌㅍㅎ",
+];
+
+const isHangul = (text: string): boolean => /[가-힣]/.test(text);
+
+/** 어간 2음절 이상을 남기고 끝나는 조사가 있는지 */
+const endsWithJosa = (word: string): boolean =>
+  JOSA.some((josa) => word.endsWith(josa) && word.length - josa.length >= 2);
+
+/**
+ * 단어 끝의 어미/조사 제거 (어간이 2음절 이상 남는 경우에만)
+ */
+export function stripJosa(word: string): string {
+  let stem = word;
+
+  const ending = ENDINGS.find(
+    (candidate) =>
+      stem.endsWith(candidate) && stem.length - candidate.length >= 2,
+  );
+  if (ending) {
+    stem = stem.slice(0, -ending.length);
+  } else if (stem.endsWith("요") && endsWithJosa(stem.slice(0, -1))) {
+    // 조사 + 존댓말 "요" ("기간은요", "환불이요")
+    stem = stem.slice(0, -1);
+  }
+
+  for (const josa of JOSA) {
+    if (stem.endsWith(josa) && stem.length - josa.length >= 2) {
+      stem = stem.slice(0, -josa.length);
+      break;
+    }
+  }
+
+  return stem;
+}
+
+/**
+ * 동의어 대표어 반환 (사전에 없으면 그대로)
+ */
+export function canonicalize(token: string): string {
+  return SYNONYM_MAP.get(token) || token;
+}
+
+/**
+ * 텍스트를 정규화된 키워드 토큰 목록으로 변환 (중복 제거)
+ * 한글은 조사/어미 제거 후 2음절 이상, 영문/숫자는 2자 이상만 유지
+ */
+export function tokenize(text: string): string[] {
+  if (!text) return [];
+
+  const words = text
+    .normalize("NFC")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+  const tokens = new Set<string>();
+  for (const word of words) {
+    const stem = isHangul(word) ? stripJosa(word) : word;
+    if (stem.length < 2 || STOPWORDS.has(stem)) continue;
+    tokens.add(stem);
+  }
+
+  return Array.from(tokens);
+}
+
+/**
+ * 중복 비교용 정규화 키 (조사/어미 제거 + 동의어 대표어, 토큰 순서 무시)
+ * 토큰이 없으면 공백을 제거한 소문자 원문
+ */
+export function normalizeForComparison(text: string): string {
+  const tokens = Array.from(new Set(tokenize(text).map(canonicalize))).sort();
+  return tokens.length > 0
+    ? tokens.join(" ")
+    : text.replace(/\s+/g, "").toLowerCase();
+}
+
+/**
+ * 한글 음절을 초성/중성/종성 자모로 분해
+ */
+export function decomposeJamo(text: string): string {
+  let result = "";
+
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code < HANGUL_BASE || code > HANGUL_END) {
+      result += char;
+      continue;
+    }
+
+    const offset = code - HANGUL_BASE;
+    result +=
+      CHOSEONG[Math.floor(offset / 588)] +
+      JUNGSEONG[Math.floor((offset % 588) / 28)] +
+      JONGSEONG[offset % 28];
+  }
+
+  return result;
+}
+
+/**
+ * 자모 단위 편집 거리 기반 유사도 (0~1)
+ */
+export function jamoSimilarity(a: string, b: string): number {
+  const jamoA = decomposeJamo(a);
+  const jamoB = decomposeJamo(b);
+  const maxLength = Math.max(jamoA.length, jamoB.length);
+  if (maxLength === 0) return 1;
+
+  let previous = Array.from({ length: jamoB.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= jamoA.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= jamoB.length; j++) {
+      const cost = jamoA[i - 1] === jamoB[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - previous[jamoB.length] / maxLength;
+}
+
+/**
+ * 질의 토큰이 대상 토큰과 매칭되는지 확인
+ * 완전 일치 → 동의어 → 복합어 포함("환불" ⊂ "환불정책") → 자모 유사도 순
+ */
+export function tokenMatches(queryToken: string, targetToken: string): boolean {
+  if (queryToken === targetToken) return true;
+  if (canonicalize(queryToken) === canonicalize(targetToken)) return true;
+  // 영문/숫자는 짧은 토큰의 과도한 부분 일치 방지
+  if (
+    (isHangul(queryToken) || queryToken.length >= 3) &&
+    targetToken.includes(queryToken)
+  ) {
+    return true;
+  }
+
+  if (
+    isHangul(queryToken) &&
+    queryToken.length >= 2 &&
+    Math.abs(queryToken.length - targetToken.length) <= 1
+  ) {
+    return jamoSimilarity(queryToken, targetToken) >= JAMO_SIMILARITY_THRESHOLD;
+  }
+
+  return false;
+}
+
+/**
+ * 대상 토큰 중 하나라도 매칭되는 질의 토큰 목록
+ */
+export function findMatchedTokens(
+  queryTokens: string[],
+  targetTokens: string[],
+): string[] {
+  return queryTokens.filter((queryToken) =>
+    targetTokens.some((targetToken) => tokenMatches(queryToken, targetToken)),
+  );
+}
+
+/**
+ * 키워드(semanticKeywords 등)가 토큰화된 텍스트에 포함되는지 확인
+ * 여러 단어 키워드는 모든 단어가 매칭되거나 붙여 쓴 형태로 포함되어야 함
+ */
+export function containsKeyword(
+  textTokens: string[],
+  keyword: string,
+): boolean {
+  const keywordTokens = tokenize(keyword);
+  if (keywordTokens.length === 0) return false;
+
+  if (
+    keywordTokens.every((keywordToken) =>
+      textTokens.some((textToken) => tokenMatches(keywordToken, textToken)),
+    )
+  ) {
+    return true;
+  }
+
+  return textTokens.join("").includes(keywordTokens.join(""));
+}
+
+/**
+ * 질의 대비 텍스트의 키워드 관련도 (0~1, 결정적)
+ * 질의 토큰 커버리지 × 0.8 + 붙여 쓴 질의 전체 포함 시 0.2
+ */
+export function keywordRelevance(query: string, text: string): number {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return 0;
+
+  const textTokens = tokenize(text);
+  const coverage =
+    findMatchedTokens(queryTokens, textTokens).length / queryTokens.length;
+  const compactQuery = queryTokens.join("");
+  const phraseMatch =
+    compactQuery.length >= 2 && textTokens.join("").includes(compactQuery);
+
+  return Math.min(coverage * 0.8 + (phraseMatch ? 0.2 : 0), 1);
+}
@@ -13,21 +13,58 @@ import type {
   DocumentUploadProgress,
   DocumentImage,
   DocumentGraph,
+  DocumentTable,
+  OcrMode,
+  OcrPageResult,
 } from "../types";
 import {
   getSupabaseDatabaseService,
   getSupabaseStorageService,
 } from "./supabase";
-import { WebGeminiService } from "./WebGeminiService";
+import { WebGeminiService, type ImageAnalysisResult } from "./WebGeminiService";
+import { ingestionService } from "./ingestionService";
 import * as pdfjsLib from "pdfjs-dist";
 import { defaultConfig } from "./config";
+import {
+  createTableChunkRecords,
+  createTextChunkRecords,
+  joinPages,
+} from "./documentChunker";
+import { extractTables } from "./pdfTableExtractor";
+import {
+  DEFAULT_DOCUMENT_EXTRACTORS,
+  type DocumentExtractor,
+  type ExtractedDocument,
+} from "./documentExtractors";
 
 const log = createLogger("pdfProcessing");
 
+// 이미지 분석 요청 크기 제한 (초과 시 JPEG 축소 변환)
+const MAX_INLINE_IMAGE_BYTES = 2.5 * 1024 * 1024;
+const MAX_IMAGE_DIMENSION = 2048;
+const VISION_MIME_TYPES = ["image/png", "image/jpeg", "image/webp"];
+
 export class PDFProcessingService {
   private static instance: PDFProcessingService;
   private geminiActive: boolean = false;
   private faqCount: number = defaultConfig.generation.defaultFaqCount;
+  // MIME 타입별 문서 텍스트 추출기 (PDF는 OCR/표 감지를 위해 서비스 메서드 사용)
+  private extractors = new Map<string, DocumentExtractor>([
+    [
+      "application/pdf",
+      {
+        label: "PDF",
+        extensions: [".pdf"],
+        extract: (file, context) =>
+          this.extractTextAndPageCount(
+            file,
+            context.ocrMode,
+            context.onPageProgress,
+          ),
+      },
+    ],
+    ...Object.entries(DEFAULT_DOCUMENT_EXTRACTORS),
+  ]);
 
   static getInstance(): PDFProcessingService {
     if (!PDFProcessingService.instance) {
@@ -82,260 +119,194 @@ export class PDFProcessingService {
   }
 
   /**
-   * PDF 처리 파이프라인
+   * 문서 추출기 등록 (같은 MIME 타입은 교체)
+   */
+  registerExtractor(mimeType: string, extractor: DocumentExtractor) {
+    this.extractors.set(mimeType, extractor);
+  }
+
+  /**
+   * 파일의 추출기 MIME 타입 (MIME 타입이 비어 있거나 다르면 확장자로 판별)
+   */
+  resolveDocumentType(file: File): string | null {
+    if (this.extractors.has(file.type)) return file.type;
+
+    const extension = file.name.toLowerCase().match(/\.[^.]+$/)?.[0];
+    if (!extension) return null;
+
+    for (const [mimeType, extractor] of this.extractors) {
+      if (extractor.extensions.includes(extension)) return mimeType;
+    }
+    return null;
+  }
+
+  isSupportedDocument(file: File): boolean {
+    return this.resolveDocumentType(file) !== null;
+  }
+
+  /**
+   * 업로드 가능한 문서 확장자 (파일 선택 accept 용)
+   */
+  getSupportedExtensions(): string[] {
+    return Array.from(
+      new Set(
+        Array.from(this.extractors.values()).flatMap(
+          (extractor) => extractor.extensions,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * 문서 처리 파이프라인 (PDF / Word / PowerPoint / 한글 / TXT / HTML)
    * 1. Supabase Storage 업로드
-   * 2. PDF.js 텍스트 추출 (클라이언트)
-   * 3. Gemini 문서 분석 (서버, Vercel Function)
-   * 4. Supabase DB 저장
+   * 2. 형식별 추출기로 페이지 마커 텍스트 추출 (PDF 스캔 페이지는 Gemini OCR)
+   * 3. 추출 텍스트 Storage 업로드 + 문서 저장 + 서버 처리 작업 등록 (텍스트 읽기 / FAQ 생성 / 청킹 / 임베딩은 /api/ingestion 워커)
+   * replaceDocumentId 지정 시 기존 문서의 새 버전으로 등록 (이전 버전 보관, FAQ 유지)
    */
-  async processGeneralPDF(
+  async processGeneralDocument(
     file: File,
     onProgress: (progress: DocumentUploadProgress) => void,
+    options: { ocrMode?: OcrMode; replaceDocumentId?: number } = {},
   ): Promise<PDFDocument> {
-    const documentId = Date.now();
+    const ocrMode = options.ocrMode ?? "auto";
+    // 진행률 표시용 키 (DB 문서 ID는 서버 작업 등록 시 발급)
+    const progressId = file.name;
 
     try {
+      const mimeType = this.resolveDocumentType(file);
+      const extractor = mimeType ? this.extractors.get(mimeType) : undefined;
+      if (!mimeType || !extractor) {
+        throw new Error(`지원하지 않는 문서 형식입니다: ${file.name}`);
+      }
+      // 한글 문서 등 MIME 타입이 비어 있는 파일은 Storage 허용 타입으로 지정
+      if (file.type !== mimeType) {
+        file = new File([file], file.name, { type: mimeType });
+      }
+
       this.loadGeminiConfigFromSettings();
-      const geminiService = WebGeminiService.getInstance();
-      const dbService = getSupabaseDatabaseService();
       const storageService = getSupabaseStorageService();
 
       // Stage 1: Upload to Supabase Storage
       onProgress({
-        documentId,
+        documentId: progressId,
         fileName: file.name,
         progress: 10,
         stage: "uploading",
       });
 
       let filePath: string | undefined;
-      let filePublicUrl: string | undefined;
       try {
         const uploadResult = await storageService.upload(file);
         filePath = uploadResult.path;
-        filePublicUrl = uploadResult.publicUrl;
         log.debug(`✅ 파일 업로드 완료: ${filePath}`);
       } catch (error) {
         log.warn("파일 업로드 실패, 계속 진행:", error);
       }
 
-      // Stage 2: Processing - PDF.js 텍스트 추출
+      // Stage 2: Processing - 형식별 텍스트 추출
       onProgress({
-        documentId,
+        documentId: progressId,
         fileName: file.name,
         progress: 30,
         stage: "processing",
       });
 
-      const { text: extractedText, numPages } =
-        await this.extractTextAndPageCount(file);
-      const originalOcrText = extractedText;
-
-      // Stage 3: AI-powered 문서 분석 (Vercel Function)
+      const {
+        text: extractedText,
+        numPages,
+        ocrPages = [],
+        tables = [],
+      } = await extractor.extract(file, {
+        ocrMode,
+        onPageProgress: (pageNum, totalPages) =>
+          onProgress({
+            documentId: progressId,
+            fileName: file.name,
+            progress: 30 + Math.round((pageNum / totalPages) * 55),
+            stage: "processing",
+          }),
+      });
+      log.debug(`✓ ${extractor.label} 텍스트 추출 완료: ${file.name}`);
+      const ocrConfidences = ocrPages
+        .filter((page) => page.method === "ocr")
+        .map((page) => page.confidence ?? 0);
+      const uploadMode = ocrConfidences.length > 0 ? "deepseek_ocr" : "general";
+
+      // Stage 3: 문서 저장 + 서버 처리 작업 등록
+      // FAQ 생성 → 청킹 → 임베딩은 서버 워커가 이어서 처리 (탭을 닫아도 계속 진행)
       onProgress({
-        documentId,
+        documentId: progressId,
         fileName: file.name,
-        progress: 40,
-        stage: "extracting",
+        progress: 90,
+        stage: "queued",
       });
 
-      let chunks: PDFChunk[];
-      let generatedFaqs: FAQ[];
-      let usedAI = "none";
-
-      if (this.geminiActive) {
-        try {
-          // analyzeDocument: 텍스트 향상 + 스마트 청킹 + FAQ 생성 통합
-          const analysisResult = await geminiService.analyzeDocument(
-            extractedText,
-            file.name,
-          );
-          usedAI = "gemini";
-
-          // Stage 4: Chunking (서버에서 이미 완료)
-          onProgress({
-            documentId,
-            fileName: file.name,
-            progress: 65,
-            stage: "chunking",
-          });
-
-          // 분석 결과를 PDFChunk 타입으로 변환
-          chunks = analysisResult.chunks.map((chunk, index) => ({
-            id: index + 1,
-            documentId,
-            content: chunk.content,
-            pageNumber: 1,
-            chunkIndex: index,
-            metadata: {
-              title: chunk.title,
-              summary: chunk.summary,
-              importance: (["high", "medium", "low"].includes(chunk.importance)
-                ? chunk.importance
-                : "medium") as "high" | "medium" | "low",
-              keywords: chunk.keywords,
-              chunkType: "content" as const,
-            },
-          }));
-
-          // Stage 5: FAQ 생성 (서버에서 이미 완료)
-          onProgress({
-            documentId,
-            fileName: file.name,
-            progress: 85,
-            stage: "generating_faqs",
-          });
-
-          // 분석 결과를 FAQ 타입으로 변환
-          generatedFaqs = analysisResult.suggestedFAQs.map((faq, index) => ({
-            id: Date.now() + index,
-            question: faq.question,
-            answer: faq.answer,
-            category: faq.category || "일반",
-            isActive: true,
-            imageUrl: "",
-            linkUrl: "",
-            attachmentUrl: filePublicUrl || "",
-            attachmentName: file.name,
-            documentId,
-          }));
-
-          log.debug(
-            `✓ Gemini 문서 분석 성공: ${file.name} (${chunks.length}개 청크, ${generatedFaqs.length}개 FAQ)`,
-          );
-        } catch (error: any) {
-          log.warn(
-            `⚠ Gemini 문서 분석 실패 (${error.message}), 기본 처리 사용:`,
-            error,
-          );
-          chunks = this.createChunks(extractedText, documentId);
-          generatedFaqs = [];
-          usedAI = "basic";
-
-          onProgress({
-            documentId,
-            fileName: file.name,
-            progress: 65,
-            stage: "chunking",
-          });
-
-          onProgress({
-            documentId,
-            fileName: file.name,
-            progress: 85,
-            stage: "generating_faqs",
-          });
-        }
-      } else {
-        chunks = this.createChunks(extractedText, documentId);
-        generatedFaqs = [];
-        usedAI = "basic";
-        log.debug(`ℹ 기본 처리 사용: ${file.name}`);
-
-        onProgress({
-          documentId,
-          fileName: file.name,
-          progress: 65,
-          stage: "chunking",
-        });
-
-        onProgress({
-          documentId,
-          fileName: file.name,
-          progress: 85,
-          stage: "generating_faqs",
-        });
-      }
-
       const metadata = {
         pages: numPages,
         textContent: extractedText,
         images: [] as DocumentImage[],
         graphs: [] as DocumentGraph[],
-        tables: [],
+        tables,
+        ocr:
+          ocrConfidences.length > 0
+            ? {
+                mode: ocrMode,
+                pages: ocrPages,
+                averageConfidence:
+                  ocrConfidences.reduce((sum, value) => sum + value, 0) /
+                  ocrConfidences.length,
+              }
+            : undefined,
       };
+      const size = this.formatFileSize(file.size);
 
-      log.debug(`\n📊 PDF 처리 완료 요약: ${file.name}`);
-      log.debug(`   - AI 분석: ${usedAI === "gemini" ? "Gemini" : "기본"}`);
-      log.debug(`   - 청크: ${chunks.length}개`);
-      log.debug(`   - FAQ: ${generatedFaqs.length}개`);
+      // 추출 텍스트는 Storage에 올리고 경로만 전달 (요청 크기 제한)
+      const { textContent, ...queuedMetadata } = metadata;
+      const textPath = await storageService.uploadExtractedText(
+        textContent,
+        file.name,
+      );
+
+      const { documentId, version } = await ingestionService.enqueue(
+        {
+          name: file.name,
+          size,
+          uploadMode,
+          filePath,
+          metadata: { ...queuedMetadata, textPath },
+        },
+        {
+          useAI: this.geminiActive,
+          replaceDocumentId: options.replaceDocumentId,
+        },
+      );
+      log.debug(
+        `✓ 서버 처리 작업 등록: ${file.name} (문서 ${documentId}, 표 ${tables.length}개)`,
+      );
 
-      // Stage 6: Save to Supabase DB
       onProgress({
-        documentId,
+        documentId: progressId,
         fileName: file.name,
-        progress: 95,
-        stage: "completed",
+        progress: 100,
+        stage: "queued",
       });
 
-      const documentData = {
+      return {
+        id: documentId,
         name: file.name,
-        size: this.formatFileSize(file.size),
+        size,
         uploadDate: new Date().toISOString().split("T")[0],
-        status: "completed" as const,
-        uploadMode: "general" as const,
+        status: "processing",
+        uploadMode,
         filePath,
-        ocrText: originalOcrText,
+        ocrText: extractedText,
         metadata,
+        version,
       };
-
-      try {
-        const savedDocument = await dbService.createDocumentWithChunksAndFAQs(
-          documentData,
-          chunks.map((chunk) => ({
-            content: chunk.content,
-            pageNumber: chunk.pageNumber,
-            chunkIndex: chunk.chunkIndex,
-            embeddings: chunk.embeddings,
-            metadata: chunk.metadata,
-          })),
-          generatedFaqs.map((faq) => ({
-            question: faq.question,
-            answer: faq.answer,
-            category: faq.category,
-            isActive: faq.isActive,
-            imageUrl: faq.imageUrl,
-            linkUrl: faq.linkUrl,
-            attachmentUrl: faq.attachmentUrl,
-            attachmentName: faq.attachmentName,
-          })),
-        );
-
-        // Stage 7: Completed
-        onProgress({
-          documentId,
-          fileName: file.name,
-          progress: 100,
-          stage: "completed",
-        });
-
-        return savedDocument;
-      } catch (dbError) {
-        log.error("Database save failed:", dbError);
-        onProgress({
-          documentId,
-          fileName: file.name,
-          progress: 100,
-          stage: "completed",
-        });
-
-        return {
-          id: documentId,
-          name: file.name,
-          size: this.formatFileSize(file.size),
-          uploadDate: new Date().toISOString().split("T")[0],
-          status: "completed",
-          uploadMode: "general",
-          filePath,
-          ocrText: originalOcrText,
-          metadata,
-          chunks,
-          generatedFaqs,
-        };
-      }
     } catch (error) {
       onProgress({
-        documentId,
+        documentId: progressId,
         fileName: file.name,
         progress: 0,
         stage: "error",
@@ -389,9 +360,9 @@ export class PDFProcessingService {
         stage: "processing",
       });
 
-      await this.delay(300);
+      const image = await this.prepareImageForAnalysis(file);
 
-      // Stage 3: AI Image Analysis (미래 확장 가능)
+      // Stage 3: AI Image Analysis (Gemini Vision OCR + 설명 + 표)
       onProgress({
         documentId,
         fileName: file.name,
@@ -399,24 +370,51 @@ export class PDFProcessingService {
         stage: "extracting",
       });
 
-      const description = `Image: ${file.name}`;
+      let analysis: ImageAnalysisResult | null = null;
+      if (this.geminiActive) {
+        try {
+          analysis = await WebGeminiService.getInstance().analyzeImage(
+            image.base64,
+            image.mimeType,
+            file.name,
+          );
+          log.debug(
+            `✓ 이미지 분석 성공: ${file.name} (텍스트 ${analysis.extractedText.length}자, 표 ${analysis.tables.length}개)`,
+          );
+        } catch (error) {
+          log.warn("이미지 분석 실패, 기본 처리 사용:", error);
+        }
+      }
+
+      const description = analysis?.caption || `Image: ${file.name}`;
+      const extractedText = analysis?.extractedText || "";
 
       const metadata = {
         pages: 1,
-        textContent: description,
+        textContent: [description, extractedText].filter(Boolean).join("\n\n"),
         images: [
-          { url: imageUrl, fileName: file.name, description: file.name },
+          {
+            url: imageUrl,
+            fileName: file.name,
+            description,
+            metadata: {
+              width: image.width,
+              height: image.height,
+              format: file.type,
+              extractedText,
+            },
+          },
         ] as DocumentImage[],
         graphs: [] as DocumentGraph[],
-        tables: [],
+        tables: analysis?.tables ?? [],
         imageData: {
-          width: 0,
-          height: 0,
+          width: image.width,
+          height: image.height,
           format: file.type,
         },
       };
 
-      // Stage 4: Create single chunk for image
+      // Stage 4: Chunking (설명 + 추출 텍스트 + 표) 및 임베딩
       onProgress({
         documentId,
         fileName: file.name,
@@ -424,17 +422,15 @@ export class PDFProcessingService {
         stage: "chunking",
       });
 
-      const chunks: PDFChunk[] = [
-        {
-          id: Date.now(),
-          documentId,
-          content: description,
-          pageNumber: 1,
-          chunkIndex: 0,
-          embeddings: [],
-          metadata: { type: "image", imageUrl },
-        },
-      ];
+      let chunks = this.createImageChunks(
+        documentId,
+        description,
+        imageUrl,
+        analysis,
+      );
+      if (analysis) {
+        chunks = await this.embedChunks(chunks);
+      }
 
       // Stage 5: Generate FAQs
       onProgress({
@@ -444,11 +440,20 @@ export class PDFProcessingService {
         stage: "generating_faqs",
       });
 
-      const generatedFaqs: FAQ[] = this.generateImageFAQs(
-        description,
-        file.name,
-        imageUrl,
-      );
+      const generatedFaqs: FAQ[] = analysis?.suggestedFAQs.length
+        ? analysis.suggestedFAQs.map((faq, index) => ({
+            id: Date.now() + index,
+            question: faq.question,
+            answer: faq.answer,
+            category: faq.category || "일반",
+            isActive: true,
+            imageUrl,
+            linkUrl: "",
+            attachmentUrl: "",
+            attachmentName: "",
+            documentId,
+          }))
+        : this.generateImageFAQs(description, file.name, imageUrl);
 
       // Stage 6: Save to database
       onProgress({
@@ -465,6 +470,7 @@ export class PDFProcessingService {
         status: "completed" as const,
         uploadMode: "general" as const,
         filePath,
+        ocrText: extractedText || undefined,
         metadata,
       };
 
@@ -560,12 +566,168 @@ export class PDFProcessingService {
     ];
   }
 
+  /**
+   * 이미지 분석 요청용 base64 변환
+   * 요청 크기 제한을 넘거나 Gemini 미지원 형식이면 JPEG로 축소 변환
+   */
+  private async prepareImageForAnalysis(file: File): Promise<{
+    base64: string;
+    mimeType: string;
+    width: number;
+    height: number;
+  }> {
+    let blob: Blob = file;
+    let mimeType = file.type;
+    let width = 0;
+    let height = 0;
+
+    try {
+      const bitmap = await createImageBitmap(file);
+      width = bitmap.width;
+      height = bitmap.height;
+
+      const needsConversion =
+        file.size > MAX_INLINE_IMAGE_BYTES ||
+        Math.max(width, height) > MAX_IMAGE_DIMENSION ||
+        !VISION_MIME_TYPES.includes(file.type);
+
+      if (needsConversion) {
+        const scale = Math.min(
+          1,
+          MAX_IMAGE_DIMENSION / Math.max(width, height),
+        );
+        const canvas = document.createElement("canvas");
+        canvas.width = Math.round(width * scale);
+        canvas.height = Math.round(height * scale);
+        canvas
+          .getContext("2d")
+          ?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+        blob = await new Promise<Blob>((resolve, reject) =>
+          canvas.toBlob(
+            (result) =>
+              result ? resolve(result) : reject(new Error("이미지 변환 실패")),
+            "image/jpeg",
+            0.85,
+          ),
+        );
+        mimeType = "image/jpeg";
+      }
+      bitmap.close();
+    } catch (error) {
+      log.warn("이미지 디코딩 실패, 원본 그대로 전송:", error);
+    }
+
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+
+    return { base64: dataUrl.split(",")[1] || "", mimeType, width, height };
+  }
+
+  /**
+   * 이미지 청크 구성: 설명 1개 + 추출 텍스트(페이지 청킹) + 표 청크
+   */
+  private createImageChunks(
+    documentId: number,
+    description: string,
+    imageUrl: string,
+    analysis: ImageAnalysisResult | null,
+  ): PDFChunk[] {
+    const imageMetadata = {
+      type: "image",
+      imageUrl,
+      keywords: analysis?.keywords.length ? analysis.keywords : undefined,
+    };
+
+    const chunks: PDFChunk[] = [
+      {
+        id: 1,
+        documentId,
+        content: description,
+        pageNumber: 1,
+        chunkIndex: 0,
+        embeddings: [],
+        metadata: { ...imageMetadata, title: "이미지 설명" },
+      },
+    ];
+
+    if (analysis?.extractedText) {
+      this.createChunks(analysis.extractedText, documentId).forEach((chunk) =>
+        chunks.push({
+          ...chunk,
+          metadata: { ...chunk.metadata, ...imageMetadata },
+        }),
+      );
+    }
+
+    if (analysis) {
+      this.createTableChunks(analysis.tables, documentId).forEach((chunk) =>
+        chunks.push({
+          ...chunk,
+          metadata: { ...chunk.metadata, ...imageMetadata },
+        }),
+      );
+    }
+
+    return chunks.map((chunk, index) => ({
+      ...chunk,
+      id: index + 1,
+      chunkIndex: index,
+    }));
+  }
+
+  /**
+   * 표 청크 생성 (chunkType "table", 행 단위 "열: 값" 직렬화)
+   * id/chunkIndex는 호출 측에서 전체 청크 기준으로 재부여
+   */
+  private createTableChunks(
+    tables: DocumentTable[],
+    documentId: number,
+  ): PDFChunk[] {
+    return createTableChunkRecords(tables).map((record) => ({
+      ...record,
+      id: 0,
+      documentId,
+      chunkIndex: 0,
+    }));
+  }
+
+  /**
+   * 청크 임베딩 생성 (실패 시 임베딩 없이 저장, 이후 일괄 생성 가능)
+   */
+  private async embedChunks(chunks: PDFChunk[]): Promise<PDFChunk[]> {
+    try {
+      const embeddings =
+        await WebGeminiService.getInstance().generateBatchEmbeddings(
+          chunks.map((chunk) => chunk.content),
+        );
+
+      return chunks.map((chunk, index) =>
+        embeddings[index]?.length
+          ? { ...chunk, embeddings: embeddings[index] }
+          : chunk,
+      );
+    } catch (error) {
+      log.warn("청크 임베딩 생성 실패, 임베딩 없이 저장:", error);
+      return chunks;
+    }
+  }
+
   /**
    * PDF에서 텍스트와 페이지 수를 함께 추출 (pdfjs-dist)
+   * 페이지 구분은 "=== 페이지 N ===" 마커로 보존
+   * 텍스트 레이어가 부족한 스캔 페이지는 이미지로 렌더링해 Gemini OCR (ocrMode)
+   * 텍스트 레이어의 표는 좌표로 감지해 구조화
    */
   private async extractTextAndPageCount(
     file: File,
-  ): Promise<{ text: string; numPages: number }> {
+    ocrMode: OcrMode = "auto",
+    onPageProgress?: (pageNum: number, numPages: number) => void,
+  ): Promise<ExtractedDocument> {
     try {
       if (typeof window !== "undefined") {
         pdfjsLib.GlobalWorkerOptions.workerSrc = "/pdf.worker.min.mjs";
@@ -577,29 +739,98 @@ export class PDFProcessingService {
       const loadingTask = pdfjsLib.getDocument({ data: uint8Array });
       const pdfDocument = await loadingTask.promise;
 
-      let fullText = "";
+      const ocrEnabled = ocrMode !== "off" && this.geminiActive;
+      const ocrPages: OcrPageResult[] = [];
+      const pageTexts: string[] = [];
+      const tables: DocumentTable[] = [];
 
       for (let pageNum = 1; pageNum <= pdfDocument.numPages; pageNum++) {
+        onPageProgress?.(pageNum, pdfDocument.numPages);
+
         const page = await pdfDocument.getPage(pageNum);
         const textContent = await page.getTextContent();
 
-        const pageText = textContent.items
-          .map((item: any) => item.str)
-          .join(" ");
+        // 텍스트 레이어 좌표 기반 표 감지
+        tables.push(
+          ...extractTables(
+            textContent.items.filter((item) => "str" in item),
+            pageNum,
+          ),
+        );
+
+        // hasEOL 줄바꿈 유지 (제목/단락 경계 청킹용)
+        let pageText = textContent.items
+          .map((item) =>
+            "str" in item ? item.str + (item.hasEOL ? "\n" : " ") : "",
+          )
+          .join("")
+          .trim();
+
+        const needsOcr =
+          ocrEnabled &&
+          (ocrMode === "always" ||
+            pageText.replace(/\s/g, "").length <
+              defaultConfig.ocr.minTextLayerChars);
+        const ocrCount = ocrPages.filter((p) => p.method === "ocr").length;
+
+        if (needsOcr && ocrCount < defaultConfig.ocr.maxPages) {
+          try {
+            const result = await this.ocrPdfPage(page, pageNum);
+            // auto 모드에서는 텍스트 레이어가 더 길면 그대로 사용
+            if (ocrMode === "always" || result.text.length > pageText.length) {
+              pageText = result.text;
+              ocrPages.push({
+                pageNumber: pageNum,
+                method: "ocr",
+                confidence: result.confidence,
+                textLength: pageText.length,
+              });
+            } else {
+              ocrPages.push({
+                pageNumber: pageNum,
+                method: "text",
+                textLength: pageText.length,
+              });
+            }
+          } catch (error) {
+            log.warn(`페이지 ${pageNum} OCR 실패, 텍스트 레이어 사용:`, error);
+            ocrPages.push({
+              pageNumber: pageNum,
+              method: "text",
+              textLength: pageText.length,
+            });
+          }
+        } else {
+          ocrPages.push({
+            pageNumber: pageNum,
+            method: "text",
+            textLength: pageText.length,
+          });
+        }
 
-        fullText += pageText + "\n\n";
+        page.cleanup();
+        pageTexts.push(pageText);
       }
 
-      if (!fullText.trim()) {
+      const fullText = joinPages(pageTexts);
+
+      if (pageTexts.every((pageText) => !pageText)) {
         throw new Error(
-          "PDF에서 텍스트를 추출할 수 없습니다. 이미지 기반 PDF일 수 있습니다.",
+          ocrEnabled
+            ? "PDF에서 텍스트를 추출할 수 없습니다. OCR로도 인식된 텍스트가 없습니다."
+            : "PDF에서 텍스트를 추출할 수 없습니다. 이미지 기반 PDF라면 OCR 모드를 사용하세요.",
         );
       }
 
       log.debug(
-        `PDF 텍스트 추출 성공: ${file.name} (${pdfDocument.numPages} 페이지, ${fullText.length} 글자)`,
+        `PDF 텍스트 추출 성공: ${file.name} (${pdfDocument.numPages} 페이지, ${fullText.length} 글자, OCR ${ocrPages.filter((p) => p.method === "ocr").length} 페이지)`,
       );
-      return { text: fullText.trim(), numPages: pdfDocument.numPages };
+      return {
+        text: fullText,
+        numPages: pdfDocument.numPages,
+        ocrPages,
+        tables,
+      };
     } catch (error) {
       log.error("PDF 텍스트 추출 실패:", error);
       throw new Error(
@@ -609,163 +840,50 @@ export class PDFProcessingService {
   }
 
   /**
-   * 페이지 단위 청킹 (기본 Fallback)
+   * PDF 페이지를 캔버스에 렌더링해 JPEG로 OCR 요청
    */
-  private createChunks(text: string, documentId: number): PDFChunk[] {
-    const chunks: PDFChunk[] = [];
-
-    // 페이지별로 텍스트 분리
-    const pagePattern = /=== 페이지 (\d+) ===/g;
-    const pages: { pageNumber: number; content: string }[] = [];
-
-    let lastIndex = 0;
-    let match;
-    let currentPageNum = 1;
-
-    while ((match = pagePattern.exec(text)) !== null) {
-      if (lastIndex > 0) {
-        const content = text.substring(lastIndex, match.index).trim();
-        if (content) {
-          pages.push({ pageNumber: currentPageNum, content });
-        }
-      }
-
-      currentPageNum = parseInt(match[1], 10);
-      lastIndex = match.index + match[0].length;
-    }
-
-    // 마지막 페이지 내용 추가
-    if (lastIndex < text.length) {
-      const lastContent = text.substring(lastIndex).trim();
-      if (lastContent) {
-        pages.push({ pageNumber: currentPageNum, content: lastContent });
-      }
-    }
-
-    // 페이지가 파싱되지 않으면 전체 텍스트를 하나의 페이지로
-    if (pages.length === 0 && text.trim()) {
-      pages.push({ pageNumber: 1, content: text.trim() });
-    }
-
-    log.debug(`✓ 페이지 파싱 완료: ${pages.length}개 페이지`);
-
-    // 페이지별로 청킹
-    pages.forEach((page) => {
-      const pageContent = page.content.trim();
-      if (!pageContent) return;
+  private async ocrPdfPage(
+    page: pdfjsLib.PDFPageProxy,
+    pageNum: number,
+  ): Promise<{ text: string; confidence: number }> {
+    const baseViewport = page.getViewport({ scale: 1 });
+    const scale = Math.min(
+      defaultConfig.ocr.renderScale,
+      MAX_IMAGE_DIMENSION / Math.max(baseViewport.width, baseViewport.height),
+    );
+    const viewport = page.getViewport({ scale });
 
-      const MAX_CHUNK_SIZE = defaultConfig.chunking.maxChunkSize;
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
 
-      // 페이지가 작은 경우: 전체 페이지를 하나의 청크로
-      if (pageContent.length <= MAX_CHUNK_SIZE) {
-        chunks.push({
-          id: chunks.length + 1,
-          documentId,
-          content: pageContent,
-          pageNumber: page.pageNumber,
-          chunkIndex: chunks.length,
-          metadata: {
-            pageLabel: `${page.pageNumber}페이지`,
-            chunkType: "page",
-            importance: "medium",
-          },
-        });
-        return;
-      }
+    await page.render({ canvas, viewport }).promise;
 
-      // 페이지가 큰 경우: 단락 또는 문장 단위로 분할
-      const paragraphs = pageContent
-        .split(/\n\s*\n/)
-        .filter((p) => p.trim().length > 0);
-
-      if (paragraphs.length > 1) {
-        let currentChunk = "";
-
-        paragraphs.forEach((para) => {
-          if (currentChunk.length + para.length <= MAX_CHUNK_SIZE) {
-            currentChunk += (currentChunk ? "\n\n" : "") + para;
-          } else {
-            if (currentChunk) {
-              chunks.push({
-                id: chunks.length + 1,
-                documentId,
-                content: currentChunk.trim(),
-                pageNumber: page.pageNumber,
-                chunkIndex: chunks.length,
-                metadata: {
-                  pageLabel: `${page.pageNumber}페이지`,
-                  chunkType: "paragraph",
-                  importance: "medium",
-                },
-              });
-            }
-            currentChunk = para;
-          }
-        });
-
-        if (currentChunk) {
-          chunks.push({
-            id: chunks.length + 1,
-            documentId,
-            content: currentChunk.trim(),
-            pageNumber: page.pageNumber,
-            chunkIndex: chunks.length,
-            metadata: {
-              pageLabel: `${page.pageNumber}페이지`,
-              chunkType: "paragraph",
-              importance: "medium",
-            },
-          });
-        }
-      } else {
-        // 단락이 없는 경우: 문장 단위로 분할
-        const sentences = pageContent
-          .split(/[.!?]+/)
-          .filter((s) => s.trim().length > 20);
-        let currentChunk = "";
-
-        sentences.forEach((sentence) => {
-          if (currentChunk.length + sentence.length <= MAX_CHUNK_SIZE) {
-            currentChunk += (currentChunk ? ". " : "") + sentence.trim();
-          } else {
-            if (currentChunk) {
-              chunks.push({
-                id: chunks.length + 1,
-                documentId,
-                content: currentChunk.trim() + ".",
-                pageNumber: page.pageNumber,
-                chunkIndex: chunks.length,
-                metadata: {
-                  pageLabel: `${page.pageNumber}페이지`,
-                  chunkType: "section",
-                  importance: "medium",
-                },
-              });
-            }
-            currentChunk = sentence.trim();
-          }
-        });
+    const dataUrl = canvas.toDataURL("image/jpeg", 0.85);
+    canvas.width = 0;
+    canvas.height = 0;
 
-        if (currentChunk) {
-          chunks.push({
-            id: chunks.length + 1,
-            documentId,
-            content: currentChunk.trim() + ".",
-            pageNumber: page.pageNumber,
-            chunkIndex: chunks.length,
-            metadata: {
-              pageLabel: `${page.pageNumber}페이지`,
-              chunkType: "section",
-              importance: "medium",
-            },
-          });
-        }
-      }
-    });
+    return WebGeminiService.getInstance().ocrPage(
+      dataUrl.split(",")[1] || "",
+      "image/jpeg",
+      pageNum,
+    );
+  }
 
-    log.debug(
-      `✅ 페이지 단위 청킹 완료: ${chunks.length}개 청크 (${pages.length}개 페이지)`,
+  /**
+   * 페이지 보존 청킹 (기본 Fallback)
+   */
+  private createChunks(text: string, documentId: number): PDFChunk[] {
+    const chunks: PDFChunk[] = createTextChunkRecords(text).map(
+      (record, index) => ({
+        ...record,
+        id: index + 1,
+        documentId,
+        chunkIndex: index,
+      }),
     );
+
+    log.debug(`✅ 페이지 보존 청킹 완료: ${chunks.length}개 청크`);
     return chunks;
   }
 
@@ -776,10 +894,6 @@ export class PDFProcessingService {
     const i = Math.floor(Math.log(bytes) / Math.log(k));
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
   }
-
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
 }
 
 export const pdfProcessingService = PDFProcessingService.getInstance();
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import { extractTables } from "./pdfTableExtractor";
+
+/** 좌표 (x, y)에 놓인 높이 10 텍스트 항목 (글자당 폭 6) */
+const item = (str: string, x: number, y: number): TextItem => ({
+  str,
+  dir: "ltr",
+  transform: [10, 0, 0, 10, x, y],
+  width: str.length * 6,
+  height: 10,
+  fontName: "f1",
+  hasEOL: false,
+});
+
+/** 열 x 위치 50 / 150 / 250에 셀 배치 (빈 문자열은 빈 셀) */
+const row = (y: number, cells: string[]): TextItem[] =>
+  cells.map((cell, index) => item(cell, 50 + index * 100, y));
+
+describe("extractTables", () => {
+  it("같은 기준선 항목을 행으로, 열 위치로 셀을 맞추고 위 한 줄을 제목으로", () => {
+    const tables = extractTables(
+      [
+        item("연령별 응답 비율", 50, 730),
+        ...row(700, ["구분", "남성", "여성"]),
+        ...row(685, ["20대", "35%", "42%"]),
+        ...row(670, ["30대", "", "38%"]),
+        // 한 셀 안에서 간격이 좁은 항목은 이어 붙임
+        item("40대", 50, 655),
+        item("이상", 50 + 4 * 6 + 4, 655),
+        item("21%", 150, 655),
+        item("20%", 250, 655),
+      ],
+      3,
+    );
+
+    expect(tables).toEqual([
+      {
+        title: "연령별 응답 비율",
+        headers: ["구분", "남성", "여성"],
+        rows: [
+          ["20대", "35%", "42%"],
+          ["30대", "", "38%"],
+          ["40대 이상", "21%", "20%"],
+        ],
+        pageNumber: 3,
+      },
+    ]);
+  });
+
+  it("행 간격이 크게 벌어지면 다른 표로 분리하고, 행이 부족하면 제외", () => {
+    const tables = extractTables(
+      [
+        ...row(700, ["항목", "값"]),
+        ...row(685, ["A", "1"]),
+        ...row(670, ["B", "2"]),
+        ...row(500, ["C", "3"]),
+        ...row(485, ["D", "4"]),
+      ],
+      1,
+    );
+
+    expect(tables).toHaveLength(1);
+    expect(tables[0].rows).toEqual([
+      ["A", "1"],
+      ["B", "2"],
+    ]);
+  });
+
+  it("수치가 거의 없는 2단 본문은 표로 보지 않음", () => {
+    const tables = extractTables(
+      [
+        ...row(700, ["왼쪽 단 본문", "오른쪽 단 본문"]),
+        ...row(685, ["이어지는 문장", "다른 내용"]),
+        ...row(670, ["마지막 문장", "끝 문장"]),
+      ],
+      1,
+    );
+
+    expect(tables).toEqual([]);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * PDF Table Extractor
+ * pdf.js 텍스트 항목 좌표로 표 영역을 감지해 행/열 구조로 복원
+ * - 같은 기준선(y)의 항목을 행으로, 간격이 넓은 항목을 셀로 분리
+ * - 셀이 2개 이상인 행이 연속되면 표 후보, 셀 x 구간을 병합해 열 경계 결정
+ */
+
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import type { DocumentTable } from "../types";
+
+interface Cell {
+  text: string;
+  x0: number;
+  x1: number;
+}
+
+interface Row {
+  y: number;
+  height: number;
+  cells: Cell[];
+}
+
+const MIN_TABLE_ROWS = 3;
+const MIN_TABLE_COLUMNS = 2;
+const MIN_FILL_RATIO = 0.5;
+const MIN_NUMERIC_RATIO = 0.2; // 본문 2단 레이아웃 오탐 방지 (설문 표는 수치 위주)
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * 같은 기준선의 텍스트 항목을 행으로 묶고, 넓은 간격으로 셀 분리
+ */
+function groupRows(items: TextItem[]): Row[] {
+  const sorted = items
+    .filter((item) => item.str.trim())
+    .map((item) => ({
+      text: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      height: item.height || Math.abs(item.transform[3]) || 10,
+    }))
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const rows: Array<{ y: number; height: number; items: typeof sorted }> = [];
+  sorted.forEach((item) => {
+    const row = rows[rows.length - 1];
+    if (
+      row &&
+      Math.abs(row.y - item.y) <= Math.min(row.height, item.height) / 2
+    ) {
+      row.items.push(item);
+    } else {
+      rows.push({ y: item.y, height: item.height, items: [item] });
+    }
+  });
+
+  return rows.map((row) => {
+    const items = row.items.sort((a, b) => a.x - b.x);
+    const cells: Cell[] = [];
+    // 글자 높이보다 넓은 간격이면 셀 경계로 판단
+    const gapThreshold = row.height * 1.2;
+
+    items.forEach((item) => {
+      const cell = cells[cells.length - 1];
+      if (cell && item.x - cell.x1 < gapThreshold) {
+        const space = item.x - cell.x1 > row.height * 0.2 ? " " : "";
+        cell.text += space + item.text;
+        cell.x1 = Math.max(cell.x1, item.x + item.width);
+      } else {
+        cells.push({ text: item.text, x0: item.x, x1: item.x + item.width });
+      }
+    });
+
+    cells.forEach((cell) => (cell.text = cell.text.trim()));
+    return { y: row.y, height: row.height, cells };
+  });
+}
+
+/**
+ * 셀 x 구간을 병합해 열 경계 산출
+ */
+function findColumns(rows: Row[]): Array<[number, number]> {
+  const intervals = rows
+    .flatMap((row) => row.cells.map((cell) => [cell.x0, cell.x1]))
+    .sort((a, b) => a[0] - b[0]);
+
+  const columns: Array<[number, number]> = [];
+  intervals.forEach(([x0, x1]) => {
+    const column = columns[columns.length - 1];
+    if (column && x0 <= column[1]) {
+      column[1] = Math.max(column[1], x1);
+    } else {
+      columns.push([x0, x1]);
+    }
+  });
+  return columns;
+}
+
+function toTable(
+  rows: Row[],
+  pageNumber: number,
+  title?: string,
+): DocumentTable | null {
+  const columns = findColumns(rows);
+  if (columns.length < MIN_TABLE_COLUMNS) return null;
+
+  const grid = rows.map((row) => {
+    const values = columns.map(() => "");
+    row.cells.forEach((cell) => {
+      const center = (cell.x0 + cell.x1) / 2;
+      const index = columns.findIndex(
+        ([x0, x1]) => center >= x0 && center <= x1,
+      );
+      if (index >= 0) {
+        values[index] = values[index]
+          ? `${values[index]} ${cell.text}`
+          : cell.text;
+      }
+    });
+    return values;
+  });
+
+  const cells = grid.flat();
+  const filled = cells.filter(Boolean);
+  if (filled.length / cells.length < MIN_FILL_RATIO) return null;
+
+  const bodyCells = grid.slice(1).flat().filter(Boolean);
+  const numeric = bodyCells.filter((value) => /\d/.test(value));
+  if (numeric.length / Math.max(bodyCells.length, 1) < MIN_NUMERIC_RATIO) {
+    return null;
+  }
+
+  return {
+    title,
+    headers: grid[0],
+    rows: grid.slice(1),
+    pageNumber,
+  };
+}
+
+/**
+ * 한 페이지의 텍스트 항목에서 표 추출
+ */
+export function extractTables(
+  items: TextItem[],
+  pageNumber: number,
+): DocumentTable[] {
+  const rows = groupRows(items);
+  const tables: DocumentTable[] = [];
+  let block: Row[] = [];
+
+  const flushBlock = (end: number) => {
+    if (block.length >= MIN_TABLE_ROWS) {
+      // 표 바로 위의 짧은 한 줄은 표 제목으로 사용
+      const above = rows[end - block.length - 1];
+      const title =
+        above?.cells.length === 1 &&
+        above.cells[0].text.length <= MAX_TITLE_LENGTH
+          ? above.cells[0].text
+          : undefined;
+
+      const table = toTable(block, pageNumber, title);
+      if (table) tables.push(table);
+    }
+    block = [];
+  };
+
+  rows.forEach((row, index) => {
+    const previous = block[block.length - 1];
+    const isTabular = row.cells.length >= MIN_TABLE_COLUMNS;
+    // 행 간격이 글자 높이의 3배를 넘으면 다른 표로 분리
+    const isAdjacent = !previous || previous.y - row.y <= previous.height * 3;
+
+    if (isTabular && isAdjacent) {
+      block.push(row);
+      return;
+    }
+
+    flushBlock(index);
+    if (isTabular) block.push(row);
+  });
+  flushBlock(rows.length);
+
+  return tables;
+}
@@ -0,0 +1,77 @@
+/**
+ * 워크스페이스 역할별 권한
+ * 관리자 화면(Sidebar / 페이지) 노출 제어와 서버 api/admin/* 검증에서 공용
+ * 실제 데이터 접근은 DB RLS(012_workspace_roles.sql, settings 조회는 025)가 동일 기준으로 강제
+ */
+
+// 서버(api/)에서도 import하므로 .js 확장자 사용
+import type { Page, WorkspaceRole } from "../types.js";
+
+export type Permission =
+  | "manageSettings"
+  | "manageMembers"
+  | "editContent"
+  | "deleteDocuments"
+  | "reviewFaqs"
+  | "deleteChatLogs";
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = [
+  "owner",
+  "editor",
+  "reviewer",
+  "viewer",
+];
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: "소유자",
+  editor: "편집자",
+  reviewer: "검토자",
+  viewer: "뷰어",
+};
+
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  owner: 4,
+  editor: 3,
+  reviewer: 2,
+  viewer: 1,
+};
+
+/** 권한별 최소 역할 (DB has_workspace_role 기준과 동일) */
+const PERMISSION_MIN_ROLE: Record<Permission, WorkspaceRole> = {
+  manageSettings: "owner",
+  manageMembers: "owner",
+  deleteChatLogs: "owner",
+  editContent: "editor",
+  deleteDocuments: "editor",
+  reviewFaqs: "reviewer",
+};
+
+/** 페이지 접근에 필요한 권한 (미지정 페이지는 모든 멤버 조회 가능) */
+const PAGE_PERMISSIONS: Partial<Record<Page, Permission>> = {
+  플레이그라운드: "editContent",
+  "RAG 평가": "editContent",
+  "시스템 설정": "manageSettings",
+};
+
+export function isWorkspaceRole(value: unknown): value is WorkspaceRole {
+  return (
+    typeof value === "string" &&
+    WORKSPACE_ROLES.includes(value as WorkspaceRole)
+  );
+}
+
+export function hasPermission(
+  role: WorkspaceRole | null | undefined,
+  permission: Permission,
+): boolean {
+  if (!role) return false;
+  return ROLE_RANK[role] >= ROLE_RANK[PERMISSION_MIN_ROLE[permission]];
+}
+
+export function canAccessPage(
+  role: WorkspaceRole | null | undefined,
+  page: Page,
+): boolean {
+  const permission = PAGE_PERMISSIONS[page];
+  return permission ? hasPermission(role, permission) : !!role;
+}
@@ -0,0 +1,85 @@
+/**
+ * Playground Service
+ * 관리자 플레이그라운드(/api/admin/playground) 호출 클라이언트 (싱글톤)
+ * 공개 챗봇과 같은 파이프라인을 실행하지만 채팅 세션/메시지 통계에 남지 않음
+ */
+
+import { supabase } from "./supabase/client";
+import type {
+  ConversationTurn,
+  PlaygroundResponse,
+  PlaygroundSettings,
+} from "../types";
+import { FAQ_MIN_SIMILARITY } from "./config";
+import { getCurrentWorkspaceId } from "./workspaceContext";
+
+/** 공개 챗봇(/api/chat)과 같은 기본 조건 */
+export const DEFAULT_PLAYGROUND_SETTINGS: PlaygroundSettings = {
+  limit: 5,
+  minSimilarity: FAQ_MIN_SIMILARITY,
+  includeFaqs: true,
+  includeChunks: true,
+};
+
+export class PlaygroundService {
+  private static instance: PlaygroundService;
+  private endpoint: string = "/api/admin/playground";
+
+  private constructor() {
+    // 싱글톤 패턴
+  }
+
+  static getInstance(): PlaygroundService {
+    if (!PlaygroundService.instance) {
+      PlaygroundService.instance = new PlaygroundService();
+    }
+    return PlaygroundService.instance;
+  }
+
+  /**
+   * 질문 1건 실행 (history는 플레이그라운드 안의 이전 대화)
+   */
+  async run(
+    message: string,
+    settings: PlaygroundSettings,
+    history: ConversationTurn[] = [],
+  ): Promise<PlaygroundResponse> {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error("No active session. Please login first.");
+    }
+
+    const response = await fetch(this.endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({
+        workspaceId: getCurrentWorkspaceId(),
+        message,
+        history,
+        settings,
+      }),
+    });
+
+    if (!response.ok) {
+      let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+
+      try {
+        const errorData = await response.json();
+        errorMessage = errorData.error || errorMessage;
+      } catch {
+        // JSON 파싱 실패 시 기본 메시지 사용
+      }
+
+      throw new Error(errorMessage);
+    }
+
+    return response.json();
+  }
+}
+
+export const playgroundService = PlaygroundService.getInstance();
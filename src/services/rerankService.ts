@@ -0,0 +1,184 @@
+/**
+ * Rerank Service
+ * 벡터 검색 상위 N개 후보를 질문 관련도로 재순위화
+ * Reranker 구현체 교체 가능 (Gemini / 로컬 결정적 구현)
+ */
+
+import { createLogger } from "./logger";
+import { defaultConfig } from "./config";
+import { webGeminiService } from "./WebGeminiService";
+import { keywordRelevance } from "./koreanTokenizer";
+import type { VectorSearchResult } from "./vectorSearchService";
+import type {
+  FAQ,
+  PDFDocument,
+  PDFChunk,
+  DocumentImage,
+  DocumentGraph,
+} from "../types";
+
+const log = createLogger("rerank");
+
+// 후보 텍스트 최대 길이 (청크 본문 등)
+const MAX_CANDIDATE_TEXT = 1000;
+
+export interface RerankCandidate {
+  id: string;
+  text: string;
+}
+
+/**
+ * 재순위화 구현체 인터페이스
+ * candidates와 같은 순서로 0~1 관련도 점수 반환
+ */
+export interface Reranker {
+  readonly name: string;
+  rerank(query: string, candidates: RerankCandidate[]): Promise<number[]>;
+}
+
+/**
+ * 로컬 결정적 Reranker (네트워크 없이 토큰 매칭 기반)
+ * 같은 입력에 항상 같은 점수를 반환하므로 Gemini 실패 시 Fallback으로도 사용
+ */
+export class LocalReranker implements Reranker {
+  readonly name = "local";
+
+  async rerank(
+    query: string,
+    candidates: RerankCandidate[],
+  ): Promise<number[]> {
+    return candidates.map((candidate) =>
+      keywordRelevance(query, candidate.text),
+    );
+  }
+}
+
+/**
+ * Gemini 기반 Reranker (/api/gemini/rerank)
+ */
+export class GeminiReranker implements Reranker {
+  readonly name = "gemini";
+
+  async rerank(
+    query: string,
+    candidates: RerankCandidate[],
+  ): Promise<number[]> {
+    const scores = await webGeminiService.rerank(
+      query,
+      candidates,
+      defaultConfig.timeout.rerank,
+    );
+    const scoreMap = new Map(scores.map((item) => [item.id, item.score]));
+
+    return candidates.map((candidate) => scoreMap.get(candidate.id) ?? 0);
+  }
+}
+
+export class RerankService {
+  private static instance: RerankService;
+  private reranker: Reranker;
+  private fallbackReranker: Reranker = new LocalReranker();
+
+  private constructor() {
+    this.reranker =
+      defaultConfig.search.reranker === "gemini"
+        ? new GeminiReranker()
+        : this.fallbackReranker;
+  }
+
+  static getInstance(): RerankService {
+    if (!RerankService.instance) {
+      RerankService.instance = new RerankService();
+    }
+    return RerankService.instance;
+  }
+
+  /**
+   * Reranker 구현체 교체
+   */
+  setReranker(reranker: Reranker): void {
+    this.reranker = reranker;
+  }
+
+  getReranker(): Reranker {
+    return this.reranker;
+  }
+
+  /**
+   * 검색 결과 상위 N개 재순위화 (나머지는 기존 순서 유지)
+   * score = (1 - w) × 기존 점수(상위 N 내 최대값 기준 정규화) + w × 재순위 점수
+   */
+  async rerank(
+    query: string,
+    results: VectorSearchResult[],
+  ): Promise<VectorSearchResult[]> {
+    const { rerankEnabled, rerankTopN, rerankWeight } = defaultConfig.search;
+    if (!rerankEnabled || results.length < 2) {
+      return results;
+    }
+
+    const head = results.slice(0, rerankTopN);
+    const tail = results.slice(rerankTopN);
+    const candidates = head.map((result, index) => ({
+      id: String(index),
+      text: this.toCandidateText(result),
+    }));
+
+    let scores: number[];
+    try {
+      scores = await this.reranker.rerank(query, candidates);
+    } catch (error) {
+      log.warn(
+        `⚠️ ${this.reranker.name} 재순위화 실패, 로컬 Reranker로 전환:`,
+        error,
+      );
+      scores = await this.fallbackReranker.rerank(query, candidates);
+    }
+
+    const maxScore = Math.max(...head.map((result) => result.score)) || 1;
+    const reranked = head
+      .map((result, index) => ({
+        ...result,
+        score:
+          (1 - rerankWeight) * (result.score / maxScore) +
+          rerankWeight * (scores[index] ?? 0),
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    log.debug(
+      `🔀 재순위화 완료 (${this.reranker.name}, ${head.length}개 후보)`,
+    );
+
+    return [...reranked, ...tail];
+  }
+
+  /** 검색 결과를 재순위화용 텍스트로 변환 */
+  private toCandidateText(result: VectorSearchResult): string {
+    switch (result.type) {
+      case "faq": {
+        const faq = result.item as FAQ;
+        return `Q: ${faq.question}\nA: ${faq.answer}`.substring(
+          0,
+          MAX_CANDIDATE_TEXT,
+        );
+      }
+      case "chunk":
+        return (result.item as PDFChunk).content.substring(
+          0,
+          MAX_CANDIDATE_TEXT,
+        );
+      case "document":
+        return (result.item as PDFDocument).name;
+      case "image": {
+        const image = result.item as DocumentImage;
+        return image.description || image.fileName;
+      }
+      case "graph": {
+        const graph = result.item as DocumentGraph;
+        return graph.title || graph.description || graph.fileName;
+      }
+    }
+  }
+}
+
+export const rerankService = RerankService.getInstance();
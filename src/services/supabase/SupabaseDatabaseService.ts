@@ -1,7 +1,11 @@
 import {
   PDFDocument,
   PDFChunk,
+  ChunkEdit,
   FAQ,
+  DocumentVersion,
+  SimilarFAQ,
+  FAQDuplicatePair,
   ChatSession,
   ChatSessionCreateInput,
   ChatSessionUpdateInput,
@@ -9,8 +13,19 @@ import {
   ChatLogMessageCreateInput,
   DashboardMetrics,
   ChatAnalytics,
+  MessageFeedback,
+  RetrievalTrace,
+  EvalCase,
+  EvalCaseInput,
+  EvalRun,
+  EvalRunInput,
+  IngestionJob,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceRole,
 } from "../../types";
 import { supabase } from "./client";
+import { getCurrentWorkspaceId } from "../workspaceContext";
 
 // snake_case ↔ camelCase 변환 유틸리티
 function toCamelCase<T = any>(obj: any): T {
@@ -52,6 +67,18 @@ export class SupabaseDatabaseService {
     return session?.user?.id || null;
   }
 
+  /**
+   * 현재 워크스페이스 ID (목록 조회 필터 / 생성 시 workspace_id)
+   * 청크/메시지는 DB 트리거가 상위 문서/세션의 워크스페이스를 상속
+   */
+  private getWorkspaceId(): string {
+    const workspaceId = getCurrentWorkspaceId();
+    if (!workspaceId) {
+      throw new Error("워크스페이스가 선택되지 않았습니다.");
+    }
+    return workspaceId;
+  }
+
   private async safeQuery<T>(
     operation: string,
     fn: () => Promise<T>,
@@ -82,6 +109,7 @@ export class SupabaseDatabaseService {
         metadata: document.metadata || {},
         name_embedding: document.nameEmbedding || null,
         user_id: userId,
+        workspace_id: this.getWorkspaceId(),
       };
 
       const { data, error } = await supabase
@@ -133,6 +161,7 @@ export class SupabaseDatabaseService {
       const { data, error } = await supabase
         .from("pdf_documents")
         .select("*")
+        .eq("workspace_id", this.getWorkspaceId())
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -189,6 +218,24 @@ export class SupabaseDatabaseService {
     });
   }
 
+  /**
+   * 교체되기 전 문서 버전 목록 (최근 버전 순)
+   */
+  async getDocumentVersions(documentId: number): Promise<DocumentVersion[]> {
+    return this.safeQuery("getDocumentVersions", async () => {
+      const { data, error } = await supabase
+        .from("document_versions")
+        .select(
+          "id, document_id, version, name, size, upload_date, file_path, pages, created_at",
+        )
+        .eq("document_id", documentId)
+        .order("version", { ascending: false });
+
+      if (error) throw error;
+      return data.map((row) => toCamelCase<DocumentVersion>(row));
+    });
+  }
+
   // Chunk operations
   async createChunk(chunk: Omit<PDFChunk, "id">): Promise<PDFChunk> {
     return this.safeQuery("createChunk", async () => {
@@ -257,6 +304,10 @@ export class SupabaseDatabaseService {
       if (updates.embeddings !== undefined)
         dbUpdates.embeddings = updates.embeddings;
       if (updates.metadata !== undefined) dbUpdates.metadata = updates.metadata;
+      if (updates.isSearchable !== undefined)
+        dbUpdates.is_searchable = updates.isSearchable;
+      if (updates.importance !== undefined)
+        dbUpdates.importance = updates.importance;
 
       if (Object.keys(dbUpdates).length === 0) {
         return this.getChunk(id);
@@ -274,6 +325,116 @@ export class SupabaseDatabaseService {
     });
   }
 
+  /**
+   * 여러 청크의 검색 포함 여부/중요도 일괄 변경
+   * importance null은 분석 결과(metadata.importance)로 되돌림
+   * @returns 변경된 청크 수
+   */
+  async updateChunksRetrieval(
+    ids: number[],
+    updates: Pick<PDFChunk, "isSearchable" | "importance">,
+  ): Promise<number> {
+    return this.safeQuery("updateChunksRetrieval", async () => {
+      const dbUpdates: Record<string, unknown> = {};
+      if (updates.isSearchable !== undefined)
+        dbUpdates.is_searchable = updates.isSearchable;
+      if (updates.importance !== undefined)
+        dbUpdates.importance = updates.importance;
+
+      if (ids.length === 0 || Object.keys(dbUpdates).length === 0) return 0;
+
+      const { data, error } = await supabase
+        .from("pdf_chunks")
+        .update(dbUpdates)
+        .in("id", ids)
+        .select("id");
+
+      if (error) throw error;
+      return data?.length || 0;
+    });
+  }
+
+  /**
+   * 청크 내용 수정 (임베딩은 비워지므로 다시 생성 필요)
+   */
+  async editChunk(id: number, content: string): Promise<void> {
+    return this.safeQuery("editChunk", async () => {
+      const { error } = await supabase.rpc("edit_chunk", {
+        target_chunk_id: id,
+        new_content: content,
+      });
+
+      if (error) throw error;
+    });
+  }
+
+  /**
+   * 청크 분할 (뒷부분은 바로 다음 위치의 새 청크)
+   * @returns 새 청크 ID
+   */
+  async splitChunk(
+    id: number,
+    firstContent: string,
+    secondContent: string,
+  ): Promise<number> {
+    return this.safeQuery("splitChunk", async () => {
+      const { data, error } = await supabase.rpc("split_chunk", {
+        target_chunk_id: id,
+        first_content: firstContent,
+        second_content: secondContent,
+      });
+
+      if (error) throw error;
+      return data as number;
+    });
+  }
+
+  /**
+   * 인접 청크 병합 (뒤 청크는 삭제)
+   */
+  async mergeChunks(
+    firstId: number,
+    secondId: number,
+    mergedContent?: string,
+  ): Promise<void> {
+    return this.safeQuery("mergeChunks", async () => {
+      const { error } = await supabase.rpc("merge_chunks", {
+        first_chunk_id: firstId,
+        second_chunk_id: secondId,
+        merged_content: mergedContent ?? null,
+      });
+
+      if (error) throw error;
+    });
+  }
+
+  /**
+   * 청크 삭제 (뒤 청크 위치를 당김)
+   */
+  async deleteChunk(id: number): Promise<void> {
+    return this.safeQuery("deleteChunk", async () => {
+      const { error } = await supabase.rpc("delete_chunk", {
+        target_chunk_id: id,
+      });
+
+      if (error) throw error;
+    });
+  }
+
+  async getChunkEdits(documentId: number, limit = 50): Promise<ChunkEdit[]> {
+    return this.safeQuery("getChunkEdits", async () => {
+      const { data, error } = await supabase
+        .from("chunk_edits")
+        .select("*")
+        .eq("document_id", documentId)
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data.map((row) => toCamelCase<ChunkEdit>(row));
+    });
+  }
+
   async deleteChunksByDocumentId(documentId: number): Promise<number> {
     return this.safeQuery("deleteChunksByDocumentId", async () => {
       const { data, error } = await supabase
@@ -311,7 +472,9 @@ export class SupabaseDatabaseService {
         related_topics: faq.relatedTopics || null,
         confidence: faq.confidence !== undefined ? faq.confidence : null,
         generation_source: faq.generationSource || null,
+        external_key: faq.externalKey || null,
         user_id: userId,
+        workspace_id: this.getWorkspaceId(),
       };
 
       const { data, error } = await supabase
@@ -365,6 +528,7 @@ export class SupabaseDatabaseService {
           pdf_documents(id, name, size, upload_date, status, upload_mode, file_path)
         `,
         )
+        .eq("workspace_id", this.getWorkspaceId())
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -432,6 +596,15 @@ export class SupabaseDatabaseService {
         dbUpdates.confidence = updates.confidence;
       if (updates.generationSource !== undefined)
         dbUpdates.generation_source = updates.generationSource;
+      if (updates.needsReview !== undefined) {
+        dbUpdates.needs_review = updates.needsReview;
+        // 검토 완료 시 사유도 함께 초기화
+        if (!updates.needsReview) dbUpdates.review_reason = null;
+      }
+      if (updates.reviewReason !== undefined)
+        dbUpdates.review_reason = updates.reviewReason;
+      if (updates.externalKey !== undefined)
+        dbUpdates.external_key = updates.externalKey || null;
 
       if (Object.keys(dbUpdates).length === 0) {
         return this.getFAQ(id);
@@ -473,6 +646,70 @@ export class SupabaseDatabaseService {
     });
   }
 
+  /**
+   * 질문 임베딩이 유사한 FAQ (등록 전 중복 확인)
+   */
+  async findSimilarFAQs(
+    questionEmbedding: number[],
+    similarityThreshold: number,
+    matchCount: number = 5,
+  ): Promise<SimilarFAQ[]> {
+    return this.safeQuery("findSimilarFAQs", async () => {
+      const { data, error } = await supabase.rpc("find_similar_faqs", {
+        query_embedding: `[${questionEmbedding.join(",")}]`,
+        filter_workspace_id: this.getWorkspaceId(),
+        similarity_threshold: similarityThreshold,
+        match_count: matchCount,
+      });
+
+      if (error) throw error;
+      return data || [];
+    });
+  }
+
+  /**
+   * 워크스페이스 내 질문 임베딩이 유사한 FAQ 쌍
+   */
+  async getDuplicateFAQPairs(
+    similarityThreshold: number,
+    neighborCount: number,
+  ): Promise<FAQDuplicatePair[]> {
+    return this.safeQuery("getDuplicateFAQPairs", async () => {
+      const { data, error } = await supabase.rpc("find_duplicate_faq_pairs", {
+        filter_workspace_id: this.getWorkspaceId(),
+        similarity_threshold: similarityThreshold,
+        neighbor_count: neighborCount,
+      });
+
+      if (error) throw error;
+      return (data || []).map((row: unknown) =>
+        toCamelCase<FAQDuplicatePair>(row),
+      );
+    });
+  }
+
+  /**
+   * FAQ 병합 (sourceIds를 targetId로 합치고 채팅 로그 참조 이전 후 삭제)
+   * mergedAnswer 지정 시 target 답변 교체 (답변 임베딩은 다시 생성 필요)
+   * @returns 참조를 옮긴 채팅 메시지 수
+   */
+  async mergeFAQs(
+    targetId: number,
+    sourceIds: number[],
+    mergedAnswer?: string,
+  ): Promise<number> {
+    return this.safeQuery("mergeFAQs", async () => {
+      const { data, error } = await supabase.rpc("merge_faqs", {
+        target_faq_id: targetId,
+        source_faq_ids: sourceIds,
+        merged_answer: mergedAnswer ?? null,
+      });
+
+      if (error) throw error;
+      return (data as number) || 0;
+    });
+  }
+
   async setFAQFeatured(id: number, isFeatured: boolean): Promise<FAQ | null> {
     return this.safeQuery("setFAQFeatured", async () => {
       if (isFeatured) {
@@ -480,6 +717,7 @@ export class SupabaseDatabaseService {
         const { count, error: countError } = await supabase
           .from("faqs")
           .select("id", { count: "exact", head: true })
+          .eq("workspace_id", this.getWorkspaceId())
           .eq("is_featured", true);
 
         if (countError) throw countError;
@@ -489,6 +727,7 @@ export class SupabaseDatabaseService {
           const { data: oldest, error: oldestError } = await supabase
             .from("faqs")
             .select("id")
+            .eq("workspace_id", this.getWorkspaceId())
             .eq("is_featured", true)
             .order("featured_at", { ascending: true })
             .limit(1)
@@ -549,6 +788,7 @@ export class SupabaseDatabaseService {
       const { data, error } = await supabase
         .from("faqs")
         .select("*")
+        .eq("workspace_id", this.getWorkspaceId())
         .eq("is_featured", true)
         .eq("is_active", true)
         .order("featured_at", { ascending: false });
@@ -559,32 +799,21 @@ export class SupabaseDatabaseService {
   }
 
   // Chat session operations
+  // 공개 챗봇(anon)은 chat_sessions / chat_messages에 직접 쓸 수 없어 세션 ID 기반 RPC로 기록
+
+  /**
+   * 채팅 세션 생성 (시작 시각/카테고리만 기록, 나머지는 기본값 후 updateChatSession으로 갱신)
+   */
   async createChatSession(
     session: ChatSessionCreateInput,
   ): Promise<ChatSession> {
     return this.safeQuery("createChatSession", async () => {
-      const userId = await this.getCurrentUserId();
-
-      const dbRow = {
-        session_id: session.sessionId,
-        user_name: session.user || null,
-        user_email: session.userEmail || null,
-        start_time: session.startTime,
-        status: session.status || "ongoing",
-        satisfaction: session.satisfaction ?? null,
-        category: session.category || null,
-        is_resolved: session.isResolved || false,
-        tags: session.tags || [],
-        message_count: session.messageCount ?? 0,
-        duration: session.duration || null,
-        user_id: userId,
-      };
-
-      const { data, error } = await supabase
-        .from("chat_sessions")
-        .insert(dbRow)
-        .select()
-        .single();
+      const { data, error } = await supabase.rpc("create_chat_session", {
+        target_session_id: session.sessionId,
+        target_workspace_id: this.getWorkspaceId(),
+        session_start_time: session.startTime,
+        session_category: session.category || null,
+      });
 
       if (error) throw error;
       return toCamelCase<ChatSession>(data);
@@ -613,6 +842,7 @@ export class SupabaseDatabaseService {
       const { data, error } = await supabase
         .from("chat_sessions")
         .select("*")
+        .eq("workspace_id", this.getWorkspaceId())
         .order("start_time", { ascending: false });
 
       if (error) throw error;
@@ -642,18 +872,10 @@ export class SupabaseDatabaseService {
       if (updates.userEmail !== undefined)
         dbUpdates.user_email = updates.userEmail;
 
-      if (Object.keys(dbUpdates).length === 0) {
-        return this.getChatSession(sessionId);
-      }
-
-      dbUpdates.updated_at = new Date().toISOString();
-
-      const { data, error } = await supabase
-        .from("chat_sessions")
-        .update(dbUpdates)
-        .eq("session_id", sessionId)
-        .select()
-        .single();
+      const { data, error } = await supabase.rpc("update_chat_session", {
+        target_session_id: sessionId,
+        updates: dbUpdates,
+      });
 
       if (error) throw error;
       return toCamelCase<ChatSession>(data);
@@ -677,41 +899,14 @@ export class SupabaseDatabaseService {
     message: ChatLogMessageCreateInput,
   ): Promise<ChatLogMessage> {
     return this.safeQuery("createChatMessage", async () => {
-      const dbRow = {
-        session_id: message.sessionId,
-        timestamp: message.timestamp,
-        sender: message.sender,
-        message: message.message,
-        message_type: message.messageType || null,
-        response_time: message.responseTime ?? null,
-        confidence: message.confidence ?? null,
-        source_faq: message.sourceFaq ?? null,
-      };
-
-      const { data, error } = await supabase
-        .from("chat_messages")
-        .insert(dbRow)
-        .select()
-        .single();
+      const { data, error } = await supabase.rpc("log_chat_message", {
+        target_session_id: message.sessionId,
+        message_text: message.message,
+        message_timestamp: message.timestamp,
+        message_kind: message.messageType || "text",
+      });
 
       if (error) throw error;
-
-      // 세션의 메시지 카운트 증가 (RPC 대신 select + update)
-      const { data: sessionData } = await supabase
-        .from("chat_sessions")
-        .select("message_count")
-        .eq("session_id", message.sessionId)
-        .single();
-
-      const currentCount = sessionData?.message_count ?? 0;
-      await supabase
-        .from("chat_sessions")
-        .update({
-          message_count: currentCount + 1,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("session_id", message.sessionId);
-
       return toCamelCase<ChatLogMessage>(data);
     });
   }
@@ -722,12 +917,23 @@ export class SupabaseDatabaseService {
     return this.safeQuery("getChatMessagesBySessionId", async () => {
       const { data, error } = await supabase
         .from("chat_messages")
-        .select("*")
+        .select("*, chat_message_traces(trace)")
         .eq("session_id", sessionId)
         .order("timestamp", { ascending: true });
 
       if (error) throw error;
-      return data.map((row) => toCamelCase<ChatLogMessage>(row));
+
+      // 검색 추적은 멤버 전용 테이블(chat_message_traces)에서 함께 조회
+      type TraceRow = { trace: RetrievalTrace };
+      return data.map((row): ChatLogMessage => {
+        const { chatMessageTraces, ...message } = toCamelCase<
+          ChatLogMessage & { chatMessageTraces: TraceRow | TraceRow[] | null }
+        >(row);
+        const traceRow = Array.isArray(chatMessageTraces)
+          ? chatMessageTraces[0]
+          : chatMessageTraces;
+        return { ...message, retrievalTrace: traceRow?.trace };
+      });
     });
   }
 
@@ -744,10 +950,121 @@ export class SupabaseDatabaseService {
     });
   }
 
+  /**
+   * 봇 응답 피드백 저장 (null이면 피드백 취소)
+   * 공개 챗봇은 메시지를 직접 수정할 수 없어 RPC로 피드백 컬럼만 변경
+   */
+  async setMessageFeedback(
+    sessionId: string,
+    messageId: number,
+    feedback: MessageFeedback | null,
+    reason?: string,
+  ): Promise<void> {
+    return this.safeQuery("setMessageFeedback", async () => {
+      const { error } = await supabase.rpc("set_message_feedback", {
+        target_session_id: sessionId,
+        target_message_id: messageId,
+        new_feedback: feedback,
+        new_reason: reason ?? null,
+      });
+
+      if (error) throw error;
+    });
+  }
+
+  // Evaluation (골든 질문 세트)
+  async getEvalCases(): Promise<EvalCase[]> {
+    return this.safeQuery("getEvalCases", async () => {
+      const { data, error } = await supabase
+        .from("eval_cases")
+        .select("*")
+        .eq("workspace_id", this.getWorkspaceId())
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data.map((row) => toCamelCase<EvalCase>(row));
+    });
+  }
+
+  async createEvalCase(evalCase: EvalCaseInput): Promise<EvalCase> {
+    return this.safeQuery("createEvalCase", async () => {
+      const { data, error } = await supabase
+        .from("eval_cases")
+        .insert({
+          workspace_id: this.getWorkspaceId(),
+          question: evalCase.question,
+          expected_faq_ids: evalCase.expectedFaqIds,
+          expected_chunk_ids: evalCase.expectedChunkIds,
+          expected_facts: evalCase.expectedFacts,
+          expect_fallback: evalCase.expectFallback,
+          notes: evalCase.notes || null,
+          created_by: await this.getCurrentUserId(),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return toCamelCase<EvalCase>(data);
+    });
+  }
+
+  async deleteEvalCase(id: number): Promise<void> {
+    return this.safeQuery("deleteEvalCase", async () => {
+      const { error } = await supabase.from("eval_cases").delete().eq("id", id);
+
+      if (error) throw error;
+    });
+  }
+
+  async getEvalRuns(): Promise<EvalRun[]> {
+    return this.safeQuery("getEvalRuns", async () => {
+      const { data, error } = await supabase
+        .from("eval_runs")
+        .select("*")
+        .eq("workspace_id", this.getWorkspaceId())
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data.map((row) => toCamelCase<EvalRun>(row));
+    });
+  }
+
+  async createEvalRun(run: EvalRunInput): Promise<EvalRun> {
+    return this.safeQuery("createEvalRun", async () => {
+      const { data, error } = await supabase
+        .from("eval_runs")
+        .insert({
+          workspace_id: this.getWorkspaceId(),
+          label: run.label || null,
+          settings: run.settings,
+          prompt_version: run.promptVersion || null,
+          case_count: run.caseCount,
+          metrics: run.metrics,
+          results: run.results,
+          created_by: await this.getCurrentUserId(),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return toCamelCase<EvalRun>(data);
+    });
+  }
+
+  async deleteEvalRun(id: number): Promise<void> {
+    return this.safeQuery("deleteEvalRun", async () => {
+      const { error } = await supabase.from("eval_runs").delete().eq("id", id);
+
+      if (error) throw error;
+    });
+  }
+
   // Analytics
   async getDashboardMetrics(): Promise<DashboardMetrics> {
     return this.safeQuery("getDashboardMetrics", async () => {
-      const { data, error } = await supabase.rpc("get_dashboard_metrics");
+      const { data, error } = await supabase.rpc("get_dashboard_metrics", {
+        filter_workspace_id: this.getWorkspaceId(),
+      });
       if (error) throw error;
       return toCamelCase<DashboardMetrics>(data);
     });
@@ -759,6 +1076,7 @@ export class SupabaseDatabaseService {
     return this.safeQuery("getChatAnalytics", async () => {
       const { data, error } = await supabase.rpc("get_chat_analytics", {
         period,
+        filter_workspace_id: this.getWorkspaceId(),
       });
       if (error) throw error;
       return toCamelCase<ChatAnalytics>(data);
@@ -823,6 +1141,7 @@ export class SupabaseDatabaseService {
           confidence: faq.confidence !== undefined ? faq.confidence : null,
           generation_source: faq.generationSource || null,
           user_id: userId,
+          workspace_id: this.getWorkspaceId(),
         }));
 
         const { error } = await supabase.from("faqs").insert(faqRows);
@@ -834,6 +1153,28 @@ export class SupabaseDatabaseService {
     });
   }
 
+  // Ingestion jobs
+  /**
+   * 문서별 서버 처리 작업 (최근 등록 순)
+   */
+  async getIngestionJobs(documentIds: number[]): Promise<IngestionJob[]> {
+    return this.safeQuery("getIngestionJobs", async () => {
+      if (documentIds.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from("ingestion_jobs")
+        .select(
+          "id, document_id, status, stage, progress, attempts, max_attempts, next_attempt_at, last_error, created_at, updated_at, completed_at",
+        )
+        .eq("workspace_id", this.getWorkspaceId())
+        .in("document_id", documentIds)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data.map((row) => toCamelCase<IngestionJob>(row));
+    });
+  }
+
   // Stats
   async getStats(): Promise<{
     totalDocuments: number;
@@ -842,21 +1183,26 @@ export class SupabaseDatabaseService {
     completedDocuments: number;
   }> {
     return this.safeQuery("getStats", async () => {
+      const workspaceId = this.getWorkspaceId();
       const [docsResult, chunksResult, faqsResult, completedResult] =
         await Promise.all([
           supabase
             .from("pdf_documents")
-            .select("id", { count: "exact", head: true }),
+            .select("id", { count: "exact", head: true })
+            .eq("workspace_id", workspaceId),
           supabase
             .from("pdf_chunks")
-            .select("id", { count: "exact", head: true }),
+            .select("id", { count: "exact", head: true })
+            .eq("workspace_id", workspaceId),
           supabase
             .from("faqs")
             .select("id", { count: "exact", head: true })
+            .eq("workspace_id", workspaceId)
             .eq("is_active", true),
           supabase
             .from("pdf_documents")
             .select("id", { count: "exact", head: true })
+            .eq("workspace_id", workspaceId)
             .eq("status", "completed"),
         ]);
 
@@ -870,11 +1216,15 @@ export class SupabaseDatabaseService {
   }
 
   // Settings
+  /**
+   * 설정 값 조회 (RLS상 owner만 조회 가능, 그 외 역할은 null)
+   */
   async getSetting(key: string): Promise<string | null> {
     return this.safeQuery("getSetting", async () => {
       const { data, error } = await supabase
         .from("settings")
         .select("value")
+        .eq("workspace_id", this.getWorkspaceId())
         .eq("key", key)
         .single();
 
@@ -891,12 +1241,16 @@ export class SupabaseDatabaseService {
     return this.safeQuery("setSetting", async () => {
       const userId = await this.getCurrentUserId();
 
-      const { error } = await supabase.from("settings").upsert({
-        key,
-        value,
-        user_id: userId,
-        updated_at: new Date().toISOString(),
-      });
+      const { error } = await supabase.from("settings").upsert(
+        {
+          key,
+          value,
+          user_id: userId,
+          workspace_id: this.getWorkspaceId(),
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "workspace_id,key" },
+      );
 
       if (error) throw error;
     });
@@ -904,7 +1258,117 @@ export class SupabaseDatabaseService {
 
   async deleteSetting(key: string): Promise<void> {
     return this.safeQuery("deleteSetting", async () => {
-      const { error } = await supabase.from("settings").delete().eq("key", key);
+      const { error } = await supabase
+        .from("settings")
+        .delete()
+        .eq("workspace_id", this.getWorkspaceId())
+        .eq("key", key);
+
+      if (error) throw error;
+    });
+  }
+
+  // Workspaces
+  /**
+   * 현재 사용자가 속한 워크스페이스 목록 (역할 포함)
+   */
+  async getMyWorkspaces(): Promise<Workspace[]> {
+    return this.safeQuery("getMyWorkspaces", async () => {
+      const userId = await this.getCurrentUserId();
+      if (!userId) return [];
+
+      const { data, error } = await supabase
+        .from("workspace_members")
+        .select("role, workspaces(id, organization_id, name, slug, is_public)")
+        .eq("user_id", userId);
+
+      if (error) throw error;
+
+      return data
+        .filter((row) => row.workspaces)
+        .map((row) => ({
+          ...toCamelCase<Workspace>(row.workspaces),
+          role: row.role as WorkspaceRole,
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name, "ko"));
+    });
+  }
+
+  /**
+   * slug로 워크스페이스 조회 (공개 챗봇 / 위젯)
+   */
+  async getWorkspaceBySlug(slug: string): Promise<Workspace | null> {
+    return this.safeQuery("getWorkspaceBySlug", async () => {
+      const { data, error } = await supabase
+        .from("workspaces")
+        .select("id, organization_id, name, slug, is_public")
+        .eq("slug", slug)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? toCamelCase<Workspace>(data) : null;
+    });
+  }
+
+  /**
+   * 워크스페이스 생성 (생성자는 owner, 조직 미지정 시 새 조직)
+   */
+  async createWorkspace(
+    name: string,
+    slug: string,
+    organizationId?: string,
+  ): Promise<Workspace> {
+    return this.safeQuery("createWorkspace", async () => {
+      const { data, error } = await supabase.rpc("create_workspace", {
+        workspace_name: name,
+        workspace_slug: slug,
+        target_organization_id: organizationId ?? null,
+      });
+
+      if (error) throw error;
+      return { ...toCamelCase<Workspace>(data), role: "owner" };
+    });
+  }
+
+  async getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    return this.safeQuery("getWorkspaceMembers", async () => {
+      const { data, error } = await supabase.rpc("get_workspace_members", {
+        target_workspace_id: workspaceId,
+      });
+
+      if (error) throw error;
+      return (data || []).map((row: unknown) =>
+        toCamelCase<WorkspaceMember>(row),
+      );
+    });
+  }
+
+  async addWorkspaceMember(
+    workspaceId: string,
+    email: string,
+    role: WorkspaceRole = "viewer",
+  ): Promise<void> {
+    return this.safeQuery("addWorkspaceMember", async () => {
+      const { error } = await supabase.rpc("add_workspace_member", {
+        target_workspace_id: workspaceId,
+        member_email: email,
+        member_role: role,
+      });
+
+      if (error) throw error;
+    });
+  }
+
+  async removeWorkspaceMember(
+    workspaceId: string,
+    userId: string,
+  ): Promise<void> {
+    return this.safeQuery("removeWorkspaceMember", async () => {
+      const { error } = await supabase
+        .from("workspace_members")
+        .delete()
+        .eq("workspace_id", workspaceId)
+        .eq("user_id", userId);
 
       if (error) throw error;
     });
@@ -1,4 +1,5 @@
 import { supabase } from "./client";
+import { getCurrentWorkspaceId } from "../workspaceContext";
 
 const STORAGE_BUCKET = "documents";
 const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
@@ -22,6 +23,17 @@ function sanitizeFileName(fileName: string): string {
   return `${safeName}_${timestamp}${ext}`;
 }
 
+/**
+ * 현재 워크스페이스 폴더 (Storage 정책이 경로 첫 폴더로 권한 확인)
+ */
+function getWorkspaceFolder(): string {
+  const workspaceId = getCurrentWorkspaceId();
+  if (!workspaceId) {
+    throw new Error("워크스페이스가 선택되지 않았습니다.");
+  }
+  return workspaceId;
+}
+
 export class SupabaseStorageService {
   /**
    * 파일을 Supabase Storage에 업로드합니다.
@@ -37,9 +49,9 @@ export class SupabaseStorageService {
         );
       }
 
-      // 파일명 sanitize
+      // 파일명 sanitize (워크스페이스 폴더 아래 저장)
       const sanitizedName = sanitizeFileName(file.name);
-      const filePath = `uploads/${sanitizedName}`;
+      const filePath = `${getWorkspaceFolder()}/${sanitizedName}`;
 
       console.log(
         `[SupabaseStorage] 파일 업로드 시작: ${file.name} -> ${filePath}`,
@@ -75,6 +87,36 @@ export class SupabaseStorageService {
     }
   }
 
+  /**
+   * 문서에서 추출한 텍스트를 업로드합니다 (서버 처리 작업이 경로로 읽음).
+   * @param text - 추출 텍스트 (페이지 마커 포함)
+   * @param fileName - 원본 파일명
+   * @returns 업로드된 텍스트 파일 경로
+   */
+  async uploadExtractedText(text: string, fileName: string): Promise<string> {
+    try {
+      const baseName = fileName.replace(/\.[^.]+$/, "");
+      const filePath = `${getWorkspaceFolder()}/extracted/${sanitizeFileName(`${baseName}.txt`)}`;
+
+      const { data, error } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .upload(filePath, new Blob([text], { type: "text/plain" }), {
+          contentType: "text/plain",
+          upsert: false,
+        });
+
+      if (error) {
+        console.error("[SupabaseStorage] 추출 텍스트 업로드 실패:", error);
+        throw error;
+      }
+
+      return data.path;
+    } catch (error) {
+      console.error("[SupabaseStorage] uploadExtractedText 실패:", error);
+      throw error;
+    }
+  }
+
   /**
    * 파일을 다운로드하기 위한 signed URL을 생성합니다.
    * @param path - 파일 경로
@@ -176,10 +218,12 @@ export class SupabaseStorageService {
 
   /**
    * 파일 목록을 가져옵니다.
-   * @param folder - 폴더 경로 (기본값: 'uploads')
+   * @param folder - 폴더 경로 (기본값: 현재 워크스페이스 폴더)
    * @returns 파일 목록
    */
-  async listFiles(folder: string = "uploads"): Promise<any[]> {
+  async listFiles(
+    folder: string = getCurrentWorkspaceId() ?? "",
+  ): Promise<any[]> {
     try {
       console.log(`[SupabaseStorage] 파일 목록 조회 중: ${folder}`);
 
@@ -13,7 +13,14 @@ import type {
   DocumentGraph,
 } from "../types";
 import { embeddingService } from "./embeddingService";
+import { defaultConfig, FAQ_MIN_SIMILARITY } from "./config";
+import {
+  tokenize,
+  findMatchedTokens,
+  containsKeyword,
+} from "./koreanTokenizer";
 import { supabase } from "./supabase/client";
+import { getCurrentWorkspaceId } from "./workspaceContext";
 import { getSupabaseDatabaseService } from "./supabase";
 
 const log = createLogger("vectorSearch");
@@ -26,10 +33,25 @@ export interface VectorSearchResult {
   sourceDocument?: PDFDocument;
 }
 
-/** FAQ 유사도 임계값 상수 */
-export const FAQ_MIN_SIMILARITY = 0.45;
-export const FAQ_HIGH_CONFIDENCE = 0.65;
-export const FAQ_MEDIUM_CONFIDENCE = 0.45;
+/** 청크 키워드 검색 RPC 결과 행 */
+interface KeywordChunkRow {
+  id: number;
+  document_id: number;
+  content: string;
+  page_number: number;
+  chunk_index: number;
+  metadata: PDFChunk["metadata"];
+  keyword_rank: number;
+  document_name: string | null;
+  file_path: string | null;
+}
+
+/** FAQ 유사도 임계값 상수 (config.ts에서 관리) */
+export {
+  FAQ_MIN_SIMILARITY,
+  FAQ_HIGH_CONFIDENCE,
+  FAQ_MEDIUM_CONFIDENCE,
+} from "./config";
 
 /**
  * 벡터 검색 서비스
@@ -147,13 +169,40 @@ export class VectorSearchService {
         );
       }
 
-      const searchResults = await Promise.all(searchPromises);
-      const results: VectorSearchResult[] = searchResults.flat();
+      // 키워드(trigram) 검색 병렬 실행 (하이브리드)
+      const { hybridSearchEnabled, keywordMatchCount } = defaultConfig.search;
+      const keywordPromise =
+        hybridSearchEnabled && (includeFAQs || includeChunks)
+          ? Promise.race([
+              this.searchByKeyword(
+                query,
+                includeFAQs,
+                includeChunks,
+                keywordMatchCount,
+              ),
+              new Promise<VectorSearchResult[]>((resolve) =>
+                setTimeout(() => resolve([]), timeout),
+              ),
+            ])
+          : Promise.resolve([]);
+
+      const [searchResults, keywordResults] = await Promise.all([
+        Promise.all(searchPromises),
+        keywordPromise,
+      ]);
+      const vectorResults: VectorSearchResult[] = searchResults
+        .flat()
+        .filter((result) => result.similarity >= minSimilarity)
+        .sort((a, b) => b.score - a.score);
+
+      // 3. 벡터 + 키워드 순위 결합 (RRF) 후 필터링
+      const results =
+        keywordResults.length > 0
+          ? this.fuseWithRRF(vectorResults, keywordResults)
+          : vectorResults;
 
-      // 3. 유사도 기준 정렬 및 필터링
       return results
         .filter((result) => result.similarity >= minSimilarity)
-        .sort((a, b) => b.score - a.score)
         .slice(0, limit);
     } catch (error) {
       log.error("벡터 검색 실패:", error);
@@ -171,7 +220,7 @@ export class VectorSearchService {
     maxResults: number,
   ): Promise<VectorSearchResult[]> {
     try {
-      const queryLower = queryText.toLowerCase();
+      const queryTokens = tokenize(queryText);
       const embeddingStr = `[${queryEmbedding.join(",")}]`;
 
       // 1차: RPC 함수 시도
@@ -180,11 +229,13 @@ export class VectorSearchService {
           query_embedding: embeddingStr,
           similarity_threshold: threshold,
           match_count: maxResults,
+          filter_workspace_id: getCurrentWorkspaceId(),
         }),
         supabase.rpc("search_faqs_by_answer", {
           query_embedding: embeddingStr,
           similarity_threshold: threshold,
           match_count: maxResults,
+          filter_workspace_id: getCurrentWorkspaceId(),
         }),
       ]);
 
@@ -209,7 +260,7 @@ export class VectorSearchService {
 
           if (row.semantic_keywords && Array.isArray(row.semantic_keywords)) {
             const keywordMatch = row.semantic_keywords.some((kw: string) =>
-              queryLower.includes(kw.toLowerCase()),
+              containsKeyword(queryTokens, kw),
             );
             if (keywordMatch) score *= 1.15;
           }
@@ -284,7 +335,7 @@ export class VectorSearchService {
       const dbService = getSupabaseDatabaseService();
       const allFAQs = await dbService.getAllFAQs();
       const activeFAQs = allFAQs.filter((faq) => faq.isActive);
-      const queryLower = queryText.toLowerCase();
+      const queryTokens = tokenize(queryText);
       const results: VectorSearchResult[] = [];
 
       for (const faq of activeFAQs) {
@@ -320,7 +371,7 @@ export class VectorSearchService {
 
           if (faq.semanticKeywords && Array.isArray(faq.semanticKeywords)) {
             const keywordMatch = faq.semanticKeywords.some((kw: string) =>
-              queryLower.includes(kw.toLowerCase()),
+              containsKeyword(queryTokens, kw),
             );
             if (keywordMatch) score *= 1.15;
           }
@@ -360,6 +411,7 @@ export class VectorSearchService {
         query_embedding: embeddingStr,
         similarity_threshold: threshold,
         match_count: 5,
+        filter_workspace_id: getCurrentWorkspaceId(),
       });
 
       if (error) {
@@ -398,12 +450,13 @@ export class VectorSearchService {
   ): Promise<VectorSearchResult[]> {
     try {
       const embeddingStr = `[${queryEmbedding.join(",")}]`;
-      const queryLower = queryText.toLowerCase();
+      const queryTokens = tokenize(queryText);
 
       const { data, error } = await supabase.rpc("search_chunks", {
         query_embedding: embeddingStr,
         similarity_threshold: threshold,
         match_count: maxResults,
+        filter_workspace_id: getCurrentWorkspaceId(),
       });
 
       if (error) {
@@ -412,18 +465,16 @@ export class VectorSearchService {
       }
 
       return (data || []).map((row: any) => {
-        let score = row.similarity * 0.9;
+        // 중요도 가중치는 RPC에서 계산 (관리자 지정 중요도 포함)
+        let score = row.similarity * 0.9 * (row.importance_weight ?? 1);
         const metadata = row.metadata || {};
 
-        if (metadata.importance === "high") score *= 1.2;
-        else if (metadata.importance === "medium") score *= 1.05;
-
         if (metadata.chunkType === "page") score *= 1.15;
         else if (metadata.chunkType === "heading") score *= 1.1;
 
         if (metadata.keywords && Array.isArray(metadata.keywords)) {
           const keywordMatch = metadata.keywords.some((kw: string) =>
-            queryLower.includes(kw.toLowerCase()),
+            containsKeyword(queryTokens, kw),
           );
           if (keywordMatch) score *= 1.2;
         }
@@ -440,6 +491,13 @@ export class VectorSearchService {
           type: "chunk" as const,
           similarity: row.similarity,
           score,
+          sourceDocument: row.document_name
+            ? ({
+                id: row.document_id,
+                name: row.document_name,
+                filePath: row.file_path,
+              } as PDFDocument)
+            : undefined,
         };
       });
     } catch (error) {
@@ -448,6 +506,118 @@ export class VectorSearchService {
     }
   }
 
+  /**
+   * 키워드 검색 (pg_trgm RPC → 실패 시 빈 배열)
+   * 벡터 유사도가 없으므로 trigram 순위(0~1)를 similarity로 사용
+   */
+  private async searchByKeyword(
+    queryText: string,
+    includeFAQs: boolean,
+    includeChunks: boolean,
+    maxResults: number,
+  ): Promise<VectorSearchResult[]> {
+    try {
+      const [faqRes, chunkRes] = await Promise.all([
+        includeFAQs
+          ? supabase.rpc("search_faqs_by_keyword", {
+              query_text: queryText,
+              match_count: maxResults,
+              filter_workspace_id: getCurrentWorkspaceId(),
+            })
+          : Promise.resolve({ data: [], error: null }),
+        includeChunks
+          ? supabase.rpc("search_chunks_by_keyword", {
+              query_text: queryText,
+              match_count: maxResults,
+              filter_workspace_id: getCurrentWorkspaceId(),
+            })
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+
+      if (faqRes.error || chunkRes.error) {
+        log.warn(
+          "키워드 검색 RPC 오류 (함수 미존재 가능):",
+          (faqRes.error || chunkRes.error)?.message,
+        );
+      }
+
+      const faqResults: VectorSearchResult[] = (
+        faqRes.error ? [] : faqRes.data || []
+      ).map((row: { keyword_rank: number }) => ({
+        item: this.mapFaqRow(row),
+        type: "faq" as const,
+        similarity: row.keyword_rank,
+        score: row.keyword_rank,
+      }));
+
+      const chunkResults: VectorSearchResult[] = (
+        chunkRes.error ? [] : chunkRes.data || []
+      ).map((row: KeywordChunkRow) => ({
+        item: {
+          id: row.id,
+          documentId: row.document_id,
+          content: row.content,
+          pageNumber: row.page_number,
+          chunkIndex: row.chunk_index,
+          metadata: row.metadata,
+        } as PDFChunk,
+        type: "chunk" as const,
+        similarity: row.keyword_rank,
+        score: row.keyword_rank,
+        sourceDocument: row.document_name
+          ? ({
+              id: row.document_id,
+              name: row.document_name,
+              filePath: row.file_path || undefined,
+            } as PDFDocument)
+          : undefined,
+      }));
+
+      return [...faqResults, ...chunkResults].sort((a, b) => b.score - a.score);
+    } catch (error) {
+      log.error("키워드 검색 실패:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Reciprocal Rank Fusion (벡터 순위 + 키워드 순위 결합)
+   * score = Σ weight / (k + rank), 두 목록에 모두 있으면 벡터 결과의 similarity 유지
+   */
+  private fuseWithRRF(
+    vectorResults: VectorSearchResult[],
+    keywordResults: VectorSearchResult[],
+  ): VectorSearchResult[] {
+    const { vectorWeight, keywordWeight, rrfK } = defaultConfig.search;
+    const fused = new Map<string, VectorSearchResult>();
+
+    const resultKey = (result: VectorSearchResult) => {
+      const item = result.item as { id?: number | string; url?: string };
+      return `${result.type}:${item.id ?? item.url}`;
+    };
+
+    vectorResults.forEach((result, index) => {
+      fused.set(resultKey(result), {
+        ...result,
+        score: vectorWeight / (rrfK + index + 1),
+      });
+    });
+
+    keywordResults.forEach((result, index) => {
+      const key = resultKey(result);
+      const keywordScore = keywordWeight / (rrfK + index + 1);
+      const existing = fused.get(key);
+
+      if (existing) {
+        existing.score += keywordScore;
+      } else {
+        fused.set(key, { ...result, score: keywordScore });
+      }
+    });
+
+    return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+  }
+
   /**
    * 이미지/그래프 검색 (클라이언트 사이드, metadata JSONB 기반)
    */
@@ -524,9 +694,8 @@ export class VectorSearchService {
       const queryLower = queryText.toLowerCase().trim();
       const results: VectorSearchResult[] = [];
 
-      const queryWords = queryLower
-        .split(/[\s,?!.]+/)
-        .filter((w) => w.length >= 2);
+      // 조사/어미 제거된 토큰 (예: "환불은" → "환불")
+      const queryTokens = tokenize(queryText);
 
       for (const faq of activeFAQs) {
         const questionLower = faq.question.toLowerCase();
@@ -545,16 +714,16 @@ export class VectorSearchService {
           similarity = Math.min(matchRatio * 1.2, 1.0);
         }
 
-        // 단어 단위 매칭
-        if (similarity === 0 && queryWords.length > 0) {
-          const matchedWords = queryWords.filter(
-            (w) => questionLower.includes(w) || answerLower.includes(w),
+        // 단어 단위 매칭 (동의어/자모 유사도 포함)
+        if (similarity === 0 && queryTokens.length > 0) {
+          const matchedWords = findMatchedTokens(
+            queryTokens,
+            tokenize(`${questionLower} ${answerLower}`),
           );
           if (matchedWords.length > 0) {
-            const wordRatio = matchedWords.length / queryWords.length;
+            const wordRatio = matchedWords.length / queryTokens.length;
             const charRatio =
-              matchedWords.join("").length /
-              queryLower.replace(/[\s,?!.]+/g, "").length;
+              matchedWords.join("").length / queryTokens.join("").length;
             similarity = Math.min(
               (wordRatio * 0.6 + charRatio * 0.4) * 0.9,
               0.85,
@@ -568,8 +737,8 @@ export class VectorSearchService {
           faq.semanticKeywords &&
           faq.semanticKeywords.length > 0
         ) {
-          const keywordMatch = faq.semanticKeywords.some(
-            (kw) => queryLower.includes(kw.toLowerCase()) && kw.length >= 2,
+          const keywordMatch = faq.semanticKeywords.some((kw) =>
+            containsKeyword(queryTokens, kw),
           );
           if (keywordMatch) similarity = 0.6;
         }
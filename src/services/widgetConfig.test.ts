@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_WIDGET_CONFIG,
+  buildFrameAncestors,
+  isOriginAllowed,
+  parseWidgetConfig,
+} from "./widgetConfig";
+
+const enabledConfig = parseWidgetConfig(
+  JSON.stringify({
+    enabled: true,
+    allowedOrigins: ["https://shop.example.com/path", "javascript:alert(1)"],
+  }),
+);
+
+describe("isOriginAllowed", () => {
+  it("허용 목록의 Origin만 허용", () => {
+    expect(isOriginAllowed(enabledConfig, "https://shop.example.com")).toBe(
+      true,
+    );
+    expect(isOriginAllowed(enabledConfig, "https://evil.example.com")).toBe(
+      false,
+    );
+  });
+});
+
+describe("buildFrameAncestors", () => {
+  it("허용 Origin만 iframe 삽입 허용", () => {
+    expect(buildFrameAncestors(enabledConfig)).toBe(
+      "frame-ancestors https://shop.example.com",
+    );
+  });
+
+  it("위젯이 꺼져 있거나 허용 목록이 비면 모두 차단", () => {
+    expect(buildFrameAncestors({ ...enabledConfig, enabled: false })).toBe(
+      "frame-ancestors 'none'",
+    );
+    expect(
+      buildFrameAncestors({ ...DEFAULT_WIDGET_CONFIG, enabled: true }),
+    ).toBe("frame-ancestors 'none'");
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * 임베드 위젯 설정 유틸리티
+ * 관리자 설정(SystemSettings) / 위젯 API(/api/widget/config, /api/widget/page) 공용
+ */
+
+// 서버(api/)에서도 import하므로 .js 확장자 사용
+import type { WidgetConfig } from "../types.js";
+
+/** settings 테이블 키 */
+export const WIDGET_CONFIG_SETTING_KEY = "widget_config";
+
+export const DEFAULT_WIDGET_CONFIG: WidgetConfig = {
+  enabled: false,
+  title: "엠브레인Agent",
+  greeting:
+    "안녕하세요! 엠브레인Agent입니다. 궁금한 것이 있으시면 언제든 물어보세요.",
+  primaryColor: "#3b82f6",
+  position: "bottom-right",
+  allowedOrigins: [],
+};
+
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * 색상 값 검증 (#rrggbb 형식만 허용, 아니면 null)
+ */
+export function sanitizeColor(color: string | null | undefined): string | null {
+  return color && HEX_COLOR_PATTERN.test(color) ? color : null;
+}
+
+/**
+ * Origin 정규화 ("https://example.com/path" → "https://example.com")
+ * http/https가 아니거나 파싱 불가하면 null
+ */
+export function normalizeOrigin(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    if (!["http:", "https:"].includes(url.protocol)) return null;
+    return url.origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 저장된 설정 문자열 파싱 (누락/잘못된 값은 기본값으로 대체)
+ */
+export function parseWidgetConfig(value: string | null): WidgetConfig {
+  if (!value) return { ...DEFAULT_WIDGET_CONFIG };
+
+  try {
+    const parsed = JSON.parse(value) as Partial<WidgetConfig>;
+    return {
+      enabled: parsed.enabled ?? DEFAULT_WIDGET_CONFIG.enabled,
+      title: parsed.title || DEFAULT_WIDGET_CONFIG.title,
+      greeting: parsed.greeting || DEFAULT_WIDGET_CONFIG.greeting,
+      primaryColor:
+        sanitizeColor(parsed.primaryColor) ||
+        DEFAULT_WIDGET_CONFIG.primaryColor,
+      position:
+        parsed.position === "bottom-left" ? "bottom-left" : "bottom-right",
+      allowedOrigins: (parsed.allowedOrigins || [])
+        .map(normalizeOrigin)
+        .filter((origin): origin is string => Boolean(origin)),
+    };
+  } catch {
+    return { ...DEFAULT_WIDGET_CONFIG };
+  }
+}
+
+/**
+ * 임베드 허용 Origin인지 확인 (목록이 비어 있으면 모두 차단)
+ */
+export function isOriginAllowed(config: WidgetConfig, origin: string): boolean {
+  const normalized = normalizeOrigin(origin);
+  return normalized !== null && config.allowedOrigins.includes(normalized);
+}
+
+/**
+ * /widget 페이지 임베드 허용 범위 (Content-Security-Policy frame-ancestors)
+ * 위젯이 꺼져 있거나 허용 Origin이 없으면 모든 사이트에서 iframe 삽입 차단
+ */
+export function buildFrameAncestors(config: WidgetConfig): string {
+  if (!config.enabled || config.allowedOrigins.length === 0) {
+    return "frame-ancestors 'none'";
+  }
+  return `frame-ancestors ${config.allowedOrigins.join(" ")}`;
+}
@@ -0,0 +1,59 @@
+/**
+ * 현재 워크스페이스 컨텍스트
+ * 데이터 조회/저장, 검색 RPC, /api/chat 요청에 사용할 워크스페이스를 한 곳에서 관리
+ * 관리자 화면에서 선택한 워크스페이스는 localStorage에 유지
+ */
+
+import type { Workspace } from "../types";
+import { hasPermission, type Permission } from "./permissions";
+
+const STORAGE_KEY = "current-workspace-id";
+
+/** 공개 챗봇 기본 워크스페이스 slug (?workspace= 미지정 시) */
+export const DEFAULT_WORKSPACE_SLUG = "default";
+
+let currentWorkspace: Workspace | null = null;
+
+export function getCurrentWorkspace(): Workspace | null {
+  return currentWorkspace;
+}
+
+export function getCurrentWorkspaceId(): string | null {
+  return currentWorkspace?.id ?? null;
+}
+
+/** 현재 워크스페이스에서 사용자 역할의 권한 보유 여부 */
+export function hasCurrentPermission(permission: Permission): boolean {
+  return hasPermission(currentWorkspace?.role, permission);
+}
+
+/** 마지막으로 선택한 워크스페이스 ID (관리자 화면 복원용) */
+export function getSavedWorkspaceId(): string | null {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 현재 워크스페이스 변경
+ * persist=false면 저장하지 않음 (공개 챗봇이 관리자 선택을 덮어쓰지 않도록)
+ */
+export function setCurrentWorkspace(
+  workspace: Workspace | null,
+  persist: boolean = true,
+): void {
+  currentWorkspace = workspace;
+
+  if (!persist) return;
+  try {
+    if (workspace) {
+      localStorage.setItem(STORAGE_KEY, workspace.id);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // localStorage 사용 불가 환경은 무시
+  }
+}
@@ -22,6 +22,24 @@ export interface FAQ {
   relatedTopics?: string[];
   confidence?: number;
   generationSource?: "semantic_analysis" | "manual" | "template";
+  needsReview?: boolean; // 문서 새 버전에서 근거 청크가 바뀌어 편집자 검토 필요
+  reviewReason?: string;
+  externalKey?: string; // 가져오기/내보내기 왕복용 외부 키 (워크스페이스 내 유일)
+}
+
+/** 질문 임베딩이 유사한 기존 FAQ */
+export interface SimilarFAQ extends Pick<
+  FAQ,
+  "id" | "question" | "answer" | "category"
+> {
+  similarity: number;
+}
+
+/** 질문 임베딩이 유사한 FAQ 쌍 (faqId < duplicateId) */
+export interface FAQDuplicatePair {
+  faqId: number;
+  duplicateId: number;
+  similarity: number;
 }
 
 export interface Category {
@@ -95,17 +113,20 @@ export interface ChatLogMessage {
   responseTime?: number;
   confidence?: number;
   sourceFaq?: number;
+  rewrittenQuery?: string;
+  sourceChunks?: number[];
+  retrievalTrace?: RetrievalTrace; // 봇 답변 검색 추적 (서버 파이프라인 답변만)
+  feedback?: MessageFeedback;
+  feedbackReason?: string;
+  feedbackAt?: string;
 }
 
+/** 클라이언트가 기록하는 사용자 메시지 (봇 응답은 서버 /api/chat만 기록) */
 export interface ChatLogMessageCreateInput {
   sessionId: string;
   timestamp: string;
-  sender: ChatMessageSender;
   message: string;
   messageType?: "text" | "file" | "image";
-  responseTime?: number;
-  confidence?: number;
-  sourceFaq?: number;
 }
 
 export interface SystemStats {
@@ -129,6 +150,8 @@ export type Page =
   | "청크 관리"
   | "채팅 로그"
   | "채팅 분석"
+  | "플레이그라운드"
+  | "RAG 평가"
   | "시스템 설정";
 
 export interface RagAnalysisResult {
@@ -138,12 +161,15 @@ export interface RagAnalysisResult {
   explanation: string;
 }
 
+/** 봇 응답 피드백 (👍 helpful / 👎 unhelpful) */
+export type MessageFeedback = "helpful" | "unhelpful";
+
 export interface ChatMessage {
   id: number;
   text: string;
   sender: "user" | "bot";
   sourceFaq?: FAQ;
-  feedback?: "helpful" | "unhelpful" | null;
+  feedback?: MessageFeedback | null;
 }
 
 export interface DocumentImage {
@@ -161,6 +187,14 @@ export interface DocumentImage {
   };
 }
 
+/** 문서/이미지에서 추출한 표 */
+export interface DocumentTable {
+  title?: string;
+  headers: string[];
+  rows: string[][];
+  pageNumber?: number;
+}
+
 export interface DocumentGraph {
   id?: string;
   url: string;
@@ -181,6 +215,39 @@ export interface DocumentGraph {
   };
 }
 
+/** 스캔 PDF OCR 모드 (auto: 텍스트 레이어가 부족한 페이지만) */
+export type OcrMode = "auto" | "always" | "off";
+
+export interface OcrPageResult {
+  pageNumber: number;
+  method: "ocr" | "text";
+  confidence?: number;
+  textLength: number;
+}
+
+/** 새 버전 교체 시 이전 버전 대비 청크 변경 요약 */
+export interface DocumentVersionDiff {
+  fromVersion: number;
+  toVersion: number;
+  unchangedChunks: number;
+  addedChunks: number;
+  removedChunks: number;
+  flaggedFaqs: number;
+}
+
+/** 교체되기 전 문서 버전 (파일은 Storage에 보관) */
+export interface DocumentVersion {
+  id: number;
+  documentId: number;
+  version: number;
+  name: string;
+  size: string;
+  uploadDate: string;
+  filePath?: string;
+  pages?: number;
+  createdAt: string;
+}
+
 export interface PDFDocument {
   id: number;
   name: string;
@@ -193,18 +260,45 @@ export interface PDFDocument {
   metadata?: {
     pages: number;
     textContent?: string;
+    textPath?: string; // 추출 텍스트 Storage 경로 (서버 처리 작업이 읽어 textContent로 저장)
     images?: DocumentImage[];
     graphs?: DocumentGraph[];
-    tables?: any[];
+    tables?: DocumentTable[];
     keywords?: string[];
     imageData?: any;
     analysis?: any;
+    ocr?: {
+      mode: OcrMode;
+      pages: OcrPageResult[];
+      averageConfidence?: number;
+    };
+    versionDiff?: DocumentVersionDiff;
   };
+  version?: number;
   chunks?: PDFChunk[];
   generatedFaqs?: FAQ[];
   nameEmbedding?: number[];
 }
 
+export type ChunkEditAction = "edit" | "split" | "merge" | "delete";
+
+/** 청크 변경 기록 (청킹 관리에서 직접 편집) */
+export interface ChunkEdit {
+  id: number;
+  documentId: number;
+  chunkId: number;
+  action: ChunkEditAction;
+  relatedChunkId?: number; // split: 새 청크, merge: 합쳐져 삭제된 청크
+  chunkIndex: number; // 변경 시점 위치
+  beforeContent?: string;
+  afterContent?: string;
+  editedBy?: string;
+  editorEmail?: string;
+  createdAt: string;
+}
+
+export type ChunkImportance = "high" | "medium" | "low";
+
 export interface PDFChunk {
   id: number;
   documentId: number;
@@ -212,15 +306,19 @@ export interface PDFChunk {
   pageNumber: number;
   chunkIndex: number;
   embeddings?: number[];
+  isSearchable?: boolean; // false면 검색에서 제외 (표지/목차 등)
+  importance?: ChunkImportance | null; // 관리자 지정 중요도 (없으면 metadata.importance)
   metadata?: {
     pageLabel?: string;
     pageRange?: string;
     title?: string;
     summary?: string;
-    importance?: "high" | "medium" | "low";
+    importance?: ChunkImportance;
     keywords?: string[];
     semanticKeywords?: string[];
-    chunkType?: "paragraph" | "section" | "page" | "heading" | "content";
+    chunkType?:
+      "paragraph" | "section" | "page" | "heading" | "content" | "table";
+    tableIndex?: number; // metadata.tables 내 위치 (chunkType "table")
     type?: string;
     sectionName?: string;
     sectionIndex?: number;
@@ -231,6 +329,7 @@ export interface PDFChunk {
     detectionMethod?: string;
     contextBefore?: string;
     contextAfter?: string;
+    boilerplateReason?: string; // 표지/목차 등 검색 제외 추천 사유 (ingestion 시 감지)
   };
 }
 
@@ -251,11 +350,35 @@ export interface DocumentUploadProgress {
     | "extracting"
     | "chunking"
     | "generating_faqs"
+    | "queued"
     | "completed"
     | "error";
   error?: string;
 }
 
+export type IngestionJobStatus =
+  "queued" | "running" | "retrying" | "completed" | "failed";
+
+/** 서버 처리 단계 (analyzing → chunking → embedding → completed) */
+export type IngestionStage =
+  "analyzing" | "chunking" | "embedding" | "completed";
+
+/** 문서 업로드 후 서버에서 이어서 처리하는 작업 (ingestion_jobs) */
+export interface IngestionJob {
+  id: string;
+  documentId: number;
+  status: IngestionJobStatus;
+  stage: IngestionStage;
+  progress: number;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string | null;
+}
+
 export interface RecentConversation {
   sessionId: string;
   userMessage: string;
@@ -298,6 +421,29 @@ export interface ChatAnalytics {
   satisfactionAverage: number | null;
   resolutionRate: number | null;
   activeUsers: number;
+  feedbackSummary?: {
+    helpful: number;
+    unhelpful: number;
+  };
+  /** 👎 피드백이 많은 FAQ (개선 대상) */
+  worstFaqs?: Array<{
+    faqId: number;
+    question: string;
+    category?: string;
+    helpful: number;
+    unhelpful: number;
+    reasons?: string[];
+  }>;
+  /** 👎 피드백이 많은 문서 청크 (개선 대상) */
+  worstChunks?: Array<{
+    chunkId: number;
+    documentName: string;
+    pageNumber: number;
+    contentPreview: string;
+    helpful: number;
+    unhelpful: number;
+    reasons?: string[];
+  }>;
 }
 
 export interface CustomerServiceInfo {
@@ -314,3 +460,198 @@ export interface FallbackMessageConfig {
   showFaqGuide: boolean;
   additionalMessage: string;
 }
+
+/** RAG 답변 인용 정보 ([n] 표기와 1:1 대응) */
+export interface Citation {
+  index: number;
+  chunkId?: number;
+  documentId?: number;
+  documentName: string;
+  filePath?: string; // 원문 Storage 경로 (공개 챗봇은 문서 테이블을 조회할 수 없음)
+  pageNumber: number;
+  relevance: number;
+}
+
+/** /api/chat 응답 유형 */
+export type ChatAnswerType =
+  | "faq" // FAQ 답변 직접 반환
+  | "generated" // 문서 청크 기반 Gemini 생성 답변
+  | "chunk" // 생성 실패 시 청크 원문
+  | "compound" // 복합 질문 분리 답변
+  | "fallback"; // 고객센터 안내
+
+/** 검색 추적: 후보 1건 (FAQ 또는 문서 청크) */
+export interface RetrievalTraceCandidate {
+  type: "faq" | "chunk";
+  id: number;
+  label: string; // FAQ 질문 또는 "문서명 p.페이지" (잘라서 저장)
+  similarity?: number; // 벡터 유사도 (키워드로만 찾은 경우 없음)
+  keywordScore?: number; // 키워드(trigram) 점수 (키워드 검색에 없으면 없음)
+  vectorRank?: number; // 벡터 검색 순위 (1부터)
+  keywordRank?: number; // 키워드 검색 순위 (1부터)
+  fusedScore: number; // 가중치/RRF 결합 점수
+  finalScore?: number; // 재순위화 후 점수 (답변 후보에 포함된 경우)
+  selected: boolean; // limit/임계값을 통과해 답변 후보로 사용됨
+}
+
+/** 검색 추적: 질의 1건 (복합 질문은 분리된 질문마다 1건) */
+export interface RetrievalTraceSearch {
+  query: string;
+  embeddingFailed: boolean; // 질의 임베딩 실패 → 키워드 검색만 사용
+  hybrid: boolean; // 키워드 검색 결합 여부
+  vectorCount: number;
+  keywordCount: number;
+  reranker: "gemini" | "local" | "off";
+  candidates: RetrievalTraceCandidate[];
+}
+
+/** 봇 답변 검색 추적 (chat_message_traces.trace, 멤버 전용 관리자 진단용) */
+export interface RetrievalTrace {
+  answerType: ChatAnswerType;
+  promptVersion: string;
+  model: string;
+  embeddingModel: string;
+  thresholds: {
+    minSimilarity: number; // 검색 최소 유사도
+    faqMedium: number; // FAQ 직접 답변 최소 유사도
+    faqHigh: number; // FAQ 원문 그대로 답변하는 유사도
+  };
+  searches: RetrievalTraceSearch[];
+}
+
+export interface ChatSourceDocument {
+  id: number;
+  name: string;
+  filePath?: string;
+}
+
+export interface ChatRelatedChunk {
+  content: string;
+  pageNumber: number;
+  sourceDocument?: ChatSourceDocument;
+}
+
+export interface ChatResponse {
+  sessionId: string;
+  messageId?: number;
+  answer: string;
+  answerType: ChatAnswerType;
+  confidence: number;
+  faq?: FAQ;
+  relatedChunks?: ChatRelatedChunk[];
+  relatedDocuments?: ChatSourceDocument[];
+  citations?: Citation[];
+  isResolved: boolean;
+  category?: string;
+  responseTime: number;
+  /** 후속 질문을 대화 맥락으로 재작성한 검색 질의 (재작성된 경우만) */
+  rewrittenQuery?: string;
+}
+
+/** 관리자 플레이그라운드 검색/생성 조건 */
+export interface PlaygroundSettings {
+  limit: number; // 답변 후보 수
+  minSimilarity: number; // 검색 최소 유사도 (0~1)
+  includeFaqs: boolean;
+  includeChunks: boolean;
+  instructions?: string; // RAG 지시문 (비우면 기본 지시문)
+}
+
+/** /api/admin/playground 응답 (대화 기록/통계에 남지 않음) */
+export interface PlaygroundResponse extends Omit<
+  ChatResponse,
+  "sessionId" | "messageId" | "isResolved"
+> {
+  retrievalTrace: RetrievalTrace;
+  instructions: string; // 실제 사용한 RAG 지시문
+}
+
+/** RAG 평가 골든 질문 (eval_cases) */
+export interface EvalCase {
+  id: number;
+  question: string;
+  expectedFaqIds: number[];
+  expectedChunkIds: number[];
+  expectedFacts: string[]; // 답변에 포함되어야 할 사실
+  expectFallback: boolean; // 지식베이스 범위 밖 질문 (안내 문구가 정답)
+  notes?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type EvalCaseInput = Omit<EvalCase, "id" | "createdAt" | "updatedAt">;
+
+/** 평가 질문 1건의 실행 결과 */
+export interface EvalCaseResult {
+  caseId: number;
+  question: string;
+  answerType?: ChatAnswerType; // 실행 실패 시 없음
+  retrieved: Array<Pick<RetrievalTraceCandidate, "type" | "id" | "selected">>; // 검색 순위 (답변 후보 → 제외 후보, 최대 10)
+  firstRelevantRank?: number; // 기대 FAQ/청크가 처음 나온 순위 (제외 후보 포함, MRR용)
+  recall?: number; // 상위 k개 답변 후보 안의 기대 FAQ/청크 비율 (기대값이 있는 질문만)
+  factRecall?: number; // 답변에 포함된 기대 사실 비율 (기대 사실이 있는 질문만)
+  expectFallback: boolean;
+  answer?: string;
+  error?: string;
+}
+
+/** 평가 실행 지표 (모두 0~1, 대상 질문이 없으면 null) */
+export interface EvalMetrics {
+  recallAtK: number | null;
+  mrr: number | null;
+  hitRate: number | null;
+  fallbackRate: number; // 전체 질문 중 안내 문구로 답한 비율
+  fallbackAccuracy: number | null; // 안내 문구 기대 여부와 실제가 일치한 비율
+  factRecall: number | null;
+  errorCount: number;
+}
+
+/** RAG 평가 실행 기록 (eval_runs) */
+export interface EvalRun {
+  id: number;
+  label?: string;
+  settings: PlaygroundSettings;
+  promptVersion?: string;
+  caseCount: number;
+  metrics: EvalMetrics;
+  results: EvalCaseResult[];
+  createdAt: string;
+}
+
+export type EvalRunInput = Omit<EvalRun, "id" | "createdAt">;
+
+/** 멀티턴 대화 히스토리 항목 (/api/chat 요청용) */
+export interface ConversationTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/** 외부 사이트 임베드 위젯 설정 (settings 테이블 widget_config) */
+export interface WidgetConfig {
+  enabled: boolean;
+  title: string;
+  greeting: string;
+  primaryColor: string;
+  position: "bottom-right" | "bottom-left";
+  allowedOrigins: string[];
+}
+
+// 멀티 테넌트 워크스페이스
+export type WorkspaceRole = "owner" | "editor" | "reviewer" | "viewer";
+
+export interface Workspace {
+  id: string;
+  organizationId: string;
+  name: string;
+  slug: string;
+  isPublic: boolean;
+  /** 현재 사용자의 역할 (공개 챗봇에서 조회한 경우 없음) */
+  role?: WorkspaceRole;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  email: string;
+  role: WorkspaceRole;
+  createdAt: string;
+}
@@ -0,0 +1,45 @@
+-- 007_search_chunks_with_document.sql
+-- search_chunks 결과에 출처 문서 정보 포함 (답변 인용/각주용)
+
+-- 반환 컬럼이 변경되므로 기존 함수 삭제 후 재생성
+DROP FUNCTION IF EXISTS search_chunks(vector, REAL, INTEGER);
+
+-- 3. 청크 벡터 검색 (출처 문서명/경로 포함)
+CREATE OR REPLACE FUNCTION search_chunks(
+  query_embedding vector(768),
+  similarity_threshold REAL DEFAULT 0.45,
+  match_count INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  id BIGINT,
+  document_id BIGINT,
+  content TEXT,
+  page_number INTEGER,
+  chunk_index INTEGER,
+  metadata JSONB,
+  similarity REAL,
+  document_name TEXT,
+  file_path TEXT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.document_id,
+    c.content,
+    c.page_number,
+    c.chunk_index,
+    c.metadata,
+    (1 - (c.embeddings <=> query_embedding))::REAL AS similarity,
+    d.name AS document_name,
+    d.file_path
+  FROM pdf_chunks c
+  LEFT JOIN pdf_documents d ON d.id = c.document_id
+  WHERE c.embeddings IS NOT NULL
+    AND (1 - (c.embeddings <=> query_embedding)) > similarity_threshold
+  ORDER BY c.embeddings <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,97 @@
+-- 008_keyword_search.sql
+-- 키워드(trigram) 검색 RPC (벡터 검색과 병렬 실행 후 RRF 결합용)
+-- 한국어 제품명/코드처럼 임베딩 유사도로 잡히지 않는 표현 보완
+
+-- pg_trgm 확장 활성화 (trigram 기반 부분 문자열 유사도)
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- trigram GIN 인덱스
+CREATE INDEX IF NOT EXISTS idx_faqs_question_trgm ON faqs USING gin (question gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_faqs_answer_trgm ON faqs USING gin (answer gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_chunks_content_trgm ON pdf_chunks USING gin (content gin_trgm_ops);
+
+-- 1. FAQ 키워드 검색 (질문 우선, 답변 보조)
+CREATE OR REPLACE FUNCTION search_faqs_by_keyword(
+  query_text TEXT,
+  match_count INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  id BIGINT,
+  question TEXT,
+  answer TEXT,
+  category TEXT,
+  is_active BOOLEAN,
+  is_featured BOOLEAN,
+  semantic_keywords JSONB,
+  confidence REAL,
+  generation_source TEXT,
+  document_id BIGINT,
+  keyword_rank REAL
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.question,
+    f.answer,
+    f.category,
+    f.is_active,
+    f.is_featured,
+    f.semantic_keywords,
+    f.confidence,
+    f.generation_source,
+    f.document_id,
+    GREATEST(
+      word_similarity(query_text, f.question),
+      word_similarity(query_text, f.answer) * 0.9
+    )::REAL AS keyword_rank
+  FROM faqs f
+  WHERE f.is_active = true
+    AND (query_text <% f.question OR query_text <% f.answer)
+  ORDER BY GREATEST(
+      word_similarity(query_text, f.question),
+      word_similarity(query_text, f.answer) * 0.9
+    ) DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- 2. 청크 키워드 검색 (출처 문서명/경로 포함)
+CREATE OR REPLACE FUNCTION search_chunks_by_keyword(
+  query_text TEXT,
+  match_count INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  id BIGINT,
+  document_id BIGINT,
+  content TEXT,
+  page_number INTEGER,
+  chunk_index INTEGER,
+  metadata JSONB,
+  keyword_rank REAL,
+  document_name TEXT,
+  file_path TEXT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.document_id,
+    c.content,
+    c.page_number,
+    c.chunk_index,
+    c.metadata,
+    word_similarity(query_text, c.content)::REAL AS keyword_rank,
+    d.name AS document_name,
+    d.file_path
+  FROM pdf_chunks c
+  LEFT JOIN pdf_documents d ON d.id = c.document_id
+  WHERE query_text <% c.content
+  ORDER BY word_similarity(query_text, c.content) DESC
+  LIMIT match_count;
+END;
+$$;
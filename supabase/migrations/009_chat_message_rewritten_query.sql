@@ -0,0 +1,5 @@
+-- 009_chat_message_rewritten_query.sql
+-- 멀티턴 대화: 후속 질문을 재작성한 독립 검색 질의 기록 (감사/분석용)
+-- 사용자 메시지에만 기록되며, 재작성되지 않은 경우 NULL
+
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS rewritten_query TEXT;
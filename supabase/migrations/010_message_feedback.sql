@@ -0,0 +1,156 @@
+-- 010_message_feedback.sql
+-- 봇 응답별 👍/👎 피드백 저장 + 채팅 분석에 피드백 집계 추가
+-- source_chunks: 답변 근거로 사용된 청크 ID (청크별 피드백 집계용)
+
+ALTER TABLE chat_messages
+  ADD COLUMN IF NOT EXISTS feedback TEXT CHECK (feedback IN ('helpful', 'unhelpful')),
+  ADD COLUMN IF NOT EXISTS feedback_reason TEXT,
+  ADD COLUMN IF NOT EXISTS feedback_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS source_chunks BIGINT[];
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_feedback
+  ON chat_messages (feedback)
+  WHERE feedback IS NOT NULL;
+
+-- get_chat_analytics: feedbackSummary / worstFaqs / worstChunks 추가
+CREATE OR REPLACE FUNCTION get_chat_analytics(period TEXT DEFAULT 'month')
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  result JSON;
+  date_filter INTERVAL;
+BEGIN
+  -- 화이트리스트 기반 기간 필터 (SQL Injection 방지)
+  date_filter := CASE period
+    WHEN 'today' THEN INTERVAL '1 day'
+    WHEN 'week' THEN INTERVAL '7 days'
+    WHEN 'month' THEN INTERVAL '30 days'
+    ELSE INTERVAL '30 days'
+  END;
+
+  SELECT json_build_object(
+    'hourlyDistribution', (
+      SELECT json_agg(row_to_json(t))
+      FROM (
+        SELECT
+          lpad(hour_num::TEXT, 2, '0') AS hour,
+          COALESCE(counts.count, 0) AS count
+        FROM generate_series(0, 23) AS hour_num
+        LEFT JOIN (
+          SELECT
+            EXTRACT(HOUR FROM timestamp::TIMESTAMP)::INTEGER AS hour,
+            COUNT(*) AS count
+          FROM chat_messages
+          WHERE sender = 'user'
+            AND timestamp IS NOT NULL
+            AND timestamp::TIMESTAMP >= NOW() - date_filter
+          GROUP BY EXTRACT(HOUR FROM timestamp::TIMESTAMP)
+        ) counts ON counts.hour = hour_num
+        ORDER BY hour_num
+      ) t
+    ),
+    'topQuestions', (
+      SELECT COALESCE(json_agg(row_to_json(t)), '[]'::JSON)
+      FROM (
+        SELECT
+          COALESCE(f.question, '미지정 FAQ') AS question,
+          f.category,
+          COUNT(*) AS count
+        FROM chat_messages cm
+        JOIN faqs f ON f.id = cm.source_faq
+        WHERE cm.sender = 'bot'
+          AND cm.source_faq IS NOT NULL
+          AND cm.timestamp::TIMESTAMP >= NOW() - date_filter
+        GROUP BY f.id, f.question, f.category
+        ORDER BY count DESC
+        LIMIT 5
+      ) t
+    ),
+    'satisfactionAverage', (
+      SELECT AVG(satisfaction)
+      FROM chat_sessions
+      WHERE satisfaction IS NOT NULL
+        AND start_time::TIMESTAMP >= NOW() - date_filter
+    ),
+    'resolutionRate', (
+      SELECT CASE
+        WHEN COUNT(*) = 0 THEN NULL
+        ELSE COUNT(*) FILTER (WHERE is_resolved = true)::FLOAT / COUNT(*)::FLOAT
+      END
+      FROM chat_sessions
+      WHERE start_time::TIMESTAMP >= NOW() - date_filter
+    ),
+    'activeUsers', (
+      SELECT COUNT(DISTINCT
+        COALESCE(
+          NULLIF(TRIM(user_email), ''),
+          NULLIF(TRIM(user_name), ''),
+          session_id
+        )
+      )
+      FROM chat_sessions
+      WHERE start_time::TIMESTAMP >= NOW() - date_filter
+    ),
+    'feedbackSummary', (
+      SELECT json_build_object(
+        'helpful', COUNT(*) FILTER (WHERE feedback = 'helpful'),
+        'unhelpful', COUNT(*) FILTER (WHERE feedback = 'unhelpful')
+      )
+      FROM chat_messages
+      WHERE sender = 'bot'
+        AND feedback IS NOT NULL
+        AND timestamp::TIMESTAMP >= NOW() - date_filter
+    ),
+    'worstFaqs', (
+      SELECT COALESCE(json_agg(row_to_json(t)), '[]'::JSON)
+      FROM (
+        SELECT
+          f.id AS faq_id,
+          f.question,
+          f.category,
+          COUNT(*) FILTER (WHERE cm.feedback = 'helpful') AS helpful,
+          COUNT(*) FILTER (WHERE cm.feedback = 'unhelpful') AS unhelpful,
+          (array_agg(cm.feedback_reason ORDER BY cm.feedback_at DESC)
+            FILTER (WHERE cm.feedback_reason IS NOT NULL))[1:3] AS reasons
+        FROM chat_messages cm
+        JOIN faqs f ON f.id = cm.source_faq
+        WHERE cm.sender = 'bot'
+          AND cm.feedback IS NOT NULL
+          AND cm.timestamp::TIMESTAMP >= NOW() - date_filter
+        GROUP BY f.id, f.question, f.category
+        HAVING COUNT(*) FILTER (WHERE cm.feedback = 'unhelpful') > 0
+        ORDER BY unhelpful DESC, helpful ASC
+        LIMIT 5
+      ) t
+    ),
+    'worstChunks', (
+      SELECT COALESCE(json_agg(row_to_json(t)), '[]'::JSON)
+      FROM (
+        SELECT
+          c.id AS chunk_id,
+          d.name AS document_name,
+          c.page_number,
+          LEFT(c.content, 120) AS content_preview,
+          COUNT(*) FILTER (WHERE cm.feedback = 'helpful') AS helpful,
+          COUNT(*) FILTER (WHERE cm.feedback = 'unhelpful') AS unhelpful,
+          (array_agg(cm.feedback_reason ORDER BY cm.feedback_at DESC)
+            FILTER (WHERE cm.feedback_reason IS NOT NULL))[1:3] AS reasons
+        FROM chat_messages cm
+        CROSS JOIN LATERAL unnest(cm.source_chunks) AS sc(chunk_id)
+        JOIN pdf_chunks c ON c.id = sc.chunk_id
+        JOIN pdf_documents d ON d.id = c.document_id
+        WHERE cm.sender = 'bot'
+          AND cm.feedback IS NOT NULL
+          AND cm.timestamp::TIMESTAMP >= NOW() - date_filter
+        GROUP BY c.id, d.name, c.page_number, c.content
+        HAVING COUNT(*) FILTER (WHERE cm.feedback = 'unhelpful') > 0
+        ORDER BY unhelpful DESC, helpful ASC
+        LIMIT 5
+      ) t
+    )
+  ) INTO result;
+
+  RETURN result;
+END;
+$$;
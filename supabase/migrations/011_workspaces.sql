@@ -0,0 +1,1000 @@
+-- 011_workspaces.sql
+-- 멀티 테넌트 워크스페이스: 조직 / 워크스페이스 / 멤버십
+-- 하나의 배포에서 팀별로 독립된 지식 베이스와 챗봇을 운영
+-- 모든 데이터 테이블과 검색/통계 RPC를 워크스페이스 단위로 분리
+
+-- 1. 조직 / 워크스페이스 / 멤버십
+CREATE TABLE organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE workspaces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9][a-z0-9-]{1,62}$'), -- 공개 챗봇 URL (?workspace=slug)
+  is_public BOOLEAN NOT NULL DEFAULT true, -- 공개 챗봇(anon) 접근 허용 여부
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE workspace_members (
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX idx_workspaces_organization_id ON workspaces(organization_id);
+CREATE INDEX idx_workspace_members_user_id ON workspace_members(user_id);
+
+-- 2. 데이터 테이블에 workspace_id 추가
+ALTER TABLE pdf_documents ADD COLUMN workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE pdf_chunks ADD COLUMN workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE faqs ADD COLUMN workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE chat_sessions ADD COLUMN workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE chat_messages ADD COLUMN workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE settings ADD COLUMN workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_documents_workspace_id ON pdf_documents(workspace_id);
+CREATE INDEX idx_chunks_workspace_id ON pdf_chunks(workspace_id);
+CREATE INDEX idx_faqs_workspace_id ON faqs(workspace_id);
+CREATE INDEX idx_chat_sessions_workspace_id ON chat_sessions(workspace_id);
+CREATE INDEX idx_chat_messages_workspace_id ON chat_messages(workspace_id);
+CREATE INDEX idx_settings_workspace_id ON settings(workspace_id);
+
+-- 3. 기존 데이터를 기본 워크스페이스로 이전 (기존 사용자는 모두 owner)
+DO $$
+DECLARE
+  default_organization UUID;
+  default_workspace UUID;
+BEGIN
+  INSERT INTO organizations (name)
+  VALUES ('엠브레인')
+  RETURNING id INTO default_organization;
+
+  INSERT INTO workspaces (organization_id, name, slug)
+  VALUES (default_organization, '기본 워크스페이스', 'default')
+  RETURNING id INTO default_workspace;
+
+  INSERT INTO workspace_members (workspace_id, user_id, role)
+  SELECT default_workspace, id, 'owner' FROM auth.users
+  ON CONFLICT DO NOTHING;
+
+  UPDATE pdf_documents SET workspace_id = default_workspace WHERE workspace_id IS NULL;
+  UPDATE pdf_chunks SET workspace_id = default_workspace WHERE workspace_id IS NULL;
+  UPDATE faqs SET workspace_id = default_workspace WHERE workspace_id IS NULL;
+  UPDATE chat_sessions SET workspace_id = default_workspace WHERE workspace_id IS NULL;
+  UPDATE chat_messages SET workspace_id = default_workspace WHERE workspace_id IS NULL;
+  UPDATE settings SET workspace_id = default_workspace WHERE workspace_id IS NULL;
+END;
+$$;
+
+ALTER TABLE pdf_documents ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE pdf_chunks ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE faqs ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE chat_sessions ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE chat_messages ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE settings ALTER COLUMN workspace_id SET NOT NULL;
+
+-- settings 키는 워크스페이스별로 고유
+ALTER TABLE settings DROP CONSTRAINT IF EXISTS settings_key_key;
+ALTER TABLE settings ADD CONSTRAINT settings_workspace_key_key UNIQUE (workspace_id, key);
+
+-- 4. 멤버십 확인 함수 (RLS 정책 내 재귀 조회 방지를 위해 SECURITY DEFINER)
+CREATE OR REPLACE FUNCTION is_workspace_member(ws UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM workspace_members
+    WHERE workspace_id = ws AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_workspace_owner(ws UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM workspace_members
+    WHERE workspace_id = ws AND user_id = auth.uid() AND role = 'owner'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_public_workspace(ws UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM workspaces WHERE id = ws AND is_public = true);
+$$;
+
+-- 5. 하위 테이블 workspace_id 자동 설정 (청크 ← 문서, 메시지 ← 세션)
+CREATE OR REPLACE FUNCTION set_chunk_workspace_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.workspace_id IS NULL THEN
+    SELECT workspace_id INTO NEW.workspace_id
+    FROM pdf_documents WHERE id = NEW.document_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER pdf_chunks_set_workspace_id
+  BEFORE INSERT ON pdf_chunks
+  FOR EACH ROW EXECUTE FUNCTION set_chunk_workspace_id();
+
+CREATE OR REPLACE FUNCTION set_message_workspace_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.workspace_id IS NULL THEN
+    SELECT workspace_id INTO NEW.workspace_id
+    FROM chat_sessions WHERE session_id = NEW.session_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER chat_messages_set_workspace_id
+  BEFORE INSERT ON chat_messages
+  FOR EACH ROW EXECUTE FUNCTION set_message_workspace_id();
+
+-- 6. 워크스페이스 관리 RPC
+-- 워크스페이스 생성 (생성자를 owner로 등록, 조직 미지정 시 새 조직 생성)
+CREATE OR REPLACE FUNCTION create_workspace(
+  workspace_name TEXT,
+  workspace_slug TEXT,
+  target_organization_id UUID DEFAULT NULL
+)
+RETURNS workspaces
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  organization UUID := target_organization_id;
+  created workspaces;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF organization IS NULL THEN
+    INSERT INTO organizations (name)
+    VALUES (workspace_name)
+    RETURNING id INTO organization;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM workspaces w
+    JOIN workspace_members m ON m.workspace_id = w.id
+    WHERE w.organization_id = organization
+      AND m.user_id = auth.uid()
+      AND m.role = 'owner'
+  ) THEN
+    RAISE EXCEPTION 'Not an owner of the organization';
+  END IF;
+
+  INSERT INTO workspaces (organization_id, name, slug)
+  VALUES (organization, workspace_name, workspace_slug)
+  RETURNING * INTO created;
+
+  INSERT INTO workspace_members (workspace_id, user_id, role)
+  VALUES (created.id, auth.uid(), 'owner');
+
+  RETURN created;
+END;
+$$;
+
+-- 이메일로 멤버 추가 (owner만 가능)
+CREATE OR REPLACE FUNCTION add_workspace_member(
+  target_workspace_id UUID,
+  member_email TEXT,
+  member_role TEXT DEFAULT 'member'
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  member_id UUID;
+BEGIN
+  IF NOT is_workspace_owner(target_workspace_id) THEN
+    RAISE EXCEPTION 'Not an owner of the workspace';
+  END IF;
+
+  SELECT id INTO member_id
+  FROM auth.users
+  WHERE lower(email) = lower(trim(member_email));
+
+  IF member_id IS NULL THEN
+    RAISE EXCEPTION 'User not found: %', member_email;
+  END IF;
+
+  INSERT INTO workspace_members (workspace_id, user_id, role)
+  VALUES (target_workspace_id, member_id, member_role)
+  ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+END;
+$$;
+
+-- 멤버 목록 (이메일 포함, 멤버만 조회 가능)
+CREATE OR REPLACE FUNCTION get_workspace_members(target_workspace_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  role TEXT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_workspace_member(target_workspace_id) THEN
+    RAISE EXCEPTION 'Not a member of the workspace';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.user_id, u.email::TEXT, m.role, m.created_at
+  FROM workspace_members m
+  JOIN auth.users u ON u.id = m.user_id
+  WHERE m.workspace_id = target_workspace_id
+  ORDER BY m.created_at;
+END;
+$$;
+
+-- 7. RLS 정책
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+
+-- organizations: 소속 워크스페이스가 있는 조직만 읽기
+CREATE POLICY "organizations_select_policy" ON organizations
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM workspaces w
+      WHERE w.organization_id = organizations.id
+        AND is_workspace_member(w.id)
+    )
+  );
+
+-- workspaces: 멤버 또는 공개 워크스페이스 읽기 (공개 챗봇 slug 조회용), owner만 수정/삭제
+-- 생성은 create_workspace RPC로만 가능
+CREATE POLICY "workspaces_select_policy" ON workspaces
+  FOR SELECT USING (is_workspace_member(id) OR is_public = true);
+
+CREATE POLICY "workspaces_update_policy" ON workspaces
+  FOR UPDATE USING (is_workspace_owner(id));
+
+CREATE POLICY "workspaces_delete_policy" ON workspaces
+  FOR DELETE USING (is_workspace_owner(id));
+
+-- workspace_members: 멤버는 읽기, owner만 추가/수정/삭제 (본인 탈퇴는 허용)
+CREATE POLICY "workspace_members_select_policy" ON workspace_members
+  FOR SELECT USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "workspace_members_insert_policy" ON workspace_members
+  FOR INSERT WITH CHECK (is_workspace_owner(workspace_id));
+
+CREATE POLICY "workspace_members_update_policy" ON workspace_members
+  FOR UPDATE USING (is_workspace_owner(workspace_id));
+
+CREATE POLICY "workspace_members_delete_policy" ON workspace_members
+  FOR DELETE USING (
+    is_workspace_owner(workspace_id) OR user_id = auth.uid()
+  );
+
+-- 기존 사용자 단위 정책 제거 → 워크스페이스 단위 정책으로 교체
+DROP POLICY IF EXISTS "pdf_documents_select_policy" ON pdf_documents;
+DROP POLICY IF EXISTS "pdf_documents_insert_policy" ON pdf_documents;
+DROP POLICY IF EXISTS "pdf_documents_update_policy" ON pdf_documents;
+DROP POLICY IF EXISTS "pdf_documents_delete_policy" ON pdf_documents;
+DROP POLICY IF EXISTS "pdf_chunks_select_policy" ON pdf_chunks;
+DROP POLICY IF EXISTS "pdf_chunks_insert_policy" ON pdf_chunks;
+DROP POLICY IF EXISTS "pdf_chunks_update_policy" ON pdf_chunks;
+DROP POLICY IF EXISTS "pdf_chunks_delete_policy" ON pdf_chunks;
+DROP POLICY IF EXISTS "faqs_select_authenticated_policy" ON faqs;
+DROP POLICY IF EXISTS "faqs_select_anon_policy" ON faqs;
+DROP POLICY IF EXISTS "faqs_insert_policy" ON faqs;
+DROP POLICY IF EXISTS "faqs_update_policy" ON faqs;
+DROP POLICY IF EXISTS "faqs_delete_policy" ON faqs;
+DROP POLICY IF EXISTS "chat_sessions_select_policy" ON chat_sessions;
+DROP POLICY IF EXISTS "chat_sessions_insert_policy" ON chat_sessions;
+DROP POLICY IF EXISTS "chat_sessions_update_policy" ON chat_sessions;
+DROP POLICY IF EXISTS "chat_sessions_delete_policy" ON chat_sessions;
+DROP POLICY IF EXISTS "chat_messages_select_policy" ON chat_messages;
+DROP POLICY IF EXISTS "chat_messages_insert_policy" ON chat_messages;
+DROP POLICY IF EXISTS "chat_messages_update_policy" ON chat_messages;
+DROP POLICY IF EXISTS "chat_messages_delete_policy" ON chat_messages;
+DROP POLICY IF EXISTS "settings_select_policy" ON settings;
+DROP POLICY IF EXISTS "settings_insert_policy" ON settings;
+DROP POLICY IF EXISTS "settings_update_policy" ON settings;
+DROP POLICY IF EXISTS "settings_delete_policy" ON settings;
+
+-- pdf_documents / pdf_chunks / settings: 워크스페이스 멤버만 CRUD
+CREATE POLICY "pdf_documents_select_policy" ON pdf_documents
+  FOR SELECT USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "pdf_documents_insert_policy" ON pdf_documents
+  FOR INSERT WITH CHECK (is_workspace_member(workspace_id));
+
+CREATE POLICY "pdf_documents_update_policy" ON pdf_documents
+  FOR UPDATE USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "pdf_documents_delete_policy" ON pdf_documents
+  FOR DELETE USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "pdf_chunks_select_policy" ON pdf_chunks
+  FOR SELECT USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "pdf_chunks_insert_policy" ON pdf_chunks
+  FOR INSERT WITH CHECK (is_workspace_member(workspace_id));
+
+CREATE POLICY "pdf_chunks_update_policy" ON pdf_chunks
+  FOR UPDATE USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "pdf_chunks_delete_policy" ON pdf_chunks
+  FOR DELETE USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "settings_select_policy" ON settings
+  FOR SELECT USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "settings_insert_policy" ON settings
+  FOR INSERT WITH CHECK (is_workspace_member(workspace_id));
+
+CREATE POLICY "settings_update_policy" ON settings
+  FOR UPDATE USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "settings_delete_policy" ON settings
+  FOR DELETE USING (is_workspace_member(workspace_id));
+
+-- faqs: 멤버는 CRUD, 공개 워크스페이스의 활성 FAQ는 누구나 읽기 (공개 챗봇)
+CREATE POLICY "faqs_select_member_policy" ON faqs
+  FOR SELECT USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "faqs_select_public_policy" ON faqs
+  FOR SELECT USING (is_active = true AND is_public_workspace(workspace_id));
+
+CREATE POLICY "faqs_insert_policy" ON faqs
+  FOR INSERT WITH CHECK (is_workspace_member(workspace_id));
+
+CREATE POLICY "faqs_update_policy" ON faqs
+  FOR UPDATE USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "faqs_delete_policy" ON faqs
+  FOR DELETE USING (is_workspace_member(workspace_id));
+
+-- chat_sessions / chat_messages: 공개 워크스페이스는 anon도 생성/읽기/수정, 삭제는 멤버만
+CREATE POLICY "chat_sessions_select_policy" ON chat_sessions
+  FOR SELECT USING (
+    is_workspace_member(workspace_id) OR is_public_workspace(workspace_id)
+  );
+
+CREATE POLICY "chat_sessions_insert_policy" ON chat_sessions
+  FOR INSERT WITH CHECK (
+    is_workspace_member(workspace_id) OR is_public_workspace(workspace_id)
+  );
+
+CREATE POLICY "chat_sessions_update_policy" ON chat_sessions
+  FOR UPDATE USING (
+    is_workspace_member(workspace_id) OR is_public_workspace(workspace_id)
+  );
+
+CREATE POLICY "chat_sessions_delete_policy" ON chat_sessions
+  FOR DELETE USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "chat_messages_select_policy" ON chat_messages
+  FOR SELECT USING (
+    is_workspace_member(workspace_id) OR is_public_workspace(workspace_id)
+  );
+
+CREATE POLICY "chat_messages_insert_policy" ON chat_messages
+  FOR INSERT WITH CHECK (
+    is_workspace_member(workspace_id) OR is_public_workspace(workspace_id)
+  );
+
+CREATE POLICY "chat_messages_update_policy" ON chat_messages
+  FOR UPDATE USING (
+    is_workspace_member(workspace_id) OR is_public_workspace(workspace_id)
+  );
+
+CREATE POLICY "chat_messages_delete_policy" ON chat_messages
+  FOR DELETE USING (is_workspace_member(workspace_id));
+
+-- 8. 검색/통계 RPC: filter_workspace_id 파라미터 추가
+-- 서버(Service Role)는 RLS를 우회하므로 반드시 워크스페이스를 명시해서 호출
+-- NULL이면 RLS로 접근 가능한 모든 워크스페이스 대상
+
+-- 통계 함수용 워크스페이스 범위 테이블 (RLS는 그대로 적용)
+CREATE OR REPLACE FUNCTION workspace_pdf_documents(ws UUID)
+RETURNS SETOF pdf_documents
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT * FROM pdf_documents WHERE ws IS NULL OR workspace_id = ws;
+$$;
+
+CREATE OR REPLACE FUNCTION workspace_pdf_chunks(ws UUID)
+RETURNS SETOF pdf_chunks
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT * FROM pdf_chunks WHERE ws IS NULL OR workspace_id = ws;
+$$;
+
+CREATE OR REPLACE FUNCTION workspace_faqs(ws UUID)
+RETURNS SETOF faqs
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT * FROM faqs WHERE ws IS NULL OR workspace_id = ws;
+$$;
+
+CREATE OR REPLACE FUNCTION workspace_chat_sessions(ws UUID)
+RETURNS SETOF chat_sessions
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT * FROM chat_sessions WHERE ws IS NULL OR workspace_id = ws;
+$$;
+
+CREATE OR REPLACE FUNCTION workspace_chat_messages(ws UUID)
+RETURNS SETOF chat_messages
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT * FROM chat_messages WHERE ws IS NULL OR workspace_id = ws;
+$$;
+
+-- 시그니처가 바뀌므로 기존 함수 삭제 후 재생성
+DROP FUNCTION IF EXISTS search_faqs_by_question(vector, REAL, INTEGER);
+DROP FUNCTION IF EXISTS search_faqs_by_answer(vector, REAL, INTEGER);
+DROP FUNCTION IF EXISTS search_chunks(vector, REAL, INTEGER);
+DROP FUNCTION IF EXISTS search_documents_by_name(vector, REAL, INTEGER);
+DROP FUNCTION IF EXISTS search_faqs_by_keyword(TEXT, INTEGER);
+DROP FUNCTION IF EXISTS search_chunks_by_keyword(TEXT, INTEGER);
+DROP FUNCTION IF EXISTS get_dashboard_metrics();
+DROP FUNCTION IF EXISTS get_chat_analytics(TEXT);
+
+-- FAQ 질문 벡터 검색
+CREATE OR REPLACE FUNCTION search_faqs_by_question(
+  query_embedding vector(768),
+  similarity_threshold REAL DEFAULT 0.45,
+  match_count INTEGER DEFAULT 10,
+  filter_workspace_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id BIGINT,
+  question TEXT,
+  answer TEXT,
+  category TEXT,
+  is_active BOOLEAN,
+  is_featured BOOLEAN,
+  semantic_keywords JSONB,
+  confidence REAL,
+  generation_source TEXT,
+  document_id BIGINT,
+  similarity REAL
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.question,
+    f.answer,
+    f.category,
+    f.is_active,
+    f.is_featured,
+    f.semantic_keywords,
+    f.confidence,
+    f.generation_source,
+    f.document_id,
+    (1 - (f.question_embedding <=> query_embedding))::REAL AS similarity
+  FROM faqs f
+  WHERE f.question_embedding IS NOT NULL
+    AND (filter_workspace_id IS NULL OR f.workspace_id = filter_workspace_id)
+    AND (1 - (f.question_embedding <=> query_embedding)) > similarity_threshold
+  ORDER BY f.question_embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- FAQ 답변 벡터 검색
+CREATE OR REPLACE FUNCTION search_faqs_by_answer(
+  query_embedding vector(768),
+  similarity_threshold REAL DEFAULT 0.45,
+  match_count INTEGER DEFAULT 10,
+  filter_workspace_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id BIGINT,
+  question TEXT,
+  answer TEXT,
+  category TEXT,
+  is_active BOOLEAN,
+  is_featured BOOLEAN,
+  semantic_keywords JSONB,
+  confidence REAL,
+  generation_source TEXT,
+  document_id BIGINT,
+  similarity REAL
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.question,
+    f.answer,
+    f.category,
+    f.is_active,
+    f.is_featured,
+    f.semantic_keywords,
+    f.confidence,
+    f.generation_source,
+    f.document_id,
+    (1 - (f.answer_embedding <=> query_embedding))::REAL AS similarity
+  FROM faqs f
+  WHERE f.answer_embedding IS NOT NULL
+    AND (filter_workspace_id IS NULL OR f.workspace_id = filter_workspace_id)
+    AND (1 - (f.answer_embedding <=> query_embedding)) > similarity_threshold
+  ORDER BY f.answer_embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- 청크 벡터 검색 (출처 문서명/경로 포함)
+CREATE OR REPLACE FUNCTION search_chunks(
+  query_embedding vector(768),
+  similarity_threshold REAL DEFAULT 0.45,
+  match_count INTEGER DEFAULT 10,
+  filter_workspace_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id BIGINT,
+  document_id BIGINT,
+  content TEXT,
+  page_number INTEGER,
+  chunk_index INTEGER,
+  metadata JSONB,
+  similarity REAL,
+  document_name TEXT,
+  file_path TEXT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.document_id,
+    c.content,
+    c.page_number,
+    c.chunk_index,
+    c.metadata,
+    (1 - (c.embeddings <=> query_embedding))::REAL AS similarity,
+    d.name AS document_name,
+    d.file_path
+  FROM pdf_chunks c
+  LEFT JOIN pdf_documents d ON d.id = c.document_id
+  WHERE c.embeddings IS NOT NULL
+    AND (filter_workspace_id IS NULL OR c.workspace_id = filter_workspace_id)
+    AND (1 - (c.embeddings <=> query_embedding)) > similarity_threshold
+  ORDER BY c.embeddings <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- 문서명 벡터 검색
+CREATE OR REPLACE FUNCTION search_documents_by_name(
+  query_embedding vector(768),
+  similarity_threshold REAL DEFAULT 0.3,
+  match_count INTEGER DEFAULT 5,
+  filter_workspace_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id BIGINT,
+  name TEXT,
+  size TEXT,
+  upload_date TEXT,
+  status TEXT,
+  upload_mode TEXT,
+  file_path TEXT,
+  similarity REAL
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    d.id,
+    d.name,
+    d.size,
+    d.upload_date,
+    d.status,
+    d.upload_mode,
+    d.file_path,
+    (1 - (d.name_embedding <=> query_embedding))::REAL AS similarity
+  FROM pdf_documents d
+  WHERE d.name_embedding IS NOT NULL
+    AND (filter_workspace_id IS NULL OR d.workspace_id = filter_workspace_id)
+    AND (1 - (d.name_embedding <=> query_embedding)) > similarity_threshold
+  ORDER BY d.name_embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- FAQ 키워드 검색
+CREATE OR REPLACE FUNCTION search_faqs_by_keyword(
+  query_text TEXT,
+  match_count INTEGER DEFAULT 10,
+  filter_workspace_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id BIGINT,
+  question TEXT,
+  answer TEXT,
+  category TEXT,
+  is_active BOOLEAN,
+  is_featured BOOLEAN,
+  semantic_keywords JSONB,
+  confidence REAL,
+  generation_source TEXT,
+  document_id BIGINT,
+  keyword_rank REAL
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.question,
+    f.answer,
+    f.category,
+    f.is_active,
+    f.is_featured,
+    f.semantic_keywords,
+    f.confidence,
+    f.generation_source,
+    f.document_id,
+    GREATEST(
+      word_similarity(query_text, f.question),
+      word_similarity(query_text, f.answer) * 0.9
+    )::REAL AS keyword_rank
+  FROM faqs f
+  WHERE f.is_active = true
+    AND (filter_workspace_id IS NULL OR f.workspace_id = filter_workspace_id)
+    AND (query_text <% f.question OR query_text <% f.answer)
+  ORDER BY GREATEST(
+      word_similarity(query_text, f.question),
+      word_similarity(query_text, f.answer) * 0.9
+    ) DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- 청크 키워드 검색 (출처 문서명/경로 포함)
+CREATE OR REPLACE FUNCTION search_chunks_by_keyword(
+  query_text TEXT,
+  match_count INTEGER DEFAULT 10,
+  filter_workspace_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id BIGINT,
+  document_id BIGINT,
+  content TEXT,
+  page_number INTEGER,
+  chunk_index INTEGER,
+  metadata JSONB,
+  keyword_rank REAL,
+  document_name TEXT,
+  file_path TEXT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.document_id,
+    c.content,
+    c.page_number,
+    c.chunk_index,
+    c.metadata,
+    word_similarity(query_text, c.content)::REAL AS keyword_rank,
+    d.name AS document_name,
+    d.file_path
+  FROM pdf_chunks c
+  LEFT JOIN pdf_documents d ON d.id = c.document_id
+  WHERE query_text <% c.content
+    AND (filter_workspace_id IS NULL OR c.workspace_id = filter_workspace_id)
+  ORDER BY word_similarity(query_text, c.content) DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- 대시보드 메트릭스 조회
+CREATE OR REPLACE FUNCTION get_dashboard_metrics(
+  filter_workspace_id UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  result JSON;
+BEGIN
+  SELECT json_build_object(
+    'totalFaqs', (SELECT COUNT(*) FROM workspace_faqs(filter_workspace_id) faqs WHERE is_active = true),
+    'monthlyQuestions', (
+      SELECT COUNT(*)
+      FROM workspace_chat_messages(filter_workspace_id) chat_messages
+      WHERE sender = 'user'
+        AND EXTRACT(YEAR FROM timestamp::TIMESTAMP) = EXTRACT(YEAR FROM NOW())
+        AND EXTRACT(MONTH FROM timestamp::TIMESTAMP) = EXTRACT(MONTH FROM NOW())
+    ),
+    'responseRate', (
+      SELECT CASE
+        WHEN COUNT(*) = 0 THEN 0
+        ELSE COUNT(*) FILTER (WHERE is_resolved = true)::FLOAT / COUNT(*)::FLOAT
+      END
+      FROM workspace_chat_sessions(filter_workspace_id) chat_sessions
+    ),
+    'avgResponseTimeMs', (
+      SELECT AVG(response_time)
+      FROM workspace_chat_messages(filter_workspace_id) chat_messages
+      WHERE response_time IS NOT NULL AND response_time > 0
+    ),
+    'lastActivity', (
+      SELECT MAX(combined.timestamp)
+      FROM (
+        SELECT created_at::TEXT AS timestamp FROM workspace_faqs(filter_workspace_id) faqs
+        UNION ALL
+        SELECT created_at::TEXT AS timestamp FROM workspace_pdf_documents(filter_workspace_id) pdf_documents
+        UNION ALL
+        SELECT timestamp FROM workspace_chat_messages(filter_workspace_id) chat_messages
+      ) combined
+    ),
+    'satisfactionAverage', (
+      SELECT AVG(satisfaction)
+      FROM workspace_chat_sessions(filter_workspace_id) chat_sessions
+      WHERE satisfaction IS NOT NULL
+    ),
+    'satisfactionCount', (
+      SELECT COUNT(*)
+      FROM workspace_chat_sessions(filter_workspace_id) chat_sessions
+      WHERE satisfaction IS NOT NULL
+    ),
+    'faqCategoryDistribution', (
+      SELECT COALESCE(json_agg(row_to_json(t)), '[]'::JSON)
+      FROM (
+        SELECT
+          COALESCE(category, '미분류') AS category,
+          COUNT(*) AS count
+        FROM workspace_faqs(filter_workspace_id) faqs
+        GROUP BY category
+        ORDER BY count DESC
+        LIMIT 6
+      ) t
+    ),
+    'recentActivities', (
+      SELECT COALESCE(json_agg(row_to_json(t)), '[]'::JSON)
+      FROM (
+        SELECT * FROM (
+          SELECT
+            'FAQ 추가' AS action,
+            question AS item,
+            created_at::TEXT AS timestamp
+          FROM workspace_faqs(filter_workspace_id) faqs
+          UNION ALL
+          SELECT
+            '문서 업로드' AS action,
+            name AS item,
+            created_at::TEXT AS timestamp
+          FROM workspace_pdf_documents(filter_workspace_id) pdf_documents
+        ) activities
+        WHERE timestamp IS NOT NULL
+        ORDER BY timestamp DESC
+        LIMIT 6
+      ) t
+    ),
+    'recentConversations', (
+      SELECT COALESCE(json_agg(row_to_json(t)), '[]'::JSON)
+      FROM (
+        SELECT
+          um.session_id AS "sessionId",
+          um.message AS "userMessage",
+          COALESCE(bm.message, '응답 없음') AS "botResponse",
+          um.timestamp,
+          cs.satisfaction,
+          bm.confidence
+        FROM workspace_chat_messages(filter_workspace_id) um
+        LEFT JOIN LATERAL (
+          SELECT message, confidence
+          FROM workspace_chat_messages(filter_workspace_id) chat_messages
+          WHERE session_id = um.session_id
+            AND sender = 'bot'
+            AND id > um.id
+          ORDER BY id ASC
+          LIMIT 1
+        ) bm ON true
+        LEFT JOIN workspace_chat_sessions(filter_workspace_id) cs ON cs.session_id = um.session_id
+        WHERE um.sender = 'user'
+        ORDER BY um.timestamp DESC
+        LIMIT 5
+      ) t
+    )
+  ) INTO result;
+
+  RETURN result;
+END;
+$$;
+
+-- 채팅 분석 (피드백 집계 포함)
+CREATE OR REPLACE FUNCTION get_chat_analytics(
+  period TEXT DEFAULT 'month',
+  filter_workspace_id UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  result JSON;
+  date_filter INTERVAL;
+BEGIN
+  -- 화이트리스트 기반 기간 필터 (SQL Injection 방지)
+  date_filter := CASE period
+    WHEN 'today' THEN INTERVAL '1 day'
+    WHEN 'week' THEN INTERVAL '7 days'
+    WHEN 'month' THEN INTERVAL '30 days'
+    ELSE INTERVAL '30 days'
+  END;
+
+  SELECT json_build_object(
+    'hourlyDistribution', (
+      SELECT json_agg(row_to_json(t))
+      FROM (
+        SELECT
+          lpad(hour_num::TEXT, 2, '0') AS hour,
+          COALESCE(counts.count, 0) AS count
+        FROM generate_series(0, 23) AS hour_num
+        LEFT JOIN (
+          SELECT
+            EXTRACT(HOUR FROM timestamp::TIMESTAMP)::INTEGER AS hour,
+            COUNT(*) AS count
+          FROM workspace_chat_messages(filter_workspace_id) chat_messages
+          WHERE sender = 'user'
+            AND timestamp IS NOT NULL
+            AND timestamp::TIMESTAMP >= NOW() - date_filter
+          GROUP BY EXTRACT(HOUR FROM timestamp::TIMESTAMP)
+        ) counts ON counts.hour = hour_num
+        ORDER BY hour_num
+      ) t
+    ),
+    'topQuestions', (
+      SELECT COALESCE(json_agg(row_to_json(t)), '[]'::JSON)
+      FROM (
+        SELECT
+          COALESCE(f.question, '미지정 FAQ') AS question,
+          f.category,
+          COUNT(*) AS count
+        FROM workspace_chat_messages(filter_workspace_id) cm
+        JOIN workspace_faqs(filter_workspace_id) f ON f.id = cm.source_faq
+        WHERE cm.sender = 'bot'
+          AND cm.source_faq IS NOT NULL
+          AND cm.timestamp::TIMESTAMP >= NOW() - date_filter
+        GROUP BY f.id, f.question, f.category
+        ORDER BY count DESC
+        LIMIT 5
+      ) t
+    ),
+    'satisfactionAverage', (
+      SELECT AVG(satisfaction)
+      FROM workspace_chat_sessions(filter_workspace_id) chat_sessions
+      WHERE satisfaction IS NOT NULL
+        AND start_time::TIMESTAMP >= NOW() - date_filter
+    ),
+    'resolutionRate', (
+      SELECT CASE
+        WHEN COUNT(*) = 0 THEN NULL
+        ELSE COUNT(*) FILTER (WHERE is_resolved = true)::FLOAT / COUNT(*)::FLOAT
+      END
+      FROM workspace_chat_sessions(filter_workspace_id) chat_sessions
+      WHERE start_time::TIMESTAMP >= NOW() - date_filter
+    ),
+    'activeUsers', (
+      SELECT COUNT(DISTINCT
+        COALESCE(
+          NULLIF(TRIM(user_email), ''),
+          NULLIF(TRIM(user_name), ''),
+          session_id
+        )
+      )
+      FROM workspace_chat_sessions(filter_workspace_id) chat_sessions
+      WHERE start_time::TIMESTAMP >= NOW() - date_filter
+    ),
+    'feedbackSummary', (
+      SELECT json_build_object(
+        'helpful', COUNT(*) FILTER (WHERE feedback = 'helpful'),
+        'unhelpful', COUNT(*) FILTER (WHERE feedback = 'unhelpful')
+      )
+      FROM workspace_chat_messages(filter_workspace_id) chat_messages
+      WHERE sender = 'bot'
+        AND feedback IS NOT NULL
+        AND timestamp::TIMESTAMP >= NOW() - date_filter
+    ),
+    'worstFaqs', (
+      SELECT COALESCE(json_agg(row_to_json(t)), '[]'::JSON)
+      FROM (
+        SELECT
+          f.id AS faq_id,
+          f.question,
+          f.category,
+          COUNT(*) FILTER (WHERE cm.feedback = 'helpful') AS helpful,
+          COUNT(*) FILTER (WHERE cm.feedback = 'unhelpful') AS unhelpful,
+          (array_agg(cm.feedback_reason ORDER BY cm.feedback_at DESC)
+            FILTER (WHERE cm.feedback_reason IS NOT NULL))[1:3] AS reasons
+        FROM workspace_chat_messages(filter_workspace_id) cm
+        JOIN workspace_faqs(filter_workspace_id) f ON f.id = cm.source_faq
+        WHERE cm.sender = 'bot'
+          AND cm.feedback IS NOT NULL
+          AND cm.timestamp::TIMESTAMP >= NOW() - date_filter
+        GROUP BY f.id, f.question, f.category
+        HAVING COUNT(*) FILTER (WHERE cm.feedback = 'unhelpful') > 0
+        ORDER BY unhelpful DESC, helpful ASC
+        LIMIT 5
+      ) t
+    ),
+    'worstChunks', (
+      SELECT COALESCE(json_agg(row_to_json(t)), '[]'::JSON)
+      FROM (
+        SELECT
+          c.id AS chunk_id,
+          d.name AS document_name,
+          c.page_number,
+          LEFT(c.content, 120) AS content_preview,
+          COUNT(*) FILTER (WHERE cm.feedback = 'helpful') AS helpful,
+          COUNT(*) FILTER (WHERE cm.feedback = 'unhelpful') AS unhelpful,
+          (array_agg(cm.feedback_reason ORDER BY cm.feedback_at DESC)
+            FILTER (WHERE cm.feedback_reason IS NOT NULL))[1:3] AS reasons
+        FROM workspace_chat_messages(filter_workspace_id) cm
+        CROSS JOIN LATERAL unnest(cm.source_chunks) AS sc(chunk_id)
+        JOIN workspace_pdf_chunks(filter_workspace_id) c ON c.id = sc.chunk_id
+        JOIN workspace_pdf_documents(filter_workspace_id) d ON d.id = c.document_id
+        WHERE cm.sender = 'bot'
+          AND cm.feedback IS NOT NULL
+          AND cm.timestamp::TIMESTAMP >= NOW() - date_filter
+        GROUP BY c.id, d.name, c.page_number, c.content
+        HAVING COUNT(*) FILTER (WHERE cm.feedback = 'unhelpful') > 0
+        ORDER BY unhelpful DESC, helpful ASC
+        LIMIT 5
+      ) t
+    )
+  ) INTO result;
+
+  RETURN result;
+END;
+$$;
@@ -0,0 +1,143 @@
+-- 워크스페이스 역할 기반 권한 (owner / editor / reviewer / viewer)
+-- owner: 설정/멤버 관리 포함 전체 권한
+-- editor: 문서/청크/FAQ 생성·수정·삭제
+-- reviewer: FAQ 검토(수정) 및 조회
+-- viewer: 조회만
+
+-- 1. 역할 값 확장 (기존 member → editor)
+ALTER TABLE workspace_members DROP CONSTRAINT IF EXISTS workspace_members_role_check;
+
+UPDATE workspace_members SET role = 'editor' WHERE role = 'member';
+
+ALTER TABLE workspace_members
+  ALTER COLUMN role SET DEFAULT 'viewer',
+  ADD CONSTRAINT workspace_members_role_check
+    CHECK (role IN ('owner', 'editor', 'reviewer', 'viewer'));
+
+-- 2. 역할 확인 함수 (min_role 이상 역할 보유 여부)
+CREATE OR REPLACE FUNCTION workspace_role_rank(role_name TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE role_name
+    WHEN 'owner' THEN 4
+    WHEN 'editor' THEN 3
+    WHEN 'reviewer' THEN 2
+    WHEN 'viewer' THEN 1
+    ELSE 0
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION has_workspace_role(ws UUID, min_role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM workspace_members
+    WHERE workspace_id = ws
+      AND user_id = auth.uid()
+      AND workspace_role_rank(role) >= workspace_role_rank(min_role)
+  );
+$$;
+
+-- 3. 멤버 추가 RPC: 역할 검증 + 기본값 viewer
+CREATE OR REPLACE FUNCTION add_workspace_member(
+  target_workspace_id UUID,
+  member_email TEXT,
+  member_role TEXT DEFAULT 'viewer'
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  member_id UUID;
+BEGIN
+  IF NOT is_workspace_owner(target_workspace_id) THEN
+    RAISE EXCEPTION 'Not an owner of the workspace';
+  END IF;
+
+  IF workspace_role_rank(member_role) = 0 THEN
+    RAISE EXCEPTION 'Invalid role: %', member_role;
+  END IF;
+
+  SELECT id INTO member_id
+  FROM auth.users
+  WHERE lower(email) = lower(trim(member_email));
+
+  IF member_id IS NULL THEN
+    RAISE EXCEPTION 'User not found: %', member_email;
+  END IF;
+
+  INSERT INTO workspace_members (workspace_id, user_id, role)
+  VALUES (target_workspace_id, member_id, member_role)
+  ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+END;
+$$;
+
+-- 4. 쓰기 정책을 역할 기준으로 교체 (조회는 모든 멤버 유지)
+DROP POLICY IF EXISTS "pdf_documents_insert_policy" ON pdf_documents;
+DROP POLICY IF EXISTS "pdf_documents_update_policy" ON pdf_documents;
+DROP POLICY IF EXISTS "pdf_documents_delete_policy" ON pdf_documents;
+DROP POLICY IF EXISTS "pdf_chunks_insert_policy" ON pdf_chunks;
+DROP POLICY IF EXISTS "pdf_chunks_update_policy" ON pdf_chunks;
+DROP POLICY IF EXISTS "pdf_chunks_delete_policy" ON pdf_chunks;
+DROP POLICY IF EXISTS "faqs_insert_policy" ON faqs;
+DROP POLICY IF EXISTS "faqs_update_policy" ON faqs;
+DROP POLICY IF EXISTS "faqs_delete_policy" ON faqs;
+DROP POLICY IF EXISTS "settings_insert_policy" ON settings;
+DROP POLICY IF EXISTS "settings_update_policy" ON settings;
+DROP POLICY IF EXISTS "settings_delete_policy" ON settings;
+DROP POLICY IF EXISTS "chat_sessions_delete_policy" ON chat_sessions;
+DROP POLICY IF EXISTS "chat_messages_delete_policy" ON chat_messages;
+
+-- pdf_documents / pdf_chunks: editor 이상
+CREATE POLICY "pdf_documents_insert_policy" ON pdf_documents
+  FOR INSERT WITH CHECK (has_workspace_role(workspace_id, 'editor'));
+
+CREATE POLICY "pdf_documents_update_policy" ON pdf_documents
+  FOR UPDATE USING (has_workspace_role(workspace_id, 'editor'));
+
+CREATE POLICY "pdf_documents_delete_policy" ON pdf_documents
+  FOR DELETE USING (has_workspace_role(workspace_id, 'editor'));
+
+CREATE POLICY "pdf_chunks_insert_policy" ON pdf_chunks
+  FOR INSERT WITH CHECK (has_workspace_role(workspace_id, 'editor'));
+
+CREATE POLICY "pdf_chunks_update_policy" ON pdf_chunks
+  FOR UPDATE USING (has_workspace_role(workspace_id, 'editor'));
+
+CREATE POLICY "pdf_chunks_delete_policy" ON pdf_chunks
+  FOR DELETE USING (has_workspace_role(workspace_id, 'editor'));
+
+-- faqs: 생성/삭제는 editor 이상, 수정(검토)은 reviewer 이상
+CREATE POLICY "faqs_insert_policy" ON faqs
+  FOR INSERT WITH CHECK (has_workspace_role(workspace_id, 'editor'));
+
+CREATE POLICY "faqs_update_policy" ON faqs
+  FOR UPDATE USING (has_workspace_role(workspace_id, 'reviewer'));
+
+CREATE POLICY "faqs_delete_policy" ON faqs
+  FOR DELETE USING (has_workspace_role(workspace_id, 'editor'));
+
+-- settings: owner만 변경 (API 키 등 포함)
+CREATE POLICY "settings_insert_policy" ON settings
+  FOR INSERT WITH CHECK (is_workspace_owner(workspace_id));
+
+CREATE POLICY "settings_update_policy" ON settings
+  FOR UPDATE USING (is_workspace_owner(workspace_id));
+
+CREATE POLICY "settings_delete_policy" ON settings
+  FOR DELETE USING (is_workspace_owner(workspace_id));
+
+-- 채팅 기록 삭제: owner만
+CREATE POLICY "chat_sessions_delete_policy" ON chat_sessions
+  FOR DELETE USING (is_workspace_owner(workspace_id));
+
+CREATE POLICY "chat_messages_delete_policy" ON chat_messages
+  FOR DELETE USING (is_workspace_owner(workspace_id));
@@ -0,0 +1,24 @@
+-- documents 버킷 허용 MIME 타입 확장
+-- PDF/이미지 + Word(DOCX), PowerPoint(PPTX), 한글(HWP/HWPX), TXT/Markdown, HTML
+-- 한글 문서는 브라우저/OS마다 MIME 타입이 달라 별칭 포함 (pdfProcessingService 추출기 레지스트리와 동일)
+
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'application/pdf',
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/x-hwp',
+  'application/haansofthwp',
+  'application/vnd.hancom.hwp',
+  'application/hwp+zip',
+  'application/vnd.hancom.hwpx',
+  'text/plain',
+  'text/markdown',
+  'text/html'
+]
+WHERE id = 'documents';
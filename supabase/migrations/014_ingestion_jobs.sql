@@ -0,0 +1,69 @@
+-- 014_ingestion_jobs.sql
+-- 문서 업로드 후 서버 처리 작업 큐 (FAQ 생성 → 청킹/저장 → 임베딩)
+-- 텍스트 추출/Storage 업로드는 브라우저에서 끝내고 문서 행(status 'processing')과 작업을 함께 등록
+-- 워커(/api/ingestion/worker)가 단계별로 처리하고 실패 시 지수 백오프로 재시도
+-- 관리자 탭을 닫아도 Vercel Cron이 남은 작업을 이어서 처리
+
+CREATE TABLE ingestion_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  document_id BIGINT NOT NULL REFERENCES pdf_documents(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'retrying', 'completed', 'failed')),
+  stage TEXT NOT NULL DEFAULT 'analyzing'
+    CHECK (stage IN ('analyzing', 'chunking', 'embedding', 'completed')),
+  progress INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0, -- 현재 단계 시도 횟수 (단계 진행 시 0으로 초기화)
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMPTZ, -- 워커 점유 만료 시각 (워커 중단 시 이후 재점유)
+  payload JSONB NOT NULL DEFAULT '{}'::JSONB, -- 처리 옵션 (useAI)
+  state JSONB NOT NULL DEFAULT '{}'::JSONB, -- 단계별 결과 (생성된 FAQ 등)
+  last_error TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_ingestion_jobs_workspace_id ON ingestion_jobs(workspace_id);
+CREATE INDEX idx_ingestion_jobs_document_id ON ingestion_jobs(document_id);
+CREATE INDEX idx_ingestion_jobs_pending
+  ON ingestion_jobs (next_attempt_at)
+  WHERE status IN ('queued', 'running', 'retrying');
+
+-- 조회는 워크스페이스 멤버, 생성/변경은 서버(service role)만
+ALTER TABLE ingestion_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "ingestion_jobs_select_policy" ON ingestion_jobs
+  FOR SELECT USING (is_workspace_member(workspace_id));
+
+-- 처리할 작업 점유 (대상 미지정 시 가장 오래 대기한 작업)
+-- 동시 워커는 SKIP LOCKED로 서로 다른 작업을 가져가고, 점유 시 시도 횟수 증가
+CREATE OR REPLACE FUNCTION claim_ingestion_job(
+  target_job_id UUID DEFAULT NULL,
+  lock_seconds INTEGER DEFAULT 90
+)
+RETURNS SETOF ingestion_jobs
+LANGUAGE sql
+AS $$
+  UPDATE ingestion_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_until = NOW() + make_interval(secs => lock_seconds),
+      updated_at = NOW()
+  WHERE id = (
+    SELECT id FROM ingestion_jobs
+    WHERE status IN ('queued', 'running', 'retrying')
+      AND next_attempt_at <= NOW()
+      AND (locked_until IS NULL OR locked_until < NOW())
+      AND (target_job_id IS NULL OR id = target_job_id)
+    ORDER BY next_attempt_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_ingestion_job(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_ingestion_job(UUID, INTEGER) TO service_role;
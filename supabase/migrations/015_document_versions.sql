@@ -0,0 +1,76 @@
+-- 015_document_versions.sql
+-- 문서 새 버전 교체 (문서 ID 유지)
+-- 이전 버전 파일은 Storage에 그대로 두고 document_versions에 기록
+-- 워커가 이전/새 청크를 내용 기준으로 비교해 변경된 청크만 다시 임베딩하고
+-- 변경된 청크를 근거로 하는 FAQ는 삭제하지 않고 검토 필요로 표시
+
+ALTER TABLE pdf_documents ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE faqs ADD COLUMN IF NOT EXISTS needs_review BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE faqs ADD COLUMN IF NOT EXISTS review_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_faqs_needs_review
+  ON faqs (workspace_id)
+  WHERE needs_review = true;
+
+-- document_versions: 교체되기 전 문서 버전 (현재 버전은 pdf_documents)
+CREATE TABLE document_versions (
+  id BIGSERIAL PRIMARY KEY,
+  document_id BIGINT NOT NULL REFERENCES pdf_documents(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  size TEXT NOT NULL,
+  upload_date TEXT NOT NULL,
+  file_path TEXT, -- 이전 버전 파일 (documents 버킷, 문서 삭제 시 함께 삭제)
+  pages INTEGER,
+  replaced_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (document_id, version)
+);
+
+CREATE INDEX idx_document_versions_document_id ON document_versions(document_id);
+
+-- 조회는 워크스페이스 멤버, 생성은 서버(service role)만
+ALTER TABLE document_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "document_versions_select_policy" ON document_versions
+  FOR SELECT USING (is_workspace_member(workspace_id));
+
+-- 근거 청크가 없는 문서 FAQ를 답변과 가장 가까운 청크에 연결
+-- 다음 버전 교체 시 어떤 FAQ가 변경된 내용을 근거로 하는지 판단하는 데 사용
+CREATE OR REPLACE FUNCTION link_faq_source_chunks(
+  target_document_id BIGINT,
+  match_count INTEGER DEFAULT 3,
+  similarity_threshold REAL DEFAULT 0.6
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  linked INTEGER;
+BEGIN
+  UPDATE faqs f
+  SET source_chunk_ids = (
+    SELECT jsonb_agg(c.id ORDER BY c.distance)
+    FROM (
+      SELECT pc.id, pc.embeddings <=> f.answer_embedding AS distance
+      FROM pdf_chunks pc
+      WHERE pc.document_id = target_document_id
+        AND pc.embeddings IS NOT NULL
+        AND (1 - (pc.embeddings <=> f.answer_embedding)) > similarity_threshold
+      ORDER BY pc.embeddings <=> f.answer_embedding
+      LIMIT match_count
+    ) c
+  )
+  WHERE f.document_id = target_document_id
+    AND f.source_chunk_ids IS NULL
+    AND f.answer_embedding IS NOT NULL;
+
+  GET DIAGNOSTICS linked = ROW_COUNT;
+  RETURN linked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION link_faq_source_chunks(BIGINT, INTEGER, REAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION link_faq_source_chunks(BIGINT, INTEGER, REAL) TO service_role;
@@ -0,0 +1,130 @@
+-- 016_faq_duplicates.sql
+-- 중복/유사 FAQ 탐지 및 병합
+-- 질문 임베딩 유사도로 후보를 찾고 (정규화 텍스트 비교는 클라이언트에서 함께 수행)
+-- 병합 시 채팅 로그의 source_faq 참조를 남는 FAQ로 옮긴 뒤 나머지 FAQ 삭제
+
+-- 1. 질문 임베딩과 유사한 FAQ (등록 전 중복 경고용)
+CREATE OR REPLACE FUNCTION find_similar_faqs(
+  query_embedding vector(768),
+  filter_workspace_id UUID,
+  similarity_threshold REAL DEFAULT 0.9,
+  match_count INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  id BIGINT,
+  question TEXT,
+  answer TEXT,
+  category TEXT,
+  similarity REAL
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.question,
+    f.answer,
+    f.category,
+    (1 - (f.question_embedding <=> query_embedding))::REAL AS similarity
+  FROM faqs f
+  WHERE f.workspace_id = filter_workspace_id
+    AND f.question_embedding IS NOT NULL
+    AND (1 - (f.question_embedding <=> query_embedding)) >= similarity_threshold
+  ORDER BY f.question_embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- 2. 워크스페이스 내 유사 질문 쌍 (FAQ별 최근접 이웃 중 임계값 이상, 작은 ID가 faq_id)
+CREATE OR REPLACE FUNCTION find_duplicate_faq_pairs(
+  filter_workspace_id UUID,
+  similarity_threshold REAL DEFAULT 0.9,
+  neighbor_count INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  faq_id BIGINT,
+  duplicate_id BIGINT,
+  similarity REAL
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT DISTINCT
+    LEAST(f.id, n.id) AS faq_id,
+    GREATEST(f.id, n.id) AS duplicate_id,
+    n.similarity
+  FROM faqs f
+  CROSS JOIN LATERAL (
+    SELECT
+      o.id,
+      (1 - (o.question_embedding <=> f.question_embedding))::REAL AS similarity
+    FROM faqs o
+    WHERE o.workspace_id = filter_workspace_id
+      AND o.id <> f.id
+      AND o.question_embedding IS NOT NULL
+    ORDER BY o.question_embedding <=> f.question_embedding
+    LIMIT neighbor_count
+  ) n
+  WHERE f.workspace_id = filter_workspace_id
+    AND f.question_embedding IS NOT NULL
+    AND n.similarity >= similarity_threshold;
+END;
+$$;
+
+-- 3. FAQ 병합: source FAQ를 target으로 합치고 채팅 로그 참조 이전 (editor 이상)
+-- merged_answer 지정 시 target 답변을 교체하고 답변 임베딩은 다시 생성하도록 초기화
+-- 반환값: source_faq 참조를 옮긴 채팅 메시지 수
+CREATE OR REPLACE FUNCTION merge_faqs(
+  target_faq_id BIGINT,
+  source_faq_ids BIGINT[],
+  merged_answer TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  ws UUID;
+  redirected INTEGER;
+BEGIN
+  SELECT workspace_id INTO ws FROM faqs WHERE id = target_faq_id;
+
+  IF ws IS NULL THEN
+    RAISE EXCEPTION 'FAQ not found: %', target_faq_id;
+  END IF;
+
+  IF NOT has_workspace_role(ws, 'editor') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  source_faq_ids := array_remove(source_faq_ids, target_faq_id);
+
+  IF EXISTS (
+    SELECT 1 FROM faqs WHERE id = ANY(source_faq_ids) AND workspace_id <> ws
+  ) THEN
+    RAISE EXCEPTION 'FAQs must belong to the same workspace';
+  END IF;
+
+  UPDATE chat_messages
+  SET source_faq = target_faq_id
+  WHERE workspace_id = ws
+    AND source_faq = ANY(source_faq_ids);
+
+  GET DIAGNOSTICS redirected = ROW_COUNT;
+
+  IF merged_answer IS NOT NULL AND length(trim(merged_answer)) > 0 THEN
+    UPDATE faqs
+    SET answer = merged_answer,
+        answer_embedding = NULL,
+        updated_at = NOW()
+    WHERE id = target_faq_id;
+  END IF;
+
+  DELETE FROM faqs WHERE id = ANY(source_faq_ids) AND workspace_id = ws;
+
+  RETURN redirected;
+END;
+$$;
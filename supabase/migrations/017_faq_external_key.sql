@@ -0,0 +1,10 @@
+-- 017_faq_external_key.sql
+-- FAQ 가져오기/내보내기 왕복용 외부 키
+-- 가져오기 시 ID가 없는 행은 외부 키로 기존 FAQ를 찾아 갱신 (다른 시스템/엑셀 관리 번호)
+
+ALTER TABLE faqs ADD COLUMN IF NOT EXISTS external_key TEXT;
+
+-- 워크스페이스 내에서만 유일 (비어 있으면 제외)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_faqs_workspace_external_key
+  ON faqs (workspace_id, external_key)
+  WHERE external_key IS NOT NULL;
@@ -0,0 +1,294 @@
+-- 018_chunk_edits.sql
+-- 청크 직접 편집 (내용 수정 / 분할 / 인접 청크 병합 / 삭제)
+-- 문서 내 chunk_index를 빈틈없이 유지하고 바뀐 청크는 임베딩을 비워 다시 생성하도록 함
+-- 근거 청크가 바뀐 FAQ는 검토 필요로 표시하고, 변경 내역은 chunk_edits에 기록
+
+-- chunk_edits: 청크 변경 기록 (편집자/전후 내용)
+CREATE TABLE chunk_edits (
+  id BIGSERIAL PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  document_id BIGINT NOT NULL REFERENCES pdf_documents(id) ON DELETE CASCADE,
+  chunk_id BIGINT NOT NULL, -- 병합/삭제로 없어진 청크도 기록하므로 FK 없음
+  action TEXT NOT NULL CHECK (action IN ('edit', 'split', 'merge', 'delete')),
+  related_chunk_id BIGINT, -- split: 새로 생긴 청크, merge: 합쳐져 삭제된 청크
+  chunk_index INTEGER NOT NULL, -- 변경 시점 위치
+  before_content TEXT,
+  after_content TEXT,
+  edited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  editor_email TEXT, -- 계정 삭제 후에도 표시할 편집자
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_chunk_edits_document_id ON chunk_edits (document_id, created_at DESC);
+
+-- 조회는 워크스페이스 멤버, 기록은 아래 RPC만
+ALTER TABLE chunk_edits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "chunk_edits_select_policy" ON chunk_edits
+  FOR SELECT USING (is_workspace_member(workspace_id));
+
+-- 1. 내부용: 편집 대상 청크 조회 + 권한/처리 중 여부 확인
+CREATE OR REPLACE FUNCTION get_editable_chunk(target_chunk_id BIGINT)
+RETURNS pdf_chunks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  c pdf_chunks;
+BEGIN
+  SELECT * INTO c FROM pdf_chunks WHERE id = target_chunk_id;
+
+  IF c.id IS NULL THEN
+    RAISE EXCEPTION 'Chunk not found: %', target_chunk_id;
+  END IF;
+
+  IF NOT has_workspace_role(c.workspace_id, 'editor') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  -- 문서 처리(ingestion) 중에는 워커가 청크를 다시 쓰므로 편집 불가
+  IF EXISTS (
+    SELECT 1 FROM ingestion_jobs
+    WHERE document_id = c.document_id
+      AND status IN ('queued', 'running', 'retrying')
+  ) THEN
+    RAISE EXCEPTION 'Document is being processed';
+  END IF;
+
+  RETURN c;
+END;
+$$;
+
+-- 2. 내부용: 근거 청크가 바뀐 FAQ 검토 필요 표시
+-- source_chunk_ids 중 chunk_ids는 replacement_id로 바꾸고 (NULL이면 제거, 남는 ID가 없으면 NULL)
+CREATE OR REPLACE FUNCTION flag_faqs_for_chunk_change(
+  chunk_ids BIGINT[],
+  replacement_id BIGINT,
+  reason TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE faqs f
+  SET source_chunk_ids = (
+        SELECT jsonb_agg(DISTINCT s.chunk_id)
+        FROM (
+          SELECT CASE
+                   WHEN e.value::BIGINT = ANY(chunk_ids) THEN replacement_id
+                   ELSE e.value::BIGINT
+                 END AS chunk_id
+          FROM jsonb_array_elements_text(f.source_chunk_ids) e
+        ) s
+        WHERE s.chunk_id IS NOT NULL
+      ),
+      needs_review = true,
+      review_reason = reason,
+      updated_at = NOW()
+  WHERE jsonb_typeof(f.source_chunk_ids) = 'array'
+    AND EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(f.source_chunk_ids) e
+      WHERE e.value::BIGINT = ANY(chunk_ids)
+    );
+END;
+$$;
+
+-- 3. 내부용: 변경 기록
+CREATE OR REPLACE FUNCTION record_chunk_edit(
+  c pdf_chunks,
+  edit_action TEXT,
+  related_id BIGINT,
+  after_text TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO chunk_edits (
+    workspace_id, document_id, chunk_id, action, related_chunk_id,
+    chunk_index, before_content, after_content, edited_by, editor_email
+  )
+  VALUES (
+    c.workspace_id, c.document_id, c.id, edit_action, related_id,
+    c.chunk_index, c.content, after_text, auth.uid(),
+    (SELECT email::TEXT FROM auth.users WHERE id = auth.uid())
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_editable_chunk(BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION flag_faqs_for_chunk_change(BIGINT[], BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_chunk_edit(pdf_chunks, TEXT, BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 4. 청크 내용 수정 (editor 이상)
+CREATE OR REPLACE FUNCTION edit_chunk(
+  target_chunk_id BIGINT,
+  new_content TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  c pdf_chunks;
+BEGIN
+  c := get_editable_chunk(target_chunk_id);
+
+  IF length(trim(coalesce(new_content, ''))) = 0 THEN
+    RAISE EXCEPTION 'Chunk content is empty';
+  END IF;
+
+  UPDATE pdf_chunks
+  SET content = new_content, embeddings = NULL
+  WHERE id = c.id;
+
+  PERFORM flag_faqs_for_chunk_change(
+    ARRAY[c.id], c.id, '근거 청크 내용이 수정되었습니다.'
+  );
+  PERFORM record_chunk_edit(c, 'edit', NULL, new_content);
+END;
+$$;
+
+-- 5. 청크 분할: 앞부분은 기존 청크, 뒷부분은 바로 다음 위치의 새 청크
+-- 반환값: 새 청크 ID
+CREATE OR REPLACE FUNCTION split_chunk(
+  target_chunk_id BIGINT,
+  first_content TEXT,
+  second_content TEXT
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  c pdf_chunks;
+  new_id BIGINT;
+BEGIN
+  c := get_editable_chunk(target_chunk_id);
+
+  IF length(trim(coalesce(first_content, ''))) = 0
+     OR length(trim(coalesce(second_content, ''))) = 0 THEN
+    RAISE EXCEPTION 'Chunk content is empty';
+  END IF;
+
+  UPDATE pdf_chunks
+  SET chunk_index = chunk_index + 1
+  WHERE document_id = c.document_id
+    AND chunk_index > c.chunk_index;
+
+  UPDATE pdf_chunks
+  SET content = first_content, embeddings = NULL
+  WHERE id = c.id;
+
+  -- 요약/문맥은 원래 청크 기준이라 새 청크에는 복사하지 않음
+  INSERT INTO pdf_chunks (
+    document_id, workspace_id, content, page_number, chunk_index, metadata
+  )
+  VALUES (
+    c.document_id, c.workspace_id, second_content, c.page_number,
+    c.chunk_index + 1,
+    coalesce(c.metadata, '{}'::JSONB) - 'summary' - 'contextBefore' - 'contextAfter'
+  )
+  RETURNING id INTO new_id;
+
+  -- 원래 청크를 근거로 하던 FAQ는 두 청크 모두 근거로 유지
+  UPDATE faqs
+  SET source_chunk_ids = source_chunk_ids || to_jsonb(new_id)
+  WHERE jsonb_typeof(source_chunk_ids) = 'array'
+    AND source_chunk_ids @> to_jsonb(ARRAY[c.id]);
+
+  PERFORM flag_faqs_for_chunk_change(
+    ARRAY[c.id], c.id, '근거 청크가 분할되었습니다.'
+  );
+  PERFORM record_chunk_edit(c, 'split', new_id, first_content);
+
+  RETURN new_id;
+END;
+$$;
+
+-- 6. 인접 청크 병합: 뒤 청크 내용을 앞 청크에 합치고 뒤 청크 삭제
+-- merged_content 미지정 시 빈 줄로 이어 붙임
+CREATE OR REPLACE FUNCTION merge_chunks(
+  first_chunk_id BIGINT,
+  second_chunk_id BIGINT,
+  merged_content TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  c pdf_chunks;
+  n pdf_chunks;
+  merged TEXT;
+BEGIN
+  c := get_editable_chunk(first_chunk_id);
+  n := get_editable_chunk(second_chunk_id);
+
+  IF n.document_id <> c.document_id
+     OR n.chunk_index <= c.chunk_index
+     OR EXISTS (
+       SELECT 1 FROM pdf_chunks
+       WHERE document_id = c.document_id
+         AND chunk_index > c.chunk_index
+         AND chunk_index < n.chunk_index
+     ) THEN
+    RAISE EXCEPTION 'Chunks are not adjacent';
+  END IF;
+
+  merged := coalesce(
+    NULLIF(trim(merged_content), ''),
+    c.content || E'\n\n' || n.content
+  );
+
+  UPDATE pdf_chunks
+  SET content = merged, embeddings = NULL
+  WHERE id = c.id;
+
+  PERFORM flag_faqs_for_chunk_change(
+    ARRAY[c.id, n.id], c.id, '근거 청크가 병합되었습니다.'
+  );
+  PERFORM record_chunk_edit(c, 'merge', n.id, merged);
+
+  DELETE FROM pdf_chunks WHERE id = n.id;
+
+  UPDATE pdf_chunks
+  SET chunk_index = chunk_index - 1
+  WHERE document_id = c.document_id
+    AND chunk_index > n.chunk_index;
+END;
+$$;
+
+-- 7. 청크 삭제 (뒤 청크 위치를 한 칸씩 당김)
+CREATE OR REPLACE FUNCTION delete_chunk(target_chunk_id BIGINT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  c pdf_chunks;
+BEGIN
+  c := get_editable_chunk(target_chunk_id);
+
+  PERFORM flag_faqs_for_chunk_change(
+    ARRAY[c.id], NULL, '근거 청크가 삭제되었습니다.'
+  );
+  PERFORM record_chunk_edit(c, 'delete', NULL, NULL);
+
+  DELETE FROM pdf_chunks WHERE id = c.id;
+
+  UPDATE pdf_chunks
+  SET chunk_index = chunk_index - 1
+  WHERE document_id = c.document_id
+    AND chunk_index > c.chunk_index;
+END;
+$$;
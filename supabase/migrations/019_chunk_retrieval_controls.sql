@@ -0,0 +1,152 @@
+-- 019_chunk_retrieval_controls.sql
+-- 청크별 검색 포함 여부 + 중요도 가중치를 검색 RPC 안에서 적용
+-- 이전에는 search_chunks가 match_count로 자른 뒤 클라이언트에서 중요도를 곱해
+-- 중요 청크가 잘린 결과 밖에 있으면 반영되지 않았음
+-- 표지/목차 같은 상투적 청크는 ingestion 시 metadata.boilerplateReason으로 제외 추천만 하고
+-- 실제 제외(is_searchable = false)는 관리자가 청킹 관리에서 결정
+
+ALTER TABLE pdf_chunks ADD COLUMN IF NOT EXISTS is_searchable BOOLEAN NOT NULL DEFAULT true;
+
+-- 관리자 지정 중요도 (NULL이면 분석 결과 metadata.importance 사용)
+-- 문서 새 버전에서 같은 내용의 청크를 재사용해도 유지됨
+ALTER TABLE pdf_chunks ADD COLUMN IF NOT EXISTS importance TEXT
+  CHECK (importance IN ('high', 'medium', 'low'));
+
+-- 1. 중요도 → 점수 가중치
+CREATE OR REPLACE FUNCTION chunk_importance_weight(
+  importance TEXT,
+  metadata JSONB
+)
+RETURNS REAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (CASE coalesce(importance, metadata->>'importance')
+    WHEN 'high' THEN 1.2
+    WHEN 'medium' THEN 1.05
+    WHEN 'low' THEN 0.8
+    ELSE 1.0
+  END)::REAL;
+$$;
+
+-- 2. 청크 벡터 검색: 유사도 상위 후보(match_count * 3)를 가중 점수로 다시 정렬 후 자름
+DROP FUNCTION IF EXISTS search_chunks(vector, REAL, INTEGER, UUID);
+
+CREATE OR REPLACE FUNCTION search_chunks(
+  query_embedding vector(768),
+  similarity_threshold REAL DEFAULT 0.45,
+  match_count INTEGER DEFAULT 10,
+  filter_workspace_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id BIGINT,
+  document_id BIGINT,
+  content TEXT,
+  page_number INTEGER,
+  chunk_index INTEGER,
+  metadata JSONB,
+  similarity REAL,
+  importance_weight REAL,
+  document_name TEXT,
+  file_path TEXT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.document_id,
+    r.content,
+    r.page_number,
+    r.chunk_index,
+    r.metadata,
+    r.similarity,
+    r.importance_weight,
+    r.document_name,
+    r.file_path
+  FROM (
+    SELECT
+      c.id,
+      c.document_id,
+      c.content,
+      c.page_number,
+      c.chunk_index,
+      c.metadata,
+      (1 - (c.embeddings <=> query_embedding))::REAL AS similarity,
+      chunk_importance_weight(c.importance, c.metadata) AS importance_weight,
+      d.name AS document_name,
+      d.file_path
+    FROM pdf_chunks c
+    LEFT JOIN pdf_documents d ON d.id = c.document_id
+    WHERE c.embeddings IS NOT NULL
+      AND c.is_searchable = true
+      AND (filter_workspace_id IS NULL OR c.workspace_id = filter_workspace_id)
+      AND (1 - (c.embeddings <=> query_embedding)) > similarity_threshold
+    ORDER BY c.embeddings <=> query_embedding
+    LIMIT match_count * 3
+  ) r
+  ORDER BY r.similarity * r.importance_weight DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- 3. 청크 키워드 검색: 검색 제외 청크 제외 + 같은 방식으로 가중 정렬
+DROP FUNCTION IF EXISTS search_chunks_by_keyword(TEXT, INTEGER, UUID);
+
+CREATE OR REPLACE FUNCTION search_chunks_by_keyword(
+  query_text TEXT,
+  match_count INTEGER DEFAULT 10,
+  filter_workspace_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id BIGINT,
+  document_id BIGINT,
+  content TEXT,
+  page_number INTEGER,
+  chunk_index INTEGER,
+  metadata JSONB,
+  keyword_rank REAL,
+  importance_weight REAL,
+  document_name TEXT,
+  file_path TEXT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.document_id,
+    r.content,
+    r.page_number,
+    r.chunk_index,
+    r.metadata,
+    r.keyword_rank,
+    r.importance_weight,
+    r.document_name,
+    r.file_path
+  FROM (
+    SELECT
+      c.id,
+      c.document_id,
+      c.content,
+      c.page_number,
+      c.chunk_index,
+      c.metadata,
+      word_similarity(query_text, c.content)::REAL AS keyword_rank,
+      chunk_importance_weight(c.importance, c.metadata) AS importance_weight,
+      d.name AS document_name,
+      d.file_path
+    FROM pdf_chunks c
+    LEFT JOIN pdf_documents d ON d.id = c.document_id
+    WHERE query_text <% c.content
+      AND c.is_searchable = true
+      AND (filter_workspace_id IS NULL OR c.workspace_id = filter_workspace_id)
+    ORDER BY word_similarity(query_text, c.content) DESC
+    LIMIT match_count * 3
+  ) r
+  ORDER BY r.keyword_rank * r.importance_weight DESC
+  LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,6 @@
+-- 020_chat_message_retrieval_trace.sql
+-- 봇 답변별 검색 추적 기록 ("왜 이 답변?" 진단용)
+-- 검색 후보(유형/유사도/점수), 임계값, 임베딩 실패 여부, 프롬프트 버전, 모델을 요약해 저장
+-- 서버 chat 파이프라인(/api/chat)이 봇 메시지에만 기록하며, 이전 메시지는 NULL
+
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS retrieval_trace JSONB;
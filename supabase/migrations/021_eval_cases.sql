@@ -0,0 +1,35 @@
+-- 021_eval_cases.sql
+-- RAG 평가용 골든 질문 세트
+-- 관리자 플레이그라운드에서 확인한 질문을 기대 FAQ/청크/답변 사실과 함께 저장
+-- expected_* 가 모두 비어 있고 expect_fallback = true면 "답변하지 말아야 할 질문" (범위 밖)
+
+CREATE TABLE eval_cases (
+  id BIGSERIAL PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  question TEXT NOT NULL,
+  expected_faq_ids BIGINT[] NOT NULL DEFAULT '{}', -- FAQ 삭제 시에도 유지 (평가 시 누락으로 집계)
+  expected_chunk_ids BIGINT[] NOT NULL DEFAULT '{}',
+  expected_facts TEXT[] NOT NULL DEFAULT '{}', -- 답변에 포함되어야 할 사실 (수치/고유명사 등)
+  expect_fallback BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_eval_cases_workspace_id ON eval_cases (workspace_id, created_at DESC);
+
+-- 조회는 워크스페이스 멤버, 작성/수정/삭제는 editor 이상
+ALTER TABLE eval_cases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "eval_cases_select_policy" ON eval_cases
+  FOR SELECT USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "eval_cases_insert_policy" ON eval_cases
+  FOR INSERT WITH CHECK (has_workspace_role(workspace_id, 'editor'));
+
+CREATE POLICY "eval_cases_update_policy" ON eval_cases
+  FOR UPDATE USING (has_workspace_role(workspace_id, 'editor'));
+
+CREATE POLICY "eval_cases_delete_policy" ON eval_cases
+  FOR DELETE USING (has_workspace_role(workspace_id, 'editor'));
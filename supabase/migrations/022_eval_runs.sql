@@ -0,0 +1,31 @@
+-- 022_eval_runs.sql
+-- RAG 평가 실행 기록 (골든 질문 세트 일괄 실행 결과)
+-- 임계값/청킹/프롬프트 변경 전후 실행을 지표(recall@k, MRR, 적중률, 안내 문구 비율)로 비교
+-- results는 질문별 결과 스냅샷 (질문이 나중에 수정/삭제되어도 실행 당시 기준으로 유지)
+
+CREATE TABLE eval_runs (
+  id BIGSERIAL PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  label TEXT, -- 예: "임계값 0.40 시험"
+  settings JSONB NOT NULL, -- 실행 조건 (limit, minSimilarity, 검색 대상, 지시문)
+  prompt_version TEXT,
+  case_count INTEGER NOT NULL DEFAULT 0,
+  metrics JSONB NOT NULL, -- recallAtK, mrr, hitRate, fallbackRate, fallbackAccuracy, factRecall
+  results JSONB NOT NULL DEFAULT '[]',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_eval_runs_workspace_id ON eval_runs (workspace_id, created_at DESC);
+
+-- 조회는 워크스페이스 멤버, 기록/삭제는 editor 이상 (실행 결과는 수정하지 않음)
+ALTER TABLE eval_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "eval_runs_select_policy" ON eval_runs
+  FOR SELECT USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "eval_runs_insert_policy" ON eval_runs
+  FOR INSERT WITH CHECK (has_workspace_role(workspace_id, 'editor'));
+
+CREATE POLICY "eval_runs_delete_policy" ON eval_runs
+  FOR DELETE USING (has_workspace_role(workspace_id, 'editor'));
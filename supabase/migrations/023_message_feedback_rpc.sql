@@ -0,0 +1,58 @@
+-- 023_message_feedback_rpc.sql
+-- 봇 응답 피드백 저장 RPC (공개 챗봇은 chat_messages를 직접 수정하지 않음)
+-- 세션 ID(추측 불가한 난수)를 아는 호출자만 해당 세션 봇 메시지의 피드백 컬럼만 변경
+-- 이후 chat_messages UPDATE 정책 제거 (메시지 본문/검색 추적은 수정 불가)
+
+CREATE OR REPLACE FUNCTION set_message_feedback(
+  target_session_id TEXT,
+  target_message_id BIGINT,
+  new_feedback TEXT,
+  new_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  session_workspace_id UUID;
+BEGIN
+  IF new_feedback IS NOT NULL
+    AND new_feedback NOT IN ('helpful', 'unhelpful') THEN
+    RAISE EXCEPTION 'Invalid feedback: %', new_feedback;
+  END IF;
+
+  SELECT workspace_id INTO session_workspace_id
+  FROM chat_sessions
+  WHERE session_id = target_session_id;
+
+  IF session_workspace_id IS NULL
+    OR NOT (
+      is_public_workspace(session_workspace_id)
+      OR is_workspace_member(session_workspace_id)
+    ) THEN
+    RAISE EXCEPTION 'Chat session not found';
+  END IF;
+
+  UPDATE chat_messages
+  SET
+    feedback = new_feedback,
+    feedback_reason = CASE
+      WHEN new_feedback IS NULL THEN NULL
+      ELSE NULLIF(left(trim(new_reason), 1000), '')
+    END,
+    feedback_at = CASE WHEN new_feedback IS NULL THEN NULL ELSE NOW() END
+  WHERE id = target_message_id
+    AND session_id = target_session_id
+    AND sender = 'bot';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_message_feedback(TEXT, BIGINT, TEXT, TEXT) TO anon, authenticated;
+
+-- 메시지 수정은 위 RPC로만 (삭제 정책은 012 유지)
+DROP POLICY IF EXISTS "chat_messages_update_policy" ON chat_messages;
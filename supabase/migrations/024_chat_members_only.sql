@@ -0,0 +1,181 @@
+-- 024_chat_members_only.sql
+-- chat_sessions / chat_messages 직접 조회/생성/수정은 워크스페이스 멤버만 (공개 워크스페이스 anon 정책 제거)
+-- 공개 챗봇의 대화 기록은 /api/chat(Service Role) 또는 아래 RPC로만 기록
+-- RPC는 세션 ID(추측 불가한 난수)를 아는 호출자만 해당 세션에 쓰고, 허용된 컬럼만 변경
+
+-- 1. 세션 접근 확인 (공개 워크스페이스 또는 멤버, 없거나 접근 불가면 예외)
+CREATE OR REPLACE FUNCTION chat_session_workspace(target_session_id TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  session_workspace_id UUID;
+BEGIN
+  SELECT workspace_id INTO session_workspace_id
+  FROM chat_sessions
+  WHERE session_id = target_session_id;
+
+  IF session_workspace_id IS NULL
+    OR NOT (
+      is_public_workspace(session_workspace_id)
+      OR is_workspace_member(session_workspace_id)
+    ) THEN
+    RAISE EXCEPTION 'Chat session not found';
+  END IF;
+
+  RETURN session_workspace_id;
+END;
+$$;
+
+-- 2. 세션 생성 (이미 있으면 같은 워크스페이스일 때만 기존 세션 반환)
+CREATE OR REPLACE FUNCTION create_chat_session(
+  target_session_id TEXT,
+  target_workspace_id UUID,
+  session_start_time TEXT,
+  session_category TEXT DEFAULT NULL
+)
+RETURNS chat_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  created chat_sessions;
+BEGIN
+  IF NOT (
+    is_public_workspace(target_workspace_id)
+    OR is_workspace_member(target_workspace_id)
+  ) THEN
+    RAISE EXCEPTION 'Workspace not found';
+  END IF;
+
+  INSERT INTO chat_sessions (
+    session_id, workspace_id, user_id, user_name, start_time, status, category
+  )
+  VALUES (
+    target_session_id, target_workspace_id, auth.uid(), '익명 사용자',
+    session_start_time, 'ongoing', session_category
+  )
+  ON CONFLICT (session_id) DO NOTHING;
+
+  SELECT * INTO created
+  FROM chat_sessions
+  WHERE session_id = target_session_id;
+
+  IF created.workspace_id IS DISTINCT FROM target_workspace_id THEN
+    RAISE EXCEPTION 'Chat session belongs to another workspace';
+  END IF;
+
+  RETURN created;
+END;
+$$;
+
+-- 3. 사용자 메시지 기록 + 세션 메시지 수 증가
+-- 발신자는 항상 user (봇 응답/신뢰도/근거 FAQ는 /api/chat이 Service Role로만 기록)
+CREATE OR REPLACE FUNCTION log_chat_message(
+  target_session_id TEXT,
+  message_text TEXT,
+  message_timestamp TEXT,
+  message_kind TEXT DEFAULT 'text'
+)
+RETURNS chat_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  created chat_messages;
+BEGIN
+  PERFORM chat_session_workspace(target_session_id);
+
+  INSERT INTO chat_messages (
+    session_id, timestamp, sender, message, message_type
+  )
+  VALUES (
+    target_session_id, message_timestamp, 'user', message_text, message_kind
+  )
+  RETURNING * INTO created;
+
+  UPDATE chat_sessions
+  SET message_count = message_count + 1, updated_at = NOW()
+  WHERE session_id = target_session_id;
+
+  RETURN created;
+END;
+$$;
+
+-- 4. 세션 상태 갱신 (updates에 포함된 허용 컬럼만 변경)
+CREATE OR REPLACE FUNCTION update_chat_session(
+  target_session_id TEXT,
+  updates JSONB
+)
+RETURNS chat_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated chat_sessions;
+BEGIN
+  PERFORM chat_session_workspace(target_session_id);
+
+  UPDATE chat_sessions
+  SET
+    end_time = CASE WHEN updates ? 'end_time'
+      THEN updates->>'end_time' ELSE end_time END,
+    status = CASE WHEN updates ? 'status'
+      THEN updates->>'status' ELSE status END,
+    satisfaction = CASE WHEN updates ? 'satisfaction'
+      THEN (updates->>'satisfaction')::INTEGER ELSE satisfaction END,
+    category = CASE WHEN updates ? 'category'
+      THEN updates->>'category' ELSE category END,
+    is_resolved = CASE WHEN updates ? 'is_resolved'
+      THEN (updates->>'is_resolved')::BOOLEAN ELSE is_resolved END,
+    tags = CASE WHEN updates ? 'tags'
+      THEN updates->'tags' ELSE tags END,
+    message_count = CASE WHEN updates ? 'message_count'
+      THEN (updates->>'message_count')::INTEGER ELSE message_count END,
+    duration = CASE WHEN updates ? 'duration'
+      THEN updates->>'duration' ELSE duration END,
+    user_name = CASE WHEN updates ? 'user_name'
+      THEN updates->>'user_name' ELSE user_name END,
+    user_email = CASE WHEN updates ? 'user_email'
+      THEN updates->>'user_email' ELSE user_email END,
+    updated_at = NOW()
+  WHERE session_id = target_session_id
+  RETURNING * INTO updated;
+
+  RETURN updated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION chat_session_workspace(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_chat_session(TEXT, UUID, TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION log_chat_message(TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION update_chat_session(TEXT, JSONB) TO anon, authenticated;
+
+-- 5. 직접 조회/생성/수정 정책을 멤버(수정은 reviewer 이상) 전용으로 교체 (삭제 정책은 012 유지, 메시지 수정 정책은 023에서 제거)
+DROP POLICY IF EXISTS "chat_sessions_select_policy" ON chat_sessions;
+DROP POLICY IF EXISTS "chat_sessions_insert_policy" ON chat_sessions;
+DROP POLICY IF EXISTS "chat_sessions_update_policy" ON chat_sessions;
+DROP POLICY IF EXISTS "chat_messages_select_policy" ON chat_messages;
+DROP POLICY IF EXISTS "chat_messages_insert_policy" ON chat_messages;
+
+CREATE POLICY "chat_sessions_select_policy" ON chat_sessions
+  FOR SELECT USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "chat_sessions_insert_policy" ON chat_sessions
+  FOR INSERT WITH CHECK (is_workspace_member(workspace_id));
+
+-- 세션 상태 수정은 reviewer 이상 (012 역할 기준, viewer는 조회만)
+CREATE POLICY "chat_sessions_update_policy" ON chat_sessions
+  FOR UPDATE USING (has_workspace_role(workspace_id, 'reviewer'));
+
+CREATE POLICY "chat_messages_select_policy" ON chat_messages
+  FOR SELECT USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "chat_messages_insert_policy" ON chat_messages
+  FOR INSERT WITH CHECK (is_workspace_member(workspace_id));
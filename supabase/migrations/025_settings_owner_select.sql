@@ -0,0 +1,8 @@
+-- 025_settings_owner_select.sql
+-- settings 조회를 owner로 제한 (gemini_api_key 등 비밀 값이 viewer/reviewer에게 노출되지 않도록)
+-- 설정 화면(시스템 설정)은 owner 전용, 공개 위젯 설정은 /api/widget/config(Service Role)로만 제공
+
+DROP POLICY IF EXISTS "settings_select_policy" ON settings;
+
+CREATE POLICY "settings_select_policy" ON settings
+  FOR SELECT USING (is_workspace_owner(workspace_id));
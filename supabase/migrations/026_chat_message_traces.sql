@@ -0,0 +1,27 @@
+-- 026_chat_message_traces.sql
+-- 봇 답변 검색 추적을 chat_messages에서 멤버 전용 테이블로 분리
+-- 후보 라벨/점수/임계값 등 내부 진단 정보라 chat_messages 정책(세션 RPC 반환값 포함)과 무관하게 멤버만 조회
+-- 기록은 서버 chat 파이프라인(/api/chat, Service Role)만 수행
+
+CREATE TABLE chat_message_traces (
+  message_id BIGINT PRIMARY KEY REFERENCES chat_messages(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  trace JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_chat_message_traces_workspace_id ON chat_message_traces (workspace_id);
+
+-- 기존 기록 이전 후 컬럼 제거
+INSERT INTO chat_message_traces (message_id, workspace_id, trace)
+SELECT id, workspace_id, retrieval_trace
+FROM chat_messages
+WHERE retrieval_trace IS NOT NULL;
+
+ALTER TABLE chat_messages DROP COLUMN IF EXISTS retrieval_trace;
+
+-- 조회는 워크스페이스 멤버만 (쓰기 정책 없음: Service Role 전용)
+ALTER TABLE chat_message_traces ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "chat_message_traces_select_policy" ON chat_message_traces
+  FOR SELECT USING (is_workspace_member(workspace_id));
@@ -0,0 +1,95 @@
+-- 027_storage_workspace_policies.sql
+-- documents 버킷 정책을 워크스페이스 기준으로 교체 (006은 로그인 여부만 확인)
+-- 새 파일 경로: <workspace_id>/<파일명> (경로 첫 폴더로 워크스페이스 판별)
+-- 조회: 멤버 또는 공개 워크스페이스 (공개 챗봇 인용 문서 뷰어)
+-- 업로드/수정/삭제: editor 이상 (012 역할 기준), 이전 버전 파일은 수정 불가
+
+-- 1. 객체 경로 → 워크스페이스 ID
+-- 첫 폴더가 UUID가 아니면 기존 경로(uploads/...)로 보고 문서/버전 레코드에서 조회
+CREATE OR REPLACE FUNCTION storage_object_workspace(object_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  first_folder TEXT := split_part(object_name, '/', 1);
+  legacy_workspace_id UUID;
+BEGIN
+  IF first_folder ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RETURN first_folder::UUID;
+  END IF;
+
+  SELECT workspace_id INTO legacy_workspace_id
+  FROM pdf_documents
+  WHERE file_path = object_name
+  LIMIT 1;
+
+  IF legacy_workspace_id IS NULL THEN
+    SELECT workspace_id INTO legacy_workspace_id
+    FROM document_versions
+    WHERE file_path = object_name
+    LIMIT 1;
+  END IF;
+
+  RETURN legacy_workspace_id;
+END;
+$$;
+
+-- 2. 이전 버전으로 보관된 파일 여부 (document_versions에 기록된 경로)
+CREATE OR REPLACE FUNCTION is_archived_version_file(object_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM document_versions WHERE file_path = object_name
+  );
+$$;
+
+-- 3. 006 정책 교체
+DROP POLICY IF EXISTS "documents_upload_policy" ON storage.objects;
+DROP POLICY IF EXISTS "documents_select_authenticated_policy" ON storage.objects;
+DROP POLICY IF EXISTS "documents_select_anon_policy" ON storage.objects;
+DROP POLICY IF EXISTS "documents_update_policy" ON storage.objects;
+DROP POLICY IF EXISTS "documents_delete_policy" ON storage.objects;
+
+CREATE POLICY "documents_select_policy" ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'documents'
+    AND (
+      is_workspace_member(storage_object_workspace(name))
+      OR is_public_workspace(storage_object_workspace(name))
+    )
+  );
+
+CREATE POLICY "documents_upload_policy" ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'documents'
+    AND has_workspace_role(storage_object_workspace(name), 'editor')
+  );
+
+CREATE POLICY "documents_update_policy" ON storage.objects
+  FOR UPDATE
+  USING (
+    bucket_id = 'documents'
+    AND has_workspace_role(storage_object_workspace(name), 'editor')
+    AND NOT is_archived_version_file(name)
+  )
+  WITH CHECK (
+    bucket_id = 'documents'
+    AND has_workspace_role(storage_object_workspace(name), 'editor')
+    AND NOT is_archived_version_file(name)
+  );
+
+CREATE POLICY "documents_delete_policy" ON storage.objects
+  FOR DELETE
+  USING (
+    bucket_id = 'documents'
+    AND has_workspace_role(storage_object_workspace(name), 'editor')
+  );